@@ -84,5 +84,14 @@ export const DEFAULT_METRICS = {
   gpuTemp: 0,
   gpuLoad: 0,
   gpuClock: 0,
+  gpuPower: 0,
+  gpuFan: 0,
+  cpuPower: 0,
+  ramLoad: 0,
+  ramUsed: 0,
+  vramLoad: 0,
+  vramUsed: 0,
+  pumpSpeed: 0,
+  fanSpeed: 0,
 } as const;
 
@@ -0,0 +1,111 @@
+/**
+ * Custom Metrics Domain Model
+ *
+ * Metrics declared by an external metric bridge (utils/metricBridge.ts), e.g.
+ * HWiNFO exporters or home-lab scripts. They live next to METRIC_DEFINITIONS
+ * without extending it:
+ * - Definitions arrive at runtime and are validated here
+ * - Values are merged into OverlayMetrics.custom (keyed by id)
+ * - Display uses the same unit conversion and number formatting as built-in metrics
+ */
+
+import type { CustomMetricDefinition, CustomMetricSample, MetricFormatOptions, OverlayMetrics } from '../types/overlay';
+import { formatMetricNumber, getDefinitionDisplayInfo, MAX_METRIC_DECIMALS, type MetricDefinition, type MetricDisplayInfo, type MetricUnitType } from './metrics';
+
+/**
+ * Maximum number of custom metrics accepted from a bridge.
+ */
+export const MAX_CUSTOM_METRICS = 64;
+
+/**
+ * Maximum label / unit length (characters).
+ */
+export const MAX_CUSTOM_METRIC_LABEL_LENGTH = 32;
+export const MAX_CUSTOM_METRIC_UNIT_LENGTH = 8;
+
+const CUSTOM_METRIC_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+const UNIT_TYPES: readonly MetricUnitType[] = ['temp', 'percent', 'clock', 'memory', 'power', 'rpm', 'none'];
+
+/**
+ * Checks whether a string is a valid custom metric id.
+ */
+export function isValidCustomMetricId(value: unknown): value is string {
+  return typeof value === 'string' && CUSTOM_METRIC_ID_PATTERN.test(value);
+}
+
+/**
+ * Checks whether a value is a valid custom metric definition.
+ */
+export function isValidCustomMetricDefinition(value: unknown): value is CustomMetricDefinition {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const definition = value as Record<string, unknown>;
+  const isOptionalNumber = (n: unknown) => n === undefined || (typeof n === 'number' && Number.isFinite(n));
+  return (
+    isValidCustomMetricId(definition.id) &&
+    typeof definition.label === 'string' &&
+    definition.label.length <= MAX_CUSTOM_METRIC_LABEL_LENGTH &&
+    typeof definition.unit === 'string' &&
+    definition.unit.length <= MAX_CUSTOM_METRIC_UNIT_LENGTH &&
+    UNIT_TYPES.includes(definition.unitType as MetricUnitType) &&
+    isOptionalNumber(definition.min) &&
+    isOptionalNumber(definition.max) &&
+    (definition.decimals === undefined ||
+      (Number.isInteger(definition.decimals) && (definition.decimals as number) >= 0 && (definition.decimals as number) <= MAX_METRIC_DECIMALS))
+  );
+}
+
+/**
+ * Builds a MetricDefinition so custom metrics share the built-in display logic.
+ */
+export function toMetricDefinition(definition: CustomMetricDefinition): MetricDefinition {
+  const decimals = definition.decimals ?? 0;
+  return {
+    label: definition.label,
+    unit: definition.unit,
+    unitType: definition.unitType,
+    format: (value: number) => formatMetricNumber(value, decimals),
+    decimals,
+    defaultMin: definition.min ?? 0,
+    defaultMax: definition.max ?? 100,
+  };
+}
+
+/**
+ * Definition used while a bound custom metric is not provided by the bridge
+ * (bridge offline or metric removed). Shows the id and no unit.
+ */
+export function getMissingCustomMetricDefinition(id: string): CustomMetricDefinition {
+  return { id, label: id, unit: '', unitType: 'none' };
+}
+
+/**
+ * Get display information for a custom metric value.
+ *
+ * @param definition - Custom metric definition
+ * @param rawValue - Raw value from the bridge
+ * @param options - Optional unit conversion and number formatting
+ */
+export function getCustomMetricDisplayInfo(
+  definition: CustomMetricDefinition,
+  rawValue: number,
+  options?: MetricFormatOptions
+): MetricDisplayInfo {
+  return getDefinitionDisplayInfo(toMetricDefinition(definition), rawValue, options);
+}
+
+/**
+ * Returns metrics with the custom samples attached.
+ * The base object is returned unchanged when there are no custom metrics.
+ */
+export function withCustomMetrics(
+  base: OverlayMetrics,
+  custom: Record<string, CustomMetricSample>
+): OverlayMetrics {
+  if (Object.keys(custom).length === 0) {
+    return base;
+  }
+  return { ...base, custom };
+}
@@ -0,0 +1,167 @@
+/**
+ * Derived Metrics Domain Model
+ *
+ * Per-preset metrics computed from other metrics with the expression language
+ * in domain/metricExpression.ts (e.g. "hottest component" = max(cpuTemp, gpuTemp)).
+ *
+ * - Results are merged into OverlayMetrics.custom under the definition id, so
+ *   metric elements bind them like custom bridge metrics (customMetric)
+ * - Expressions may reference NZXT metric keys, custom bridge metrics and
+ *   derived metrics defined earlier in the list (no cycles by construction)
+ * - A result is stale when any input is stale, and missing when any input is missing
+ */
+
+import type { CustomMetricSample, DerivedMetricDefinition, OverlayMetricKey, OverlayMetrics } from '../types/overlay';
+import { isValidCustomMetricDefinition } from './customMetrics';
+import { isMetricKey } from './metrics';
+import {
+  evaluateMetricExpression,
+  getMetricExpressionNames,
+  MetricExpressionError,
+  parseMetricExpression,
+  type MetricExpressionNode,
+} from './metricExpression';
+
+/**
+ * Maximum number of derived metrics per preset.
+ */
+export const MAX_DERIVED_METRICS = 16;
+
+const DERIVED_METRIC_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]{0,31}$/;
+
+/**
+ * Derived metric with its parsed expression.
+ */
+export interface CompiledDerivedMetric {
+  definition: DerivedMetricDefinition;
+  expression: MetricExpressionNode;
+}
+
+/**
+ * Validates one definition against the definitions before it.
+ *
+ * @param value - Definition candidate
+ * @param previousIds - Ids of the definitions before it (the only derived metrics it may reference)
+ * @returns Error message, or null when valid
+ */
+export function validateDerivedMetricDefinition(value: unknown, previousIds: readonly string[]): string | null {
+  if (!isValidCustomMetricDefinition(value) || typeof (value as { expression?: unknown }).expression !== 'string') {
+    return 'Derived metric needs an id, label, unit, unit type and expression';
+  }
+  const definition = value as DerivedMetricDefinition;
+  if (!DERIVED_METRIC_ID_PATTERN.test(definition.id)) {
+    return `Derived metric id "${definition.id}" must start with a letter and contain only letters, digits and "_"`;
+  }
+  if (isMetricKey(definition.id)) {
+    return `Derived metric id "${definition.id}" is already a metric`;
+  }
+  if (previousIds.includes(definition.id)) {
+    return `Derived metric id "${definition.id}" is used twice`;
+  }
+
+  let expression: MetricExpressionNode;
+  try {
+    expression = parseMetricExpression(definition.expression);
+  } catch (error) {
+    return error instanceof MetricExpressionError
+      ? `${error.message} (at ${error.position + 1})`
+      : 'Invalid expression';
+  }
+  if (getMetricExpressionNames(expression).includes(definition.id)) {
+    return `Derived metric "${definition.id}" cannot reference itself`;
+  }
+  return null;
+}
+
+/**
+ * Keeps the valid definitions (in order) and reports the invalid ones.
+ * References to derived metrics defined later are invalid, which rules out cycles.
+ */
+export function sanitizeDerivedMetrics(value: unknown): {
+  definitions: DerivedMetricDefinition[];
+  errors: Array<{ index: number; message: string }>;
+} {
+  const definitions: DerivedMetricDefinition[] = [];
+  const errors: Array<{ index: number; message: string }> = [];
+  if (!Array.isArray(value)) {
+    return { definitions, errors: value === undefined ? [] : [{ index: -1, message: 'Derived metrics must be an array' }] };
+  }
+
+  const allIds = value.map(entry => (entry as { id?: unknown } | null)?.id);
+  value.forEach((entry, index) => {
+    if (definitions.length >= MAX_DERIVED_METRICS) {
+      errors.push({ index, message: `Only ${MAX_DERIVED_METRICS} derived metrics are allowed` });
+      return;
+    }
+    const previousIds = definitions.map(definition => definition.id);
+    const message = validateDerivedMetricDefinition(entry, previousIds);
+    if (message) {
+      errors.push({ index, message });
+      return;
+    }
+    const definition = entry as DerivedMetricDefinition;
+    const laterId = getMetricExpressionNames(parseMetricExpression(definition.expression))
+      .find(name => !previousIds.includes(name) && allIds.includes(name));
+    if (laterId) {
+      errors.push({ index, message: `Derived metric "${definition.id}" references "${laterId}", which is not defined before it` });
+      return;
+    }
+    definitions.push(definition);
+  });
+  return { definitions, errors };
+}
+
+/**
+ * Parses the expressions of valid definitions (invalid ones are skipped).
+ */
+export function compileDerivedMetrics(definitions: readonly DerivedMetricDefinition[]): CompiledDerivedMetric[] {
+  return sanitizeDerivedMetrics(definitions).definitions.map(definition => ({
+    definition,
+    expression: parseMetricExpression(definition.expression),
+  }));
+}
+
+/**
+ * Evaluates derived metrics against the current metrics.
+ * Results without a value (missing inputs, division by zero) are omitted.
+ */
+export function computeDerivedMetrics(
+  compiled: readonly CompiledDerivedMetric[],
+  metrics: OverlayMetrics
+): Record<string, CustomMetricSample> {
+  const results: Record<string, CustomMetricSample> = {};
+
+  compiled.forEach(({ definition, expression }) => {
+    let stale = false;
+    const value = evaluateMetricExpression(expression, (name) => {
+      if (isMetricKey(name)) {
+        const key = name as OverlayMetricKey;
+        const freshness = metrics.freshness?.[key];
+        if (freshness === 'missing') return undefined;
+        stale = stale || freshness === 'stale';
+        return metrics[key];
+      }
+      const sample = results[name] ?? metrics.custom?.[name];
+      stale = stale || sample?.stale === true;
+      return sample?.value;
+    });
+
+    if (Number.isFinite(value)) {
+      results[definition.id] = { definition, value, stale };
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Returns metrics with derived results merged into the custom metrics
+ * (derived ids take precedence over bridge metrics with the same id).
+ * The base object is returned unchanged when there are no derived metrics.
+ */
+export function withDerivedMetrics(base: OverlayMetrics, compiled: readonly CompiledDerivedMetric[]): OverlayMetrics {
+  if (compiled.length === 0) {
+    return base;
+  }
+  return { ...base, custom: { ...base.custom, ...computeDerivedMetrics(compiled, base) } };
+}
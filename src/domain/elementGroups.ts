@@ -0,0 +1,213 @@
+/**
+ * Element Groups Domain Model
+ *
+ * Groups are regular overlay elements (type "group") that reference other
+ * elements by id (GroupElementData.childIds).
+ *
+ * - Children keep absolute coordinates; a group transform (move, rotate,
+ *   aspect-locked resize) is applied to every child around the group center
+ * - Each element belongs to at most one group; groups can be nested, never cyclic
+ * - A group needs at least one existing child (empty groups are dropped)
+ */
+
+import type { GroupElementData, OverlayElement } from '../types/overlay';
+import {
+  isBarElementData,
+  isClockElementData,
+  isDateElementData,
+  isDividerElementData,
+  isGaugeElementData,
+  isGraphElementData,
+  isGroupElementData,
+  isImageElementData,
+  isMetricElementData,
+  isTemplateElementData,
+  isTextElementData,
+  isTimerElementData,
+} from '../types/overlay';
+import { scaleTextElementData } from './richText';
+
+/**
+ * Minimum number of elements needed to create a group.
+ */
+export const MIN_GROUP_CHILDREN = 2;
+
+/**
+ * Group element (type "group" with valid group data).
+ */
+export type GroupElement = OverlayElement & { type: 'group'; data: GroupElementData };
+
+/**
+ * Checks whether an element is a group.
+ */
+export function isGroupElement(element: OverlayElement | undefined | null): element is GroupElement {
+  return element?.type === 'group' && isGroupElementData(element.data);
+}
+
+/**
+ * Collects the ids of all elements that belong to a group.
+ */
+export function getGroupedElementIds(elements: Iterable<OverlayElement>): Set<string> {
+  const groupedIds = new Set<string>();
+  for (const element of elements) {
+    if (isGroupElement(element)) element.data.childIds.forEach(childId => groupedIds.add(childId));
+  }
+  return groupedIds;
+}
+
+/**
+ * Drops invalid group references from an element list (non-mutating).
+ *
+ * Child ids are dropped when they are missing, reference the group itself,
+ * already belong to an earlier group or would create a cycle. Groups left
+ * without children are removed (repeated until stable, so removing a nested
+ * empty group also cleans its parent).
+ *
+ * @returns Sanitized elements and the ids of groups that were changed or removed
+ */
+export function sanitizeElementGroups(elements: readonly OverlayElement[]): {
+  elements: OverlayElement[];
+  changedGroupIds: string[];
+} {
+  let current = [...elements];
+  const changedGroupIds = new Set<string>();
+
+  for (;;) {
+    const ids = new Set(current.map(element => element.id));
+    const parentById = new Map<string, string>();
+    const isAncestor = (candidateId: string, groupId: string): boolean => {
+      for (let id: string | undefined = groupId; id !== undefined; id = parentById.get(id)) {
+        if (id === candidateId) return true;
+      }
+      return false;
+    };
+
+    const next = current.map(element => {
+      if (!isGroupElement(element)) {
+        return element;
+      }
+      const childIds = element.data.childIds.filter((childId, index, all) => {
+        if (typeof childId !== 'string' || !ids.has(childId) || all.indexOf(childId) !== index) return false;
+        if (parentById.has(childId) || isAncestor(childId, element.id)) return false;
+        parentById.set(childId, element.id);
+        return true;
+      });
+      if (childIds.length === element.data.childIds.length) {
+        return element;
+      }
+      changedGroupIds.add(element.id);
+      return { ...element, data: { ...element.data, childIds } };
+    });
+
+    const withoutEmpty = next.filter(element => !isGroupElement(element) || element.data.childIds.length > 0);
+    if (withoutEmpty.length === next.length) {
+      return { elements: withoutEmpty, changedGroupIds: [...changedGroupIds] };
+    }
+    next.forEach(element => {
+      if (isGroupElement(element) && element.data.childIds.length === 0) changedGroupIds.add(element.id);
+    });
+    current = withoutEmpty;
+  }
+}
+
+/**
+ * Scales an element's size by a factor (position is not changed).
+ * Uses the same size fields as resizing; elements without a size are returned as-is.
+ */
+export function scaleElementSize(element: OverlayElement, factor: number): OverlayElement {
+  if (!(factor > 0) || factor === 1) {
+    return element;
+  }
+  const { data } = element;
+
+  if (element.type === 'metric' && isMetricElementData(data)) {
+    return { ...element, data: { ...data, numberSize: (data.numberSize || 180) * factor } };
+  } else if (element.type === 'text' && isTextElementData(data)) {
+    return { ...element, data: scaleTextElementData(data, (data.textSize || 45) * factor) };
+  } else if (element.type === 'clock' && isClockElementData(data) && data.style === 'analog') {
+    return { ...element, data: { ...data, dialSize: (data.dialSize || 240) * factor } };
+  } else if ((element.type === 'clock' && isClockElementData(data)) || (element.type === 'date' && isDateElementData(data))) {
+    return { ...element, data: { ...data, fontSize: (data.fontSize || 45) * factor } };
+  } else if (element.type === 'timer' && isTimerElementData(data)) {
+    return { ...element, data: { ...data, fontSize: (data.fontSize || 45) * factor } };
+  } else if (element.type === 'template' && isTemplateElementData(data)) {
+    return { ...element, data: { ...data, textSize: (data.textSize || 45) * factor } };
+  } else if (element.type === 'gauge' && isGaugeElementData(data)) {
+    return { ...element, data: { ...data, size: (data.size || 200) * factor } };
+  } else if (
+    (element.type === 'divider' && isDividerElementData(data)) ||
+    (element.type === 'graph' && isGraphElementData(data)) ||
+    (element.type === 'bar' && isBarElementData(data)) ||
+    (element.type === 'image' && isImageElementData(data)) ||
+    (element.type === 'group' && isGroupElementData(data))
+  ) {
+    return { ...element, data: { ...data, width: data.width * factor, height: data.height * factor } };
+  }
+  return element;
+}
+
+/**
+ * Normalizes an angle to 0-360 degrees.
+ */
+function normalizeAngle(angle: number): number {
+  const normalized = ((angle % 360) + 360) % 360;
+  return normalized === 360 ? 0 : normalized;
+}
+
+/**
+ * Applies a group transform (previous group frame → next group frame) to a child.
+ *
+ * The child offset from the group center is rotated by the angle change and
+ * scaled by the width change (group resize is aspect-locked); the child angle
+ * and size change by the same amounts.
+ *
+ * @param child - Child element (absolute coordinates)
+ * @param previousGroup - Group before the transform
+ * @param nextGroup - Group after the transform
+ * @returns Transformed child
+ */
+export function transformGroupChild(
+  child: OverlayElement,
+  previousGroup: GroupElement,
+  nextGroup: GroupElement
+): OverlayElement {
+  const scale = previousGroup.data.width > 0 ? nextGroup.data.width / previousGroup.data.width : 1;
+  const deltaAngle = (nextGroup.angle ?? 0) - (previousGroup.angle ?? 0);
+  const radians = (deltaAngle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  const offsetX = (child.x - previousGroup.x) * scale;
+  const offsetY = (child.y - previousGroup.y) * scale;
+
+  const moved: OverlayElement = {
+    ...child,
+    x: nextGroup.x + offsetX * cos - offsetY * sin,
+    y: nextGroup.y + offsetX * sin + offsetY * cos,
+    ...((child.angle !== undefined || deltaAngle !== 0) && { angle: normalizeAngle((child.angle ?? 0) + deltaAngle) }),
+  };
+  return scaleElementSize(moved, scale);
+}
+
+/**
+ * Collects the ids of all descendants of hidden groups (a hidden group hides
+ * its whole subtree, whatever the children's own flags are).
+ */
+export function getHiddenGroupDescendantIds(elements: readonly OverlayElement[]): Set<string> {
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const hiddenIds = new Set<string>();
+
+  const hideChildren = (group: GroupElement) => {
+    for (const childId of group.data.childIds) {
+      if (hiddenIds.has(childId)) continue;
+      hiddenIds.add(childId);
+      const child = byId.get(childId);
+      if (isGroupElement(child)) hideChildren(child);
+    }
+  };
+
+  for (const element of elements) {
+    if (element.hidden && isGroupElement(element)) hideChildren(element);
+  }
+  return hiddenIds;
+}
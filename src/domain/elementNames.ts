@@ -0,0 +1,26 @@
+/**
+ * Element Names
+ *
+ * Optional user-defined layer names (OverlayElement.name).
+ * Names are trimmed, limited in length and stored only when non-empty
+ * (absent = the type-based default label is shown).
+ */
+
+/**
+ * Maximum layer name length (characters).
+ */
+export const MAX_ELEMENT_NAME_LENGTH = 64;
+
+/**
+ * Normalizes a layer name.
+ *
+ * @param value - Raw name (any value)
+ * @returns Trimmed name, or undefined when the value is not a string or empty
+ */
+export function sanitizeElementName(value: unknown): string | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const name = value.trim().slice(0, MAX_ELEMENT_NAME_LENGTH).trim();
+  return name.length > 0 ? name : undefined;
+}
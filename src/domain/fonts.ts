@@ -0,0 +1,73 @@
+/**
+ * Font Domain Model
+ *
+ * Elements reference fonts either by built-in name ("default", "digital", ...)
+ * or by a custom font reference { hash, name } for user-uploaded fonts.
+ *
+ * Custom fonts are registered with the browser under a family name derived
+ * from their hash (see getCustomFontFamilyName), so two fonts with the same
+ * display name never collide. If a custom font is not available on this
+ * machine, rendering falls back to the default NZXT font.
+ */
+
+import type { BuiltInFont, CustomFontRef, OverlayFont } from '../types/overlay';
+
+/**
+ * Built-in fonts (stored value → CSS font-family).
+ */
+export const BUILT_IN_FONTS: Record<BuiltInFont, string> = {
+  default: 'nzxt-extrabold',
+  digital: 'digital-clock-font',
+  'sans-serif': 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  monospace: 'Consolas, Menlo, "Courier New", monospace',
+};
+
+/**
+ * Checks whether a value is a custom font reference ({ hash, name }).
+ */
+export function isCustomFontRef(font: unknown): font is CustomFontRef {
+  return (
+    typeof font === 'object' &&
+    font !== null &&
+    typeof (font as CustomFontRef).hash === 'string' &&
+    /^[0-9a-f]{64}$/.test((font as CustomFontRef).hash) &&
+    typeof (font as CustomFontRef).name === 'string'
+  );
+}
+
+/**
+ * Checks whether a value is a valid element font (built-in name or custom reference).
+ */
+export function isValidOverlayFont(font: unknown): font is OverlayFont {
+  return (typeof font === 'string' && font in BUILT_IN_FONTS) || isCustomFontRef(font);
+}
+
+/**
+ * CSS family name a custom font is registered under (FontFace API).
+ */
+export function getCustomFontFamilyName(hash: string): string {
+  return `nzxt-esc-font-${hash.slice(0, 16)}`;
+}
+
+/**
+ * Resolves an element font to a CSS font-family value.
+ * Unknown values fall back to the default NZXT font; custom fonts fall back
+ * to it as well until (or unless) they are loaded.
+ */
+export function resolveFontFamily(font: OverlayFont | undefined): string {
+  if (isCustomFontRef(font)) {
+    return `"${getCustomFontFamilyName(font.hash)}", ${BUILT_IN_FONTS.default}`;
+  }
+  return (typeof font === 'string' && BUILT_IN_FONTS[font]) || BUILT_IN_FONTS.default;
+}
+
+/**
+ * Encodes a font as a <select> option value ("custom:<hash>" for custom fonts).
+ */
+export function fontToSelectValue(font: OverlayFont | undefined): string {
+  if (isCustomFontRef(font)) {
+    return `custom:${font.hash}`;
+  }
+  return font ?? 'default';
+}
@@ -0,0 +1,86 @@
+/**
+ * Metric Device Selection
+ *
+ * CPU and GPU metrics can target a specific device (index in the monitoring
+ * payload) or aggregate all devices ("max" / "average").
+ *
+ * Graceful degradation: if the selected device is not present (preset made on
+ * a machine with more GPUs, or no per-device data at all), the system-wide
+ * value (first device) is used instead.
+ */
+
+import type { MetricDeviceSelector, OverlayMetricKey, OverlayMetrics, MonitoringDevice } from '../types/overlay';
+import { METRIC_DEFINITIONS, type MetricDeviceType } from './metrics';
+
+/**
+ * Device names per device type, as shown in inspector dropdowns.
+ */
+export type MetricDeviceNames = Record<MetricDeviceType, string[]>;
+
+/**
+ * Returns the device type of a metric, or undefined for system-wide metrics.
+ */
+export function getMetricDeviceType(key: string): MetricDeviceType | undefined {
+  return Object.prototype.hasOwnProperty.call(METRIC_DEFINITIONS, key)
+    ? METRIC_DEFINITIONS[key].deviceType
+    : undefined;
+}
+
+/**
+ * Checks whether a value is a valid device selector.
+ */
+export function isValidMetricDeviceSelector(value: unknown): value is MetricDeviceSelector {
+  return value === 'max' || value === 'average' || (typeof value === 'number' && Number.isInteger(value) && value >= 0);
+}
+
+/**
+ * Resolves a metric value for the selected device.
+ *
+ * @param metrics - Current metrics (with optional per-device values)
+ * @param key - Metric key
+ * @param device - Device selector (undefined = first device)
+ */
+export function resolveMetricValue(
+  metrics: OverlayMetrics,
+  key: OverlayMetricKey,
+  device: MetricDeviceSelector | undefined
+): number {
+  const fallback = metrics[key];
+  const deviceType = getMetricDeviceType(key);
+  if (device === undefined || !deviceType) {
+    return fallback;
+  }
+
+  const devices: MonitoringDevice[] = metrics.devices?.[deviceType] ?? [];
+
+  if (typeof device === 'number') {
+    const value = devices[device]?.values[key];
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+  }
+
+  const values = devices
+    .map(entry => entry.values[key])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+  if (values.length === 0) {
+    return fallback;
+  }
+  if (device === 'max') {
+    return Math.max(...values);
+  }
+  if (device === 'average') {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+  // Unknown selector (e.g. from a newer preset version)
+  return fallback;
+}
+
+/**
+ * Extracts device names from metrics (for inspector dropdowns).
+ * Unnamed devices get an empty string; callers label them by index.
+ */
+export function getMetricDeviceNames(metrics: OverlayMetrics): MetricDeviceNames {
+  return {
+    cpu: (metrics.devices?.cpu ?? []).map(device => device.name ?? ''),
+    gpu: (metrics.devices?.gpu ?? []).map(device => device.name ?? ''),
+  };
+}
@@ -0,0 +1,299 @@
+/**
+ * Metric Expression Language
+ *
+ * Small arithmetic language for derived metrics, e.g. "gpuTemp - liquidTemp"
+ * or "max(cpuTemp, gpuTemp)". Parsed by a recursive descent parser into a
+ * tree and evaluated by walking it; nothing is ever passed to eval/Function.
+ *
+ * Grammar:
+ *   expression := term (("+" | "-") term)*
+ *   term       := unary (("*" | "/" | "%") unary)*
+ *   unary      := "-" unary | primary
+ *   primary    := number | name | name "(" expression ("," expression)* ")" | "(" expression ")"
+ *
+ * - Names are metric keys, custom bridge metric ids or earlier derived metric ids
+ * - Functions: min, max, avg, abs, round, floor, ceil, clamp(value, min, max)
+ * - Missing values and division by zero evaluate to NaN (shown as no data)
+ */
+
+/**
+ * Maximum expression length (characters).
+ */
+export const MAX_EXPRESSION_LENGTH = 200;
+
+/**
+ * Maximum nesting depth (parentheses, unary minus, function calls).
+ */
+const MAX_EXPRESSION_DEPTH = 32;
+
+export type MetricExpressionFunction = 'min' | 'max' | 'avg' | 'abs' | 'round' | 'floor' | 'ceil' | 'clamp';
+
+/**
+ * Argument count per function ([min, max]; max Infinity = variadic).
+ */
+const FUNCTION_ARITY: Record<MetricExpressionFunction, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  avg: [1, Infinity],
+  abs: [1, 1],
+  round: [1, 1],
+  floor: [1, 1],
+  ceil: [1, 1],
+  clamp: [3, 3],
+};
+
+/**
+ * Parsed expression tree.
+ */
+export type MetricExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'name'; name: string }
+  | { type: 'negate'; operand: MetricExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '%'; left: MetricExpressionNode; right: MetricExpressionNode }
+  | { type: 'call'; name: MetricExpressionFunction; args: MetricExpressionNode[] };
+
+/**
+ * Syntax error with the character position it was found at.
+ */
+export class MetricExpressionError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(message);
+    this.name = 'MetricExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'name'; name: string; position: number }
+  | { type: 'symbol'; symbol: string; position: number };
+
+const NUMBER_PATTERN = /^(\d+(\.\d*)?|\.\d+)/;
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+const SYMBOLS = '+-*/%(),';
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const rest = text.slice(position);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+    const name = NAME_PATTERN.exec(rest);
+    if (name) {
+      tokens.push({ type: 'name', name: name[0], position });
+      position += name[0].length;
+      continue;
+    }
+    if (SYMBOLS.includes(rest[0])) {
+      tokens.push({ type: 'symbol', symbol: rest[0], position });
+      position++;
+      continue;
+    }
+    throw new MetricExpressionError(`Unexpected character "${rest[0]}"`, position);
+  }
+  return tokens;
+}
+
+function isFunctionName(name: string): name is MetricExpressionFunction {
+  return Object.prototype.hasOwnProperty.call(FUNCTION_ARITY, name);
+}
+
+/**
+ * Parses an expression.
+ *
+ * @throws MetricExpressionError on syntax errors, unknown functions or wrong argument counts
+ */
+export function parseMetricExpression(text: string): MetricExpressionNode {
+  if (text.length > MAX_EXPRESSION_LENGTH) {
+    throw new MetricExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  const tokens = tokenize(text);
+  let index = 0;
+
+  const peek = (): Token | undefined => tokens[index];
+  const currentPosition = () => peek()?.position ?? text.length;
+  const isSymbol = (symbol: string) => {
+    const token = peek();
+    return token?.type === 'symbol' && token.symbol === symbol;
+  };
+  const expectSymbol = (symbol: string) => {
+    if (!isSymbol(symbol)) {
+      throw new MetricExpressionError(`Expected "${symbol}"`, currentPosition());
+    }
+    index++;
+  };
+
+  const parseExpression = (depth: number): MetricExpressionNode => {
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      throw new MetricExpressionError('Expression is nested too deeply', currentPosition());
+    }
+    let left = parseTerm(depth);
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[index++] as { symbol: '+' | '-' }).symbol;
+      left = { type: 'binary', operator, left, right: parseTerm(depth) };
+    }
+    return left;
+  };
+
+  const parseTerm = (depth: number): MetricExpressionNode => {
+    let left = parseUnary(depth);
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = (tokens[index++] as { symbol: '*' | '/' | '%' }).symbol;
+      left = { type: 'binary', operator, left, right: parseUnary(depth) };
+    }
+    return left;
+  };
+
+  const parseUnary = (depth: number): MetricExpressionNode => {
+    if (isSymbol('-')) {
+      index++;
+      if (depth + 1 > MAX_EXPRESSION_DEPTH) {
+        throw new MetricExpressionError('Expression is nested too deeply', currentPosition());
+      }
+      return { type: 'negate', operand: parseUnary(depth + 1) };
+    }
+    return parsePrimary(depth);
+  };
+
+  const parsePrimary = (depth: number): MetricExpressionNode => {
+    const token = peek();
+    if (!token) {
+      throw new MetricExpressionError('Unexpected end of expression', text.length);
+    }
+    if (token.type === 'number') {
+      index++;
+      return { type: 'number', value: token.value };
+    }
+    if (token.type === 'name') {
+      index++;
+      if (!isSymbol('(')) {
+        return { type: 'name', name: token.name };
+      }
+      if (!isFunctionName(token.name)) {
+        throw new MetricExpressionError(`Unknown function "${token.name}"`, token.position);
+      }
+      index++;
+      const args = [parseExpression(depth + 1)];
+      while (isSymbol(',')) {
+        index++;
+        args.push(parseExpression(depth + 1));
+      }
+      expectSymbol(')');
+      const [minArgs, maxArgs] = FUNCTION_ARITY[token.name];
+      if (args.length < minArgs || args.length > maxArgs) {
+        throw new MetricExpressionError(`Wrong number of arguments for "${token.name}"`, token.position);
+      }
+      return { type: 'call', name: token.name, args };
+    }
+    if (token.symbol === '(') {
+      index++;
+      const inner = parseExpression(depth + 1);
+      expectSymbol(')');
+      return inner;
+    }
+    throw new MetricExpressionError(`Unexpected "${token.symbol}"`, token.position);
+  };
+
+  const root = parseExpression(0);
+  if (index < tokens.length) {
+    throw new MetricExpressionError('Unexpected input after expression', currentPosition());
+  }
+  return root;
+}
+
+/**
+ * Returns the names an expression references (unique, in order of appearance).
+ */
+export function getMetricExpressionNames(node: MetricExpressionNode): string[] {
+  const names: string[] = [];
+  const visit = (current: MetricExpressionNode) => {
+    switch (current.type) {
+      case 'name':
+        if (!names.includes(current.name)) names.push(current.name);
+        break;
+      case 'negate':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return names;
+}
+
+/**
+ * Evaluates an expression.
+ *
+ * @param node - Parsed expression
+ * @param resolve - Returns the value of a name (NaN / undefined = no data)
+ * @returns Result (NaN when any required value is missing or on division by zero)
+ */
+export function evaluateMetricExpression(
+  node: MetricExpressionNode,
+  resolve: (name: string) => number | undefined
+): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'name': {
+      const value = resolve(node.name);
+      return typeof value === 'number' && Number.isFinite(value) ? value : NaN;
+    }
+    case 'negate':
+      return -evaluateMetricExpression(node.operand, resolve);
+    case 'binary': {
+      const left = evaluateMetricExpression(node.left, resolve);
+      const right = evaluateMetricExpression(node.right, resolve);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? NaN : left / right;
+        case '%':
+          return right === 0 ? NaN : left % right;
+      }
+      return NaN;
+    }
+    case 'call': {
+      const args = node.args.map(arg => evaluateMetricExpression(arg, resolve));
+      switch (node.name) {
+        case 'min':
+          return Math.min(...args);
+        case 'max':
+          return Math.max(...args);
+        case 'avg':
+          return args.reduce((sum, value) => sum + value, 0) / args.length;
+        case 'abs':
+          return Math.abs(args[0]);
+        case 'round':
+          return Math.round(args[0]);
+        case 'floor':
+          return Math.floor(args[0]);
+        case 'ceil':
+          return Math.ceil(args[0]);
+        case 'clamp':
+          return Math.min(Math.max(args[0], args[1]), args[2]);
+      }
+      return NaN;
+    }
+  }
+}
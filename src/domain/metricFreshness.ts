@@ -0,0 +1,128 @@
+/**
+ * Metric Freshness Domain Model
+ *
+ * Distinguishes real values from stale or missing data:
+ * - NZXT metrics are missing when the latest payload does not report them,
+ *   and stale when no payload arrived for a while (utils/monitoringFreshness.ts)
+ * - Custom bridge metrics are missing when the bridge does not provide them,
+ *   and stale when their sample is marked stale (utils/metricBridge.ts)
+ *
+ * Metric elements choose how such values are shown (MetricNoDataStyle).
+ * Without freshness information (browser mock data) every metric is live.
+ */
+
+import type { MetricFreshness, MetricNoDataStyle, OverlayMetricKey, OverlayMetrics } from '../types/overlay';
+import { METRIC_DEFINITIONS } from './metrics';
+
+/**
+ * All no-data styles.
+ */
+export const METRIC_NO_DATA_STYLES: readonly MetricNoDataStyle[] = ['auto', 'placeholder', 'dim', 'hide'];
+
+/**
+ * Default placeholder text.
+ */
+export const DEFAULT_NO_DATA_TEXT = '-';
+
+/**
+ * Maximum placeholder length (characters).
+ */
+export const MAX_NO_DATA_TEXT_LENGTH = 8;
+
+export type MetricFreshnessMap = Partial<Record<OverlayMetricKey, MetricFreshness>>;
+
+/**
+ * How a value is displayed for a given freshness and style.
+ */
+export type MetricNoDataDisplay = 'value' | 'dim' | 'placeholder' | 'hide';
+
+/**
+ * Checks whether a value is a valid no-data style.
+ */
+export function isValidMetricNoDataStyle(value: unknown): value is MetricNoDataStyle {
+  return METRIC_NO_DATA_STYLES.includes(value as MetricNoDataStyle);
+}
+
+/**
+ * Checks whether a value is a valid placeholder text.
+ */
+export function isValidNoDataText(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= MAX_NO_DATA_TEXT_LENGTH;
+}
+
+/**
+ * Computes the freshness of every metric from the latest payload.
+ *
+ * @param presentKeys - Metrics reported by the latest payload
+ * @param lastPayloadAt - Time of the latest payload (null = none yet: no freshness information)
+ * @param now - Current time
+ * @param staleTimeoutMs - Payload age after which reported metrics are stale
+ */
+export function computeMetricFreshness(
+  presentKeys: ReadonlySet<string>,
+  lastPayloadAt: number | null,
+  now: number,
+  staleTimeoutMs: number
+): MetricFreshnessMap {
+  if (lastPayloadAt === null) {
+    return {};
+  }
+  const isStale = now - lastPayloadAt > staleTimeoutMs;
+  const freshness: MetricFreshnessMap = {};
+  (Object.keys(METRIC_DEFINITIONS) as OverlayMetricKey[]).forEach(key => {
+    freshness[key] = !presentKeys.has(key) ? 'missing' : isStale ? 'stale' : 'live';
+  });
+  return freshness;
+}
+
+/**
+ * Returns metrics with freshness information attached.
+ * The base object is returned unchanged when there is none.
+ */
+export function withMetricFreshness(base: OverlayMetrics, freshness: MetricFreshnessMap): OverlayMetrics {
+  if (Object.keys(freshness).length === 0) {
+    return base;
+  }
+  return { ...base, freshness };
+}
+
+/**
+ * Returns the freshness of the value a metric element displays.
+ *
+ * @param metrics - Current metrics
+ * @param metric - NZXT metric key
+ * @param customMetric - Custom bridge metric id (replaces metric while set)
+ */
+export function getElementMetricFreshness(
+  metrics: OverlayMetrics,
+  metric: OverlayMetricKey,
+  customMetric?: string
+): MetricFreshness {
+  if (customMetric !== undefined) {
+    const sample = metrics.custom?.[customMetric];
+    return !sample ? 'missing' : sample.stale ? 'stale' : 'live';
+  }
+  return metrics.freshness?.[metric] ?? 'live';
+}
+
+/**
+ * Resolves how a value with the given freshness is displayed.
+ */
+export function resolveNoDataDisplay(
+  style: MetricNoDataStyle | undefined,
+  freshness: MetricFreshness
+): MetricNoDataDisplay {
+  if (freshness === 'live') {
+    return 'value';
+  }
+  switch (style ?? 'auto') {
+    case 'placeholder':
+      return 'placeholder';
+    case 'dim':
+      return 'dim';
+    case 'hide':
+      return 'hide';
+    default:
+      return freshness === 'stale' ? 'dim' : 'placeholder';
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Metric Value Processing
+ *
+ * Optional per-element processing of raw monitoring values:
+ * - ema: Exponential moving average (windowSeconds = time constant)
+ * - average: Mean of the samples in the last windowSeconds
+ * - min / max: Lowest / highest value since the processor started
+ * - peakHold: Holds the highest value for windowSeconds, then falls at decayPerSecond
+ *
+ * Processors are time-based (not sample-based) because NZXT CAM update
+ * intervals are not guaranteed. Shared processor instances live in
+ * utils/metricPipeline.ts.
+ */
+
+import type { MetricProcessing, MetricProcessingMode } from '../types/overlay';
+
+/**
+ * Default window / time constant / hold time (seconds).
+ */
+export const DEFAULT_PROCESSING_WINDOW_SECONDS = 5;
+
+/**
+ * Default peak-hold fall rate (metric units per second).
+ */
+export const DEFAULT_PEAK_DECAY_PER_SECOND = 10;
+
+/**
+ * Maximum processing window (seconds).
+ */
+export const MAX_PROCESSING_WINDOW_SECONDS = 600;
+
+/**
+ * All processing modes (including "raw" = no processing).
+ */
+export const METRIC_PROCESSING_MODES: readonly MetricProcessingMode[] = ['raw', 'ema', 'average', 'min', 'max', 'peakHold'];
+
+/**
+ * Stateful value processor. Feed samples in time order.
+ */
+export interface MetricProcessor {
+  /**
+   * Adds a sample and returns the processed value.
+   * Non-finite samples are ignored (the previous output is returned).
+   */
+  push(value: number, timestamp: number): number;
+}
+
+/**
+ * Checks whether a value is a valid processing configuration.
+ */
+export function isValidMetricProcessing(value: unknown): value is MetricProcessing {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const processing = value as Record<string, unknown>;
+  const isPositiveNumber = (n: unknown) => typeof n === 'number' && Number.isFinite(n) && n > 0;
+  return (
+    METRIC_PROCESSING_MODES.includes(processing.mode as MetricProcessingMode) &&
+    (processing.windowSeconds === undefined || (isPositiveNumber(processing.windowSeconds) && (processing.windowSeconds as number) <= MAX_PROCESSING_WINDOW_SECONDS)) &&
+    (processing.decayPerSecond === undefined || isPositiveNumber(processing.decayPerSecond))
+  );
+}
+
+/**
+ * Checks whether processing changes values at all.
+ */
+export function hasMetricProcessing(processing: MetricProcessing | undefined): processing is MetricProcessing {
+  return processing !== undefined && processing.mode !== 'raw';
+}
+
+/**
+ * Creates a processor for the given configuration.
+ */
+export function createMetricProcessor(processing: MetricProcessing): MetricProcessor {
+  const windowMs = Math.min(
+    MAX_PROCESSING_WINDOW_SECONDS,
+    Math.max(0.1, processing.windowSeconds ?? DEFAULT_PROCESSING_WINDOW_SECONDS)
+  ) * 1000;
+  const decayPerMs = (processing.decayPerSecond ?? DEFAULT_PEAK_DECAY_PER_SECOND) / 1000;
+
+  let output = NaN;
+  let lastTimestamp = 0;
+  let peakTimestamp = 0;
+  const samples: Array<{ t: number; v: number }> = [];
+
+  const update = (value: number, timestamp: number): number => {
+    const isFirst = Number.isNaN(output);
+    switch (processing.mode) {
+      case 'ema': {
+        if (isFirst) return value;
+        const alpha = 1 - Math.exp(-Math.max(0, timestamp - lastTimestamp) / windowMs);
+        return output + alpha * (value - output);
+      }
+      case 'average': {
+        samples.push({ t: timestamp, v: value });
+        while (samples.length > 1 && samples[0].t < timestamp - windowMs) {
+          samples.shift();
+        }
+        return samples.reduce((sum, sample) => sum + sample.v, 0) / samples.length;
+      }
+      case 'min':
+        return isFirst ? value : Math.min(output, value);
+      case 'max':
+        return isFirst ? value : Math.max(output, value);
+      case 'peakHold': {
+        if (isFirst || value >= output) {
+          peakTimestamp = timestamp;
+          return value;
+        }
+        // Hold, then fall linearly (never below the live value)
+        const fallingMs = Math.max(0, timestamp - Math.max(peakTimestamp + windowMs, lastTimestamp));
+        return Math.max(value, output - fallingMs * decayPerMs);
+      }
+      default:
+        return value;
+    }
+  };
+
+  return {
+    push(value: number, timestamp: number): number {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return Number.isNaN(output) ? value : output;
+      }
+      output = update(value, timestamp);
+      lastTimestamp = timestamp;
+      return output;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Metric Threshold Rules
+ *
+ * Metric elements can change their style based on the current value, e.g.
+ * "when gpuTemp >= 80 use a red number and blink".
+ *
+ * - Rules are evaluated in list order against the displayed value
+ *   (processed and unit-converted, so °F thresholds compare against °F)
+ * - Every matching rule applies its set fields; later rules override earlier ones
+ * - Rules without a matching style field change nothing
+ */
+
+import type { MetricThresholdComparison, MetricThresholdRule } from '../types/overlay';
+
+/**
+ * Maximum number of threshold rules per element.
+ */
+export const MAX_METRIC_THRESHOLDS = 8;
+
+/**
+ * Resolved style overrides for the current value.
+ */
+export interface MetricThresholdStyle {
+  numberColor?: string;
+  textColor?: string;
+  outlineColor?: string;
+  hidden: boolean;
+  blink: boolean;
+}
+
+/**
+ * Rule colors are optional CSS color strings (same as element colors).
+ */
+function isValidRuleColor(color: unknown): boolean {
+  return color === undefined || typeof color === 'string';
+}
+
+/**
+ * Checks whether a value is a valid threshold rule.
+ */
+export function isValidMetricThresholdRule(value: unknown): value is MetricThresholdRule {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  return (
+    (rule.comparison === 'gte' || rule.comparison === 'lte') &&
+    typeof rule.value === 'number' &&
+    Number.isFinite(rule.value) &&
+    isValidRuleColor(rule.numberColor) &&
+    isValidRuleColor(rule.textColor) &&
+    isValidRuleColor(rule.outlineColor) &&
+    (rule.hidden === undefined || typeof rule.hidden === 'boolean') &&
+    (rule.blink === undefined || typeof rule.blink === 'boolean')
+  );
+}
+
+/**
+ * Checks whether a value is a valid threshold rule list.
+ */
+export function isValidMetricThresholds(value: unknown): value is MetricThresholdRule[] {
+  return Array.isArray(value) && value.length <= MAX_METRIC_THRESHOLDS && value.every(isValidMetricThresholdRule);
+}
+
+/**
+ * Drops invalid rules and rules beyond MAX_METRIC_THRESHOLDS (used on import).
+ * Returns undefined when no rule is left.
+ */
+export function sanitizeMetricThresholds(value: unknown): MetricThresholdRule[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const rules = value.filter(isValidMetricThresholdRule).slice(0, MAX_METRIC_THRESHOLDS);
+  return rules.length > 0 ? rules : undefined;
+}
+
+/**
+ * Checks whether a value matches a comparison.
+ */
+export function matchesThreshold(value: number, comparison: MetricThresholdComparison, threshold: number): boolean {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return false;
+  }
+  return comparison === 'gte' ? value >= threshold : value <= threshold;
+}
+
+/**
+ * Resolves the style overrides of all rules matching the value.
+ *
+ * @param rules - Element threshold rules (in order)
+ * @param value - Displayed metric value
+ */
+export function resolveMetricThresholdStyle(rules: MetricThresholdRule[] | undefined, value: number): MetricThresholdStyle {
+  const style: MetricThresholdStyle = { hidden: false, blink: false };
+  rules?.forEach(rule => {
+    if (!matchesThreshold(value, rule.comparison, rule.value)) {
+      return;
+    }
+    if (rule.numberColor !== undefined) style.numberColor = rule.numberColor;
+    if (rule.textColor !== undefined) style.textColor = rule.textColor;
+    if (rule.outlineColor !== undefined) style.outlineColor = rule.outlineColor;
+    if (rule.hidden !== undefined) style.hidden = rule.hidden;
+    if (rule.blink !== undefined) style.blink = rule.blink;
+  });
+  return style;
+}
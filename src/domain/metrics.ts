@@ -10,7 +10,14 @@
  * 3. TypeScript will ensure type safety throughout the codebase
  */
 
-export type MetricUnitType = "temp" | "percent" | "clock" | "none";
+import type { MetricFormatOptions } from "../types/overlay";
+
+export type MetricUnitType = "temp" | "percent" | "clock" | "memory" | "power" | "rpm" | "none";
+
+/**
+ * Device group a metric belongs to (NZXT payload cpus[] / gpus[]).
+ */
+export type MetricDeviceType = "cpu" | "gpu";
 
 export interface MetricDefinition {
   /** Display label (e.g., "CPU", "GPU", "Liquid") */
@@ -21,6 +28,21 @@ export interface MetricDefinition {
   unitType: MetricUnitType;
   /** Format function to convert numeric value to display string */
   format: (value: number) => string;
+  /** Decimals shown by animated number displays (default: 0) */
+  decimals?: number;
+  /** Device group for per-device selection on multi-CPU/GPU systems (undefined = system-wide metric) */
+  deviceType?: MetricDeviceType;
+  /** Default lower bound for range-based elements (gauge, etc.) */
+  defaultMin: number;
+  /** Default upper bound for range-based elements (gauge, etc.) */
+  defaultMax: number;
+}
+
+/**
+ * Formats a value rounded to the given number of decimals ("-" for invalid values).
+ */
+function formatFixed(value: number, decimals: number): string {
+  return typeof value === "number" && Number.isFinite(value) ? value.toFixed(decimals) : "-";
 }
 
 /**
@@ -34,28 +56,37 @@ export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
     label: "CPU",
     unit: "°",
     unitType: "temp",
+    deviceType: "cpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 100,
   },
   cpuLoad: {
     label: "CPU",
     unit: "%",
     unitType: "percent",
+    deviceType: "cpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 100,
   },
   cpuClock: {
     label: "CPU",
     unit: "MHz",
     unitType: "clock",
+    deviceType: "cpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 6000,
   },
   liquidTemp: {
     label: "Liquid",
@@ -65,33 +96,123 @@ export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 20,
+    defaultMax: 60,
   },
   gpuTemp: {
     label: "GPU",
     unit: "°",
     unitType: "temp",
+    deviceType: "gpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 100,
   },
   gpuLoad: {
     label: "GPU",
     unit: "%",
     unitType: "percent",
+    deviceType: "gpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 100,
   },
   gpuClock: {
     label: "GPU",
     unit: "MHz",
     unitType: "clock",
+    deviceType: "gpu",
     format: (value: number) => {
       const rounded = Math.round(value);
       return typeof rounded === "number" && !Number.isNaN(rounded) ? `${rounded}` : "-";
     },
+    defaultMin: 0,
+    defaultMax: 3000,
+  },
+  gpuPower: {
+    label: "GPU",
+    unit: "W",
+    unitType: "power",
+    deviceType: "gpu",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 450,
+  },
+  gpuFan: {
+    label: "GPU Fan",
+    unit: "RPM",
+    unitType: "rpm",
+    deviceType: "gpu",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 3500,
+  },
+  cpuPower: {
+    label: "CPU",
+    unit: "W",
+    unitType: "power",
+    deviceType: "cpu",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 250,
+  },
+  ramLoad: {
+    label: "RAM",
+    unit: "%",
+    unitType: "percent",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 100,
+  },
+  ramUsed: {
+    label: "RAM",
+    unit: "GB",
+    unitType: "memory",
+    format: (value: number) => formatFixed(value, 1),
+    decimals: 1,
+    defaultMin: 0,
+    defaultMax: 64,
+  },
+  vramLoad: {
+    label: "VRAM",
+    unit: "%",
+    unitType: "percent",
+    deviceType: "gpu",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 100,
+  },
+  vramUsed: {
+    label: "VRAM",
+    unit: "GB",
+    unitType: "memory",
+    deviceType: "gpu",
+    format: (value: number) => formatFixed(value, 1),
+    decimals: 1,
+    defaultMin: 0,
+    defaultMax: 24,
+  },
+  pumpSpeed: {
+    label: "Pump",
+    unit: "RPM",
+    unitType: "rpm",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 3000,
+  },
+  fanSpeed: {
+    label: "Fan",
+    unit: "RPM",
+    unitType: "rpm",
+    format: (value: number) => formatFixed(value, 0),
+    defaultMin: 0,
+    defaultMax: 2000,
   },
 } as const;
 
@@ -100,18 +221,97 @@ export const METRIC_DEFINITIONS: Record<string, MetricDefinition> = {
  */
 export type MetricKey = keyof typeof METRIC_DEFINITIONS;
 
+/**
+ * Checks whether a string is a known metric key.
+ */
+export function isMetricKey(key: string): key is MetricKey {
+  return Object.prototype.hasOwnProperty.call(METRIC_DEFINITIONS, key);
+}
+
+/**
+ * Maximum decimal places selectable in metric format options.
+ */
+export const MAX_METRIC_DECIMALS = 3;
+
+/**
+ * Decimals used for GHz clocks when no explicit decimals are set.
+ */
+const DEFAULT_GHZ_DECIMALS = 2;
+
+/**
+ * Converts a raw monitoring value into the display unit selected in the format options.
+ * Temperatures arrive in Celsius, clocks in MHz; other metrics are unchanged.
+ *
+ * @param key - Metric key
+ * @param rawValue - Raw numeric value from monitoring data
+ * @param options - Element format options
+ */
+export function convertMetricValue(key: string, rawValue: number, options?: MetricFormatOptions): number {
+  return convertUnitValue(METRIC_DEFINITIONS[key]?.unitType, rawValue, options);
+}
+
+/**
+ * Unit conversion by unit type (shared by built-in and custom metrics).
+ */
+function convertUnitValue(unitType: MetricUnitType | undefined, rawValue: number, options?: MetricFormatOptions): number {
+  if (unitType === "temp" && options?.temperatureUnit === "fahrenheit") {
+    return rawValue * 9 / 5 + 32;
+  }
+  if (unitType === "clock" && options?.clockUnit === "ghz") {
+    return rawValue / 1000;
+  }
+  return rawValue;
+}
+
+/**
+ * Formats a number with fixed decimals and optional thousands grouping ("-" for invalid values).
+ */
+export function formatMetricNumber(value: number, decimals: number, thousandsSeparator = false): string {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return "-";
+  }
+  if (!thousandsSeparator) {
+    return value.toFixed(decimals);
+  }
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: true,
+  });
+}
+
+/**
+ * Checks whether a value is a valid MetricFormatOptions object.
+ */
+export function isValidMetricFormatOptions(value: unknown): value is MetricFormatOptions {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const options = value as Record<string, unknown>;
+  return (
+    (options.temperatureUnit === undefined || options.temperatureUnit === "celsius" || options.temperatureUnit === "fahrenheit") &&
+    (options.clockUnit === undefined || options.clockUnit === "mhz" || options.clockUnit === "ghz") &&
+    (options.decimals === undefined || (Number.isInteger(options.decimals) && (options.decimals as number) >= 0 && (options.decimals as number) <= MAX_METRIC_DECIMALS)) &&
+    (options.thousandsSeparator === undefined || typeof options.thousandsSeparator === "boolean")
+  );
+}
+
 /**
  * Information about a metric value for display purposes.
  */
 export interface MetricDisplayInfo {
   /** Metric label (e.g., "CPU", "GPU") */
   label: string;
+  /** Value converted to the display unit (e.g., °F, GHz) */
+  value: number;
   /** Formatted numeric value (e.g., "45", "100") */
   valueNumber: string;
   /** Unit symbol (e.g., "°", "%") */
   valueUnit: string;
   /** Unit type for conditional formatting */
   valueUnitType: MetricUnitType;
+  /** Decimals for animated number displays */
+  decimals: number;
 }
 
 /**
@@ -120,30 +320,87 @@ export interface MetricDisplayInfo {
  * This function replaces the previous getOverlayLabelAndValue() function
  * and uses the centralized METRIC_DEFINITIONS.
  * 
+ * Without format options the output is the metric's default (Celsius, MHz,
+ * definition rounding), so existing presets render unchanged.
+ * 
  * @param key - Metric key (must be valid OverlayMetricKey)
  * @param rawValue - Raw numeric value from monitoring data
+ * @param options - Optional unit conversion and number formatting
  * @returns Display information for the metric
  */
-export function getMetricDisplayInfo(key: string, rawValue: number): MetricDisplayInfo {
+export function getMetricDisplayInfo(key: string, rawValue: number, options?: MetricFormatOptions): MetricDisplayInfo {
   const definition = METRIC_DEFINITIONS[key];
   
   if (!definition) {
     // Fallback for unknown metrics
     return {
       label: key.toUpperCase(),
+      value: rawValue,
       valueNumber: typeof rawValue === "number" && !Number.isNaN(rawValue) 
         ? Math.round(rawValue).toString() 
         : "-",
       valueUnit: "",
       valueUnitType: "none",
+      decimals: 0,
     };
   }
 
+  return getDefinitionDisplayInfo(definition, rawValue, options);
+}
+
+/**
+ * Get display information for a value of the given definition.
+ * Used directly for metrics that are not in METRIC_DEFINITIONS (custom bridge metrics).
+ * 
+ * @param definition - Metric definition
+ * @param rawValue - Raw numeric value
+ * @param options - Optional unit conversion and number formatting
+ */
+export function getDefinitionDisplayInfo(definition: MetricDefinition, rawValue: number, options?: MetricFormatOptions): MetricDisplayInfo {
+  if (!options) {
+    return {
+      label: definition.label,
+      value: rawValue,
+      valueNumber: definition.format(rawValue),
+      valueUnit: definition.unit,
+      valueUnitType: definition.unitType,
+      decimals: definition.decimals ?? 0,
+    };
+  }
+
+  const isFahrenheit = definition.unitType === "temp" && options.temperatureUnit === "fahrenheit";
+  const isGhz = definition.unitType === "clock" && options.clockUnit === "ghz";
+  const value = convertUnitValue(definition.unitType, rawValue, options);
+  const decimals = options.decimals ?? (isGhz ? DEFAULT_GHZ_DECIMALS : definition.decimals ?? 0);
+
   return {
     label: definition.label,
-    valueNumber: definition.format(rawValue),
-    valueUnit: definition.unit,
+    value,
+    valueNumber: formatMetricNumber(value, decimals, options.thousandsSeparator),
+    valueUnit: isFahrenheit ? "°F" : isGhz ? "GHz" : definition.unit,
     valueUnitType: definition.unitType,
+    decimals,
   };
 }
 
+/**
+ * Get the default value range for a metric.
+ * 
+ * Used by range-based elements (e.g., gauge) to pre-fill min/max
+ * when a metric is selected.
+ * 
+ * @param key - Metric key
+ * @returns Default min/max (0-100 for unknown metrics)
+ */
+export function getMetricDefaultRange(key: string): { min: number; max: number } {
+  const definition = METRIC_DEFINITIONS[key];
+  
+  if (!definition) {
+    return { min: 0, max: 100 };
+  }
+
+  return {
+    min: definition.defaultMin,
+    max: definition.defaultMax,
+  };
+}
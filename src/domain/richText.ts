@@ -0,0 +1,150 @@
+/**
+ * Rich Text Domain Model
+ *
+ * Text elements are a list of styled spans. Every span inherits the element
+ * defaults (textColor, textSize, font) unless it overrides them.
+ * Line breaks ("\n") inside span text start a new line.
+ *
+ * Rules:
+ * - Span text is plain text (HTML tags and script-like content are stripped)
+ * - Total text length across all spans is limited to MAX_RICH_TEXT_LENGTH
+ * - At most MAX_TEXT_SPANS spans per element
+ */
+
+import type { TextElementData, TextSpan } from '../types/overlay';
+
+/**
+ * Maximum total text length (all spans, including line breaks).
+ */
+export const MAX_RICH_TEXT_LENGTH = 240;
+
+/**
+ * Maximum number of spans per text element.
+ */
+export const MAX_TEXT_SPANS = 8;
+
+/**
+ * Minimum font size (element default and span override).
+ */
+export const MIN_TEXT_SIZE = 6;
+
+/**
+ * Default line height (multiplier of the largest font size on a line).
+ */
+export const DEFAULT_TEXT_LINE_HEIGHT = 1.2;
+
+/**
+ * Strips HTML tags and script-like content from span text.
+ * Line breaks are kept (Windows line endings are normalized); other control characters are removed.
+ */
+export function sanitizeSpanText(input: string): string {
+  let sanitized = input.replace(/<[^>]*>/g, '');
+  sanitized = sanitized.replace(/javascript:/gi, '');
+  sanitized = sanitized.replace(/on\w+\s*=/gi, '');
+  sanitized = sanitized.replace(/\r\n?/g, '\n');
+  sanitized = sanitized.replace(/[\u0000-\u0009\u000B-\u001F\u007F]/g, '');
+  return sanitized;
+}
+
+/**
+ * Returns the plain text of all spans joined together.
+ */
+export function getRichTextPlainText(spans: TextSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+/**
+ * Sanitizes a span list: cleans text, enforces the span count and the total length limit.
+ * Spans after the length limit is reached are dropped. Always returns at least one span.
+ */
+export function sanitizeTextSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = [];
+  let remaining = MAX_RICH_TEXT_LENGTH;
+
+  for (const span of spans.slice(0, MAX_TEXT_SPANS)) {
+    if (!span || typeof span.text !== 'string') {
+      continue;
+    }
+    const text = sanitizeSpanText(span.text).substring(0, remaining);
+    remaining -= text.length;
+    result.push({
+      ...span,
+      text,
+      ...(typeof span.size === 'number' && { size: Math.max(MIN_TEXT_SIZE, span.size) }),
+    });
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  return result.length > 0 ? result : [{ text: '' }];
+}
+
+/**
+ * Splits spans into lines at "\n". Each line holds the span pieces on that line.
+ */
+export function splitSpansIntoLines(spans: TextSpan[]): TextSpan[][] {
+  const lines: TextSpan[][] = [[]];
+
+  spans.forEach(span => {
+    span.text.split('\n').forEach((piece, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (piece) {
+        lines[lines.length - 1].push({ ...span, text: piece });
+      }
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Estimates the rendered size of a text element (LCD pixels, before scale).
+ * Uses the same 0.6em character width approximation as the other text-like elements.
+ */
+export function estimateRichTextDimensions(data: TextElementData): { width: number; height: number } {
+  const baseSize = data.textSize || 45;
+  const letterSpacing = data.letterSpacing ?? 0;
+  const lineHeight = data.lineHeight ?? DEFAULT_TEXT_LINE_HEIGHT;
+
+  let width = 0;
+  let height = 0;
+
+  splitSpansIntoLines(data.spans ?? []).forEach(line => {
+    let lineWidth = 0;
+    let lineSize = line.length > 0 ? 0 : baseSize;
+    line.forEach(span => {
+      const size = span.size ?? baseSize;
+      lineWidth += span.text.length * (size * 0.6 + letterSpacing);
+      lineSize = Math.max(lineSize, size);
+    });
+    width = Math.max(width, lineWidth);
+    height += lineSize * lineHeight;
+  });
+
+  return {
+    width: Math.max(width, baseSize * 2),
+    height: Math.max(height, baseSize * lineHeight),
+  };
+}
+
+/**
+ * Sets the element text size and scales span size overrides proportionally,
+ * so resizing keeps the relative title/subtitle sizes.
+ */
+export function scaleTextElementData(data: TextElementData, newSize: number): TextElementData {
+  const oldSize = data.textSize || newSize;
+  const ratio = oldSize > 0 ? newSize / oldSize : 1;
+
+  return {
+    ...data,
+    textSize: newSize,
+    spans: (data.spans ?? []).map(span =>
+      typeof span.size === 'number'
+        ? { ...span, size: Math.max(MIN_TEXT_SIZE, Math.round(span.size * ratio * 10) / 10) }
+        : span
+    ),
+  };
+}
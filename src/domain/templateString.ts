@@ -0,0 +1,136 @@
+/**
+ * Template String Domain Model
+ *
+ * Template elements mix free text with live metric values, e.g.
+ * "CPU {cpuTemp}° @ {cpuClock} MHz".
+ *
+ * - Placeholders are metric keys in braces ({cpuTemp}); unknown keys stay literal
+ * - Values are formatted via getMetricDisplayInfo (domain/metrics.ts)
+ * - Each metric can override decimals and unit display (shared by all of its placeholders)
+ * - Units are hidden by default, so the template text controls the suffix
+ */
+
+import type { OverlayMetrics, OverlayMetricKey, TemplateElementData, TemplatePlaceholderFormat } from '../types/overlay';
+import { METRIC_DEFINITIONS, getMetricDisplayInfo, isMetricKey } from './metrics';
+import { sanitizeSpanText } from './richText';
+
+/**
+ * Maximum template length (characters).
+ */
+export const MAX_TEMPLATE_LENGTH = 120;
+
+/**
+ * Maximum decimals a placeholder can show.
+ */
+export const MAX_TEMPLATE_DECIMALS = 3;
+
+/**
+ * Parsed template part: literal text or a metric placeholder.
+ */
+export type TemplateToken =
+  | { type: 'text'; text: string }
+  | { type: 'metric'; key: OverlayMetricKey };
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z][A-Za-z0-9]*)\}/g;
+
+/**
+ * Sanitizes template input: same rules as rich text spans, but single-line.
+ */
+export function sanitizeTemplateText(text: string): string {
+  return sanitizeSpanText(text).replace(/\n/g, ' ').slice(0, MAX_TEMPLATE_LENGTH);
+}
+
+/**
+ * Splits a template into text and metric tokens.
+ * Placeholders that do not name a known metric are kept as literal text.
+ */
+export function parseTemplate(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let text = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const key = match[1];
+    if (!isMetricKey(key)) {
+      continue;
+    }
+    text += template.slice(lastIndex, match.index);
+    if (text) {
+      tokens.push({ type: 'text', text });
+      text = '';
+    }
+    tokens.push({ type: 'metric', key: key as OverlayMetricKey });
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+
+  text += template.slice(lastIndex);
+  if (text) {
+    tokens.push({ type: 'text', text });
+  }
+  return tokens;
+}
+
+/**
+ * Returns the metric keys referenced by a template (unique, in order of appearance).
+ */
+export function getTemplateMetricKeys(template: string): OverlayMetricKey[] {
+  const keys: OverlayMetricKey[] = [];
+  parseTemplate(template).forEach(token => {
+    if (token.type === 'metric' && !keys.includes(token.key)) {
+      keys.push(token.key);
+    }
+  });
+  return keys;
+}
+
+/**
+ * Formats a single metric value for a placeholder.
+ *
+ * @param key - Metric key
+ * @param rawValue - Raw numeric value from monitoring data
+ * @param format - Placeholder options (default: metric's own rounding, no unit)
+ */
+export function formatTemplateMetric(
+  key: OverlayMetricKey,
+  rawValue: number,
+  format?: TemplatePlaceholderFormat
+): string {
+  const info = getMetricDisplayInfo(key, rawValue);
+  const decimals = format?.decimals;
+  const valueText = decimals !== undefined && typeof rawValue === 'number' && Number.isFinite(rawValue)
+    ? rawValue.toFixed(Math.max(0, Math.min(MAX_TEMPLATE_DECIMALS, Math.round(decimals))))
+    : info.valueNumber;
+
+  if (!format?.showUnit || !info.valueUnit) {
+    return valueText;
+  }
+  // "MHz" reads better with a space; "°" and "%" attach directly
+  return info.valueUnitType === 'clock' ? `${valueText} ${info.valueUnit}` : `${valueText}${info.valueUnit}`;
+}
+
+/**
+ * Interpolates a template element against the current metrics.
+ */
+export function renderTemplateString(data: TemplateElementData, metrics: OverlayMetrics): string {
+  return parseTemplate(data.template)
+    .map(token => token.type === 'text'
+      ? token.text
+      : formatTemplateMetric(token.key, metrics[token.key], data.placeholderFormats?.[token.key]))
+    .join('');
+}
+
+/**
+ * Estimates the rendered length (characters) of a template element.
+ * Used for bounding box calculation; values are assumed to be 4 digits wide.
+ */
+export function estimateTemplateLength(data: TemplateElementData): number {
+  return parseTemplate(data.template).reduce((length, token) => {
+    if (token.type === 'text') {
+      return length + token.text.length;
+    }
+    const format = data.placeholderFormats?.[token.key];
+    const decimals = format?.decimals ? format.decimals + 1 : 0;
+    const unit = format?.showUnit ? METRIC_DEFINITIONS[token.key].unit.length + 1 : 0;
+    return length + 4 + decimals + unit;
+  }, 0);
+}
@@ -0,0 +1,319 @@
+/**
+ * Time Format Domain Model
+ *
+ * Token-based time formatting for clock elements, with optional IANA time zone,
+ * and duration formatting for timer elements (see formatDuration).
+ *
+ * Supported time tokens:
+ * - HH: 2-digit hours, 24-hour (00-23)
+ * - H: hours, 24-hour (0-23)
+ * - hh: 2-digit hours, 12-hour (01-12)
+ * - h: hours, 12-hour (1-12)
+ * - mm: 2-digit minutes (00-59)
+ * - m: minutes (0-59)
+ * - ss: 2-digit seconds (00-59)
+ * - s: seconds (0-59)
+ * - SSS: milliseconds (000-999)
+ * - A: AM/PM
+ * - a: am/pm
+ * Text in square brackets is a literal (e.g. "[Time:] HH:mm"); the brackets are not shown.
+ * All other characters are treated as literals.
+ */
+
+/**
+ * Time format tokens, longest first (order matters when scanning).
+ */
+const TIME_TOKENS = ['SSS', 'HH', 'hh', 'mm', 'ss', 'H', 'h', 'm', 's', 'A', 'a'] as const;
+
+export type TimeFormatToken = typeof TIME_TOKENS[number];
+
+/**
+ * Duration format tokens, longest first (order matters when scanning).
+ */
+const DURATION_TOKENS = ['SSS', 'DD', 'HH', 'mm', 'ss', 'D', 'H', 'm', 's'] as const;
+
+export type DurationFormatToken = typeof DURATION_TOKENS[number];
+
+/**
+ * Parsed format segment: either a token or a literal string.
+ */
+export type FormatSegment<T extends string> =
+  | { type: 'token'; value: T }
+  | { type: 'literal'; value: string };
+
+export type TimeFormatSegment = FormatSegment<TimeFormatToken>;
+
+/**
+ * Wall-clock time parts (already resolved to a time zone).
+ */
+export interface TimeParts {
+  hours: number; // 0-23
+  minutes: number;
+  seconds: number;
+  milliseconds: number;
+}
+
+/**
+ * Estimated character width of each token, used for layout.
+ * Hours always reserve 2 characters so 12-hour clocks do not jump between 9:59 and 10:00.
+ * A/a reserve 3 characters to match the legacy " AM" allowance.
+ */
+const TOKEN_WIDTH: Record<TimeFormatToken, number> = {
+  SSS: 3,
+  HH: 2,
+  hh: 2,
+  mm: 2,
+  ss: 2,
+  H: 2,
+  h: 2,
+  m: 2,
+  s: 2,
+  A: 3,
+  a: 3,
+};
+
+/**
+ * Default clock format.
+ */
+export const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+/**
+ * Splits a format string into tokens and literals.
+ * "[...]" escapes literal text; an unclosed "[" is kept as a literal character.
+ */
+function splitFormat<T extends string>(format: string, tokens: readonly T[]): FormatSegment<T>[] {
+  const segments: FormatSegment<T>[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < format.length) {
+    const escapeEnd = format[i] === '[' ? format.indexOf(']', i + 1) : -1;
+    if (escapeEnd !== -1) {
+      literal += format.slice(i + 1, escapeEnd);
+      i = escapeEnd + 1;
+      continue;
+    }
+    const token = tokens.find(candidate => format.startsWith(candidate, i));
+    if (token) {
+      if (literal) {
+        segments.push({ type: 'literal', value: literal });
+        literal = '';
+      }
+      segments.push({ type: 'token', value: token });
+      i += token.length;
+    } else {
+      literal += format[i];
+      i++;
+    }
+  }
+
+  if (literal) {
+    segments.push({ type: 'literal', value: literal });
+  }
+
+  return segments;
+}
+
+/**
+ * Splits a time format string into tokens and literals.
+ */
+export function parseTimeFormat(format: string): TimeFormatSegment[] {
+  return splitFormat(format, TIME_TOKENS);
+}
+
+/**
+ * Formats time parts according to a token format string.
+ */
+export function formatTimeParts(format: string, parts: TimeParts): string {
+  const hours12 = parts.hours % 12 === 0 ? 12 : parts.hours % 12;
+  const isPm = parts.hours >= 12;
+
+  return parseTimeFormat(format)
+    .map(segment => {
+      if (segment.type === 'literal') {
+        return segment.value;
+      }
+      switch (segment.value) {
+        case 'HH': return parts.hours.toString().padStart(2, '0');
+        case 'H': return parts.hours.toString();
+        case 'hh': return hours12.toString().padStart(2, '0');
+        case 'h': return hours12.toString();
+        case 'mm': return parts.minutes.toString().padStart(2, '0');
+        case 'm': return parts.minutes.toString();
+        case 'ss': return parts.seconds.toString().padStart(2, '0');
+        case 's': return parts.seconds.toString();
+        case 'SSS': return parts.milliseconds.toString().padStart(3, '0');
+        case 'A': return isPm ? 'PM' : 'AM';
+        case 'a': return isPm ? 'pm' : 'am';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Estimates the maximum rendered length (in characters) of a format string.
+ * Used by the clock renderer and BoundingBox to keep a fixed width while ticking.
+ * Escaped text counts without its brackets.
+ */
+export function estimateTimeFormatLength(format: string): number {
+  return parseTimeFormat(format).reduce(
+    (total, segment) => total + (segment.type === 'token' ? TOKEN_WIDTH[segment.value] : segment.value.length),
+    0
+  );
+}
+
+/**
+ * Checks whether a format string displays seconds (s, ss).
+ */
+export function formatHasSeconds(format: string): boolean {
+  return parseTimeFormat(format).some(
+    segment => segment.type === 'token' && (segment.value === 's' || segment.value === 'ss')
+  );
+}
+
+/**
+ * Checks whether a format string displays milliseconds (SSS).
+ */
+export function formatHasMilliseconds(format: string): boolean {
+  return parseTimeFormat(format).some(segment => segment.type === 'token' && segment.value === 'SSS');
+}
+
+/**
+ * Cached Intl formatters per time zone (creating one is comparatively expensive).
+ */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is a valid IANA time zone supported by this browser.
+ */
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone.trim()) {
+    return false;
+  }
+  try {
+    getZoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves wall-clock time parts for a timestamp.
+ *
+ * @param timestamp - Epoch milliseconds
+ * @param timeZone - IANA time zone (undefined/empty/invalid = local time)
+ */
+export function getTimeParts(timestamp: number, timeZone?: string): TimeParts {
+  const date = new Date(timestamp);
+
+  if (timeZone && isValidTimeZone(timeZone)) {
+    const parts = getZoneFormatter(timeZone).formatToParts(date);
+    const read = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find(part => part.type === type)?.value ?? 0);
+    return {
+      hours: read('hour') % 24,
+      minutes: read('minute'),
+      seconds: read('second'),
+      milliseconds: date.getMilliseconds(),
+    };
+  }
+
+  return {
+    hours: date.getHours(),
+    minutes: date.getMinutes(),
+    seconds: date.getSeconds(),
+    milliseconds: date.getMilliseconds(),
+  };
+}
+
+/**
+ * Default timer (duration) format.
+ */
+export const DEFAULT_DURATION_FORMAT = 'HH:mm:ss';
+
+/**
+ * Default countdown target: one hour from now, rounded down to the minute.
+ */
+export function getDefaultCountdownTarget(): number {
+  const target = Date.now() + 60 * 60 * 1000;
+  return target - (target % 60000);
+}
+
+/**
+ * Formats a duration according to a token format string.
+ *
+ * Supported tokens:
+ * - DD / D: days (2-digit / unpadded)
+ * - HH / H: hours; 0-23 when a day token is present, otherwise total hours
+ * - mm / m: minutes (0-59)
+ * - ss / s: seconds (0-59)
+ * - SSS: milliseconds (000-999)
+ * Text in square brackets is a literal (e.g. "D [days] HH:mm").
+ * All other characters are treated as literals. Negative durations format as zero.
+ */
+export function formatDuration(format: string, durationMs: number): string {
+  const segments = splitFormat(format, DURATION_TOKENS);
+  const hasDays = segments.some(segment => segment.type === 'token' && (segment.value === 'DD' || segment.value === 'D'));
+
+  const total = Math.max(0, Math.floor(durationMs));
+  const milliseconds = total % 1000;
+  const totalSeconds = Math.floor(total / 1000);
+  const seconds = totalSeconds % 60;
+  const minutes = Math.floor(totalSeconds / 60) % 60;
+  const totalHours = Math.floor(totalSeconds / 3600);
+  const days = Math.floor(totalHours / 24);
+  const hours = hasDays ? totalHours % 24 : totalHours;
+
+  return segments
+    .map(segment => {
+      if (segment.type === 'literal') {
+        return segment.value;
+      }
+      switch (segment.value) {
+        case 'DD': return days.toString().padStart(2, '0');
+        case 'D': return days.toString();
+        case 'HH': return hours.toString().padStart(2, '0');
+        case 'H': return hours.toString();
+        case 'mm': return minutes.toString().padStart(2, '0');
+        case 'm': return minutes.toString();
+        case 'ss': return seconds.toString().padStart(2, '0');
+        case 's': return seconds.toString();
+        case 'SSS': return milliseconds.toString().padStart(3, '0');
+      }
+    })
+    .join('');
+}
+
+/**
+ * Estimates the rendered length (in characters) of a duration format string.
+ * Every token reserves 2 characters (SSS reserves 3); escaped text counts without its brackets.
+ */
+export function estimateDurationFormatLength(format: string): number {
+  return splitFormat(format, DURATION_TOKENS).reduce(
+    (total, segment) => total + (segment.type === 'token' ? (segment.value === 'SSS' ? 3 : 2) : segment.value.length),
+    0
+  );
+}
+
+/**
+ * Checks whether a duration format string displays milliseconds (SSS).
+ */
+export function durationFormatHasMilliseconds(format: string): boolean {
+  return splitFormat(format, DURATION_TOKENS).some(segment => segment.type === 'token' && segment.value === 'SSS');
+}
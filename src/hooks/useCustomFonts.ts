@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import type { CustomFontRef } from '../types/overlay';
+import { getCustomFonts, loadCustomFonts, subscribeCustomFonts } from '../utils/fontRegistry';
+
+/**
+ * Returns the uploaded custom fonts and makes sure they are registered with the browser.
+ *
+ * Loading from IndexedDB happens once per page; every caller re-renders when
+ * a font is added.
+ */
+export function useCustomFonts(): CustomFontRef[] {
+  const [fonts, setFonts] = useState<CustomFontRef[]>(getCustomFonts);
+
+  useEffect(() => {
+    const unsubscribe = subscribeCustomFonts(() => setFonts(getCustomFonts()));
+    // Fonts may have been loaded between render and subscribe
+    setFonts(getCustomFonts());
+    void loadCustomFonts();
+    return unsubscribe;
+  }, []);
+
+  return fonts;
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { CustomMetricSample } from '../types/overlay';
+import { getCustomMetricSamples, startMetricBridge, subscribeMetricBridge } from '../utils/metricBridge';
+
+/**
+ * Returns the latest custom metric samples from the external metric bridge.
+ * Keeps the bridge running (with the stored configuration) while mounted.
+ */
+export function useCustomMetrics(): Record<string, CustomMetricSample> {
+  const [samples, setSamples] = useState<Record<string, CustomMetricSample>>(() => getCustomMetricSamples());
+
+  useEffect(() => {
+    const unsubscribe = subscribeMetricBridge(() => setSamples(getCustomMetricSamples()));
+    const stop = startMetricBridge();
+    // Samples may have changed between render and subscribe
+    setSamples(getCustomMetricSamples());
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  return samples;
+}
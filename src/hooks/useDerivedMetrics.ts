@@ -0,0 +1,30 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { DerivedMetricDefinition } from '../types/overlay';
+import { getPresetDerivedMetrics } from '../preset/storage';
+import { compileDerivedMetrics, type CompiledDerivedMetric } from '../domain/derivedMetrics';
+
+/**
+ * Returns the derived metric definitions of a preset (raw and compiled).
+ * Re-reads them whenever the stored preset list changes.
+ */
+export function useDerivedMetrics(presetId: string | null): {
+  definitions: DerivedMetricDefinition[];
+  compiled: CompiledDerivedMetric[];
+} {
+  const [definitions, setDefinitions] = useState<DerivedMetricDefinition[]>(() => getPresetDerivedMetrics(presetId));
+
+  useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === 'nzxtPresets') {
+        setDefinitions(getPresetDerivedMetrics(presetId));
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+    // Presets may have changed between render and subscribe (or the preset id changed)
+    setDefinitions(getPresetDerivedMetrics(presetId));
+    return () => window.removeEventListener('storage', handleStorage);
+  }, [presetId]);
+
+  const compiled = useMemo(() => compileDerivedMetrics(definitions), [definitions]);
+  return { definitions, compiled };
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from 'react';
+import { getLocalImage } from '../utils/localImageStore';
+
+export interface UseLocalImageResult {
+  /** Object URL for the stored image (null while loading or if missing) */
+  blobUrl: string | null;
+  /** True while the image is being read from IndexedDB */
+  isLoading: boolean;
+  /** True if the record does not exist on this machine (e.g. imported preset) */
+  isMissing: boolean;
+}
+
+/**
+ * Resolves an overlay image stored in IndexedDB to an object URL.
+ *
+ * The object URL is revoked when the ID changes or the component unmounts.
+ *
+ * @param localImageId - Local image ID (undefined = nothing to load)
+ */
+export function useLocalImage(localImageId: string | undefined): UseLocalImageResult {
+  const [blobUrl, setBlobUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    if (!localImageId) {
+      setBlobUrl(null);
+      setIsLoading(false);
+      setIsMissing(false);
+      return;
+    }
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    setIsLoading(true);
+    setIsMissing(false);
+
+    getLocalImage(localImageId)
+      .then(record => {
+        if (cancelled) return;
+        if (!record) {
+          setBlobUrl(null);
+          setIsMissing(true);
+          return;
+        }
+        objectUrl = URL.createObjectURL(record.blob);
+        setBlobUrl(objectUrl);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setBlobUrl(null);
+        setIsMissing(true);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [localImageId]);
+
+  return { blobUrl, isLoading, isMissing };
+}
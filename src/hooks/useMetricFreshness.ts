@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import type { MetricFreshnessMap } from '../domain/metricFreshness';
+import { getMetricFreshnessMap, startMetricFreshnessTracking, subscribeMetricFreshness } from '../utils/monitoringFreshness';
+
+/**
+ * Returns the per-metric freshness of NZXT monitoring data
+ * (empty until the first payload). Keeps tracking running while mounted.
+ */
+export function useMetricFreshness(): MetricFreshnessMap {
+  const [freshness, setFreshness] = useState<MetricFreshnessMap>(() => getMetricFreshnessMap());
+
+  useEffect(() => {
+    const unsubscribe = subscribeMetricFreshness(() => setFreshness(getMetricFreshnessMap()));
+    const stop = startMetricFreshnessTracking();
+    // Freshness may have changed between render and subscribe
+    setFreshness(getMetricFreshnessMap());
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  return freshness;
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import type { OverlayMetrics } from '../types/overlay';
+import { safeNZXT } from '../nzxt/safeNZXT';
+import { mapMonitoringData } from '../nzxt/monitoringMetrics';
+
+/**
+ * Returns the metrics mapped from delivered monitoring payloads
+ * (see nzxt/monitoringMetrics.ts), or null until the first payload.
+ *
+ * Metrics missing from a payload keep their previous value. Changing the
+ * monitoring source (simulator, replay) starts over.
+ */
+export function useMonitoringPayloadMetrics(): Partial<OverlayMetrics> | null {
+  const [metrics, setMetrics] = useState<Partial<OverlayMetrics> | null>(null);
+
+  useEffect(() => {
+    const offPayload = safeNZXT.onMonitoringPayload((data) => {
+      let mapped: Partial<OverlayMetrics>;
+      try {
+        mapped = mapMonitoringData(data);
+      } catch {
+        // Malformed payload - keep the previous values
+        return;
+      }
+      setMetrics(previous => ({ ...previous, ...mapped }));
+    });
+    const offSource = safeNZXT.onMonitoringSourceChange(() => setMetrics(null));
+    return () => {
+      offPayload();
+      offSource();
+    };
+  }, []);
+
+  return metrics;
+}
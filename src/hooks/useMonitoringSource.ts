@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { safeNZXT, type MonitoringSource } from '../nzxt/safeNZXT';
+
+/**
+ * Returns the active alternative monitoring source (null = NZXT CAM).
+ * Re-renders when the source is changed anywhere on the page.
+ */
+export function useMonitoringSource(): MonitoringSource | null {
+  const [source, setSource] = useState<MonitoringSource | null>(() => safeNZXT.getMonitoringSource());
+
+  useEffect(() => {
+    const unsubscribe = safeNZXT.onMonitoringSourceChange(() => setSource(safeNZXT.getMonitoringSource()));
+    // Source may have changed between render and subscribe
+    setSource(safeNZXT.getMonitoringSource());
+    return unsubscribe;
+  }, []);
+
+  return source;
+}
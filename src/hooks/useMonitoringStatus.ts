@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+import { safeNZXT, type MonitoringStatus } from '../nzxt/safeNZXT';
+
+/**
+ * Returns the monitoring subscription status (see safeNZXT.getMonitoringStatus).
+ */
+export function useMonitoringStatus(): MonitoringStatus {
+  const [status, setStatus] = useState<MonitoringStatus>(() => safeNZXT.getMonitoringStatus());
+
+  useEffect(() => {
+    const unsubscribe = safeNZXT.onMonitoringStatusChange(() => setStatus(safeNZXT.getMonitoringStatus()));
+    // Status may have changed between render and subscribe
+    setStatus(safeNZXT.getMonitoringStatus());
+    return unsubscribe;
+  }, []);
+
+  return status;
+}
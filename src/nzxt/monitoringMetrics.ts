@@ -0,0 +1,124 @@
+/**
+ * NZXT Monitoring Payload → OverlayMetrics
+ *
+ * NZXT CAM field names vary between versions, so each metric is read from the
+ * first field that carries a number (see NZXTMonitoringData for alternatives).
+ *
+ * - Memory sizes arrive in MB and are converted to GB
+ * - Memory load (%) is derived from used/total when not reported directly
+ * - Metrics missing from the payload are omitted, so callers can keep the previous value
+ * - Every CPU/GPU is also mapped individually (devices) for per-device metrics
+ */
+
+import type { NZXTMonitoringData } from '../types/nzxt';
+import type { OverlayMetrics, OverlayMetricKey } from '../types/overlay';
+
+const MB_PER_GB = 1024;
+
+/**
+ * Returns the first finite number among the candidates.
+ */
+function firstNumber(...values: Array<number | undefined>): number | undefined {
+  return values.find(value => typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Derives a usage percentage from used/total sizes.
+ */
+function toLoadPercent(used: number | undefined, total: number | undefined): number | undefined {
+  if (used === undefined || total === undefined || total <= 0) {
+    return undefined;
+  }
+  return (used / total) * 100;
+}
+
+type MetricValues = Partial<Record<OverlayMetricKey, number>>;
+type NZXTCpu = NonNullable<NZXTMonitoringData['cpus']>[number];
+type NZXTGpu = NonNullable<NZXTMonitoringData['gpus']>[number];
+
+/**
+ * Drops metrics that are missing from the payload.
+ */
+function definedValues(values: Partial<Record<OverlayMetricKey, number | undefined>>): MetricValues {
+  const result: MetricValues = {};
+  (Object.keys(values) as OverlayMetricKey[]).forEach(key => {
+    const value = values[key];
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  });
+  return result;
+}
+
+/**
+ * Maps one CPU entry to CPU metric values.
+ */
+function mapCpu(cpu: NZXTCpu | undefined): MetricValues {
+  return definedValues({
+    cpuTemp: firstNumber(cpu?.temperature, cpu?.currentTemperature, cpu?.packageTemperature),
+    cpuLoad: firstNumber(cpu?.load, cpu?.usage, cpu?.totalLoad, cpu?.processorLoad),
+    cpuClock: firstNumber(cpu?.clockSpeed, cpu?.frequency, cpu?.frequencyMHz, cpu?.frequencyMhz, cpu?.processorFrequency),
+    cpuPower: firstNumber(cpu?.power, cpu?.packagePower),
+  });
+}
+
+/**
+ * Maps one GPU entry to GPU metric values (including VRAM).
+ */
+function mapGpu(gpu: NZXTGpu | undefined): MetricValues {
+  const vramUsedMb = firstNumber(gpu?.memoryUsed, gpu?.vramUsed);
+  const vramTotalMb = firstNumber(gpu?.memoryTotal, gpu?.vramTotal);
+  return definedValues({
+    gpuTemp: firstNumber(gpu?.temperature, gpu?.currentTemperature, gpu?.gpuTemperature),
+    gpuLoad: firstNumber(gpu?.load, gpu?.usage, gpu?.totalLoad),
+    gpuClock: firstNumber(gpu?.coreFrequency, gpu?.clockSpeed, gpu?.frequency, gpu?.frequencyMHz, gpu?.frequencyMhz, gpu?.gpuFrequency),
+    gpuPower: firstNumber(gpu?.power, gpu?.boardPower),
+    gpuFan: firstNumber(gpu?.fanSpeed, gpu?.fanRpm),
+    vramUsed: vramUsedMb !== undefined ? vramUsedMb / MB_PER_GB : undefined,
+    vramLoad: firstNumber(gpu?.memoryLoad, toLoadPercent(vramUsedMb, vramTotalMb)),
+  });
+}
+
+/**
+ * Maps an NZXT monitoring payload to overlay metric values.
+ * Top-level CPU/GPU values come from the first device; every device is
+ * also listed under devices for per-device selection.
+ *
+ * @param data - Payload received via onMonitoringDataUpdate
+ * @returns Metrics present in the payload
+ */
+export function mapMonitoringData(data: NZXTMonitoringData): Partial<OverlayMetrics> {
+  const ramUsedMb = firstNumber(data.ram?.inUse, data.ram?.used);
+  const ramTotalMb = firstNumber(data.ram?.totalSize, data.ram?.total);
+
+  return {
+    ...mapCpu(data.cpus?.[0]),
+    ...mapGpu(data.gpus?.[0]),
+    ...definedValues({
+      liquidTemp: firstNumber(data.kraken?.liquidTemperature, data.kraken?.temperature, data.kraken?.liquidTemp),
+      pumpSpeed: firstNumber(data.kraken?.pumpSpeed, data.kraken?.pumpRpm),
+      fanSpeed: firstNumber(data.kraken?.fanSpeed, data.kraken?.fanRpm),
+      ramUsed: ramUsedMb !== undefined ? ramUsedMb / MB_PER_GB : undefined,
+      ramLoad: firstNumber(data.ram?.load, toLoadPercent(ramUsedMb, ramTotalMb)),
+    }),
+    devices: {
+      cpu: (data.cpus ?? []).map(cpu => ({ name: cpu.name, values: mapCpu(cpu) })),
+      gpu: (data.gpus ?? []).map(gpu => ({ name: gpu.name, values: mapGpu(gpu) })),
+    },
+  };
+}
+
+/**
+ * Returns metrics with the values mapped from monitoring payloads applied
+ * (see hooks/useMonitoringPayloadMetrics.ts).
+ * The base object is returned unchanged when there are none.
+ */
+export function withMonitoringPayloadMetrics(
+  base: OverlayMetrics,
+  mapped: Partial<OverlayMetrics> | null
+): OverlayMetrics {
+  if (!mapped) {
+    return base;
+  }
+  return { ...base, ...mapped };
+}
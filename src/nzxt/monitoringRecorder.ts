@@ -0,0 +1,69 @@
+/**
+ * Monitoring Session Recorder
+ *
+ * Captures every payload delivered through safeNZXT.subscribeMonitoring
+ * (NZXT CAM or an alternative source) with its time offset. The result is a
+ * session file that createReplaySource() plays back (see monitoringSession.ts).
+ */
+
+import type { NZXTMonitoringData } from '../types/nzxt';
+import { safeNZXT } from './safeNZXT';
+import {
+  MONITORING_SESSION_FORMAT,
+  MONITORING_SESSION_VERSION,
+  type MonitoringSession,
+  type MonitoringSessionSample,
+} from './monitoringSession';
+
+/**
+ * Maximum samples per recording (one hour at NZXT CAM's 1 update per second).
+ * Later payloads are ignored.
+ */
+export const MAX_RECORDED_SAMPLES = 3600;
+
+/**
+ * Running recording.
+ */
+export interface MonitoringRecorder {
+  /** Number of samples captured so far */
+  getSampleCount(): number;
+  /** Stops capturing and returns the session (safe to call more than once) */
+  stop(): MonitoringSession;
+}
+
+/**
+ * Starts recording monitoring payloads.
+ *
+ * @param onSample - Optional callback after each captured sample (e.g. to update a counter)
+ */
+export function startMonitoringRecording(onSample?: (sampleCount: number) => void): MonitoringRecorder {
+  const recordedAt = new Date().toISOString();
+  const samples: MonitoringSessionSample[] = [];
+  let firstTimestamp: number | null = null;
+
+  const unsubscribe = safeNZXT.onMonitoringPayload((data: NZXTMonitoringData) => {
+    if (samples.length >= MAX_RECORDED_SAMPLES) {
+      return;
+    }
+    const now = Date.now();
+    if (firstTimestamp === null) {
+      firstTimestamp = now;
+    }
+    // Copy: payload objects may be reused by the sender
+    samples.push({ t: now - firstTimestamp, data: JSON.parse(JSON.stringify(data)) });
+    onSample?.(samples.length);
+  });
+
+  return {
+    getSampleCount: () => samples.length,
+    stop() {
+      unsubscribe();
+      return {
+        format: MONITORING_SESSION_FORMAT,
+        version: MONITORING_SESSION_VERSION,
+        recordedAt,
+        samples: [...samples],
+      };
+    },
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Recorded Monitoring Sessions
+ *
+ * A session file holds raw NZXT payloads with their time offsets, so a
+ * recorded load pattern can be replayed in the editor through
+ * safeNZXT.setMonitoringSource().
+ *
+ * File format (JSON):
+ * {
+ *   "format": "nzxt-monitoring-session",
+ *   "version": 1,
+ *   "recordedAt": "2026-01-01T12:00:00.000Z",
+ *   "samples": [{ "t": 0, "data": { ...NZXT payload } }, { "t": 1000, "data": ... }]
+ * }
+ * - t: Milliseconds since the first sample (ascending)
+ */
+
+import type { NZXTMonitoringData } from '../types/nzxt';
+import type { MonitoringSource } from './safeNZXT';
+
+/**
+ * Session file format marker.
+ */
+export const MONITORING_SESSION_FORMAT = 'nzxt-monitoring-session';
+
+/**
+ * Current session file version.
+ */
+export const MONITORING_SESSION_VERSION = 1;
+
+/**
+ * One recorded payload.
+ */
+export interface MonitoringSessionSample {
+  t: number;
+  data: NZXTMonitoringData;
+}
+
+/**
+ * Recorded monitoring session.
+ */
+export interface MonitoringSession {
+  format: typeof MONITORING_SESSION_FORMAT;
+  version: number;
+  recordedAt: string;
+  samples: MonitoringSessionSample[];
+}
+
+/**
+ * Replay options.
+ * - speed: Playback rate (default: 1)
+ * - loop: Restart at the end (default: true)
+ */
+export interface ReplayOptions {
+  speed?: number;
+  loop?: boolean;
+}
+
+/**
+ * Playback rates offered by the editor.
+ */
+export const REPLAY_SPEEDS: readonly number[] = [1, 2, 10];
+
+/**
+ * Gap used between the last and first sample when looping (ms).
+ */
+const LOOP_GAP_MS = 1000;
+
+/**
+ * Parses and validates a session file.
+ * Samples are sorted by time; samples without an object payload are dropped.
+ *
+ * @throws Error when the file is not a monitoring session or has no samples
+ */
+export function parseMonitoringSession(json: string): MonitoringSession {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  const session = parsed as Partial<MonitoringSession> | null;
+  if (!session || typeof session !== 'object' || session.format !== MONITORING_SESSION_FORMAT) {
+    throw new Error('File is not a monitoring session');
+  }
+  if (typeof session.version !== 'number' || session.version > MONITORING_SESSION_VERSION) {
+    throw new Error(`Unsupported session version: ${String(session.version)}`);
+  }
+
+  const samples = (Array.isArray(session.samples) ? session.samples : [])
+    .filter((sample): sample is MonitoringSessionSample =>
+      !!sample &&
+      typeof sample.t === 'number' &&
+      Number.isFinite(sample.t) &&
+      !!sample.data &&
+      typeof sample.data === 'object'
+    )
+    .sort((a, b) => a.t - b.t);
+  if (samples.length === 0) {
+    throw new Error('Session contains no samples');
+  }
+
+  return {
+    format: MONITORING_SESSION_FORMAT,
+    version: session.version,
+    recordedAt: typeof session.recordedAt === 'string' ? session.recordedAt : '',
+    samples,
+  };
+}
+
+/**
+ * Serializes a session for download.
+ */
+export function serializeMonitoringSession(session: MonitoringSession): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Returns a download file name for a session, e.g. "monitoring-session-20260101-120000.json".
+ */
+export function getMonitoringSessionFileName(session: MonitoringSession): string {
+  const date = new Date(session.recordedAt);
+  const stamp = Number.isNaN(date.getTime())
+    ? String(Date.now())
+    : date.toISOString().slice(0, 19).replace(/-|:/g, '').replace('T', '-');
+  return `monitoring-session-${stamp}.json`;
+}
+
+/**
+ * Returns the session duration in milliseconds.
+ */
+export function getMonitoringSessionDuration(session: MonitoringSession): number {
+  const { samples } = session;
+  return samples.length > 0 ? samples[samples.length - 1].t - samples[0].t : 0;
+}
+
+/**
+ * Creates a source that replays a recorded session.
+ * Register it with safeNZXT.setMonitoringSource().
+ */
+export function createReplaySource(session: MonitoringSession, options: ReplayOptions = {}): MonitoringSource {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const loop = options.loop ?? true;
+
+  return {
+    id: 'replay',
+    start(emit) {
+      const { samples } = session;
+      let index = 0;
+      let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+      const emitNext = () => {
+        emit(samples[index].data);
+        const current = samples[index].t;
+        index++;
+        if (index >= samples.length) {
+          if (!loop) {
+            timeoutId = null;
+            return;
+          }
+          index = 0;
+          timeoutId = setTimeout(emitNext, LOOP_GAP_MS / speed);
+          return;
+        }
+        timeoutId = setTimeout(emitNext, (samples[index].t - current) / speed);
+      };
+
+      emitNext();
+      return () => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+          timeoutId = null;
+        }
+      };
+    },
+  };
+}
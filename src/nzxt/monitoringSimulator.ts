@@ -0,0 +1,166 @@
+/**
+ * Simulated NZXT Monitoring Source
+ *
+ * Generates NZXT-format payloads for the browser editor, where CAM does not
+ * provide monitoring data. Payloads go through safeNZXT.subscribeMonitoring
+ * and mapMonitoringData like real data.
+ *
+ * Profiles (per metric, within the metric's default range):
+ * - sine: Smooth wave; each metric has its own period and phase
+ * - randomWalk: Small random steps, kept inside the range
+ * - stress: Repeating idle → load → cool-down cycle (all metrics in sync)
+ */
+
+import type { NZXTMonitoringData } from '../types/nzxt';
+import type { OverlayMetricKey } from '../types/overlay';
+import { METRIC_DEFINITIONS } from '../domain/metrics';
+import type { MonitoringSource } from './safeNZXT';
+
+/**
+ * Value pattern of a simulated metric.
+ */
+export type SimulationProfile = 'sine' | 'randomWalk' | 'stress';
+
+/**
+ * All simulation profiles (UI order).
+ */
+export const SIMULATION_PROFILES: readonly SimulationProfile[] = ['sine', 'randomWalk', 'stress'];
+
+/**
+ * Simulator options.
+ * - profile: Default profile for all metrics
+ * - metricProfiles: Per-metric overrides
+ * - intervalMs: Update interval (default: 1000, like NZXT CAM)
+ */
+export interface SimulatorOptions {
+  profile: SimulationProfile;
+  metricProfiles?: Partial<Record<OverlayMetricKey, SimulationProfile>>;
+  intervalMs?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * Stress cycle phases (seconds): idle, ramp up, sustained load, cool down.
+ */
+const STRESS_PHASES = { idle: 15, rampUp: 5, load: 25, coolDown: 15 };
+const STRESS_CYCLE_SECONDS = STRESS_PHASES.idle + STRESS_PHASES.rampUp + STRESS_PHASES.load + STRESS_PHASES.coolDown;
+
+/**
+ * Simulated installed sizes (MB) for RAM / VRAM payload fields.
+ */
+const SIMULATED_RAM_TOTAL_MB = 32 * 1024;
+const SIMULATED_VRAM_TOTAL_MB = 16 * 1024;
+
+/**
+ * Returns the stress level (0 idle … 1 full load) at a point in the cycle.
+ */
+function getStressLevel(seconds: number): number {
+  const t = seconds % STRESS_CYCLE_SECONDS;
+  const { idle, rampUp, load } = STRESS_PHASES;
+  if (t < idle) return 0;
+  if (t < idle + rampUp) return (t - idle) / rampUp;
+  if (t < idle + rampUp + load) return 1;
+  // Cool down is slower than ramp up (like real temperatures)
+  return 1 - (t - idle - rampUp - load) / STRESS_PHASES.coolDown;
+}
+
+/**
+ * Creates the value generator for one metric.
+ * Returns a function of elapsed seconds → value in the metric's range.
+ */
+function createMetricGenerator(key: OverlayMetricKey, profile: SimulationProfile, index: number): (seconds: number) => number {
+  const { defaultMin: min, defaultMax: max } = METRIC_DEFINITIONS[key];
+  const span = max - min;
+  // Keep values away from the range edges (10% … 90%)
+  const low = min + span * 0.1;
+  const high = min + span * 0.9;
+
+  switch (profile) {
+    case 'sine': {
+      const periodSeconds = 20 + index * 7;
+      const phase = index * 1.3;
+      return (seconds) => low + (high - low) * (0.5 + 0.5 * Math.sin((seconds / periodSeconds) * 2 * Math.PI + phase));
+    }
+    case 'randomWalk': {
+      let value = (low + high) / 2;
+      return () => {
+        value += (Math.random() - 0.5) * span * 0.06;
+        value = Math.min(high, Math.max(low, value));
+        return value;
+      };
+    }
+    case 'stress':
+    default:
+      return (seconds) => {
+        const noise = (Math.random() - 0.5) * span * 0.03;
+        return Math.min(max, Math.max(min, low + (high - low) * getStressLevel(seconds) + noise));
+      };
+  }
+}
+
+/**
+ * Builds an NZXT payload from simulated metric values (inverse of mapMonitoringData).
+ */
+function toMonitoringPayload(values: Record<OverlayMetricKey, number>): NZXTMonitoringData {
+  const ramUsedMb = Math.min(values.ramUsed * 1024, SIMULATED_RAM_TOTAL_MB);
+  const vramUsedMb = Math.min(values.vramUsed * 1024, SIMULATED_VRAM_TOTAL_MB);
+  return {
+    cpus: [{
+      name: 'Simulated CPU',
+      temperature: values.cpuTemp,
+      load: values.cpuLoad,
+      clockSpeed: values.cpuClock,
+      power: values.cpuPower,
+    }],
+    gpus: [{
+      name: 'Simulated GPU',
+      temperature: values.gpuTemp,
+      load: values.gpuLoad,
+      clockSpeed: values.gpuClock,
+      power: values.gpuPower,
+      fanSpeed: values.gpuFan,
+      memoryUsed: vramUsedMb,
+      memoryTotal: SIMULATED_VRAM_TOTAL_MB,
+    }],
+    ram: {
+      inUse: ramUsedMb,
+      totalSize: SIMULATED_RAM_TOTAL_MB,
+    },
+    kraken: {
+      liquidTemperature: values.liquidTemp,
+      pumpSpeed: values.pumpSpeed,
+      fanSpeed: values.fanSpeed,
+    },
+  };
+}
+
+/**
+ * Creates a simulated monitoring source.
+ * Register it with safeNZXT.setMonitoringSource().
+ */
+export function createSimulatorSource(options: SimulatorOptions): MonitoringSource {
+  return {
+    id: `simulator:${options.profile}`,
+    start(emit) {
+      const keys = Object.keys(METRIC_DEFINITIONS) as OverlayMetricKey[];
+      const generators = keys.map((key, index) =>
+        createMetricGenerator(key, options.metricProfiles?.[key] ?? options.profile, index)
+      );
+      const startedAt = Date.now();
+
+      const tick = () => {
+        const seconds = (Date.now() - startedAt) / 1000;
+        const values = {} as Record<OverlayMetricKey, number>;
+        keys.forEach((key, index) => {
+          values[key] = generators[index](seconds);
+        });
+        emit(toMonitoringPayload(values));
+      };
+
+      tick();
+      const intervalId = setInterval(tick, options.intervalMs ?? DEFAULT_INTERVAL_MS);
+      return () => clearInterval(intervalId);
+    },
+  };
+}
@@ -5,6 +5,10 @@
  * - getApi(): returns the NZXT Web Integration object (or null)
  * - hasAPI(): true if window.nzxt.v1 exists
  * - subscribeMonitoring(cb): wires cb to NZXT monitoring updates with retry logic and returns an unsubscribe fn
+ * - setMonitoringSource(source): replaces NZXT updates with an alternative source (simulator, session replay)
+ * - onMonitoringPayload(listener): observes every delivered payload (session recording)
+ * - getMonitoringPayloadSequence(): counts delivered payloads (marks new monitoring updates)
+ * - getMonitoringStatus(): subscription state (waiting for API injection, subscribed, gave up)
  * 
  * Official NZXT API format:
  * window.nzxt = {
@@ -24,6 +28,8 @@
  * - No namespace pollution
  */
 
+import type { NZXTMonitoringData } from '../types/nzxt';
+
 /**
  * NZXT API interface based on official spec:
  * - window.nzxt.v1 (lowercase nzxt)
@@ -61,6 +67,68 @@ function getNZXTAPI(): NZXTAPI | null {
   return null;
 }
 
+/**
+ * Alternative monitoring source (simulator, recorded session replay).
+ *
+ * While a source is set, subscribeMonitoring receives the source's payloads
+ * instead of window.nzxt.v1.onMonitoringDataUpdate. Payloads use the NZXT
+ * format, so consumers cannot tell the difference.
+ */
+export interface MonitoringSource {
+  /** Source identifier (e.g. "simulator:sine", "replay") */
+  id: string;
+  /**
+   * Starts emitting payloads.
+   *
+   * @param emit - Receives each payload
+   * @returns Stop function
+   */
+  start(emit: (data: NZXTMonitoringData) => void): () => void;
+}
+
+/**
+ * Monitoring subscription state.
+ * - idle: No subscriber
+ * - waiting: Retrying until window.nzxt.v1 is injected
+ * - subscribed: Handler assigned to onMonitoringDataUpdate
+ * - unavailable: API never appeared (retries gave up), or the alternative source failed to start
+ * - source: An alternative source delivers the payloads
+ */
+export type MonitoringStatus = 'idle' | 'waiting' | 'subscribed' | 'unavailable' | 'source';
+
+let monitoringSource: MonitoringSource | null = null;
+let monitoringStatus: MonitoringStatus = 'idle';
+const monitoringStatusListeners = new Set<() => void>();
+let currentSubscriber: ((data: any) => void) | null = null;
+const monitoringSourceListeners = new Set<() => void>();
+const monitoringPayloadListeners = new Set<(data: NZXTMonitoringData) => void>();
+let monitoringPayloadSequence = 0;
+
+function setMonitoringStatus(status: MonitoringStatus): void {
+  if (monitoringStatus !== status) {
+    monitoringStatus = status;
+    monitoringStatusListeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Wraps a subscriber so payload listeners see every payload before it.
+ * Each payload advances the payload sequence.
+ */
+function withPayloadListeners(callback: (data: any) => void): (data: any) => void {
+  return (data: any) => {
+    monitoringPayloadSequence++;
+    monitoringPayloadListeners.forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        // Listener errors must not break monitoring
+      }
+    });
+    callback(data);
+  };
+}
+
 /**
  * Stored monitoring callback reference for cleanup
  */
@@ -126,7 +194,7 @@ export const safeNZXT = {
    * Implements retry logic for delayed API injection (NZXT CAM may inject API after page load):
    * - Try immediately
    * - If window.nzxt?.v1 doesn't exist → retry after 200ms
-   * - Retry up to 10 times (max 2s), then give up
+   * - Retry up to 10 times (max 2s), then give up (status "unavailable")
    * 
    * @param callback - Function to call when monitoring data is received
    * @returns Cleanup function to unsubscribe
@@ -144,6 +212,41 @@ export const safeNZXT = {
       retryTimeoutId = null;
     }
 
+    currentSubscriber = callback;
+    const handler = withPayloadListeners(callback);
+    const unsubscribe = () => {
+      if (retryTimeoutId) {
+        clearTimeout(retryTimeoutId);
+        retryTimeoutId = null;
+      }
+      if (currentMonitoringCleanup) {
+        currentMonitoringCleanup();
+        currentMonitoringCleanup = null;
+      }
+      if (currentSubscriber === callback) {
+        currentSubscriber = null;
+        setMonitoringStatus('idle');
+      }
+    };
+
+    // Alternative source replaces NZXT updates entirely
+    if (monitoringSource) {
+      try {
+        currentMonitoringHandler = handler;
+        const stop = monitoringSource.start(handler);
+        currentMonitoringCleanup = () => {
+          stop();
+          currentMonitoringHandler = null;
+        };
+        setMonitoringStatus('source');
+      } catch (error) {
+        // Source failed to start - subscriber receives no data
+        currentMonitoringHandler = null;
+        setMonitoringStatus('unavailable');
+      }
+      return unsubscribe;
+    }
+
     let attempts = 0;
     const maxAttempts = 10;
 
@@ -153,26 +256,30 @@ export const safeNZXT = {
         
         if (api) {
           // API is available - assign callback
-          currentMonitoringHandler = callback;
-          api.onMonitoringDataUpdate = callback;
+          currentMonitoringHandler = handler;
+          api.onMonitoringDataUpdate = handler;
 
           // Create cleanup function
           const cleanup = () => {
             const currentApi = (window as any).nzxt?.v1;
-            if (currentApi && currentApi.onMonitoringDataUpdate === callback) {
+            if (currentApi && currentApi.onMonitoringDataUpdate === handler) {
               currentApi.onMonitoringDataUpdate = null;
             }
             currentMonitoringHandler = null;
           };
 
           currentMonitoringCleanup = cleanup;
+          setMonitoringStatus('subscribed');
           return true;
         }
 
         // API not available yet - retry if attempts remain
         attempts++;
         if (attempts < maxAttempts) {
+          setMonitoringStatus('waiting');
           retryTimeoutId = setTimeout(trySubscribe, 200);
+        } else {
+          setMonitoringStatus('unavailable');
         }
         return false;
       } catch (error) {
@@ -184,15 +291,93 @@ export const safeNZXT = {
     trySubscribe();
 
     // Return cleanup function
+    return unsubscribe;
+  },
+
+  /**
+   * Get the active alternative monitoring source (null = NZXT CAM).
+   * 
+   * @returns Active source or null
+   */
+  getMonitoringSource(): MonitoringSource | null {
+    return monitoringSource;
+  },
+
+  /**
+   * Replace NZXT monitoring updates with an alternative source, or pass null
+   * to return to NZXT CAM. An active subscription is moved to the new source
+   * immediately (the subscriber keeps its callback).
+   * 
+   * @param source - Source to use, or null for NZXT CAM
+   */
+  setMonitoringSource(source: MonitoringSource | null): void {
+    if (source === monitoringSource) {
+      return;
+    }
+    monitoringSource = source;
+    if (currentSubscriber) {
+      this.subscribeMonitoring(currentSubscriber);
+    }
+    monitoringSourceListeners.forEach(listener => listener());
+  },
+
+  /**
+   * Observe every payload delivered to the monitoring subscriber, from NZXT CAM
+   * or an alternative source (used for session recording).
+   * 
+   * @param listener - Called with each raw payload
+   * @returns Unsubscribe function
+   */
+  onMonitoringPayload(listener: (data: NZXTMonitoringData) => void): (() => void) {
+    monitoringPayloadListeners.add(listener);
     return () => {
-      if (retryTimeoutId) {
-        clearTimeout(retryTimeoutId);
-        retryTimeoutId = null;
-      }
-      if (currentMonitoringCleanup) {
-        currentMonitoringCleanup();
-        currentMonitoringCleanup = null;
-      }
+      monitoringPayloadListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Get the number of payloads delivered so far, from NZXT CAM or an
+   * alternative source. It only ever increases, so it identifies the latest
+   * monitoring update (used by utils/metricPipeline.ts).
+   * 
+   * @returns Payload sequence number (0 = no payload yet)
+   */
+  getMonitoringPayloadSequence(): number {
+    return monitoringPayloadSequence;
+  },
+
+  /**
+   * Get the monitoring subscription state.
+   * 
+   * @returns Current status
+   */
+  getMonitoringStatus(): MonitoringStatus {
+    return monitoringStatus;
+  },
+
+  /**
+   * Subscribe to monitoring status changes.
+   * 
+   * @param listener - Called after the status changed
+   * @returns Unsubscribe function
+   */
+  onMonitoringStatusChange(listener: () => void): (() => void) {
+    monitoringStatusListeners.add(listener);
+    return () => {
+      monitoringStatusListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Subscribe to monitoring source changes.
+   * 
+   * @param listener - Called after the source changed
+   * @returns Unsubscribe function
+   */
+  onMonitoringSourceChange(listener: () => void): (() => void) {
+    monitoringSourceListeners.add(listener);
+    return () => {
+      monitoringSourceListeners.delete(listener);
     };
   },
 
@@ -15,6 +15,8 @@ import {
   validateOverlayPresetFile 
 } from './schema';
 import { MAX_OVERLAY_ELEMENTS } from '../utils/overlaySettingsHelpers';
+import { migrateClockElements } from '../preset/utils/clockFormat';
+import { migrateTextElements } from '../preset/utils/textSpans';
 
 /**
  * Import result structure.
@@ -108,6 +110,7 @@ export async function exportOverlayPreset(
  * 1. Validate file type (must be .nzxt-esc-overlay-preset)
  * 2. Read and parse JSON
  * 3. Type guard check (isOverlayPresetFile)
+ * 3.5. Migrate legacy element data
  * 4. Validate structure and elements
  * 5. Return elements or errors
  * 
@@ -146,6 +149,11 @@ export async function importOverlayPreset(
       };
     }
     
+    // Step 3.5: Migrate legacy element data (clock format + mode → token format, plain text → spans)
+    if (Array.isArray(parsed.elements)) {
+      parsed.elements = migrateTextElements(migrateClockElements(parsed.elements));
+    }
+    
     // Step 4: Validate structure and elements
     const validation = validateOverlayPresetFile(parsed);
     
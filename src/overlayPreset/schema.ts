@@ -6,6 +6,16 @@
  */
 
 import type { OverlayElement } from '../types/overlay';
+import { isValidRemoteImageUrl } from '../preset/utils/imageSource';
+import { MAX_RICH_TEXT_LENGTH, MAX_TEXT_SPANS, MIN_TEXT_SIZE } from '../domain/richText';
+import { isValidOverlayFont } from '../domain/fonts';
+import { isMetricKey, isValidMetricFormatOptions, MAX_METRIC_DECIMALS } from '../domain/metrics';
+import { isValidMetricDeviceSelector } from '../domain/metricDevices';
+import { isValidMetricThresholds, MAX_METRIC_THRESHOLDS } from '../domain/metricThresholds';
+import { isValidCustomMetricId } from '../domain/customMetrics';
+import { isValidMetricNoDataStyle, isValidNoDataText, MAX_NO_DATA_TEXT_LENGTH } from '../domain/metricFreshness';
+import { isValidMetricProcessing, MAX_PROCESSING_WINDOW_SECONDS } from '../domain/metricProcessing';
+import { MAX_TEMPLATE_LENGTH, MAX_TEMPLATE_DECIMALS } from '../domain/templateString';
 
 /**
  * Current schema version for overlay presets.
@@ -164,10 +174,10 @@ export function validateOverlayPresetFile(
       });
     }
     
-    if (!element.type || !['metric', 'text', 'divider', 'clock', 'date'].includes(element.type)) {
+    if (!element.type || !['metric', 'text', 'divider', 'clock', 'date', 'graph', 'gauge', 'bar', 'image', 'timer', 'template', 'group'].includes(element.type)) {
       errors.push({
         field: `${prefix}.type`,
-        message: 'Element type must be one of: metric, text, divider, clock',
+        message: 'Element type must be one of: metric, text, divider, clock, date, graph, gauge, bar, image, timer, template, group',
       });
     }
     
@@ -200,6 +210,29 @@ export function validateOverlayPresetFile(
       }
     }
     
+    // Layer flags (optional, but if present must be booleans)
+    if (element.hidden !== undefined && typeof element.hidden !== 'boolean') {
+      errors.push({
+        field: `${prefix}.hidden`,
+        message: 'Element hidden flag must be a boolean',
+      });
+    }
+    
+    if (element.locked !== undefined && typeof element.locked !== 'boolean') {
+      errors.push({
+        field: `${prefix}.locked`,
+        message: 'Element locked flag must be a boolean',
+      });
+    }
+    
+    // Layer name (optional, but if present must be a string)
+    if (element.name !== undefined && typeof element.name !== 'string') {
+      errors.push({
+        field: `${prefix}.name`,
+        message: 'Element name must be a string',
+      });
+    }
+    
     // Data validation based on type
     if (!element.data || typeof element.data !== 'object') {
       errors.push({
@@ -211,10 +244,26 @@ export function validateOverlayPresetFile(
     
     const data = element.data as unknown as Record<string, unknown>;
     
+    // Font (text, metric, clock, date, timer): built-in name or custom font reference
+    if (data.font !== undefined && !isValidOverlayFont(data.font)) {
+      errors.push({
+        field: `${prefix}.data.font`,
+        message: 'Font must be a built-in font name or a custom font reference { hash, name }',
+      });
+    }
+    
+    // Value processing (metric, graph, gauge, bar)
+    if (data.processing !== undefined && !isValidMetricProcessing(data.processing)) {
+      errors.push({
+        field: `${prefix}.data.processing`,
+        message: `Processing needs a valid mode, windowSeconds between 0 and ${MAX_PROCESSING_WINDOW_SECONDS} and a positive decayPerSecond`,
+      });
+    }
+    
     if (element.type === 'metric') {
       // Metric element validation
       if (typeof data.metric !== 'string' || 
-          !['cpuTemp', 'cpuLoad', 'cpuClock', 'liquidTemp', 'gpuTemp', 'gpuLoad', 'gpuClock'].includes(data.metric)) {
+          !isMetricKey(data.metric)) {
         errors.push({
           field: `${prefix}.data.metric`,
           message: 'Metric type must be a valid metric key',
@@ -244,17 +293,97 @@ export function validateOverlayPresetFile(
           message: 'Text size must be a positive number',
         });
       }
+      if (data.device !== undefined && !isValidMetricDeviceSelector(data.device)) {
+        errors.push({
+          field: `${prefix}.data.device`,
+          message: 'Metric device must be a device index (0 or higher), "max" or "average"',
+        });
+      }
+      if (data.format !== undefined && !isValidMetricFormatOptions(data.format)) {
+        errors.push({
+          field: `${prefix}.data.format`,
+          message: `Metric format must use temperatureUnit "celsius"/"fahrenheit", clockUnit "mhz"/"ghz", decimals 0-${MAX_METRIC_DECIMALS} and a boolean thousandsSeparator`,
+        });
+      }
+      if (data.thresholds !== undefined && !isValidMetricThresholds(data.thresholds)) {
+        errors.push({
+          field: `${prefix}.data.thresholds`,
+          message: `Metric thresholds must be up to ${MAX_METRIC_THRESHOLDS} rules with a "gte"/"lte" comparison and a numeric value`,
+        });
+      }
+      if (data.customMetric !== undefined && !isValidCustomMetricId(data.customMetric)) {
+        errors.push({
+          field: `${prefix}.data.customMetric`,
+          message: 'Custom metric id must be 1-64 letters, digits, "_", "." or "-"',
+        });
+      }
+      if (data.noDataStyle !== undefined && !isValidMetricNoDataStyle(data.noDataStyle)) {
+        errors.push({
+          field: `${prefix}.data.noDataStyle`,
+          message: 'No-data style must be "auto", "placeholder", "dim" or "hide"',
+        });
+      }
+      if (data.noDataText !== undefined && !isValidNoDataText(data.noDataText)) {
+        errors.push({
+          field: `${prefix}.data.noDataText`,
+          message: `No-data text must be a string of up to ${MAX_NO_DATA_TEXT_LENGTH} characters`,
+        });
+      }
     } else if (element.type === 'text') {
-      // Text element validation
-      if (typeof data.text !== 'string') {
+      // Text element validation (rich text spans)
+      if (!Array.isArray(data.spans) || data.spans.length === 0 || data.spans.length > MAX_TEXT_SPANS) {
         errors.push({
-          field: `${prefix}.data.text`,
-          message: 'Text content must be a string',
+          field: `${prefix}.data.spans`,
+          message: `Text spans must be an array of 1 to ${MAX_TEXT_SPANS} spans`,
+        });
+      } else {
+        let totalLength = 0;
+        data.spans.forEach((span: unknown, spanIndex: number) => {
+          const spanData = span as Record<string, unknown> | null;
+          if (!spanData || typeof spanData !== 'object' || typeof spanData.text !== 'string') {
+            errors.push({
+              field: `${prefix}.data.spans[${spanIndex}].text`,
+              message: 'Span text must be a string',
+            });
+            return;
+          }
+          totalLength += spanData.text.length;
+          if (spanData.size !== undefined && (typeof spanData.size !== 'number' || spanData.size < MIN_TEXT_SIZE)) {
+            errors.push({
+              field: `${prefix}.data.spans[${spanIndex}].size`,
+              message: `Span size must be at least ${MIN_TEXT_SIZE}`,
+            });
+          }
+          if (spanData.font !== undefined && !isValidOverlayFont(spanData.font)) {
+            errors.push({
+              field: `${prefix}.data.spans[${spanIndex}].font`,
+              message: 'Span font must be a built-in font name or a custom font reference { hash, name }',
+            });
+          }
         });
-      } else if (data.text.length > 120) {
+        if (totalLength > MAX_RICH_TEXT_LENGTH) {
+          errors.push({
+            field: `${prefix}.data.spans`,
+            message: `Text content must not exceed ${MAX_RICH_TEXT_LENGTH} characters`,
+          });
+        }
+      }
+      if (data.textAlign !== undefined && !(typeof data.textAlign === 'string' && ['left', 'center', 'right'].includes(data.textAlign))) {
         errors.push({
-          field: `${prefix}.data.text`,
-          message: 'Text content must not exceed 120 characters',
+          field: `${prefix}.data.textAlign`,
+          message: 'Text align must be "left", "center" or "right"',
+        });
+      }
+      if (data.letterSpacing !== undefined && (typeof data.letterSpacing !== 'number' || !Number.isFinite(data.letterSpacing))) {
+        errors.push({
+          field: `${prefix}.data.letterSpacing`,
+          message: 'Letter spacing must be a number',
+        });
+      }
+      if (data.lineHeight !== undefined && (typeof data.lineHeight !== 'number' || data.lineHeight <= 0)) {
+        errors.push({
+          field: `${prefix}.data.lineHeight`,
+          message: 'Line height must be a positive number',
         });
       }
       if (typeof data.textColor !== 'string') {
@@ -291,16 +420,16 @@ export function validateOverlayPresetFile(
       }
     } else if (element.type === 'clock') {
       // Clock element validation
-      if (typeof data.format !== 'string' || !['HH:mm', 'HH:mm:ss'].includes(data.format)) {
+      if (typeof data.format !== 'string' || !data.format) {
         errors.push({
           field: `${prefix}.data.format`,
-          message: 'Clock format must be "HH:mm" or "HH:mm:ss"',
+          message: 'Clock format must be a non-empty string',
         });
       }
-      if (typeof data.mode !== 'string' || !['24h', '12h'].includes(data.mode)) {
+      if (data.timeZone !== undefined && typeof data.timeZone !== 'string') {
         errors.push({
-          field: `${prefix}.data.mode`,
-          message: 'Clock mode must be "24h" or "12h"',
+          field: `${prefix}.data.timeZone`,
+          message: 'Clock time zone must be a string',
         });
       }
       if (typeof data.fontSize !== 'number' || data.fontSize < 6) {
@@ -315,6 +444,30 @@ export function validateOverlayPresetFile(
           message: 'Clock color must be a string',
         });
       }
+      if (data.style !== undefined && (typeof data.style !== 'string' || !['digital', 'analog'].includes(data.style))) {
+        errors.push({
+          field: `${prefix}.data.style`,
+          message: 'Clock style must be "digital" or "analog"',
+        });
+      }
+      if (data.dialSize !== undefined && (typeof data.dialSize !== 'number' || data.dialSize < 40)) {
+        errors.push({
+          field: `${prefix}.data.dialSize`,
+          message: 'Clock dial size must be at least 40',
+        });
+      }
+      if (data.handStyle !== undefined && (typeof data.handStyle !== 'string' || !['classic', 'slim', 'bold'].includes(data.handStyle))) {
+        errors.push({
+          field: `${prefix}.data.handStyle`,
+          message: 'Clock hand style must be "classic", "slim" or "bold"',
+        });
+      }
+      if (data.secondHandMotion !== undefined && (typeof data.secondHandMotion !== 'string' || !['tick', 'smooth'].includes(data.secondHandMotion))) {
+        errors.push({
+          field: `${prefix}.data.secondHandMotion`,
+          message: 'Clock second hand motion must be "tick" or "smooth"',
+        });
+      }
     } else if (element.type === 'date') {
       // Date element validation
       if (typeof data.format !== 'string') {
@@ -335,6 +488,312 @@ export function validateOverlayPresetFile(
           message: 'Date color must be a string',
         });
       }
+    } else if (element.type === 'graph') {
+      // Graph element validation
+      if (typeof data.metric !== 'string' || 
+          !isMetricKey(data.metric)) {
+        errors.push({
+          field: `${prefix}.data.metric`,
+          message: 'Metric type must be a valid metric key',
+        });
+      }
+      if (typeof data.style !== 'string' || !['line', 'area'].includes(data.style)) {
+        errors.push({
+          field: `${prefix}.data.style`,
+          message: 'Graph style must be "line" or "area"',
+        });
+      }
+      if (typeof data.windowSeconds !== 'number' || data.windowSeconds < 5 || data.windowSeconds > 600) {
+        errors.push({
+          field: `${prefix}.data.windowSeconds`,
+          message: 'Graph window must be between 5 and 600 seconds',
+        });
+      }
+      if (typeof data.width !== 'number' || data.width < 20 || data.width > 640) {
+        errors.push({
+          field: `${prefix}.data.width`,
+          message: 'Graph width must be between 20 and 640',
+        });
+      }
+      if (typeof data.height !== 'number' || data.height < 10 || data.height > 640) {
+        errors.push({
+          field: `${prefix}.data.height`,
+          message: 'Graph height must be between 10 and 640',
+        });
+      }
+      if (typeof data.minValue !== 'number' || typeof data.maxValue !== 'number' || data.minValue >= data.maxValue) {
+        errors.push({
+          field: `${prefix}.data.minValue`,
+          message: 'Graph min value must be a number less than max value',
+        });
+      }
+      if (typeof data.strokeColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.strokeColor`,
+          message: 'Graph stroke color must be a string',
+        });
+      }
+      if (typeof data.strokeWidth !== 'number' || data.strokeWidth < 0) {
+        errors.push({
+          field: `${prefix}.data.strokeWidth`,
+          message: 'Graph stroke width must be a positive number',
+        });
+      }
+    } else if (element.type === 'gauge') {
+      // Gauge element validation
+      if (typeof data.metric !== 'string' || 
+          !isMetricKey(data.metric)) {
+        errors.push({
+          field: `${prefix}.data.metric`,
+          message: 'Metric type must be a valid metric key',
+        });
+      }
+      if (typeof data.size !== 'number' || data.size < 40 || data.size > 640) {
+        errors.push({
+          field: `${prefix}.data.size`,
+          message: 'Gauge size must be between 40 and 640',
+        });
+      }
+      if (typeof data.startAngle !== 'number' || typeof data.endAngle !== 'number' ||
+          data.startAngle < -360 || data.endAngle > 360 || data.startAngle >= data.endAngle) {
+        errors.push({
+          field: `${prefix}.data.startAngle`,
+          message: 'Gauge angles must be between -360 and 360 with start angle less than end angle',
+        });
+      }
+      if (typeof data.thickness !== 'number' || data.thickness < 1) {
+        errors.push({
+          field: `${prefix}.data.thickness`,
+          message: 'Gauge thickness must be at least 1',
+        });
+      }
+      if (typeof data.trackColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.trackColor`,
+          message: 'Gauge track color must be a string',
+        });
+      }
+      if (typeof data.valueColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.valueColor`,
+          message: 'Gauge value color must be a string',
+        });
+      }
+      if ((data.minValue !== undefined && typeof data.minValue !== 'number') ||
+          (data.maxValue !== undefined && typeof data.maxValue !== 'number') ||
+          (typeof data.minValue === 'number' && typeof data.maxValue === 'number' && data.minValue >= data.maxValue)) {
+        errors.push({
+          field: `${prefix}.data.minValue`,
+          message: 'Gauge min value must be a number less than max value',
+        });
+      }
+      if (data.tickCount !== undefined && (typeof data.tickCount !== 'number' || data.tickCount < 1 || data.tickCount > 60)) {
+        errors.push({
+          field: `${prefix}.data.tickCount`,
+          message: 'Gauge tick count must be between 1 and 60',
+        });
+      }
+    } else if (element.type === 'bar') {
+      // Bar element validation
+      if (typeof data.metric !== 'string' || 
+          !isMetricKey(data.metric)) {
+        errors.push({
+          field: `${prefix}.data.metric`,
+          message: 'Metric type must be a valid metric key',
+        });
+      }
+      if (typeof data.orientation !== 'string' || !['horizontal', 'vertical'].includes(data.orientation)) {
+        errors.push({
+          field: `${prefix}.data.orientation`,
+          message: 'Bar orientation must be "horizontal" or "vertical"',
+        });
+      }
+      if (typeof data.mode !== 'string' || !['solid', 'segmented', 'gradient'].includes(data.mode)) {
+        errors.push({
+          field: `${prefix}.data.mode`,
+          message: 'Bar mode must be "solid", "segmented" or "gradient"',
+        });
+      }
+      if (typeof data.width !== 'number' || data.width < 4 || data.width > 640) {
+        errors.push({
+          field: `${prefix}.data.width`,
+          message: 'Bar width must be between 4 and 640',
+        });
+      }
+      if (typeof data.height !== 'number' || data.height < 4 || data.height > 640) {
+        errors.push({
+          field: `${prefix}.data.height`,
+          message: 'Bar height must be between 4 and 640',
+        });
+      }
+      if (typeof data.fillColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.fillColor`,
+          message: 'Bar fill color must be a string',
+        });
+      }
+      if (typeof data.trackColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.trackColor`,
+          message: 'Bar track color must be a string',
+        });
+      }
+      if (data.segmentCount !== undefined && (typeof data.segmentCount !== 'number' || data.segmentCount < 1 || data.segmentCount > 50)) {
+        errors.push({
+          field: `${prefix}.data.segmentCount`,
+          message: 'Bar segment count must be between 1 and 50',
+        });
+      }
+      if ((data.minValue !== undefined && typeof data.minValue !== 'number') ||
+          (data.maxValue !== undefined && typeof data.maxValue !== 'number') ||
+          (typeof data.minValue === 'number' && typeof data.maxValue === 'number' && data.minValue >= data.maxValue)) {
+        errors.push({
+          field: `${prefix}.data.minValue`,
+          message: 'Bar min value must be a number less than max value',
+        });
+      }
+    } else if (element.type === 'image') {
+      // Image element validation (local images are metadata-only)
+      if (typeof data.source !== 'string' || !['remote', 'local'].includes(data.source)) {
+        errors.push({
+          field: `${prefix}.data.source`,
+          message: 'Image source must be "remote" or "local"',
+        });
+      } else if (data.source === 'remote' && data.url !== undefined && data.url !== '' && !isValidRemoteImageUrl(data.url)) {
+        errors.push({
+          field: `${prefix}.data.url`,
+          message: 'Image URL must be empty or a valid http(s) URL',
+        });
+      } else if (data.source === 'local' && typeof data.localImageId !== 'string') {
+        errors.push({
+          field: `${prefix}.data.localImageId`,
+          message: 'Local image ID must be a string',
+        });
+      }
+      if (typeof data.width !== 'number' || data.width < 8 || data.width > 640) {
+        errors.push({
+          field: `${prefix}.data.width`,
+          message: 'Image width must be between 8 and 640',
+        });
+      }
+      if (typeof data.height !== 'number' || data.height < 8 || data.height > 640) {
+        errors.push({
+          field: `${prefix}.data.height`,
+          message: 'Image height must be between 8 and 640',
+        });
+      }
+      if (typeof data.fit !== 'string' || !['contain', 'cover', 'fill'].includes(data.fit)) {
+        errors.push({
+          field: `${prefix}.data.fit`,
+          message: 'Image fit must be "contain", "cover" or "fill"',
+        });
+      }
+      if (data.opacity !== undefined && (typeof data.opacity !== 'number' || data.opacity < 0 || data.opacity > 1)) {
+        errors.push({
+          field: `${prefix}.data.opacity`,
+          message: 'Image opacity must be between 0 and 1',
+        });
+      }
+    } else if (element.type === 'timer') {
+      // Timer element validation
+      if (typeof data.mode !== 'string' || !['countdown', 'stopwatch', 'uptime'].includes(data.mode)) {
+        errors.push({
+          field: `${prefix}.data.mode`,
+          message: 'Timer mode must be "countdown", "stopwatch" or "uptime"',
+        });
+      }
+      if (typeof data.format !== 'string') {
+        errors.push({
+          field: `${prefix}.data.format`,
+          message: 'Timer format must be a string',
+        });
+      }
+      if (data.mode === 'countdown' && (typeof data.targetTimestamp !== 'number' || !Number.isFinite(data.targetTimestamp))) {
+        errors.push({
+          field: `${prefix}.data.targetTimestamp`,
+          message: 'Countdown target must be a timestamp in milliseconds',
+        });
+      }
+      if (typeof data.fontSize !== 'number' || data.fontSize < 6) {
+        errors.push({
+          field: `${prefix}.data.fontSize`,
+          message: 'Timer font size must be at least 6',
+        });
+      }
+      if (typeof data.color !== 'string') {
+        errors.push({
+          field: `${prefix}.data.color`,
+          message: 'Timer color must be a string',
+        });
+      }
+      if (data.endText !== undefined && typeof data.endText !== 'string') {
+        errors.push({
+          field: `${prefix}.data.endText`,
+          message: 'Timer end text must be a string',
+        });
+      }
+    } else if (element.type === 'template') {
+      // Template element validation
+      if (typeof data.template !== 'string' || data.template.length > MAX_TEMPLATE_LENGTH) {
+        errors.push({
+          field: `${prefix}.data.template`,
+          message: `Template must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`,
+        });
+      }
+      if (typeof data.textSize !== 'number' || data.textSize < MIN_TEXT_SIZE) {
+        errors.push({
+          field: `${prefix}.data.textSize`,
+          message: `Template text size must be at least ${MIN_TEXT_SIZE}`,
+        });
+      }
+      if (typeof data.textColor !== 'string') {
+        errors.push({
+          field: `${prefix}.data.textColor`,
+          message: 'Template text color must be a string',
+        });
+      }
+      if (data.placeholderFormats !== undefined) {
+        if (typeof data.placeholderFormats !== 'object' || data.placeholderFormats === null || Array.isArray(data.placeholderFormats)) {
+          errors.push({
+            field: `${prefix}.data.placeholderFormats`,
+            message: 'Template placeholder formats must be an object',
+          });
+        } else {
+          Object.entries(data.placeholderFormats as Record<string, unknown>).forEach(([key, value]) => {
+            const format = (typeof value === 'object' && value !== null ? value : {}) as { decimals?: unknown; showUnit?: unknown };
+            const decimals = format.decimals;
+            if (
+              typeof value !== 'object' || value === null ||
+              (decimals !== undefined && (typeof decimals !== 'number' || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TEMPLATE_DECIMALS)) ||
+              (format.showUnit !== undefined && typeof format.showUnit !== 'boolean')
+            ) {
+              errors.push({
+                field: `${prefix}.data.placeholderFormats.${key}`,
+                message: `Placeholder format needs decimals 0-${MAX_TEMPLATE_DECIMALS} and a boolean showUnit`,
+              });
+            }
+          });
+        }
+      }
+    } else if (element.type === 'group') {
+      // Group element validation (children must be elements of this file)
+      const elementIds = file.elements.map(el => el?.id);
+      if (
+        !Array.isArray(data.childIds) ||
+        data.childIds.length === 0 ||
+        data.childIds.some((childId: unknown) => typeof childId !== 'string' || childId === element.id || !elementIds.includes(childId))
+      ) {
+        errors.push({
+          field: `${prefix}.data.childIds`,
+          message: 'Group children must be a non-empty array of element IDs from this preset',
+        });
+      }
+      if (typeof data.width !== 'number' || typeof data.height !== 'number' || data.width < 0 || data.height < 0) {
+        errors.push({
+          field: `${prefix}.data.width`,
+          message: 'Group width and height must be non-negative numbers',
+        });
+      }
     }
   });
   
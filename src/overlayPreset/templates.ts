@@ -41,7 +41,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 86,
       zIndex: 1,
       data: {
-        text: 'CPU',
+        spans: [{ text: 'CPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 45,
       },
@@ -69,7 +69,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 75,
       zIndex: 1,
       data: {
-        text: 'CPU',
+        spans: [{ text: 'CPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 45,
       },
@@ -94,7 +94,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 75,
       zIndex: 3,
       data: {
-        text: 'GPU',
+        spans: [{ text: 'GPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 45,
       },
@@ -133,7 +133,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 78,
       zIndex: 1,
       data: {
-        text: 'CPU',
+        spans: [{ text: 'CPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 46,
       },
@@ -158,7 +158,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: -27,
       zIndex: 3,
       data: {
-        text: 'GPU',
+        spans: [{ text: 'GPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 25,
       },
@@ -194,7 +194,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 137,
       zIndex: 6,
       data: {
-        text: 'Liquid',
+        spans: [{ text: 'Liquid' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 25,
       },
@@ -222,7 +222,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: -47,
       zIndex: 1,
       data: {
-        text: 'CPU',
+        spans: [{ text: 'CPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 35,
       },
@@ -247,7 +247,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: -47,
       zIndex: 3,
       data: {
-        text: 'GPU',
+        spans: [{ text: 'GPU' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 35,
       },
@@ -283,7 +283,7 @@ export const OVERLAY_TEMPLATES: Record<string, TemplateElement[]> = {
       y: 162,
       zIndex: 6,
       data: {
-        text: 'Liquid',
+        spans: [{ text: 'Liquid' }],
         textColor: 'rgba(255, 255, 255, 1)',
         textSize: 35,
       },
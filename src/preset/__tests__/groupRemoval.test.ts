@@ -0,0 +1,150 @@
+/**
+ * Group Removal Tests
+ *
+ * Tests for removing grouped elements (groups are ungrouped or refitted).
+ */
+
+import type { OverlayElement } from '../../types/overlay';
+import type { OverlayRuntimeState } from '../../state/overlay/types';
+import { createStoreFromArray } from '../../state/overlay/elementStore';
+import { createInitialSelectionState } from '../../state/overlay/selection';
+import { createInitialHistoryState } from '../../state/overlay/history';
+import { createInitialTransactionState } from '../../state/overlay/transactions';
+import { createBatchAction, createRemoveElementAction } from '../../state/overlay/actions';
+
+function divider(id: string, x: number): OverlayElement {
+  return { id, type: 'divider', x, y: 100, data: { width: 10, height: 10, color: '#ffffff' } };
+}
+
+function group(id: string, childIds: string[], x: number, width: number): OverlayElement {
+  return { id, type: 'group', x, y: 100, data: { childIds, width, height: 10 } };
+}
+
+/**
+ * Two groups: "wide" (a, b, c) and "pair" (d, e).
+ */
+function createState(): OverlayRuntimeState {
+  const elements = [
+    divider('a', 100),
+    divider('b', 200),
+    divider('c', 300),
+    group('wide', ['a', 'b', 'c'], 200, 210),
+    divider('d', 100),
+    divider('e', 150),
+    group('pair', ['d', 'e'], 125, 60),
+  ];
+
+  return {
+    elements: createStoreFromArray(elements),
+    selection: createInitialSelectionState(),
+    zOrder: elements.map(element => element.id),
+    history: createInitialHistoryState(),
+    transactions: createInitialTransactionState(),
+    meta: { version: 1, createdAt: 0, updatedAt: 0, presetId: null },
+  };
+}
+
+function assertRestored(state: OverlayRuntimeState, original: OverlayRuntimeState, label: string) {
+  if (state.zOrder.join(',') !== original.zOrder.join(',')) {
+    throw new Error(`${label}: z-order should be restored, got ${state.zOrder.join(',')}`);
+  }
+  for (const [id, element] of original.elements) {
+    if (JSON.stringify(state.elements.get(id)) !== JSON.stringify(element)) {
+      throw new Error(`${label}: element ${id} should be restored`);
+    }
+  }
+}
+
+/**
+ * Test case: A group left with one child is ungrouped
+ */
+export function testUngroupBelowMinimum() {
+  const state = createState();
+  const action = createRemoveElementAction('e', state);
+  const result = action.execute(state);
+
+  if (result.elements.has('pair') || result.zOrder.includes('pair')) {
+    throw new Error('Group with one remaining child should be removed');
+  }
+
+  if (!result.elements.has('d') || !result.zOrder.includes('d')) {
+    throw new Error('Remaining child should stay as a top-level element');
+  }
+
+  assertRestored(action.undo(result), state, 'Undo');
+
+  console.log('✅ testUngroupBelowMinimum: PASSED');
+}
+
+/**
+ * Test case: A group that keeps enough children is fitted to them
+ */
+export function testRefitRemainingChildren() {
+  const state = createState();
+  const action = createRemoveElementAction('c', state);
+  const result = action.execute(state);
+  const wide = result.elements.get('wide');
+
+  if (!wide || wide.type !== 'group' || !('childIds' in wide.data)) {
+    throw new Error('Group with two remaining children should be kept');
+  }
+
+  if (wide.data.childIds.join(',') !== 'a,b') {
+    throw new Error(`Group children should be a,b, got ${wide.data.childIds.join(',')}`);
+  }
+
+  if (wide.x !== 150 || wide.data.width !== 110 || wide.data.height !== 10) {
+    throw new Error(`Group frame should be x=150 width=110 height=10, got x=${wide.x} width=${wide.data.width} height=${wide.data.height}`);
+  }
+
+  assertRestored(action.undo(result), state, 'Undo');
+
+  console.log('✅ testRefitRemainingChildren: PASSED');
+}
+
+/**
+ * Test case: Removing several children in one batch ungroups once the minimum is crossed
+ */
+export function testBatchRemoval() {
+  const state = createState();
+  const action = createBatchAction([
+    createRemoveElementAction('a', state),
+    createRemoveElementAction('c', state),
+  ]);
+  const result = action.execute(state);
+
+  if (result.elements.has('wide') || result.zOrder.includes('wide')) {
+    throw new Error('Group should be removed once it has one child left');
+  }
+
+  if (result.zOrder.join(',') !== 'b,d,e,pair') {
+    throw new Error(`Z-order should be b,d,e,pair, got ${result.zOrder.join(',')}`);
+  }
+
+  assertRestored(action.undo(result), state, 'Batch undo');
+
+  console.log('✅ testBatchRemoval: PASSED');
+}
+
+/**
+ * Run all group removal tests
+ */
+export function runGroupRemovalTests() {
+  console.log('🧪 Running Group Removal Tests...\n');
+
+  try {
+    testUngroupBelowMinimum();
+    testRefitRemainingChildren();
+    testBatchRemoval();
+
+    console.log('\n✅ All group removal tests passed!');
+  } catch (error) {
+    console.error('\n❌ Group removal test failed:', error);
+    throw error;
+  }
+}
+
+// Export for manual testing
+if (typeof window !== 'undefined') {
+  (window as any).runGroupRemovalTests = runGroupRemovalTests;
+}
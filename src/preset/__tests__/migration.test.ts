@@ -9,6 +9,10 @@
 
 import { migratePreset, getSchemaVersion } from '../migration';
 import { CURRENT_SCHEMA_VERSION } from '../constants';
+import { runFullMigration } from '../vNext/migrationIndex';
+import { formatTimeParts } from '../../domain/timeFormat';
+import { estimateRichTextDimensions } from '../../domain/richText';
+import type { ClockElementData, GroupElementData, TextElementData } from '../../types/overlay';
 
 /**
  * Test case: Migrate version 0 to version 1
@@ -143,6 +147,196 @@ export function testVersionDetection() {
   console.log('✅ testVersionDetection: PASSED');
 }
 
+/**
+ * Test case: Legacy clock format + mode migrate to token format without visual change
+ */
+export function testMigrateLegacyClockFormat() {
+  const legacyClock = (id: string, format: string, mode: string) => ({
+    id,
+    type: 'clock',
+    x: 0,
+    y: 0,
+    zIndex: 0,
+    data: { format, mode, fontSize: 45, color: '#ffffff' },
+  });
+
+  const v3File = {
+    schemaVersion: 3,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    appVersion: '5.12.0',
+    presetName: 'Clocks',
+    background: {
+      url: '',
+      settings: {},
+    },
+    overlay: {
+      mode: 'custom',
+      elements: [
+        legacyClock('clock-24', 'HH:mm', '24h'),
+        legacyClock('clock-24s', 'HH:mm:ss', '24h'),
+        legacyClock('clock-12', 'HH:mm', '12h'),
+        legacyClock('clock-12s', 'HH:mm:ss', '12h'),
+      ],
+    },
+  };
+
+  const migrated = runFullMigration(v3File);
+  const formats = migrated.overlay.elements.map(el => (el.data as ClockElementData).format);
+  const expected = ['HH:mm', 'HH:mm:ss', 'h:mm A', 'h:mm:ss A'];
+
+  if (formats.join('|') !== expected.join('|')) {
+    throw new Error(`Expected formats ${expected.join(', ')}, got ${formats.join(', ')}`);
+  }
+
+  if (migrated.overlay.elements.some(el => 'mode' in (el.data as object))) {
+    throw new Error('Legacy mode field should be removed');
+  }
+
+  // Same output as the legacy renderer ("1:05 PM", "07:05:09")
+  const afternoon = { hours: 13, minutes: 5, seconds: 9, milliseconds: 0 };
+  const morning = { hours: 7, minutes: 5, seconds: 9, milliseconds: 0 };
+  if (formatTimeParts('h:mm A', afternoon) !== '1:05 PM') {
+    throw new Error('12h format should render as "1:05 PM"');
+  }
+  if (formatTimeParts('HH:mm:ss', morning) !== '07:05:09') {
+    throw new Error('24h format should render as "07:05:09"');
+  }
+
+  // Idempotent
+  const again = runFullMigration(migrated);
+  if (again.overlay.elements.map(el => (el.data as ClockElementData).format).join('|') !== expected.join('|')) {
+    throw new Error('Clock migration should be idempotent');
+  }
+
+  console.log('✅ testMigrateLegacyClockFormat: PASSED');
+}
+
+/**
+ * Test case: Legacy plain text migrates to a single span that inherits element styles
+ */
+export function testMigrateLegacyTextToSpans() {
+  const v3File = {
+    schemaVersion: 3,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    appVersion: '5.12.0',
+    presetName: 'Text',
+    background: {
+      url: '',
+      settings: {},
+    },
+    overlay: {
+      mode: 'custom',
+      elements: [
+        {
+          id: 'text-1',
+          type: 'text',
+          x: 0,
+          y: 86,
+          zIndex: 0,
+          data: { text: 'CPU', textColor: 'rgba(255, 255, 255, 1)', textSize: 45 },
+        },
+      ],
+    },
+  };
+
+  const migrated = runFullMigration(v3File);
+  const data = migrated.overlay.elements[0].data as TextElementData;
+
+  if (!Array.isArray(data.spans) || data.spans.length !== 1 || data.spans[0].text !== 'CPU') {
+    throw new Error(`Expected a single "CPU" span, got ${JSON.stringify(data.spans)}`);
+  }
+
+  if ('text' in data || Object.keys(data.spans[0]).length !== 1) {
+    throw new Error('Legacy text field should be removed and the span should inherit element styles');
+  }
+
+  if (data.textColor !== 'rgba(255, 255, 255, 1)' || data.textSize !== 45) {
+    throw new Error('Element text color and size should be preserved');
+  }
+
+  // Same bounding box as the legacy single-line estimate (textSize * length * 0.6 x textSize * 1.2)
+  const { width, height } = estimateRichTextDimensions(data);
+  if (width !== Math.max(45 * 3 * 0.6, 45 * 2) || height !== 45 * 1.2) {
+    throw new Error(`Unexpected text dimensions ${width}x${height}`);
+  }
+
+  // Idempotent
+  const again = runFullMigration(migrated);
+  if (JSON.stringify(again.overlay.elements[0].data) !== JSON.stringify(data)) {
+    throw new Error('Text migration should be idempotent');
+  }
+
+  console.log('✅ testMigrateLegacyTextToSpans: PASSED');
+}
+
+/**
+ * Test case: v3 migrates to v4, invalid group references are dropped
+ */
+export function testMigrateV3ToV4Groups() {
+  const divider = (id: string, x: number) => ({
+    id,
+    type: 'divider',
+    x,
+    y: 0,
+    zIndex: 0,
+    data: { width: 40, height: 4, color: '#ffffff' },
+  });
+  const group = (id: string, childIds: string[]) => ({
+    id,
+    type: 'group',
+    x: 0,
+    y: 0,
+    zIndex: 0,
+    data: { childIds, width: 120, height: 4 },
+  });
+
+  const v3File = {
+    schemaVersion: 3,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    appVersion: '5.12.0',
+    presetName: 'Groups',
+    background: {
+      url: '',
+      settings: {},
+    },
+    overlay: {
+      mode: 'custom',
+      elements: [
+        divider('left', -40),
+        divider('right', 40),
+        group('group-1', ['left', 'right', 'missing']),
+        group('group-empty', ['missing']),
+      ],
+      zOrder: ['left', 'right', 'group-1', 'group-empty'],
+    },
+  };
+
+  const migrated = runFullMigration(v3File);
+  if (migrated.schemaVersion !== 4) {
+    throw new Error(`Expected schemaVersion 4, got ${migrated.schemaVersion}`);
+  }
+
+  const ids = migrated.overlay.elements.map(el => el.id);
+  if (ids.join('|') !== 'left|right|group-1') {
+    throw new Error(`Expected empty group to be dropped, got ${ids.join(', ')}`);
+  }
+  const childIds = (migrated.overlay.elements[2].data as GroupElementData).childIds;
+  if (childIds.join('|') !== 'left|right') {
+    throw new Error(`Expected missing child to be dropped, got ${childIds.join(', ')}`);
+  }
+  if (migrated.overlay.zOrder?.join('|') !== 'left|right|group-1') {
+    throw new Error('Dropped group should be removed from z-order');
+  }
+
+  // Idempotent
+  const again = runFullMigration(migrated);
+  if (JSON.stringify(again.overlay) !== JSON.stringify(migrated.overlay)) {
+    throw new Error('v4 migration should be idempotent');
+  }
+
+  console.log('✅ testMigrateV3ToV4Groups: PASSED');
+}
+
 /**
  * Run all migration tests
  */
@@ -154,6 +348,9 @@ export function runMigrationTests() {
     testMissingFields();
     testIdempotentMigration();
     testVersionDetection();
+    testMigrateLegacyClockFormat();
+    testMigrateLegacyTextToSpans();
+    testMigrateV3ToV4Groups();
     
     console.log('\n✅ All migration tests passed!');
   } catch (error) {
@@ -163,6 +163,56 @@ export function testNoChangesForValidValues() {
   console.log('✅ testNoChangesForValidValues: PASSED');
 }
 
+/**
+ * Test case: Invalid derived metrics are dropped, valid ones kept in order
+ */
+export function testDropInvalidDerivedMetrics() {
+  const preset: PresetFile = {
+    schemaVersion: 1,
+    exportedAt: '2024-01-01T00:00:00.000Z',
+    appVersion: '0.0.1',
+    presetName: 'Test Preset',
+    background: {
+      url: 'https://example.com/video.mp4',
+      settings: {
+        scale: 1.0,
+        x: 0,
+        y: 0,
+        fit: 'cover',
+        align: 'center',
+        loop: true,
+        autoplay: true,
+        mute: true,
+        resolution: '640x640',
+        backgroundColor: '#000000',
+      },
+    },
+    overlay: {
+      mode: 'none',
+      elements: [],
+    },
+    derivedMetrics: [
+      { id: 'hottest', label: 'Hottest', unit: '°C', unitType: 'temp', expression: 'max(cpuTemp, gpuTemp)' },
+      { id: 'broken', label: 'Broken', unit: '', unitType: 'none', expression: 'cpuTemp +' }, // Syntax error
+      { id: 'loop', label: 'Loop', unit: '', unitType: 'none', expression: 'later + 1' }, // References a later metric
+      { id: 'later', label: 'Later', unit: '', unitType: 'none', expression: 'hottest - liquidTemp' },
+    ],
+  };
+
+  const result = normalizePresetFile(preset);
+  const ids = (result.normalized.derivedMetrics ?? []).map(definition => definition.id);
+
+  if (ids.join(',') !== 'hottest,later') {
+    throw new Error(`Only valid derived metrics should be kept, got ${ids.join(',')}`);
+  }
+
+  if (!result.changes.find(c => c.field === 'derivedMetrics')) {
+    throw new Error('Should have normalization change for derivedMetrics');
+  }
+
+  console.log('✅ testDropInvalidDerivedMetrics: PASSED');
+}
+
 /**
  * Run all normalization tests
  */
@@ -173,6 +223,7 @@ export function runNormalizationTests() {
     testClampValues();
     testFixInvalidEnums();
     testNoChangesForValidValues();
+    testDropInvalidDerivedMetrics();
     
     console.log('\n✅ All normalization tests passed!');
   } catch (error) {
@@ -15,11 +15,12 @@
 export const CURRENT_SCHEMA_VERSION = 2;
 
 /**
- * Next schema version (v3) - used when FAZ-3C feature flag is enabled.
+ * Next schema version (v4) - used when FAZ-3C feature flag is enabled.
  * 
  * FAZ-3C: v3 introduces canonical z-order in overlay.zOrder field.
+ * v4 adds group elements.
  */
-export const NEXT_SCHEMA_VERSION = 3;
+export const NEXT_SCHEMA_VERSION = 4;
 
 /**
  * Minimum supported schema version.
@@ -35,6 +36,8 @@ export const SCHEMA_VERSION_HISTORY: Record<number, string> = {
   0: 'Initial version (no schemaVersion field) - Legacy format',
   1: 'Added presetName field, standardized structure',
   2: 'Added background.source media source model (remote/youtube/pinterest/local)',
+  3: 'Added canonical overlay.zOrder',
+  4: 'Added group elements',
   // Future versions will be added here as they are introduced
 };
 
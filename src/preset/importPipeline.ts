@@ -132,7 +132,7 @@ export async function importPresetPipeline(
       const useNewRuntime = shouldUseFaz3BRuntime();
       
       if (useNewRuntime) {
-        // Use vNext migration system (migrates to v3)
+        // Use vNext migration system (migrates to v4)
         try {
           migrated = runFullMigration(parsed);
         } catch (error) {
@@ -14,6 +14,8 @@ import { CURRENT_SCHEMA_VERSION } from './constants';
 import { importPresetPipeline, type ImportResult } from './importPipeline';
 import type { AppSettings } from '../constants/defaults';
 import { deriveBackgroundSourceFromUrl } from './utils/mediaSource';
+import { usesLocalImages } from './utils/imageSource';
+import { getPresetDerivedMetrics } from './storage';
 // FAZ-3C: vNext preset system imports
 import { exportRuntimeStateToPreset } from './vNext/presetExportVNext';
 import { shouldUseFaz3BRuntime } from '../utils/featureFlags';
@@ -37,7 +39,7 @@ import { APP_VERSION } from '../version';
  * @param settings - Current app settings
  * @param mediaUrl - Current media URL
  * @param presetName - Preset name (unused, kept for API compatibility)
- * @param overlayElements - Overlay elements (unused, kept for API compatibility)
+ * @param overlayElements - Overlay elements (only checked for local image references)
  * @returns Preset file object with background and misc sections
  */
 export function createPresetFromState(
@@ -85,6 +87,10 @@ export function createPresetFromState(
     misc.localMediaWarning =
       'This preset uses a local media file. The media itself is not included in this export.'; // NOTE: This is metadata-only, not shown to user, kept in English for consistency
   }
+  if (usesLocalImages(elements)) {
+    misc.localImageWarning =
+      'This preset uses local image files in overlay elements. The images themselves are not included in this export.'; // NOTE: Metadata-only, same as localMediaWarning
+  }
 
   const miscOrUndefined = Object.keys(misc).length > 0 ? misc : undefined;
 
@@ -152,11 +158,15 @@ export async function exportPreset(
         const exportedPreset = exportRuntimeStateToPreset(runtimeState, presetName);
         
         // Merge background settings from current settings (background is not part of runtime state)
-        const backgroundFromSettings = createPresetFromState(settings, mediaUrl, presetName);
+        // Elements are passed so local image references produce misc.localImageWarning
+        const backgroundFromSettings = createPresetFromState(settings, mediaUrl, presetName, exportedPreset.overlay.elements);
+        // Derived metrics are stored with the preset (not part of runtime state)
+        const derivedMetrics = getPresetDerivedMetrics(activePresetId);
         preset = {
           ...exportedPreset,
           background: backgroundFromSettings.background,
           misc: backgroundFromSettings.misc,
+          ...(derivedMetrics.length > 0 ? { derivedMetrics } : {}),
         };
       } catch (error) {
         // Fallback to old system if vNext export fails
@@ -8,6 +8,7 @@
 import type { PresetFile } from './schema';
 import { VALUE_RANGES, VALID_ENUMS } from './constants';
 import type { OverlayElement } from '../types/overlay';
+import { sanitizeDerivedMetrics } from '../domain/derivedMetrics';
 
 /**
  * Represents a single normalization change.
@@ -57,6 +58,19 @@ export function normalizePresetFile(file: PresetFile): NormalizationResult {
     normalizeOverlay(normalized.overlay, changes);
   }
 
+  // Drop invalid derived metrics
+  if (normalized.derivedMetrics !== undefined) {
+    const { definitions, errors } = sanitizeDerivedMetrics(normalized.derivedMetrics);
+    if (errors.length > 0) {
+      changes.push({
+        field: 'derivedMetrics',
+        oldValue: normalized.derivedMetrics,
+        newValue: definitions,
+      });
+      normalized.derivedMetrics = definitions;
+    }
+  }
+
   return {
     normalized,
     changes,
@@ -6,7 +6,7 @@
  */
 
 import type { AppSettings } from '../constants/defaults';
-import type { Overlay } from '../types/overlay';
+import type { DerivedMetricDefinition, Overlay } from '../types/overlay';
 import type { BackgroundSource } from './utils/mediaSource';
 import { sanitizeBackgroundSource } from './utils/mediaSource';
 
@@ -54,12 +54,16 @@ export interface PresetFile {
   };
   /** Overlay configuration */
   overlay: Overlay;
+  /** Derived metric definitions (optional; see domain/derivedMetrics.ts) */
+  derivedMetrics?: DerivedMetricDefinition[];
   /** UI/Misc settings */
   misc?: {
     /** Show guide lines toggle */
     showGuide?: boolean;
     /** Local media export warning (metadata only, no binary) */
     localMediaWarning?: string;
+    /** Local overlay image export warning (metadata only, no binary) */
+    localImageWarning?: string;
     /** Future: language preference */
     language?: string;
     /** Future: any other UI settings */
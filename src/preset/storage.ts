@@ -6,6 +6,7 @@
  */
 
 import type { PresetFile } from './schema';
+import type { DerivedMetricDefinition } from '../types/overlay';
 import { CURRENT_SCHEMA_VERSION } from './constants';
 import { mergePresetFields } from './utils/atomicMerge';
 // FAZ-3C: vNext migration system
@@ -108,10 +109,10 @@ export function getPresets(): StoredPreset[] {
       presets = JSON.parse(stored);
     }
     
-    // FAZ-3C: Migrate presets to v3 if feature flag is enabled
+    // FAZ-3C: Migrate presets to v4 if feature flag is enabled
     const useNewRuntime = shouldUseFaz3BRuntime();
     if (useNewRuntime) {
-      // Migrate each preset to v3
+      // Migrate each preset to v4
       presets = presets.map(preset => {
         try {
           const migratedPreset = runFullMigration(preset.preset);
@@ -120,7 +121,7 @@ export function getPresets(): StoredPreset[] {
             preset: migratedPreset,
           };
         } catch (error) {
-          console.warn(`[PresetStorage] Failed to migrate preset ${preset.id} to v3:`, error);
+          console.warn(`[PresetStorage] Failed to migrate preset ${preset.id} to v4:`, error);
           // Return original preset if migration fails
           return preset;
         }
@@ -270,6 +271,24 @@ export function getPresetById(id: string): StoredPreset | null {
   return presets.find(p => p.id === id) || null;
 }
 
+/**
+ * Get the derived metric definitions of a preset (empty when none or unknown preset).
+ */
+export function getPresetDerivedMetrics(id: string | null): DerivedMetricDefinition[] {
+  if (!id) {
+    return [];
+  }
+  const derivedMetrics = getPresetById(id)?.preset.derivedMetrics;
+  return Array.isArray(derivedMetrics) ? derivedMetrics : [];
+}
+
+/**
+ * Replace the derived metric definitions of a preset.
+ */
+export function setPresetDerivedMetrics(id: string, derivedMetrics: DerivedMetricDefinition[]): void {
+  updatePreset(id, { preset: { derivedMetrics } as PresetFile });
+}
+
 /**
  * Check if preset name exists.
  */
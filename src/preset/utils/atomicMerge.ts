@@ -4,6 +4,7 @@
  * Handles merge strategy for preset updates:
  * - background: full overwrite
  * - misc: full overwrite
+ * - derivedMetrics: full overwrite
  * - overlay: mode + elements (elements ARE stored in presets for persistence)
  * 
  * FAZ 9.2 HOTFIX: Overlay elements ARE stored in preset files for persistence.
@@ -20,6 +21,7 @@ import type { PresetFile } from '../schema';
  * Merge rules:
  * - background: full overwrite if newPart.background exists
  * - misc: full overwrite if newPart.misc exists
+ * - derivedMetrics: full overwrite if newPart.derivedMetrics exists
  * - overlay.mode: full overwrite if newPart.overlay.mode exists
  * - overlay.elements: ID-based partial merge (update existing, preserve others)
  * 
@@ -49,6 +51,11 @@ export function mergePresetFields(
     merged.misc = newPart.misc;
   }
 
+  // Derived metrics: full overwrite
+  if (newPart.derivedMetrics !== undefined) {
+    merged.derivedMetrics = newPart.derivedMetrics;
+  }
+
   // Overlay: FAZ 7 FIX v2 - Save mode AND elements from runtime
   // CRITICAL: Overlay elements come from runtime overlay Map and MUST be saved to preset for persistence
   if (newPart.overlay) {
@@ -0,0 +1,52 @@
+/**
+ * Clock element format migration.
+ *
+ * Legacy clock elements stored a fixed format ("HH:mm" | "HH:mm:ss") plus a
+ * separate 12h/24h mode. Clocks now use a single token format string
+ * (see domain/timeFormat.ts). Conversion keeps the rendered output identical:
+ * - 24h: "HH:mm" / "HH:mm:ss" are already valid token formats
+ * - 12h: unpadded hours + " AM/PM" → "h:mm A" / "h:mm:ss A"
+ */
+
+import type { OverlayElement } from '../../types/overlay';
+import { DEFAULT_TIME_FORMAT } from '../../domain/timeFormat';
+
+/**
+ * Converts legacy format + mode to a token format string.
+ */
+export function legacyClockFormatToTokens(format: unknown, mode: unknown): string {
+  const base = format === 'HH:mm:ss' ? 'HH:mm:ss' : format === 'HH:mm' ? 'HH:mm' : null;
+
+  if (base === null) {
+    // Not a legacy format (already token-based or invalid) - keep as-is
+    return typeof format === 'string' && format ? format : DEFAULT_TIME_FORMAT;
+  }
+
+  return mode === '12h' ? `${base.replace('HH', 'h')} A` : base;
+}
+
+/**
+ * Migrates a single clock element's data to the token format.
+ * Idempotent: data without a legacy mode field is returned unchanged.
+ */
+export function migrateClockElement(element: OverlayElement): OverlayElement {
+  if (element?.type !== 'clock' || !element.data || typeof element.data !== 'object' || !('mode' in element.data)) {
+    return element;
+  }
+
+  const { mode, ...data } = element.data as unknown as Record<string, unknown>;
+  return {
+    ...element,
+    data: {
+      ...data,
+      format: legacyClockFormatToTokens(data.format, mode),
+    } as unknown as OverlayElement['data'],
+  };
+}
+
+/**
+ * Migrates all clock elements in an element array.
+ */
+export function migrateClockElements(elements: OverlayElement[]): OverlayElement[] {
+  return elements.map(migrateClockElement);
+}
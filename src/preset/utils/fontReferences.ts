@@ -0,0 +1,57 @@
+/**
+ * Custom font references in presets.
+ *
+ * Mirrors the local image rules in imageSource.ts: presets reference uploaded
+ * fonts by { hash, name } only. The font file must exist in this browser's
+ * IndexedDB; otherwise elements fall back to the default font and the user
+ * is warned on import.
+ */
+
+import type { OverlayElement, TextElementData, CustomFontRef } from '../../types/overlay';
+import { isCustomFontRef } from '../../domain/fonts';
+import { getLocalFont } from '../../utils/localFontStore';
+
+/**
+ * Collects the custom fonts referenced by elements (unique by hash).
+ * Covers element-level fonts and text span fonts.
+ */
+export function collectCustomFontRefs(elements: ReadonlyArray<OverlayElement>): CustomFontRef[] {
+  const refs = new Map<string, CustomFontRef>();
+
+  const add = (font: unknown) => {
+    if (isCustomFontRef(font) && !refs.has(font.hash)) {
+      refs.set(font.hash, { hash: font.hash, name: font.name });
+    }
+  };
+
+  elements.forEach(element => {
+    const data = element?.data as { font?: unknown } | undefined;
+    add(data?.font);
+    if (element?.type === 'text' && Array.isArray((data as TextElementData | undefined)?.spans)) {
+      (data as TextElementData).spans.forEach(span => add(span?.font));
+    }
+  });
+
+  return Array.from(refs.values());
+}
+
+/**
+ * Returns the referenced custom fonts that are not stored on this machine.
+ * Does NOT throw; if IndexedDB is unavailable every reference counts as missing.
+ */
+export async function findMissingCustomFonts(elements: ReadonlyArray<OverlayElement>): Promise<CustomFontRef[]> {
+  const refs = collectCustomFontRefs(elements);
+  const missing: CustomFontRef[] = [];
+
+  for (const ref of refs) {
+    try {
+      if (!(await getLocalFont(ref.hash))) {
+        missing.push(ref);
+      }
+    } catch {
+      missing.push(ref);
+    }
+  }
+
+  return missing;
+}
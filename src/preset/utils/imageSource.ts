@@ -0,0 +1,73 @@
+/**
+ * Overlay image source model for presets.
+ *
+ * Mirrors the background media rules in mediaSource.ts:
+ * - Local images are metadata-only (localImageId/localFileName), never binary
+ * - Remote images are plain http(s) URLs
+ */
+
+import type { OverlayElement, ImageElementData } from '../../types/overlay';
+
+/**
+ * Validates a remote image URL.
+ *
+ * Rules:
+ * - Must be a non-empty, absolute http: or https: URL
+ * - data:, blob:, javascript: and relative URLs are rejected
+ *   (blob: URLs only live for one session, data: would embed binary in presets)
+ *
+ * This function is PURE and should not access DOM or network.
+ */
+export function isValidRemoteImageUrl(rawUrl: unknown): boolean {
+  if (typeof rawUrl !== 'string') {
+    return false;
+  }
+
+  const trimmed = rawUrl.trim();
+  if (!trimmed) {
+    return false;
+  }
+
+  try {
+    const parsed = new URL(trimmed);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sanitizes image element data for import/export.
+ *
+ * - Invalid remote URLs are dropped (element stays, renders as placeholder)
+ * - Local images keep metadata only; any stray url field is removed
+ * - Does NOT throw; unknown source values fall back to 'remote'.
+ */
+export function sanitizeImageElementData(data: ImageElementData): ImageElementData {
+  if (data.source === 'local') {
+    const { url: _url, ...rest } = data;
+    return {
+      ...rest,
+      source: 'local',
+    };
+  }
+
+  const { localImageId: _localImageId, localFileName: _localFileName, ...rest } = data;
+  return {
+    ...rest,
+    source: 'remote',
+    url: isValidRemoteImageUrl(data.url) ? (data.url as string).trim() : '',
+  };
+}
+
+/**
+ * Checks whether any overlay element references a local-only image.
+ * Used to attach the local image warning on export.
+ */
+export function usesLocalImages(elements: ReadonlyArray<OverlayElement>): boolean {
+  return elements.some(
+    element =>
+      element?.type === 'image' &&
+      (element.data as ImageElementData | undefined)?.source === 'local'
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * Text element rich-text migration and sanitization.
+ *
+ * Legacy text elements stored a single plain `text` string (max 120 characters)
+ * styled by the element-level textColor/textSize. Text elements now hold a list
+ * of styled spans (see domain/richText.ts). Conversion keeps the rendered output
+ * identical: the legacy string becomes one span that inherits all element styles.
+ */
+
+import type { OverlayElement, TextElementData } from '../../types/overlay';
+import { sanitizeTextSpans } from '../../domain/richText';
+
+/**
+ * Migrates a single text element's data to the span model.
+ * Idempotent: data that already has spans is returned unchanged.
+ */
+export function migrateTextElement(element: OverlayElement): OverlayElement {
+  if (element?.type !== 'text' || !element.data || typeof element.data !== 'object' || 'spans' in element.data) {
+    return element;
+  }
+
+  const { text, ...data } = element.data as unknown as Record<string, unknown>;
+  return {
+    ...element,
+    data: {
+      ...data,
+      spans: [{ text: typeof text === 'string' ? text : '' }],
+    } as unknown as OverlayElement['data'],
+  };
+}
+
+/**
+ * Migrates all text elements in an element array.
+ */
+export function migrateTextElements(elements: OverlayElement[]): OverlayElement[] {
+  return elements.map(migrateTextElement);
+}
+
+/**
+ * Sanitizes text element data for import.
+ *
+ * - Span text is cleaned (no HTML/script content) and length-limited
+ * - Excess spans are dropped
+ * - Does NOT throw; missing spans become a single empty span.
+ */
+export function sanitizeTextElementData(data: TextElementData): TextElementData {
+  return {
+    ...data,
+    spans: sanitizeTextSpans(Array.isArray(data.spans) ? data.spans : []),
+  };
+}
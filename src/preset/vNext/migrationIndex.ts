@@ -2,27 +2,40 @@
  * Migration Index — FAZ-3C: Unified Migration Pipeline
  * 
  * Provides unified migration functions that handle all version migrations
- * to version 3, including version detection and full migration pipeline.
+ * to version 4, including version detection and full migration pipeline.
  * 
  * Migration Strategy:
- * - v0 → v3: Use v0→v1→v2→v3 chain
- * - v1 → v3: Use v1→v2→v3 chain
- * - v2 → v3: Direct migration
- * - v3 → v3: Return as-is (already v3)
+ * - v0 → v4: Use v0→v1→v2→v3 chain, then v3→v4
+ * - v1 → v4: Use v1→v2→v3 chain, then v3→v4
+ * - v2 → v4: v2→v3, then v3→v4
+ * - v3 → v4: Direct migration (adds group support)
+ * - v4 → v4: Return as-is (already v4)
+ * 
+ * Element data that changed shape without a schema bump (e.g. legacy clock
+ * format/mode, legacy plain text) is normalized after every path, including v4 → v4.
  */
 
 import type { PresetFile } from '../schema';
 import type { PresetFileV3 } from './schema_v3';
+import type { PresetFileV4 } from './schema_v4';
 import { getSchemaVersion } from '../migration';
 import { migrate0To3 } from './migration_v0_to_v3';
 import { migrate1To3 } from './migration_v1_to_v3';
 import { migrate2To3 } from './migration_v2_to_v3';
+import { migrate3To4 } from './migration_v3_to_v4';
+import { migrateClockElements } from '../utils/clockFormat';
+import { migrateTextElements } from '../utils/textSpans';
 
 /**
  * Schema version 3 constant.
  */
 export const SCHEMA_VERSION_V3 = 3;
 
+/**
+ * Schema version 4 constant.
+ */
+export const SCHEMA_VERSION_V4 = 4;
+
 /**
  * Detect preset file version.
  * Returns 0 if schemaVersion is missing (legacy format).
@@ -35,20 +48,83 @@ export function detectVersion(preset: unknown): number {
 }
 
 /**
- * Run full migration to version 3.
- * Handles all version migrations (v0, v1, v2, v3) and migrates to v3.
+ * Run full migration to version 4.
+ * Handles all version migrations (v0, v1, v2, v3, v4) and migrates to v4.
  * 
  * Migration paths:
- * - v0 → v3: Uses v0→v1→v2→v3 chain
- * - v1 → v3: Uses v1→v2→v3 chain
- * - v2 → v3: Direct migration
- * - v3 → v3: Returns as-is (no migration needed)
+ * - v0 → v4: Uses v0→v1→v2→v3 chain, then v3→v4
+ * - v1 → v4: Uses v1→v2→v3 chain, then v3→v4
+ * - v2 → v4: Uses v2→v3, then v3→v4
+ * - v3 → v4: Direct migration
+ * - v4 → v4: Returns as-is (no migration needed)
+ * 
+ * Element data is normalized afterwards (see migrateElementData).
  * 
  * @param preset - Preset file (any version)
- * @returns Migrated preset file (version 3)
+ * @returns Migrated preset file (version 4)
  * @throws Error if migration fails or version is unsupported
  */
-export function runFullMigration(preset: unknown): PresetFileV3 {
+export function runFullMigration(preset: unknown): PresetFileV4 {
+  return migrateElementData(migrateSchemaToV4(preset));
+}
+
+/**
+ * Normalize element data inside a v4 preset.
+ * 
+ * Idempotent and non-mutating. Currently handles:
+ * - Clock: legacy format ("HH:mm" | "HH:mm:ss") + mode ("24h" | "12h") → token format string
+ * - Text: legacy plain `text` string → single rich-text span
+ * 
+ * @param preset - Preset file (version 4)
+ * @returns Preset file with normalized element data
+ */
+export function migrateElementData(preset: PresetFileV4): PresetFileV4 {
+  const elements = preset.overlay?.elements;
+  if (!Array.isArray(elements)) {
+    return preset;
+  }
+  
+  return {
+    ...preset,
+    overlay: {
+      ...preset.overlay,
+      elements: migrateTextElements(migrateClockElements(elements)),
+    },
+  };
+}
+
+/**
+ * Migrate schema structure to version 4 (no element data normalization).
+ */
+function migrateSchemaToV4(preset: unknown): PresetFileV4 {
+  const version = detectVersion(preset);
+  
+  // If already v4, return as-is
+  if (version === SCHEMA_VERSION_V4) {
+    return preset as PresetFileV4;
+  }
+  
+  if (version > SCHEMA_VERSION_V4) {
+    // Future version - try to use as-is if structure matches
+    // This provides forward compatibility
+    // Note: This is a best-effort approach for forward compatibility
+    const futurePreset = preset as PresetFile;
+    if (futurePreset.schemaVersion && futurePreset.overlay) {
+      return futurePreset as unknown as PresetFileV4;
+    }
+    throw new Error(
+      `Unsupported preset version: ${version}. ` +
+      `Supported versions: 0, 1, 2, 3, 4.`
+    );
+  }
+  
+  return migrate3To4(migrateSchemaToV3(preset));
+}
+
+/**
+ * Migrate schema structure to version 3 (v0–v3 input).
+ */
+function migrateSchemaToV3(preset: unknown): PresetFileV3 {
   const version = detectVersion(preset);
   
   // If already v3, return as-is
@@ -83,36 +159,26 @@ export function runFullMigration(preset: unknown): PresetFileV3 {
     
     default:
       // Unsupported version
-      if (version > SCHEMA_VERSION_V3) {
-        // Future version - try to use as-is if structure matches
-        // This provides forward compatibility
-        const futurePreset = preset as PresetFile;
-        if (futurePreset.schemaVersion && futurePreset.overlay) {
-          // Try to validate structure and use as-is
-          // Note: This is a best-effort approach for forward compatibility
-          return futurePreset as unknown as PresetFileV3;
-        }
-      }
       throw new Error(
         `Unsupported preset version: ${version}. ` +
-        `Supported versions: 0, 1, 2, 3.`
+        `Supported versions: 0, 1, 2, 3, 4.`
       );
   }
 }
 
 /**
- * Finalize preset file (ensure v3 structure and validation).
+ * Finalize preset file (ensure v4 structure and validation).
  * 
  * This function:
- * - Ensures preset is v3 format
+ * - Ensures preset is v4 format
  * - Validates structure
  * - Fixes any inconsistencies (orphan elements, missing z-order, etc.)
- * - Returns finalized v3 preset
+ * - Returns finalized v4 preset
  * 
  * @param preset - Preset file (may be any version)
- * @returns Finalized preset file (version 3)
+ * @returns Finalized preset file (version 4)
  */
-export function finalizePreset(preset: unknown): PresetFileV3 {
+export function finalizePreset(preset: unknown): PresetFileV4 {
   // Run full migration first
   const migrated = runFullMigration(preset);
   
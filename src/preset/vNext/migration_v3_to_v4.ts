@@ -0,0 +1,47 @@
+/**
+ * Migration v3 → v4 — Element Groups
+ *
+ * Migrates preset files from version 3 to version 4.
+ * v3 has no group elements, so element data is preserved as-is.
+ *
+ * Migration Strategy:
+ * 1. Preserve all v3 fields (background, overlay, z-order, misc)
+ * 2. Drop invalid group references (groups are only valid from v4 on)
+ * 3. Remove dropped groups from the z-order
+ */
+
+import type { PresetFileV3 } from './schema_v3';
+import type { PresetFileV4 } from './schema_v4';
+import { getSchemaVersion } from '../migration';
+import { sanitizeElementGroups } from '../../domain/elementGroups';
+
+/**
+ * Migrates from version 3 to version 4.
+ *
+ * @param file - Preset file (version 3)
+ * @returns Migrated preset file (version 4)
+ */
+export function migrate3To4(file: PresetFileV3): PresetFileV4 {
+  // Verify input is v3
+  if (getSchemaVersion(file) !== 3) {
+    throw new Error(`Migration v3→v4 failed: expected v3 input, got version ${getSchemaVersion(file)}`);
+  }
+
+  const overlay = file.overlay;
+  if (!overlay || !Array.isArray(overlay.elements)) {
+    return { ...file, schemaVersion: 4 } as PresetFileV4;
+  }
+
+  const { elements } = sanitizeElementGroups(overlay.elements);
+  const elementIds = new Set(elements.map(element => element.id));
+
+  return {
+    ...file,
+    schemaVersion: 4,
+    overlay: {
+      ...overlay,
+      elements,
+      ...(overlay.zOrder && { zOrder: overlay.zOrder.filter(id => elementIds.has(id)) }),
+    },
+  };
+}
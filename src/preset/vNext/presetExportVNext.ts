@@ -1,7 +1,7 @@
 /**
- * Preset Export vNext — FAZ-3C: OverlayRuntimeState → PresetFile v3
+ * Preset Export vNext — FAZ-3C: OverlayRuntimeState → PresetFile v4
  * 
- * Converts Unified OverlayRuntimeState to PresetFile v3.
+ * Converts Unified OverlayRuntimeState to PresetFile v4.
  * 
  * Key Principles:
  * - Runtime-only fields are NEVER exported (selection, hover, history, transactions)
@@ -9,35 +9,38 @@
  * - Only STATIC FIELDS are exported (position, size, rotation, style, type, metadata)
  * - Canonical z-order is preserved in overlay.zOrder
  * - Element array order matches z-order (for compatibility)
- * - Extensible for future element types (image, gif, weather, usageBar)
+ * - Group elements are exported as-is (children keep their own entries)
+ * - Image elements are exported metadata-only (local image binaries stay in IndexedDB)
+ * - Extensible for future element types (gif, weather)
  */
 
 import type { OverlayRuntimeState } from '../../state/overlay/types';
-import type { PresetFileV3, OverlayV3 } from './schema_v3';
-import type { OverlayElement } from '../../types/overlay';
+import type { PresetFileV4, OverlayV4 } from './schema_v4';
+import type { OverlayElement, ImageElementData } from '../../types/overlay';
 import { APP_VERSION } from '../../version';
 import { getElementsInZOrder } from '../../state/overlay/selectors';
+import { sanitizeImageElementData } from '../utils/imageSource';
 
 /**
- * Convert OverlayRuntimeState to PresetFile v3.
+ * Convert OverlayRuntimeState to PresetFile v4.
  * 
  * This function:
  * 1. Extracts elements from runtime state (in z-order)
  * 2. Filters out runtime-only fields (selection, history, transactions)
  * 3. Filters out derived fields (computed on-demand, never stored)
- * 4. Builds PresetFile v3 with canonical z-order
+ * 4. Builds PresetFile v4 with canonical z-order
  * 5. Preserves only static element data (position, size, rotation, style, type, metadata)
  * 
  * @param state - Runtime state to export
  * @param presetName - Preset name (optional, defaults to 'Preset')
  * @param exportedAt - Export timestamp (optional, defaults to current time)
- * @returns Preset file v3
+ * @returns Preset file v4
  */
 export function exportRuntimeStateToPreset(
   state: OverlayRuntimeState,
   presetName: string = 'Preset',
   exportedAt?: string
-): PresetFileV3 {
+): PresetFileV4 {
   // Get elements in z-order (canonical render order)
   const elementsInOrder = getElementsInZOrder(state.elements, state.zOrder);
   
@@ -52,8 +55,16 @@ export function exportRuntimeStateToPreset(
       // zIndex is NOT exported (zOrder array is canonical)
       // angle is exported (it's a static field)
       ...(element.angle !== undefined && { angle: element.angle }),
+      // Layer flags are exported only when set
+      ...(element.hidden && { hidden: true }),
+      ...(element.locked && { locked: true }),
+      // Layer name is exported only when set
+      ...(element.name && { name: element.name }),
       // data is exported (contains static style/type data)
-      data: element.data,
+      // Image data is sanitized (no binary, no session-only blob: URLs)
+      data: element.type === 'image'
+        ? sanitizeImageElementData(element.data as ImageElementData)
+        : element.data,
     };
     
     return staticElement;
@@ -62,16 +73,16 @@ export function exportRuntimeStateToPreset(
   // Build canonical z-order array (from runtime state zOrder)
   const zOrderArray = state.zOrder.length > 0 ? [...state.zOrder] : undefined;
   
-  // Create overlay v3 with canonical z-order
-  const overlay: OverlayV3 = {
+  // Create overlay v4 with canonical z-order
+  const overlay: OverlayV4 = {
     mode: staticElements.length > 0 ? 'custom' : 'none',
     elements: staticElements,
     zOrder: zOrderArray,
   };
   
-  // Create preset file v3
-  const preset: PresetFileV3 = {
-    schemaVersion: 3 as const,
+  // Create preset file v4
+  const preset: PresetFileV4 = {
+    schemaVersion: 4 as const,
     exportedAt: exportedAt || new Date().toISOString(),
     appVersion: APP_VERSION,
     presetName,
@@ -108,11 +119,11 @@ export function exportRuntimeStateToPreset(
  * This exports only the overlay portion (elements + z-order).
  * 
  * @param state - Runtime state to export
- * @returns Overlay v3 object
+ * @returns Overlay v4 object
  */
 export function exportRuntimeStateToOverlay(
   state: OverlayRuntimeState
-): OverlayV3 {
+): OverlayV4 {
   // Get elements in z-order
   const elementsInOrder = getElementsInZOrder(state.elements, state.zOrder);
   
@@ -124,6 +135,9 @@ export function exportRuntimeStateToOverlay(
       x: element.x,
       y: element.y,
       ...(element.angle !== undefined && { angle: element.angle }),
+      ...(element.hidden && { hidden: true }),
+      ...(element.locked && { locked: true }),
+      ...(element.name && { name: element.name }),
       data: element.data,
     };
   });
@@ -1,7 +1,7 @@
 /**
  * Preset Import vNext — FAZ-3C: PresetFile → OverlayRuntimeState
  * 
- * Converts PresetFile (v0–v3) to Unified OverlayRuntimeState.
+ * Converts PresetFile (v0–v4) to Unified OverlayRuntimeState.
  * 
  * Key Principles:
  * - Runtime-only fields are NEVER imported (selection, hover, history, transactions)
@@ -10,11 +10,13 @@
  * - Z-order consistency is enforced
  * - Missing elements result in safe fallback + warning
  * - Invalid elements are filtered out with warnings
+ * - Invalid group references are dropped with warnings
  */
 
-import type { PresetFileV3 } from './schema_v3';
+import type { PresetFileV4 } from './schema_v4';
 import type { OverlayRuntimeState, StateMetadata } from '../../state/overlay/types';
-import type { OverlayElement } from '../../types/overlay';
+import type { OverlayElement, ImageElementData, TextElementData, MetricElementData } from '../../types/overlay';
+import { isGroupElementData } from '../../types/overlay';
 import * as elementStore from '../../state/overlay/elementStore';
 import * as selection from '../../state/overlay/selection';
 import * as zOrder from '../../state/overlay/zOrder';
@@ -22,6 +24,11 @@ import * as history from '../../state/overlay/history';
 import * as transactions from '../../state/overlay/transactions';
 import { ensureStateConsistency } from '../../state/overlay/validation';
 import { runFullMigration } from './migrationIndex';
+import { sanitizeImageElementData } from '../utils/imageSource';
+import { sanitizeTextElementData } from '../utils/textSpans';
+import { sanitizeMetricThresholds } from '../../domain/metricThresholds';
+import { sanitizeElementGroups } from '../../domain/elementGroups';
+import { sanitizeElementName } from '../../domain/elementNames';
 import { IS_DEV } from '../../utils/env';
 
 /**
@@ -47,17 +54,32 @@ export interface PresetImportResult {
 }
 
 /**
- * Convert PresetFile (v0–v3) to OverlayRuntimeState.
+ * Keeps hidden/locked only when true (absent = visible / unlocked)
+ * and the layer name only when valid (absent = default label).
+ */
+function sanitizeLayerFields(element: OverlayElement): OverlayElement {
+  const { hidden, locked, name, ...rest } = element;
+  const sanitizedName = sanitizeElementName(name);
+  return {
+    ...rest,
+    ...(hidden === true && { hidden }),
+    ...(locked === true && { locked }),
+    ...(sanitizedName !== undefined && { name: sanitizedName }),
+  };
+}
+
+/**
+ * Convert PresetFile (v0–v4) to OverlayRuntimeState.
  * 
  * This function:
- * 1. Migrates preset to v3 (if needed)
+ * 1. Migrates preset to v4 (if needed)
  * 2. Extracts elements from preset overlay
  * 3. Builds element store (Map<string, OverlayElement>)
  * 4. Builds z-order array (from canonical zOrder or element array order)
  * 5. Initializes selection, history, transactions to empty state
  * 6. Ensures state consistency
  * 
- * @param preset - Preset file (any version, will be migrated to v3)
+ * @param preset - Preset file (any version, will be migrated to v4)
  * @param presetId - Optional preset ID for state metadata
  * @param maxHistorySize - Optional maximum history size (default: 50)
  * @returns Import result with runtime state and warnings
@@ -69,16 +91,16 @@ export function importPresetToRuntimeState(
 ): PresetImportResult {
   const warnings: ImportWarning[] = [];
   
-  // Step 1: Migrate preset to v3
-  let v3Preset: PresetFileV3;
+  // Step 1: Migrate preset to v4
+  let v4Preset: PresetFileV4;
   try {
-    v3Preset = runFullMigration(preset);
+    v4Preset = runFullMigration(preset);
     
     // FAZ-3E PATCH #2: Log migration in dev mode
     if (IS_DEV) {
       const sourceVersion = (preset as any)?.schemaVersion ?? 0;
-      if (sourceVersion !== 3) {
-        console.log(`[PresetImport] Migrated preset from v${sourceVersion} to v3`);
+      if (sourceVersion !== 4) {
+        console.log(`[PresetImport] Migrated preset from v${sourceVersion} to v4`);
       }
     }
   } catch (error) {
@@ -90,7 +112,7 @@ export function importPresetToRuntimeState(
   }
   
   // Step 2: Extract elements from preset overlay
-  const overlay = v3Preset.overlay;
+  const overlay = v4Preset.overlay;
   const presetElements: OverlayElement[] = Array.isArray(overlay?.elements)
     ? overlay.elements
     : [];
@@ -128,7 +150,7 @@ export function importPresetToRuntimeState(
     }
     
     // Validate element type
-    if (!['metric', 'text', 'divider', 'clock', 'date'].includes(element.type)) {
+    if (!['metric', 'text', 'divider', 'clock', 'date', 'graph', 'gauge', 'bar', 'image', 'timer', 'template', 'group'].includes(element.type)) {
       warnings.push({
         code: 'INVALID_ELEMENT_TYPE',
         message: `Skipping element with invalid type: ${element.type}`,
@@ -147,18 +169,108 @@ export function importPresetToRuntimeState(
       continue;
     }
     
+    // Group elements need a child id list and a size
+    if (element.type === 'group' && !isGroupElementData(element.data)) {
+      warnings.push({
+        code: 'INVALID_ELEMENT_DATA',
+        message: `Skipping group element with invalid data: ${element.id}`,
+        elementId: element.id,
+      });
+      continue;
+    }
+    
+    // Layer flags must be booleans (invalid ones are dropped: visible / unlocked)
+    if (
+      (element.hidden !== undefined && typeof element.hidden !== 'boolean') ||
+      (element.locked !== undefined && typeof element.locked !== 'boolean')
+    ) {
+      warnings.push({
+        code: 'INVALID_LAYER_FLAGS',
+        message: `Dropped invalid hidden/locked flags from element: ${element.id}`,
+        elementId: element.id,
+      });
+    }
+    
+    // Layer name must be a non-empty string (invalid ones are dropped: default label)
+    if (element.name !== undefined && sanitizeElementName(element.name) === undefined) {
+      warnings.push({
+        code: 'INVALID_ELEMENT_NAME',
+        message: `Dropped invalid layer name from element: ${element.id}`,
+        elementId: element.id,
+      });
+    }
+    
+    // Image elements: drop invalid remote URLs, keep local images metadata-only
+    if (element.type === 'image') {
+      const imageData = sanitizeImageElementData(element.data as ImageElementData);
+      if (imageData.source === 'local') {
+        warnings.push({
+          code: 'LOCAL_IMAGE_NOT_INCLUDED',
+          message: `Image element uses a local file that is not included in the preset: ${imageData.localFileName ?? element.id}`,
+          elementId: element.id,
+        });
+      } else if (!imageData.url && (element.data as ImageElementData).url) {
+        warnings.push({
+          code: 'INVALID_IMAGE_URL',
+          message: `Image element has an invalid remote URL: ${element.id}`,
+          elementId: element.id,
+        });
+      }
+      validElements.push({ ...element, data: imageData });
+      elementIdSet.add(element.id);
+      continue;
+    }
+    
+    // Text elements: strip markup from spans, enforce span/length limits
+    if (element.type === 'text') {
+      validElements.push({ ...element, data: sanitizeTextElementData(element.data as TextElementData) });
+      elementIdSet.add(element.id);
+      continue;
+    }
+    
+    // Metric elements: drop invalid threshold rules, keep the valid ones
+    if (element.type === 'metric' && (element.data as MetricElementData).thresholds !== undefined) {
+      const metricData = element.data as MetricElementData;
+      const thresholds = sanitizeMetricThresholds(metricData.thresholds);
+      if (!Array.isArray(metricData.thresholds) || (thresholds?.length ?? 0) !== metricData.thresholds.length) {
+        warnings.push({
+          code: 'INVALID_METRIC_THRESHOLDS',
+          message: `Dropped invalid threshold rules from metric element: ${element.id}`,
+          elementId: element.id,
+        });
+      }
+      validElements.push({ ...element, data: { ...metricData, thresholds } });
+      elementIdSet.add(element.id);
+      continue;
+    }
+    
     // Add to valid elements
     validElements.push(element as OverlayElement);
     elementIdSet.add(element.id);
   }
   
+  // Step 3b: Drop group references to skipped elements (empty groups are removed)
+  const groupResult = sanitizeElementGroups(validElements);
+  for (const groupId of groupResult.changedGroupIds) {
+    warnings.push({
+      code: 'INVALID_GROUP_CHILDREN',
+      message: `Dropped invalid child references from group element: ${groupId}`,
+      elementId: groupId,
+    });
+  }
+  const groupedElements = groupResult.elements;
+  if (groupedElements.length !== validElements.length) {
+    elementIdSet.clear();
+    groupedElements.forEach(element => elementIdSet.add(element.id));
+  }
+  
   // Step 4: Build element store
-  const elements = elementStore.createStoreFromArray(validElements);
+  const elements = elementStore.createStoreFromArray(groupedElements.map(sanitizeLayerFields));
   
   // Step 5: Build z-order array
   let newZOrder: string[] = [];
   
-  // Priority 1: Use canonical zOrder from v3 preset (if present)
+  // Priority 1: Use canonical zOrder from v3/v4 preset (if present)
   if (overlay.zOrder && Array.isArray(overlay.zOrder)) {
     const zOrderFromPreset = overlay.zOrder;
     const validZOrderIds: string[] = [];
@@ -188,7 +300,7 @@ export function importPresetToRuntimeState(
     newZOrder = validZOrderIds;
   } else {
     // Priority 2: Use element array order (v0/v1/v2 presets)
-    newZOrder = validElements.map(el => el.id);
+    newZOrder = groupedElements.map(el => el.id);
   }
   
   // Ensure z-order consistency (filter orphans, remove duplicates)
@@ -209,7 +321,7 @@ export function importPresetToRuntimeState(
     version: 1,
     createdAt: Date.now(),
     updatedAt: Date.now(),
-    presetId: presetId || v3Preset.presetName || null,
+    presetId: presetId || v4Preset.presetName || null,
   };
   
   // Step 10: Build runtime state
@@ -0,0 +1,73 @@
+/**
+ * Preset Schema v4 — Element Groups
+ *
+ * Schema v4 adds group elements (type "group", see GroupElementData).
+ *
+ * Key Changes from v3:
+ * - overlay.elements may contain group elements referencing other elements by ID
+ * - Grouped elements are still stored as regular elements (absolute coordinates)
+ *   and keep their own entry in overlay.zOrder
+ * - All v3 rules still apply (canonical z-order, static fields only)
+ */
+
+import type { PresetFile } from '../schema';
+import type { OverlayElement } from '../../types/overlay';
+import { validatePresetFileV3, type PresetFileV3 } from './schema_v3';
+import { sanitizeElementGroups } from '../../domain/elementGroups';
+
+/**
+ * PresetFile v4 interface.
+ * Extends PresetFile with canonical z-order and group support.
+ */
+export interface PresetFileV4 extends PresetFile {
+  /** Schema version 4 */
+  schemaVersion: 4;
+  /** Overlay configuration with canonical z-order and groups */
+  overlay: OverlayV4;
+}
+
+/**
+ * Overlay v4 interface.
+ * Same shape as OverlayV3; elements may include groups.
+ */
+export interface OverlayV4 {
+  /** Overlay mode */
+  mode: 'none' | 'custom';
+  /**
+   * Overlay elements array (groups included).
+   *
+   * - Group children must be elements of this array
+   * - Each element belongs to at most one group, no cycles
+   * - Groups have at least one child
+   */
+  elements: OverlayElement[];
+  /** Canonical z-order array (same rules as OverlayV3.zOrder) */
+  zOrder?: string[];
+}
+
+/**
+ * Type guard to check if a PresetFile is v4.
+ */
+export function isPresetFileV4(file: PresetFile): file is PresetFileV4 {
+  return file.schemaVersion === 4;
+}
+
+/**
+ * Validate PresetFile v4 structure.
+ *
+ * @param file - PresetFile to validate
+ * @returns True if file is valid v4 structure
+ */
+export function validatePresetFileV4(file: PresetFile): boolean {
+  if (!isPresetFileV4(file)) {
+    return false;
+  }
+
+  // Z-order rules are unchanged from v3
+  if (!validatePresetFileV3({ ...file, schemaVersion: 3 } as PresetFileV3)) {
+    return false;
+  }
+
+  // Group references must already be valid (nothing to drop)
+  return sanitizeElementGroups(file.overlay.elements).changedGroupIds.length === 0;
+}
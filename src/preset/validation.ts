@@ -7,6 +7,7 @@
 
 import type { PresetFile } from './schema';
 import { VALUE_RANGES, VALID_ENUMS } from './constants';
+import { sanitizeDerivedMetrics } from '../domain/derivedMetrics';
 
 /**
  * Validation error/warning severity levels.
@@ -62,6 +63,9 @@ export function validatePresetFile(file: PresetFile): ValidationResult {
   // Misc settings validation
   validateMiscSettings(file, warnings);
 
+  // Derived metrics validation
+  validateDerivedMetrics(file, warnings);
+
   return {
     valid: errors.length === 0,
     errors,
@@ -324,6 +328,20 @@ function validateMiscSettings(file: PresetFile, warnings: ValidationIssue[]): vo
   }
 }
 
+/**
+ * Validates derived metric definitions.
+ * Invalid definitions are dropped during normalization, so they only warn.
+ */
+function validateDerivedMetrics(file: PresetFile, warnings: ValidationIssue[]): void {
+  sanitizeDerivedMetrics(file.derivedMetrics).errors.forEach(({ index, message }) => {
+    warnings.push({
+      field: index < 0 ? 'derivedMetrics' : `derivedMetrics[${index}]`,
+      message: `${message}. It will be removed during normalization.`,
+      severity: 'warning',
+    });
+  });
+}
+
 /**
  * Validates a numeric value against a range.
  * Returns a warning if out of range, null if valid.
@@ -11,11 +11,15 @@
  * - Replay-safe actions
  */
 
-import type { OverlayElement, MetricElementData, TextElementData, DividerElementData, ClockElementData, DateElementData } from '../../types/overlay';
+import type { OverlayElement, OverlayElementData } from '../../types/overlay';
 import type { OverlayRuntimeState } from './types';
 import * as elementStore from './elementStore';
 import * as selection from './selection';
 import * as zOrder from './zOrder';
+import * as groups from './groups';
+import * as alignment from './alignment';
+import { isGroupElement, MIN_GROUP_CHILDREN } from '../../domain/elementGroups';
+import { sanitizeElementName } from '../../domain/elementNames';
 // FAZ-7 / Task 6E: Operation detector for v2Meta computation
 import { detectOperationTypeV2 } from '../../transform/operation-detector/operationDetectorV2';
 // FAZ-7 / Task 7E: UI helpers for group metadata
@@ -36,6 +40,11 @@ export type ActionType =
   | 'zOrderChange'
   | 'moveElementZUp'
   | 'moveElementZDown'
+  | 'setElementLayerFlag'
+  | 'renameElement'
+  | 'reorderElement'
+  | 'groupElements'
+  | 'ungroupElements'
   | 'batch';
 
 /**
@@ -69,8 +78,8 @@ export interface UpdateElementActionData {
  */
 export interface UpdateElementDataActionData {
   elementId: string;
-  oldData: MetricElementData | TextElementData | DividerElementData | ClockElementData | DateElementData;
-  newData: MetricElementData | TextElementData | DividerElementData | ClockElementData | DateElementData;
+  oldData: OverlayElementData;
+  newData: OverlayElementData;
 }
 
 /**
@@ -267,6 +276,57 @@ export interface MoveElementZDownActionData {
   newZ: number;
 }
 
+/**
+ * Element layer flag (see OverlayElement.hidden / OverlayElement.locked).
+ */
+export type ElementLayerFlag = 'hidden' | 'locked';
+
+/**
+ * Set element layer flag action data.
+ */
+export interface SetElementLayerFlagActionData {
+  elementId: string;
+  flag: ElementLayerFlag;
+  oldValue: boolean;
+  newValue: boolean;
+}
+
+/**
+ * Rename element action data.
+ */
+export interface RenameElementActionData {
+  elementId: string;
+  oldName: string | undefined; // undefined = default label
+  newName: string | undefined;
+}
+
+/**
+ * Reorder element action data (layers panel drag and drop).
+ */
+export interface ReorderElementActionData {
+  elementId: string;
+  oldZOrder: string[];
+  newZOrder: string[];
+}
+
+/**
+ * Group elements action data.
+ */
+export interface GroupElementsActionData {
+  group: OverlayElement; // New group element (childIds = grouped elements)
+  oldZOrder: string[];
+  newZOrder: string[];
+}
+
+/**
+ * Ungroup elements action data.
+ */
+export interface UngroupElementsActionData {
+  groupId: string;
+  group: OverlayElement; // Removed group element (for undo)
+  zOrderIndex: number; // Original z-order index (for undo)
+}
+
 /**
  * Batch action data (contains nested actions).
  */
@@ -287,6 +347,11 @@ export type ActionData =
   | ZOrderActionData
   | MoveElementZUpActionData
   | MoveElementZDownActionData
+  | SetElementLayerFlagActionData
+  | RenameElementActionData
+  | ReorderElementActionData
+  | GroupElementsActionData
+  | UngroupElementsActionData
   | BatchActionData;
 
 /**
@@ -380,6 +445,11 @@ export function createAddElementAction(element: OverlayElement): Action {
 /**
  * Create remove element action.
  * 
+ * Groups: removing a group keeps its children (they become top-level elements
+ * in place). Removing a child also removes it from its group; a group left with
+ * fewer than MIN_GROUP_CHILDREN children is ungrouped, any other group is fitted
+ * to its remaining children (see groups.settleGroupsAfterRemoval).
+ * 
  * @param elementId - Element ID to remove
  * @param state - Current state (to get element and z-order index)
  * @returns Remove element action
@@ -406,6 +476,11 @@ export function createRemoveElementAction(
     zOrderIndex,
   };
   
+  // Z-order position and groups around the element as they were before execute
+  // (earlier actions of a batch can change both; restored on undo)
+  let removedZOrderIndex = zOrderIndex;
+  let previousGroups: Array<{ group: OverlayElement; zOrderIndex: number }> = [];
+  
   return {
     id: actionId,
     type: 'removeElement',
@@ -414,35 +489,58 @@ export function createRemoveElementAction(
     
     execute(state: OverlayRuntimeState): OverlayRuntimeState {
       // Remove element from store
-      const newElements = elementStore.removeElement(state.elements, elementId);
+      const ancestorIds = groups.getAncestorGroupIds(state.elements, elementId);
+      const withoutElement = elementStore.removeElement(state.elements, elementId);
       
       // Remove from z-order
-      const newZOrder = zOrder.removeFromZOrder(state.zOrder, elementId);
+      removedZOrderIndex = zOrder.getZOrderIndex(state.zOrder, elementId);
+      const withoutElementZOrder = zOrder.removeFromZOrder(state.zOrder, elementId);
       
-      // Remove from selection if selected
-      const newSelection = state.selection.selectedIds.has(elementId)
-        ? selection.removeFromSelection(state.selection, elementId)
-        : state.selection;
+      // Remove from its group (ungrouping groups that become too small)
+      previousGroups = ancestorIds.map(groupId => ({
+        group: state.elements.get(groupId) as OverlayElement,
+        zOrderIndex: zOrder.getZOrderIndex(withoutElementZOrder, groupId),
+      }));
+      const settled = groups.settleGroupsAfterRemoval(withoutElement, withoutElementZOrder, elementId, ancestorIds);
+      
+      // Remove from selection if selected (element and removed groups)
+      const newSelection = [elementId, ...ancestorIds]
+        .filter(id => id === elementId || !settled.store.has(id))
+        .reduce(
+          (current, id) => current.selectedIds.has(id) ? selection.removeFromSelection(current, id) : current,
+          state.selection
+        );
       
       return {
         ...state,
-        elements: newElements,
-        zOrder: newZOrder,
+        elements: settled.store,
+        zOrder: settled.zOrder,
         selection: newSelection,
       };
     },
     
     undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      // Restore the groups around the element (removed groups back at their z-order position)
+      const newElements = new Map(state.elements);
+      const newZOrder = [...state.zOrder];
+      [...previousGroups]
+        .sort((a, b) => a.zOrderIndex - b.zOrderIndex)
+        .forEach(({ group, zOrderIndex }) => {
+          if (!newElements.has(group.id)) {
+            newZOrder.splice(zOrderIndex, 0, group.id);
+          }
+          newElements.set(group.id, group);
+        });
+      
       // Restore element to store
-      const newElements = elementStore.addElement(state.elements, actionData.element);
+      const restoredElements = elementStore.addElement(newElements, actionData.element);
       
       // Restore to z-order at original position
-      const newZOrder = [...state.zOrder];
-      newZOrder.splice(actionData.zOrderIndex, 0, actionData.elementId);
+      newZOrder.splice(removedZOrderIndex, 0, actionData.elementId);
       
       return {
         ...state,
-        elements: newElements,
+        elements: restoredElements,
         zOrder: newZOrder,
       };
     },
@@ -516,8 +614,8 @@ export function createUpdateElementAction(
  */
 export function createUpdateElementDataAction(
   elementId: string,
-  oldData: MetricElementData | TextElementData | DividerElementData | ClockElementData | DateElementData,
-  newData: MetricElementData | TextElementData | DividerElementData | ClockElementData | DateElementData,
+  oldData: OverlayElementData,
+  newData: OverlayElementData,
   state: OverlayRuntimeState
 ): Action {
   const currentElement = elementStore.getElement(state.elements, elementId);
@@ -572,9 +670,33 @@ export function createUpdateElementDataAction(
   };
 }
 
+/**
+ * Propagate group transforms to group descendants.
+ * 
+ * @param store - Current element store
+ * @param targetStates - Target element states (groups among them are compared to their current state)
+ * @returns New element store with descendants of transformed groups updated
+ */
+function applyGroupTransforms(
+  store: OverlayRuntimeState['elements'],
+  targetStates: Map<string, OverlayElement>
+): OverlayRuntimeState['elements'] {
+  let newElements = store;
+  for (const [elementId, target] of targetStates) {
+    const current = newElements.get(elementId);
+    if (isGroupElement(current) && isGroupElement(target)) {
+      newElements = groups.applyGroupTransform(newElements, current, target);
+    }
+  }
+  return newElements;
+}
+
 /**
  * Create transform action (for element transformations).
  * 
+ * Transforming a group also transforms its descendants (see state/overlay/groups.ts).
+ * Descendants listed in elementIds are set to their given state afterwards.
+ * 
  * @param elementIds - Element IDs to transform
  * @param oldStates - Old element states (Map)
  * @param newStates - New element states (Map)
@@ -599,7 +721,7 @@ export function createTransformAction(
     data: transformData,
     
     execute(state: OverlayRuntimeState): OverlayRuntimeState {
-      let newElements = state.elements;
+      let newElements = applyGroupTransforms(state.elements, transformData.newStates);
       
       // Update all transformed elements
       for (const elementId of transformData.elementIds) {
@@ -620,7 +742,7 @@ export function createTransformAction(
     },
     
     undo(state: OverlayRuntimeState): OverlayRuntimeState {
-      let newElements = state.elements;
+      let newElements = applyGroupTransforms(state.elements, transformData.oldStates);
       
       // Restore all old element states
       for (const elementId of transformData.elementIds) {
@@ -1270,6 +1392,340 @@ export function createMoveElementZDownAction(
   };
 }
 
+/**
+ * Create set element layer flag action (hide/show, lock/unlock).
+ * Hiding an element also removes it from the selection (it can no longer be seen or picked).
+ * 
+ * @param elementId - Element ID
+ * @param flag - Layer flag to set
+ * @param value - New flag value
+ * @param state - Current state (to get the current flag value)
+ * @returns Set element layer flag action
+ */
+export function createSetElementLayerFlagAction(
+  elementId: string,
+  flag: ElementLayerFlag,
+  value: boolean,
+  state: OverlayRuntimeState
+): Action {
+  const element = elementStore.getElement(state.elements, elementId);
+  if (!element) {
+    throw new Error(`Cannot create set layer flag action: element ${elementId} not found`);
+  }
+  
+  const actionId = generateActionId();
+  const actionData: SetElementLayerFlagActionData = {
+    elementId,
+    flag,
+    oldValue: element[flag] === true,
+    newValue: value,
+  };
+  
+  // Flags are stored only when true (absent = visible / unlocked)
+  const applyFlag = (state: OverlayRuntimeState, flagValue: boolean): OverlayRuntimeState['elements'] =>
+    elementStore.updateElement(state.elements, elementId, (current) => {
+      const { [flag]: _previous, ...rest } = current;
+      return flagValue ? { ...rest, [flag]: true } : rest;
+    });
+  
+  return {
+    id: actionId,
+    type: 'setElementLayerFlag',
+    timestamp: Date.now(),
+    data: actionData,
+    
+    execute(state: OverlayRuntimeState): OverlayRuntimeState {
+      const newSelection = flag === 'hidden' && value && state.selection.selectedIds.has(elementId)
+        ? selection.removeFromSelection(state.selection, elementId)
+        : state.selection;
+      
+      return {
+        ...state,
+        elements: applyFlag(state, actionData.newValue),
+        selection: newSelection,
+      };
+    },
+    
+    undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: applyFlag(state, actionData.oldValue),
+      };
+    },
+  };
+}
+
+/**
+ * Create rename element action.
+ * Names are sanitized (see domain/elementNames.ts); an empty name restores the default label.
+ * 
+ * @param elementId - Element ID
+ * @param name - New layer name
+ * @param state - Current state (to get the current name)
+ * @returns Rename element action
+ */
+export function createRenameElementAction(
+  elementId: string,
+  name: string,
+  state: OverlayRuntimeState
+): Action {
+  const element = elementStore.getElement(state.elements, elementId);
+  if (!element) {
+    throw new Error(`Cannot create rename action: element ${elementId} not found`);
+  }
+  
+  const actionId = generateActionId();
+  const actionData: RenameElementActionData = {
+    elementId,
+    oldName: element.name,
+    newName: sanitizeElementName(name),
+  };
+  
+  // Names are stored only when set (absent = default label)
+  const applyName = (state: OverlayRuntimeState, newName: string | undefined): OverlayRuntimeState['elements'] =>
+    elementStore.updateElement(state.elements, elementId, (current) => {
+      const { name: _previous, ...rest } = current;
+      return newName !== undefined ? { ...rest, name: newName } : rest;
+    });
+  
+  return {
+    id: actionId,
+    type: 'renameElement',
+    timestamp: Date.now(),
+    data: actionData,
+    
+    execute(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: applyName(state, actionData.newName),
+      };
+    },
+    
+    undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: applyName(state, actionData.oldName),
+      };
+    },
+  };
+}
+
+/**
+ * Sets element.zIndex to the z-order position of every element (0..N-1).
+ */
+function normalizeZIndices(
+  elements: elementStore.ElementStore,
+  zOrderArray: string[]
+): elementStore.ElementStore {
+  let newElements = elements;
+  zOrderArray.forEach((elementId, index) => {
+    const element = elementStore.getElement(newElements, elementId);
+    if (element && element.zIndex !== index) {
+      newElements = elementStore.updateElement(newElements, elementId, (el) => ({ ...el, zIndex: index }));
+    }
+  });
+  return newElements;
+}
+
+/**
+ * Create reorder element action (move an element to a z-order index).
+ * A group is moved together with its descendants (they stay directly below it).
+ * 
+ * @param elementId - Element ID to move
+ * @param newIndex - Target z-order index (0 = back, clamped to valid range)
+ * @param state - Current state (to get the z-order)
+ * @returns Reorder element action
+ */
+export function createReorderElementAction(
+  elementId: string,
+  newIndex: number,
+  state: OverlayRuntimeState
+): Action {
+  if (zOrder.getZOrderIndex(state.zOrder, elementId) === -1) {
+    throw new Error(`Cannot create reorder action: element ${elementId} not in z-order`);
+  }
+  
+  let newZOrder = zOrder.reorder(state.zOrder, elementId, newIndex);
+  const descendantIds = groups.getGroupDescendantIds(state.elements, elementId);
+  if (descendantIds.length > 0) {
+    const block = state.zOrder.filter(id => descendantIds.includes(id));
+    const rest = newZOrder.filter(id => !descendantIds.includes(id));
+    const groupIndex = rest.indexOf(elementId);
+    newZOrder = [...rest.slice(0, groupIndex), ...block, ...rest.slice(groupIndex)];
+  }
+  
+  const actionId = generateActionId();
+  const actionData: ReorderElementActionData = {
+    elementId,
+    oldZOrder: [...state.zOrder],
+    newZOrder,
+  };
+  
+  return {
+    id: actionId,
+    type: 'reorderElement',
+    timestamp: Date.now(),
+    data: actionData,
+    
+    execute(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: normalizeZIndices(state.elements, actionData.newZOrder),
+        zOrder: [...actionData.newZOrder],
+      };
+    },
+    
+    undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: normalizeZIndices(state.elements, actionData.oldZOrder),
+        zOrder: [...actionData.oldZOrder],
+      };
+    },
+  };
+}
+
+/**
+ * Create group elements action.
+ * The group frame is the combined AABB of the children; children are moved
+ * together in the z-order with the group directly above them.
+ * 
+ * @param elementIds - Top-level element IDs to group (at least MIN_GROUP_CHILDREN)
+ * @param groupId - ID of the new group element
+ * @param state - Current state (to get elements and z-order)
+ * @returns Group elements action
+ */
+export function createGroupElementsAction(
+  elementIds: string[],
+  groupId: string,
+  state: OverlayRuntimeState
+): Action {
+  const childIds = state.zOrder.filter(id => elementIds.includes(id));
+  if (childIds.length < MIN_GROUP_CHILDREN || childIds.length !== new Set(elementIds).size) {
+    throw new Error(`Cannot create group action: need at least ${MIN_GROUP_CHILDREN} existing elements`);
+  }
+  if (state.elements.has(groupId)) {
+    throw new Error(`Cannot create group action: element ${groupId} already exists`);
+  }
+  const groupedId = childIds.find(id => groups.getParentGroupId(state.elements, id) !== null);
+  if (groupedId) {
+    throw new Error(`Cannot create group action: element ${groupedId} is already grouped`);
+  }
+  
+  const children = childIds.map(id => elementStore.getElement(state.elements, id) as OverlayElement);
+  const { x, y, width, height } = groups.computeGroupFrame(children);
+  const group: OverlayElement = {
+    id: groupId,
+    type: 'group',
+    x,
+    y,
+    data: { childIds, width, height },
+  };
+  
+  const actionId = generateActionId();
+  const actionData: GroupElementsActionData = {
+    group,
+    oldZOrder: [...state.zOrder],
+    newZOrder: groups.groupZOrder(state.zOrder, childIds, groupId),
+  };
+  
+  return {
+    id: actionId,
+    type: 'groupElements',
+    timestamp: Date.now(),
+    data: actionData,
+    
+    execute(state: OverlayRuntimeState): OverlayRuntimeState {
+      return {
+        ...state,
+        elements: normalizeZIndices(elementStore.addElement(state.elements, actionData.group), actionData.newZOrder),
+        zOrder: [...actionData.newZOrder],
+        // The group replaces its children in the selection
+        selection: selection.selectElement(state.selection, groupId),
+      };
+    },
+    
+    undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      // The children replace the group in the selection
+      const newSelection = state.selection.selectedIds.has(groupId)
+        ? selection.selectElements(state.selection, childIds)
+        : state.selection;
+      
+      return {
+        ...state,
+        elements: normalizeZIndices(elementStore.removeElement(state.elements, groupId), actionData.oldZOrder),
+        zOrder: [...actionData.oldZOrder],
+        selection: newSelection,
+      };
+    },
+  };
+}
+
+/**
+ * Create ungroup elements action.
+ * Removes the group element; its children keep their (already absolute) transforms.
+ * 
+ * @param groupId - Group element ID
+ * @param state - Current state (to get group and z-order index)
+ * @returns Ungroup elements action
+ */
+export function createUngroupElementsAction(
+  groupId: string,
+  state: OverlayRuntimeState
+): Action {
+  const group = elementStore.getElement(state.elements, groupId);
+  if (!isGroupElement(group)) {
+    throw new Error(`Cannot create ungroup action: group ${groupId} not found`);
+  }
+  
+  const zOrderIndex = zOrder.getZOrderIndex(state.zOrder, groupId);
+  if (zOrderIndex === -1) {
+    throw new Error(`Cannot create ungroup action: group ${groupId} not in z-order`);
+  }
+  
+  const actionId = generateActionId();
+  const actionData: UngroupElementsActionData = {
+    groupId,
+    group,
+    zOrderIndex,
+  };
+  
+  return {
+    id: actionId,
+    type: 'ungroupElements',
+    timestamp: Date.now(),
+    data: actionData,
+    
+    execute(state: OverlayRuntimeState): OverlayRuntimeState {
+      // The children replace the group in the selection
+      const newSelection = state.selection.selectedIds.has(groupId)
+        ? selection.selectElements(state.selection, group.data.childIds)
+        : state.selection;
+      
+      const newZOrder = zOrder.removeFromZOrder(state.zOrder, groupId);
+      
+      return {
+        ...state,
+        elements: normalizeZIndices(elementStore.removeElement(state.elements, groupId), newZOrder),
+        zOrder: newZOrder,
+        selection: newSelection,
+      };
+    },
+    
+    undo(state: OverlayRuntimeState): OverlayRuntimeState {
+      const newZOrder = [...state.zOrder];
+      newZOrder.splice(actionData.zOrderIndex, 0, groupId);
+      
+      return {
+        ...state,
+        elements: normalizeZIndices(elementStore.addElement(state.elements, actionData.group), newZOrder),
+        zOrder: newZOrder,
+        selection: selection.selectElement(state.selection, groupId),
+      };
+    },
+  };
+}
+
 /**
  * Create batch action (contains nested actions).
  * 
@@ -1308,6 +1764,78 @@ export function createBatchAction(actions: Action[]): Action {
   };
 }
 
+/**
+ * Build a batch of transform actions that move elements to new positions.
+ */
+function createPositionBatchAction(
+  state: OverlayRuntimeState,
+  positions: Map<string, alignment.ElementPosition>
+): Action {
+  const actions = [...positions].map(([elementId, { x, y }]) => {
+    const element = elementStore.getElement(state.elements, elementId) as OverlayElement;
+    return createTransformAction(
+      [elementId],
+      new Map([[elementId, element]]),
+      new Map([[elementId, { ...element, x, y }]])
+    );
+  });
+  return createBatchAction(actions);
+}
+
+/**
+ * Create align action (batch of transform actions, one undo step).
+ * 
+ * Elements are aligned by their rotated bounding box. Locked elements and
+ * elements whose group is also selected are not moved; the batch is empty
+ * when everything is already aligned.
+ * 
+ * @param elementIds - Selected element IDs
+ * @param edge - Edge or center line to align
+ * @param reference - Align to the selection bounds or to the LCD
+ * @param state - Current state (to get elements)
+ * @returns Batch action
+ */
+export function createAlignElementsAction(
+  elementIds: string[],
+  edge: alignment.AlignEdge,
+  reference: alignment.AlignReference,
+  state: OverlayRuntimeState
+): Action {
+  const elements = alignment.getAlignableElements(state.elements, elementIds);
+  const minElements = reference === 'lcd' ? 1 : 2;
+  if (elements.length < minElements) {
+    throw new Error(`Cannot create align action: need at least ${minElements} elements`);
+  }
+  
+  return createPositionBatchAction(state, alignment.computeAlignedPositions(elements, edge, reference));
+}
+
+/**
+ * Create distribute action (batch of transform actions, one undo step).
+ * 
+ * The outermost elements stay in place; the gaps between the rotated
+ * bounding boxes of the others become equal. Locked elements are skipped.
+ * 
+ * @param elementIds - Selected element IDs
+ * @param axis - Distribution direction
+ * @param state - Current state (to get elements)
+ * @returns Batch action
+ */
+export function createDistributeElementsAction(
+  elementIds: string[],
+  axis: alignment.DistributeAxis,
+  state: OverlayRuntimeState
+): Action {
+  const elements = alignment
+    .getAlignableElements(state.elements, elementIds)
+    .filter(element => !element.locked);
+  if (elements.length < alignment.MIN_DISTRIBUTE_ELEMENTS) {
+    throw new Error(`Cannot create distribute action: need at least ${alignment.MIN_DISTRIBUTE_ELEMENTS} unlocked elements`);
+  }
+  
+  return createPositionBatchAction(state, alignment.computeDistributedPositions(elements, axis));
+}
+
 /**
  * Validate action structure.
  * 
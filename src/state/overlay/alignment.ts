@@ -0,0 +1,217 @@
+/**
+ * Alignment — Align and Distribute Helpers
+ *
+ * Pure helpers that compute new element positions for align/distribute
+ * commands on a multi-selection (see createAlignElementsAction and
+ * createDistributeElementsAction in actions.ts).
+ *
+ * Design Principles:
+ * - Elements are aligned by their rotated bounding box (the AABB of the rotated corners)
+ * - Only positions change (x/y); sizes and angles are kept
+ * - Elements whose group is also selected move with the group, not on their own
+ * - Locked elements are never moved (they still count for the selection bounds)
+ * - Pure functions only (no mutations)
+ */
+
+import type { OverlayElement } from '../../types/overlay';
+import type { ElementStore } from './elementStore';
+import { getParentGroupId } from './groups';
+import { NZXT_DEFAULTS } from '../../constants/nzxt';
+import {
+  calculateElementDimensions,
+  calculateRotatedBoundingBox,
+  type BoundingBox,
+} from '../../transform/engine/BoundingBox';
+
+/**
+ * Edge or center line to align to.
+ * left/center/right align horizontally, top/middle/bottom vertically.
+ */
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * What elements are aligned to: the selection bounds or the LCD.
+ */
+export type AlignReference = 'selection' | 'lcd';
+
+/**
+ * Distribution direction.
+ */
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/**
+ * Minimum number of elements to distribute (the outermost two stay in place).
+ */
+export const MIN_DISTRIBUTE_ELEMENTS = 3;
+
+/**
+ * Element position in LCD coordinates.
+ */
+export type ElementPosition = { x: number; y: number };
+
+/**
+ * LCD bounds (LCD coordinates are relative to the screen center).
+ */
+const LCD_BOUNDS: BoundingBox = {
+  left: -NZXT_DEFAULTS.LCD_WIDTH / 2,
+  right: NZXT_DEFAULTS.LCD_WIDTH / 2,
+  top: -NZXT_DEFAULTS.LCD_HEIGHT / 2,
+  bottom: NZXT_DEFAULTS.LCD_HEIGHT / 2,
+  width: NZXT_DEFAULTS.LCD_WIDTH,
+  height: NZXT_DEFAULTS.LCD_HEIGHT,
+};
+
+/**
+ * Calculate the bounds of an element's rotated bounding box.
+ *
+ * @param element - Overlay element
+ * @returns Axis-aligned bounds of the rotated corners in LCD coordinates
+ */
+export function getRotatedBounds(element: OverlayElement): BoundingBox {
+  const { topLeft, topRight, bottomRight, bottomLeft } = calculateRotatedBoundingBox(
+    calculateElementDimensions(element),
+    element.angle ?? 0
+  );
+  const xs = [topLeft.x, topRight.x, bottomRight.x, bottomLeft.x];
+  const ys = [topLeft.y, topRight.y, bottomRight.y, bottomLeft.y];
+  const left = element.x + Math.min(...xs);
+  const right = element.x + Math.max(...xs);
+  const top = element.y + Math.min(...ys);
+  const bottom = element.y + Math.max(...ys);
+
+  return { left, right, top, bottom, width: right - left, height: bottom - top };
+}
+
+/**
+ * Get the elements an align/distribute command works on: existing elements
+ * whose ancestor groups are not part of the selection.
+ *
+ * @param store - Element store
+ * @param elementIds - Selected element IDs
+ * @returns Elements (in elementIds order)
+ */
+export function getAlignableElements(
+  store: ElementStore,
+  elementIds: string[]
+): OverlayElement[] {
+  const ids = new Set(elementIds);
+  const hasSelectedAncestor = (elementId: string): boolean => {
+    for (let parentId = getParentGroupId(store, elementId); parentId !== null; parentId = getParentGroupId(store, parentId)) {
+      if (ids.has(parentId)) return true;
+    }
+    return false;
+  };
+
+  return [...ids]
+    .map(id => store.get(id))
+    .filter((element): element is OverlayElement => element !== undefined && !hasSelectedAncestor(element.id));
+}
+
+/**
+ * Compute aligned positions.
+ *
+ * @param elements - Elements to align (see getAlignableElements)
+ * @param edge - Edge or center line to align
+ * @param reference - Align to the combined bounds of the elements or to the LCD
+ * @returns New positions of the elements that move (locked and already aligned elements are omitted)
+ */
+export function computeAlignedPositions(
+  elements: OverlayElement[],
+  edge: AlignEdge,
+  reference: AlignReference
+): Map<string, ElementPosition> {
+  const boundsById = new Map(elements.map(element => [element.id, getRotatedBounds(element)]));
+  const bounds = reference === 'lcd'
+    ? LCD_BOUNDS
+    : [...boundsById.values()].reduce<BoundingBox | null>((combined, box) => {
+        if (!combined) return box;
+        const left = Math.min(combined.left, box.left);
+        const right = Math.max(combined.right, box.right);
+        const top = Math.min(combined.top, box.top);
+        const bottom = Math.max(combined.bottom, box.bottom);
+        return { left, right, top, bottom, width: right - left, height: bottom - top };
+      }, null);
+
+  const positions = new Map<string, ElementPosition>();
+  if (!bounds) {
+    return positions;
+  }
+
+  for (const element of elements) {
+    const box = boundsById.get(element.id) as BoundingBox;
+    let dx = 0;
+    let dy = 0;
+    switch (edge) {
+      case 'left':
+        dx = bounds.left - box.left;
+        break;
+      case 'center':
+        dx = (bounds.left + bounds.right) / 2 - (box.left + box.right) / 2;
+        break;
+      case 'right':
+        dx = bounds.right - box.right;
+        break;
+      case 'top':
+        dy = bounds.top - box.top;
+        break;
+      case 'middle':
+        dy = (bounds.top + bounds.bottom) / 2 - (box.top + box.bottom) / 2;
+        break;
+      case 'bottom':
+        dy = bounds.bottom - box.bottom;
+        break;
+    }
+    if (!element.locked && (dx !== 0 || dy !== 0)) {
+      positions.set(element.id, { x: element.x + dx, y: element.y + dy });
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * Compute distributed positions: the outermost elements stay in place and the
+ * others are moved so that the gaps between their bounds are equal.
+ * Locked elements are not distributed.
+ *
+ * @param elements - Elements to distribute (see getAlignableElements)
+ * @param axis - Distribution direction
+ * @returns New positions of the elements that move (empty when fewer than MIN_DISTRIBUTE_ELEMENTS)
+ */
+export function computeDistributedPositions(
+  elements: OverlayElement[],
+  axis: DistributeAxis
+): Map<string, ElementPosition> {
+  const positions = new Map<string, ElementPosition>();
+  const items = elements
+    .filter(element => !element.locked)
+    .map(element => {
+      const box = getRotatedBounds(element);
+      return axis === 'horizontal'
+        ? { element, start: box.left, size: box.width }
+        : { element, start: box.top, size: box.height };
+    })
+    .sort((a, b) => (a.start + a.size / 2) - (b.start + b.size / 2));
+
+  if (items.length < MIN_DISTRIBUTE_ELEMENTS) {
+    return positions;
+  }
+
+  const first = items[0];
+  const last = items[items.length - 1];
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0);
+  const gap = (last.start + last.size - first.start - totalSize) / (items.length - 1);
+
+  let start = first.start + first.size + gap;
+  for (const item of items.slice(1, -1)) {
+    const delta = start - item.start;
+    if (delta !== 0) {
+      positions.set(item.element.id, axis === 'horizontal'
+        ? { x: item.element.x + delta, y: item.element.y }
+        : { x: item.element.x, y: item.element.y + delta });
+    }
+    start += item.size + gap;
+  }
+
+  return positions;
+}
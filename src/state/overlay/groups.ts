@@ -0,0 +1,212 @@
+/**
+ * Groups — Element Store Helpers for Group Elements
+ *
+ * Pure helpers for group elements (see domain/elementGroups.ts) in OverlayRuntimeState.
+ *
+ * Design Principles:
+ * - Groups live in the element store and z-order like any other element
+ * - Children keep absolute coordinates and stay in the z-order, directly below their group
+ * - Group transforms are propagated to all descendants (nested groups included)
+ * - Pure functions only (no mutations)
+ */
+
+import type { OverlayElement } from '../../types/overlay';
+import type { ElementStore } from './elementStore';
+import type { ZOrder } from './zOrder';
+import { calculateCombinedAABB } from '../../transform/engine/BoundingBox';
+import { isGroupElement, MIN_GROUP_CHILDREN, transformGroupChild, type GroupElement } from '../../domain/elementGroups';
+
+/**
+ * Get the group an element belongs to.
+ *
+ * @param store - Element store
+ * @param elementId - Element ID
+ * @returns Parent group ID or null (top-level element)
+ */
+export function getParentGroupId(
+  store: ElementStore,
+  elementId: string
+): string | null {
+  for (const element of store.values()) {
+    if (isGroupElement(element) && element.data.childIds.includes(elementId)) {
+      return element.id;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get all descendants of a group (children, grandchildren, ...).
+ *
+ * @param store - Element store
+ * @param groupId - Group ID
+ * @returns Descendant IDs (depth-first, in child order)
+ */
+export function getGroupDescendantIds(
+  store: ElementStore,
+  groupId: string
+): string[] {
+  const group = store.get(groupId);
+  if (!isGroupElement(group)) {
+    return [];
+  }
+
+  return group.data.childIds.flatMap(childId =>
+    store.has(childId) ? [childId, ...getGroupDescendantIds(store, childId)] : []
+  );
+}
+
+/**
+ * Compute the frame of a new group around its children (combined AABB).
+ *
+ * @param children - Elements to group
+ * @returns Group center and size in LCD coordinates
+ */
+export function computeGroupFrame(
+  children: OverlayElement[]
+): { x: number; y: number; width: number; height: number } {
+  const aabb = calculateCombinedAABB(children);
+  if (!aabb) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  return {
+    x: (aabb.left + aabb.right) / 2,
+    y: (aabb.top + aabb.bottom) / 2,
+    width: aabb.width,
+    height: aabb.height,
+  };
+}
+
+/**
+ * Get the groups an element is nested in, innermost first.
+ *
+ * @param store - Element store
+ * @param elementId - Element ID
+ * @returns Ancestor group IDs (empty for top-level elements)
+ */
+export function getAncestorGroupIds(
+  store: ElementStore,
+  elementId: string
+): string[] {
+  const ancestorIds: string[] = [];
+  for (let id = getParentGroupId(store, elementId); id !== null && !ancestorIds.includes(id); id = getParentGroupId(store, id)) {
+    ancestorIds.push(id);
+  }
+  return ancestorIds;
+}
+
+/**
+ * Update the groups around a removed element, innermost first.
+ * A group left with fewer than MIN_GROUP_CHILDREN children is removed (its
+ * remaining child takes its place in the parent group); any other group is
+ * fitted to its remaining children (unrotated, like a new group).
+ *
+ * @param store - Element store (removed element already deleted)
+ * @param zOrder - Z-order (removed element already deleted)
+ * @param elementId - Removed element ID
+ * @param ancestorIds - Groups the element was nested in (see getAncestorGroupIds)
+ * @returns New element store and z-order
+ */
+export function settleGroupsAfterRemoval(
+  store: ElementStore,
+  zOrder: ZOrder,
+  elementId: string,
+  ancestorIds: string[]
+): { store: ElementStore; zOrder: ZOrder } {
+  let newStore = store;
+  let newZOrder = zOrder;
+  let removedId = elementId;
+  let replacementIds: string[] = [];
+
+  for (const groupId of ancestorIds) {
+    const group = newStore.get(groupId);
+    if (!isGroupElement(group)) {
+      break;
+    }
+
+    const childIds = group.data.childIds
+      .flatMap(childId => (childId === removedId ? replacementIds : [childId]))
+      .filter(childId => newStore.has(childId));
+    newStore = new Map(newStore);
+
+    if (childIds.length < MIN_GROUP_CHILDREN) {
+      newStore.delete(groupId);
+      newZOrder = newZOrder.filter(id => id !== groupId);
+      removedId = groupId;
+      replacementIds = childIds;
+      continue;
+    }
+
+    const { x, y, width, height } = computeGroupFrame(childIds.map(childId => newStore.get(childId) as OverlayElement));
+    const { angle: _angle, ...unrotated } = group;
+    newStore.set(groupId, { ...unrotated, x, y, data: { ...group.data, childIds, width, height } });
+    removedId = groupId;
+    replacementIds = [groupId];
+  }
+
+  return { store: newStore, zOrder: newZOrder };
+}
+
+/**
+ * Apply a group transform to all descendants of the group.
+ * The group itself is not updated (callers store nextGroup).
+ *
+ * @param store - Element store (descendants in their pre-transform state)
+ * @param previousGroup - Group before the transform
+ * @param nextGroup - Group after the transform
+ * @returns New element store with descendants transformed
+ */
+export function applyGroupTransform(
+  store: ElementStore,
+  previousGroup: GroupElement,
+  nextGroup: GroupElement
+): ElementStore {
+  if (
+    previousGroup.x === nextGroup.x &&
+    previousGroup.y === nextGroup.y &&
+    (previousGroup.angle ?? 0) === (nextGroup.angle ?? 0) &&
+    previousGroup.data.width === nextGroup.data.width
+  ) {
+    return store;
+  }
+
+  let newStore = new Map(store);
+  for (const childId of previousGroup.data.childIds) {
+    const child = newStore.get(childId);
+    if (!child) {
+      continue;
+    }
+    const transformed = transformGroupChild(child, previousGroup, nextGroup);
+    newStore.set(childId, transformed);
+    if (isGroupElement(child) && isGroupElement(transformed)) {
+      newStore = applyGroupTransform(newStore, child, transformed);
+    }
+  }
+
+  return newStore;
+}
+
+/**
+ * Build the z-order for a new group: children are moved together (keeping
+ * their relative order) to the position of the topmost child, and the group
+ * is inserted directly above them.
+ *
+ * @param zOrder - Current z-order array
+ * @param childIds - Grouped element IDs
+ * @param groupId - New group ID
+ * @returns New z-order array
+ */
+export function groupZOrder(
+  zOrder: ZOrder,
+  childIds: string[],
+  groupId: string
+): ZOrder {
+  const children = zOrder.filter(id => childIds.includes(id));
+  const topmostIndex = Math.max(...children.map(id => zOrder.indexOf(id)));
+
+  const below = zOrder.slice(0, topmostIndex + 1).filter(id => !childIds.includes(id));
+  const above = zOrder.slice(topmostIndex + 1);
+
+  return [...below, ...children, groupId, ...above];
+}
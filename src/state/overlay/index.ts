@@ -8,6 +8,7 @@
  * - Selection State functions (selection.ts)
  * - Z-Order functions (zOrder.ts)
  * - Selector functions (selectors.ts)
+ * - Group helpers (groups.ts)
  * 
  * PART 3 exports:
  * - Action model (actions.ts)
@@ -98,6 +99,28 @@ export {
   getSelectedElement,
 } from './selectors';
 
+// Group exports
+export {
+  getParentGroupId,
+  getGroupDescendantIds,
+  computeGroupFrame,
+  applyGroupTransform,
+  groupZOrder,
+} from './groups';
+
+// Alignment exports
+export {
+  type AlignEdge,
+  type AlignReference,
+  type DistributeAxis,
+  type ElementPosition,
+  MIN_DISTRIBUTE_ELEMENTS,
+  getRotatedBounds,
+  getAlignableElements,
+  computeAlignedPositions,
+  computeDistributedPositions,
+} from './alignment';
+
 // Type exports (PART 3)
 export type {
   HistoryState,
@@ -119,6 +142,12 @@ export {
   type ZOrderActionData,
   type MoveElementZUpActionData,
   type MoveElementZDownActionData,
+  type ElementLayerFlag,
+  type SetElementLayerFlagActionData,
+  type RenameElementActionData,
+  type ReorderElementActionData,
+  type GroupElementsActionData,
+  type UngroupElementsActionData,
   type BatchActionData,
   generateActionId,
   createAddElementAction,
@@ -129,7 +158,14 @@ export {
   createZOrderAction,
   createMoveElementZUpAction,
   createMoveElementZDownAction,
+  createSetElementLayerFlagAction,
+  createRenameElementAction,
+  createReorderElementAction,
+  createGroupElementsAction,
+  createUngroupElementsAction,
   createBatchAction,
+  createAlignElementsAction,
+  createDistributeElementsAction,
   validateAction,
 } from './actions';
 
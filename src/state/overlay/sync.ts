@@ -279,14 +279,17 @@ function areStatesDifferent(
       return true; // Element exists in incoming but not in current
     }
     
-    // Compare element properties (x, y, angle, zIndex)
+    // Compare element properties (x, y, angle, zIndex, layer flags, name)
     if (
       currentElement.x !== incomingElement.x ||
       currentElement.y !== incomingElement.y ||
       currentElement.angle !== incomingElement.angle ||
-      currentElement.zIndex !== incomingElement.zIndex
+      currentElement.zIndex !== incomingElement.zIndex ||
+      currentElement.hidden !== incomingElement.hidden ||
+      currentElement.locked !== incomingElement.locked ||
+      currentElement.name !== incomingElement.name
     ) {
-      return true; // Element geometry/transform differs
+      return true; // Element geometry/transform, layer flags or name differ
     }
     
     // FAZ-4-4M: Explicitly check element.data (color, font, text, etc.)
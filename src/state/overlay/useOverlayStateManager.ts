@@ -759,12 +759,15 @@ export function useOverlayStateManager(
                   return true; // New element
                 }
                 
-                // Check geometry (position/transform)
+                // Check geometry (position/transform), layer flags and name
                 if (
                   currentElement.x !== mergedElement.x ||
                   currentElement.y !== mergedElement.y ||
                   currentElement.angle !== mergedElement.angle ||
-                  currentElement.zIndex !== mergedElement.zIndex
+                  currentElement.zIndex !== mergedElement.zIndex ||
+                  currentElement.hidden !== mergedElement.hidden ||
+                  currentElement.locked !== mergedElement.locked ||
+                  currentElement.name !== mergedElement.name
                 ) {
                   geometryChanged = true;
                 }
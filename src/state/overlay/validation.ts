@@ -15,6 +15,9 @@ import type { OverlayRuntimeState } from './types';
 import * as selection from './selection';
 import * as transactions from './transactions';
 import { IS_DEV } from '../../utils/env';
+import { isValidMetricThresholds, MAX_METRIC_THRESHOLDS } from '../../domain/metricThresholds';
+import { isValidMetricDeviceSelector } from '../../domain/metricDevices';
+import { sanitizeElementGroups } from '../../domain/elementGroups';
 
 /**
  * Validation error interface.
@@ -84,7 +87,7 @@ function validateElementStructure(element: unknown): ValidationError[] {
       elementId: el.id,
     });
   } else {
-    const validTypes = ['metric', 'text', 'divider', 'clock', 'date'];
+    const validTypes = ['metric', 'text', 'divider', 'clock', 'date', 'graph', 'gauge', 'bar', 'image', 'timer', 'template', 'group'];
     if (!validTypes.includes(el.type)) {
       errors.push({
         code: 'UNKNOWN_ELEMENT_TYPE',
@@ -141,6 +144,24 @@ function validateElementStructure(element: unknown): ValidationError[] {
     }
   }
   
+  // Layer flags validation (optional)
+  if ((el.hidden !== undefined && typeof el.hidden !== 'boolean') || (el.locked !== undefined && typeof el.locked !== 'boolean')) {
+    errors.push({
+      code: 'INVALID_LAYER_FLAGS',
+      message: 'Element hidden/locked flags must be booleans',
+      elementId: el.id,
+    });
+  }
+  
+  // Layer name validation (optional)
+  if (el.name !== undefined && typeof el.name !== 'string') {
+    errors.push({
+      code: 'INVALID_ELEMENT_NAME',
+      message: 'Element name must be a string',
+      elementId: el.id,
+    });
+  }
+  
   // Data validation (type-specific)
   if (!el.data || typeof el.data !== 'object') {
     errors.push({
@@ -151,6 +172,49 @@ function validateElementStructure(element: unknown): ValidationError[] {
   }
   
   // Type-specific size validation
+  if (el.type === 'metric' && el.data) {
+    const data = el.data as { device?: unknown; thresholds?: unknown };
+    if (data.device !== undefined && !isValidMetricDeviceSelector(data.device)) {
+      errors.push({
+        code: 'INVALID_METRIC_DEVICE',
+        message: `Metric device must be a non-negative integer, "max" or "average": ${String(data.device)}`,
+        elementId: el.id,
+      });
+    }
+    if (data.thresholds !== undefined && !isValidMetricThresholds(data.thresholds)) {
+      errors.push({
+        code: 'INVALID_METRIC_THRESHOLDS',
+        message: `Metric thresholds must be up to ${MAX_METRIC_THRESHOLDS} rules with a "gte"/"lte" comparison and a numeric value`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'text' && el.data) {
+    const data = el.data as { spans?: unknown; textAlign?: string; lineHeight?: number };
+    if (!Array.isArray(data.spans) || data.spans.some(span => !span || typeof span.text !== 'string')) {
+      errors.push({
+        code: 'INVALID_TEXT_SPANS',
+        message: 'Text spans must be an array of spans with string text',
+        elementId: el.id,
+      });
+    }
+    if (data.textAlign !== undefined && data.textAlign !== 'left' && data.textAlign !== 'center' && data.textAlign !== 'right') {
+      errors.push({
+        code: 'INVALID_TEXT_ALIGN',
+        message: `Invalid text align: ${data.textAlign}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.lineHeight === 'number' && (isNaN(data.lineHeight) || data.lineHeight <= 0)) {
+      errors.push({
+        code: 'INVALID_TEXT_LINE_HEIGHT',
+        message: `Text line height out of range: ${data.lineHeight}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
   if (el.type === 'divider' && el.data) {
     const data = el.data as { width?: number; height?: number };
     if (typeof data.width === 'number') {
@@ -173,6 +237,261 @@ function validateElementStructure(element: unknown): ValidationError[] {
     }
   }
   
+  if (el.type === 'graph' && el.data) {
+    const data = el.data as { width?: number; height?: number; windowSeconds?: number; minValue?: number; maxValue?: number };
+    if (typeof data.width === 'number') {
+      if (isNaN(data.width) || data.width < SIZE_RANGE.MIN || data.width > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_GRAPH_WIDTH',
+          message: `Graph width out of range: ${data.width}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (typeof data.height === 'number') {
+      if (isNaN(data.height) || data.height < SIZE_RANGE.MIN || data.height > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_GRAPH_HEIGHT',
+          message: `Graph height out of range: ${data.height}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (typeof data.windowSeconds !== 'number' || isNaN(data.windowSeconds) || data.windowSeconds <= 0) {
+      errors.push({
+        code: 'INVALID_GRAPH_WINDOW',
+        message: `Graph window must be a positive number of seconds: ${data.windowSeconds}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.minValue === 'number' && typeof data.maxValue === 'number' && data.minValue >= data.maxValue) {
+      errors.push({
+        code: 'INVALID_GRAPH_RANGE',
+        message: `Graph min value must be less than max value: ${data.minValue} >= ${data.maxValue}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'clock' && el.data) {
+    const data = el.data as { style?: string; dialSize?: number; handStyle?: string; secondHandMotion?: string };
+    if (data.style !== undefined && data.style !== 'digital' && data.style !== 'analog') {
+      errors.push({
+        code: 'INVALID_CLOCK_STYLE',
+        message: `Invalid clock style: ${data.style}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.dialSize === 'number') {
+      if (isNaN(data.dialSize) || data.dialSize < SIZE_RANGE.MIN || data.dialSize > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_CLOCK_DIAL_SIZE',
+          message: `Clock dial size out of range: ${data.dialSize}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (data.handStyle !== undefined && !['classic', 'slim', 'bold'].includes(data.handStyle)) {
+      errors.push({
+        code: 'INVALID_CLOCK_HAND_STYLE',
+        message: `Invalid clock hand style: ${data.handStyle}`,
+        elementId: el.id,
+      });
+    }
+    if (data.secondHandMotion !== undefined && data.secondHandMotion !== 'tick' && data.secondHandMotion !== 'smooth') {
+      errors.push({
+        code: 'INVALID_CLOCK_SECOND_HAND_MOTION',
+        message: `Invalid clock second hand motion: ${data.secondHandMotion}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'gauge' && el.data) {
+    const data = el.data as { size?: number; startAngle?: number; endAngle?: number; minValue?: number; maxValue?: number };
+    if (typeof data.size === 'number') {
+      if (isNaN(data.size) || data.size < SIZE_RANGE.MIN || data.size > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_GAUGE_SIZE',
+          message: `Gauge size out of range: ${data.size}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (typeof data.startAngle === 'number' && typeof data.endAngle === 'number' && data.startAngle >= data.endAngle) {
+      errors.push({
+        code: 'INVALID_GAUGE_ANGLES',
+        message: `Gauge start angle must be less than end angle: ${data.startAngle} >= ${data.endAngle}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.minValue === 'number' && typeof data.maxValue === 'number' && data.minValue >= data.maxValue) {
+      errors.push({
+        code: 'INVALID_GAUGE_RANGE',
+        message: `Gauge min value must be less than max value: ${data.minValue} >= ${data.maxValue}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'bar' && el.data) {
+    const data = el.data as { width?: number; height?: number; orientation?: string; mode?: string; segmentCount?: number; minValue?: number; maxValue?: number };
+    if (typeof data.width === 'number') {
+      if (isNaN(data.width) || data.width < SIZE_RANGE.MIN || data.width > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_BAR_WIDTH',
+          message: `Bar width out of range: ${data.width}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (typeof data.height === 'number') {
+      if (isNaN(data.height) || data.height < SIZE_RANGE.MIN || data.height > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_BAR_HEIGHT',
+          message: `Bar height out of range: ${data.height}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (data.orientation !== 'horizontal' && data.orientation !== 'vertical') {
+      errors.push({
+        code: 'INVALID_BAR_ORIENTATION',
+        message: `Invalid bar orientation: ${data.orientation}`,
+        elementId: el.id,
+      });
+    }
+    if (data.mode !== 'solid' && data.mode !== 'segmented' && data.mode !== 'gradient') {
+      errors.push({
+        code: 'INVALID_BAR_MODE',
+        message: `Invalid bar mode: ${data.mode}`,
+        elementId: el.id,
+      });
+    }
+    if (data.segmentCount !== undefined && (typeof data.segmentCount !== 'number' || isNaN(data.segmentCount) || data.segmentCount < 1)) {
+      errors.push({
+        code: 'INVALID_BAR_SEGMENTS',
+        message: `Bar segment count must be at least 1: ${data.segmentCount}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.minValue === 'number' && typeof data.maxValue === 'number' && data.minValue >= data.maxValue) {
+      errors.push({
+        code: 'INVALID_BAR_RANGE',
+        message: `Bar min value must be less than max value: ${data.minValue} >= ${data.maxValue}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'image' && el.data) {
+    const data = el.data as { width?: number; height?: number; source?: string; opacity?: number };
+    if (typeof data.width === 'number') {
+      if (isNaN(data.width) || data.width < SIZE_RANGE.MIN || data.width > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_IMAGE_WIDTH',
+          message: `Image width out of range: ${data.width}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (typeof data.height === 'number') {
+      if (isNaN(data.height) || data.height < SIZE_RANGE.MIN || data.height > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_IMAGE_HEIGHT',
+          message: `Image height out of range: ${data.height}`,
+          elementId: el.id,
+        });
+      }
+    }
+    if (data.source !== 'remote' && data.source !== 'local') {
+      errors.push({
+        code: 'INVALID_IMAGE_SOURCE',
+        message: `Invalid image source: ${data.source}`,
+        elementId: el.id,
+      });
+    }
+    if (data.opacity !== undefined && (typeof data.opacity !== 'number' || isNaN(data.opacity) || data.opacity < 0 || data.opacity > 1)) {
+      errors.push({
+        code: 'INVALID_IMAGE_OPACITY',
+        message: `Image opacity must be between 0 and 1: ${data.opacity}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
+  if (el.type === 'timer' && el.data) {
+    const data = el.data as { mode?: string; format?: unknown; targetTimestamp?: number; fontSize?: number };
+    if (data.mode !== 'countdown' && data.mode !== 'stopwatch' && data.mode !== 'uptime') {
+      errors.push({
+        code: 'INVALID_TIMER_MODE',
+        message: `Invalid timer mode: ${data.mode}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.format !== 'string') {
+      errors.push({
+        code: 'INVALID_TIMER_FORMAT',
+        message: 'Timer format must be a string',
+        elementId: el.id,
+      });
+    }
+    if (data.mode === 'countdown' && (typeof data.targetTimestamp !== 'number' || !Number.isFinite(data.targetTimestamp))) {
+      errors.push({
+        code: 'INVALID_TIMER_TARGET',
+        message: `Countdown target timestamp is invalid: ${data.targetTimestamp}`,
+        elementId: el.id,
+      });
+    }
+    if (typeof data.fontSize === 'number') {
+      if (isNaN(data.fontSize) || data.fontSize < SIZE_RANGE.MIN || data.fontSize > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_TIMER_FONT_SIZE',
+          message: `Timer font size out of range: ${data.fontSize}`,
+          elementId: el.id,
+        });
+      }
+    }
+  }
+  
+  if (el.type === 'template' && el.data) {
+    const data = el.data as { template?: unknown; textSize?: number };
+    if (typeof data.template !== 'string') {
+      errors.push({
+        code: 'INVALID_TEMPLATE_STRING',
+        message: 'Template must be a string',
+        elementId: el.id,
+      });
+    }
+    if (typeof data.textSize === 'number') {
+      if (isNaN(data.textSize) || data.textSize < SIZE_RANGE.MIN || data.textSize > SIZE_RANGE.MAX) {
+        errors.push({
+          code: 'INVALID_TEMPLATE_TEXT_SIZE',
+          message: `Template text size out of range: ${data.textSize}`,
+          elementId: el.id,
+        });
+      }
+    }
+  }
+  
+  if (el.type === 'group' && el.data) {
+    const data = el.data as { childIds?: unknown; width?: unknown; height?: unknown };
+    if (!Array.isArray(data.childIds) || data.childIds.some(childId => typeof childId !== 'string')) {
+      errors.push({
+        code: 'INVALID_GROUP_CHILDREN',
+        message: 'Group children must be an array of element IDs',
+        elementId: el.id,
+      });
+    }
+    if (typeof data.width !== 'number' || typeof data.height !== 'number' || isNaN(data.width) || isNaN(data.height) || data.width < 0 || data.height < 0) {
+      errors.push({
+        code: 'INVALID_GROUP_SIZE',
+        message: `Group size is invalid: ${data.width}x${data.height}`,
+        elementId: el.id,
+      });
+    }
+  }
+  
   return errors;
 }
 
@@ -231,6 +550,23 @@ export function ensureStateConsistency(
     correctedState = { ...correctedState, elements: newElements };
   }
   
+  // 1b. Check group references (missing, shared or cyclic children; empty groups)
+  const { elements: sanitizedElements, changedGroupIds } = sanitizeElementGroups([...correctedState.elements.values()]);
+  if (changedGroupIds.length > 0) {
+    for (const groupId of changedGroupIds) {
+      errors.push({
+        code: 'INVALID_GROUP_CHILDREN',
+        message: `Group has invalid children or no children: ${groupId}`,
+        elementId: groupId,
+      });
+    }
+    const newElements = new Map<string, OverlayElement>();
+    for (const element of sanitizedElements) {
+      newElements.set(element.id, element);
+    }
+    correctedState = { ...correctedState, elements: newElements };
+  }
+  
   // 2. Check for orphan elements (in zOrder but not in elementStore)
   const orphanIds: string[] = [];
   for (const elementId of correctedState.zOrder) {
@@ -27,7 +27,10 @@
  */
 
 import type { OverlayElement } from '../../types/overlay';
-import { isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData } from '../../types/overlay';
+import { isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData, isGraphElementData, isGaugeElementData, isBarElementData, isImageElementData, isTimerElementData, isTemplateElementData, isGroupElementData } from '../../types/overlay';
+import { estimateTimeFormatLength, estimateDurationFormatLength } from '../../domain/timeFormat';
+import { estimateTemplateLength } from '../../domain/templateString';
+import { estimateRichTextDimensions } from '../../domain/richText';
 
 /**
  * Element dimensions in LCD coordinates.
@@ -78,25 +81,20 @@ export function calculateElementDimensions(element: OverlayElement): ElementDime
       height: numberSize * 0.85,
     };
   } else if (element.type === 'text' && isTextElementData(element.data)) {
-    const textSize = element.data.textSize || 45;
-    const textLength = (element.data.text || '').length || 1;
-    // Same calculation as boundaries.ts and OverlayPreview.tsx
+    // Rich text: widest line x summed line heights (same estimate as the text renderer)
+    return estimateRichTextDimensions(element.data);
+  } else if (element.type === 'clock' && isClockElementData(element.data) && element.data.style === 'analog') {
+    // Analog clock is a square dial (same as gauge)
+    const dialSize = element.data.dialSize || 240;
     return {
-      width: Math.max(textSize * textLength * 0.6, textSize * 2),
-      height: textSize * 1.2,
+      width: dialSize,
+      height: dialSize,
     };
   } else if (element.type === 'clock' && isClockElementData(element.data)) {
     const fontSize = element.data.fontSize || 45;
-    // Clock behaves like text - calculate actual text length based on format and mode
-    // Use the same calculation logic as text element
-    // Maximum possible length: "12:59:59 PM" (11 chars) or "23:59:59" (8 chars)
-    let clockLength = 5; // Minimum: "HH:mm" = 5 chars
-    if (element.data.format === 'HH:mm:ss') {
-      clockLength = 8; // "HH:mm:ss" = 8 chars
-    }
-    if (element.data.mode === '12h') {
-      clockLength += 4; // Add " AM" or " PM" = 4 chars
-    }
+    // Clock behaves like text - estimate maximum rendered length from format tokens
+    // (same estimate as ClockElementRenderer, so the box does not change while ticking)
+    const clockLength = estimateTimeFormatLength(element.data.format) || 5;
     // Use exact same formula as text element
     return {
       width: Math.max(fontSize * clockLength * 0.6, fontSize * 2),
@@ -120,6 +118,53 @@ export function calculateElementDimensions(element: OverlayElement): ElementDime
       width: element.data.width || 2,
       height: element.data.height || 384, // Default length (60% of 640px LCD)
     };
+  } else if (element.type === 'graph' && isGraphElementData(element.data)) {
+    // Graph is a rectangle plot area (same model as divider)
+    return {
+      width: element.data.width || 240,
+      height: element.data.height || 80,
+    };
+  } else if (element.type === 'gauge' && isGaugeElementData(element.data)) {
+    // Gauge is a square box around the arc circle
+    const size = element.data.size || 200;
+    return {
+      width: size,
+      height: size,
+    };
+  } else if (element.type === 'bar' && isBarElementData(element.data)) {
+    // Bar is a rectangle element (same model as divider)
+    return {
+      width: element.data.width || 240,
+      height: element.data.height || 24,
+    };
+  } else if (element.type === 'image' && isImageElementData(element.data)) {
+    // Image is a rectangle element (same model as divider)
+    return {
+      width: element.data.width || 160,
+      height: element.data.height || 160,
+    };
+  } else if (element.type === 'timer' && isTimerElementData(element.data)) {
+    const fontSize = element.data.fontSize || 45;
+    // Timer behaves like clock - estimate length from duration tokens (or end text, if longer)
+    const timerLength = Math.max(estimateDurationFormatLength(element.data.format), element.data.endText?.length ?? 0) || 5;
+    return {
+      width: Math.max(fontSize * timerLength * 0.6, fontSize * 2),
+      height: fontSize * 1.2,
+    };
+  } else if (element.type === 'template' && isTemplateElementData(element.data)) {
+    const textSize = element.data.textSize || 45;
+    // Single line - placeholders count as their estimated formatted width
+    const templateLength = estimateTemplateLength(element.data) || 1;
+    return {
+      width: Math.max(textSize * templateLength * 0.6, textSize * 2),
+      height: textSize * 1.2,
+    };
+  } else if (element.type === 'group' && isGroupElementData(element.data)) {
+    // Group frame around its children (stored, updated by group transforms)
+    return {
+      width: element.data.width,
+      height: element.data.height,
+    };
   }
   
   // Fallback for unknown types
@@ -9,6 +9,7 @@
 import type { Command } from '../ActionHistory';
 import type { OverlayElement } from '../../../types/overlay';
 import { isMetricElementData, isTextElementData } from '../../../types/overlay';
+import { scaleTextElementData } from '../../../domain/richText';
 
 /**
  * Resize command implementation.
@@ -53,10 +54,7 @@ export class ResizeCommand implements Command {
     } else if (element.type === 'text' && isTextElementData(element.data)) {
       return {
         ...element,
-        data: {
-          ...element.data,
-          textSize: size,
-        },
+        data: scaleTextElementData(element.data, size), // Span size overrides scale with the element
       };
     }
     return element;
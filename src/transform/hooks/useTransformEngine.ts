@@ -21,7 +21,7 @@ import type { AppSettings } from '../../constants/defaults';
 import { moveElement, type MoveOperationConfig } from '../operations/MoveOperation';
 import { resizeElement, type ResizeOperationConfig } from '../operations/ResizeOperation';
 import { rotateElement, type RotateOperationConfig } from '../operations/RotateOperation';
-import { isMetricElementData, isTextElementData, isClockElementData, isDateElementData } from '../../types/overlay';
+import { isMetricElementData, isTextElementData, isClockElementData, isDateElementData, isGaugeElementData, isTimerElementData, isTemplateElementData, isGroupElementData } from '../../types/overlay';
 
 /**
  * Transform engine hook configuration.
@@ -179,8 +179,9 @@ export function useTransformEngine(
     e.preventDefault();
     e.stopPropagation();
     
-    // If already selected, start dragging immediately
+    // If already selected, start dragging immediately (locked elements are only selected)
     if (state.selectedElementId === elementId) {
+      if (getElement(elementId)?.locked) return;
       setState(prev => ({ ...prev, draggingElementId: elementId }));
       moveStart.current = {
         elementId,
@@ -190,7 +191,7 @@ export function useTransformEngine(
       // First click: just select, don't start dragging
       setState(prev => ({ ...prev, selectedElementId: elementId }));
     }
-  }, [state.selectedElementId]);
+  }, [state.selectedElementId, getElement]);
   
   const handleElementMouseMove = useCallback((e: MouseEvent) => {
     if (!moveStart.current) return;
@@ -232,7 +233,7 @@ export function useTransformEngine(
     e.stopPropagation();
     
     const element = getElement(elementId);
-    if (!element) return;
+    if (!element || element.locked) return;
     
     // Get initial size
     let initialSize = 0;
@@ -240,12 +241,22 @@ export function useTransformEngine(
       initialSize = element.data.numberSize || 180;
     } else if (element.type === 'text' && isTextElementData(element.data)) {
       initialSize = element.data.textSize || 45;
+    } else if (element.type === 'clock' && isClockElementData(element.data) && element.data.style === 'analog') {
+      initialSize = element.data.dialSize || 240; // Analog clock dial diameter
     } else if (element.type === 'clock' && isClockElementData(element.data)) {
       initialSize = element.data.fontSize || 45; // Clock font size (same as text)
     } else if (element.type === 'date' && isDateElementData(element.data)) {
       initialSize = element.data.fontSize || 45; // Date font size (same as text)
+    } else if (element.type === 'gauge' && isGaugeElementData(element.data)) {
+      initialSize = element.data.size || 200; // Gauge diameter
+    } else if (element.type === 'timer' && isTimerElementData(element.data)) {
+      initialSize = element.data.fontSize || 45; // Timer font size (same as clock)
+    } else if (element.type === 'template' && isTemplateElementData(element.data)) {
+      initialSize = element.data.textSize || 45; // Template text size (same as text)
+    } else if (element.type === 'group' && isGroupElementData(element.data)) {
+      initialSize = element.data.width; // Group frame width (aspect locked)
     } else {
-      return; // Only metric, text, clock, and date can be resized
+      return; // Only metric, text, clock, date, gauge, timer, template, and group can be resized
     }
     
     setState(prev => ({ ...prev, resizingElementId: elementId }));
@@ -298,7 +309,7 @@ export function useTransformEngine(
     e.stopPropagation();
     
     const element = getElement(elementId);
-    if (!element) return;
+    if (!element || element.locked) return;
     
     const initialAngle = element.angle ?? 0;
     
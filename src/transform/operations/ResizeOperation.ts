@@ -31,7 +31,9 @@
  */
 
 import type { OverlayElement } from '../../types/overlay';
-import { isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData } from '../../types/overlay';
+import { isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData, isGraphElementData, isGaugeElementData, isBarElementData, isImageElementData, isTimerElementData, isTemplateElementData, isGroupElementData } from '../../types/overlay';
+import { scaleTextElementData } from '../../domain/richText';
+import { scaleElementSize } from '../../domain/elementGroups';
 import type { ResizeHandle } from '../engine/HandlePositioning';
 import { 
   createRotationMatrix,
@@ -68,19 +70,42 @@ export interface ResizeOperationConfig {
 const SIZE_CONSTRAINTS = {
   metric: { min: 20, max: 500 },
   text: { min: 6, max: 200 },
+  gauge: { min: 40, max: 640 }, // Diameter - up to full LCD width
+  analogClock: { min: 40, max: 640 }, // Dial diameter - same as gauge
+  group: { min: 20, max: 640 }, // Group frame width (children scale with it)
   divider: {
     width: { min: 1, max: 400 }, // Thickness constraints (width) - allows strong vertical bars
     height: { min: 10, max: 640 }, // Length constraints (height) - covers full LCD height
   },
+  graph: {
+    width: { min: 20, max: 640 },
+    height: { min: 10, max: 640 },
+  },
+  bar: {
+    width: { min: 4, max: 640 },
+    height: { min: 4, max: 640 },
+  },
+  image: {
+    width: { min: 8, max: 640 },
+    height: { min: 8, max: 640 },
+  },
 } as const;
 
+/**
+ * Width/height constraints for rectangle-based elements.
+ */
+interface RectangleConstraints {
+  width: { min: number; max: number };
+  height: { min: number; max: number };
+}
+
 /**
  * Resize speed factor (normalizes mouse movement to size delta).
  */
 const RESIZE_SPEED_FACTOR = 0.6;
 
 /**
- * Resize speed factor for divider elements (slower for fine control).
+ * Resize speed factor for rectangle elements (divider, graph, bar, image) - slower for fine control.
  */
 const DIVIDER_RESIZE_SPEED_FACTOR = 0.1;
 
@@ -109,8 +134,8 @@ export function resizeElement(
   currentMousePos: { x: number; y: number },
   config: ResizeOperationConfig
 ): ResizeResult {
-  // Only metric, text, clock, date, and divider elements can be resized
-  if (element.type !== 'metric' && element.type !== 'text' && element.type !== 'clock' && element.type !== 'date' && element.type !== 'divider') {
+  // Only metric, text, clock, date, divider, graph, gauge, bar, image, timer, template, and group elements can be resized
+  if (element.type !== 'metric' && element.type !== 'text' && element.type !== 'clock' && element.type !== 'date' && element.type !== 'divider' && element.type !== 'graph' && element.type !== 'gauge' && element.type !== 'bar' && element.type !== 'image' && element.type !== 'timer' && element.type !== 'template' && element.type !== 'group') {
     return {
       element,
       newSize: getElementSize(element),
@@ -144,7 +169,37 @@ export function resizeElement(
     );
   }
   
-  // For metric, text, and clock elements, use aspect ratio lock (always ON)
+  // Graph is a rectangle plot area - same independent width/height resize as divider
+  if (element.type === 'graph') {
+    return resizeGraphRectangle(
+      element,
+      handle,
+      lcdDelta,
+      angle
+    );
+  }
+  
+  // Bar is a rectangle element - same independent width/height resize as divider
+  if (element.type === 'bar') {
+    return resizeBarRectangle(
+      element,
+      handle,
+      lcdDelta,
+      angle
+    );
+  }
+  
+  // Image is a rectangle element - same independent width/height resize as divider
+  if (element.type === 'image') {
+    return resizeImageRectangle(
+      element,
+      handle,
+      lcdDelta,
+      angle
+    );
+  }
+  
+  // For metric, text, clock, date, gauge, timer, template, and group elements, use aspect ratio lock (always ON)
   // Calculate resize delta in element's local coordinate space
   // WHY: This is the critical fix for Bug #2. When an element is rotated,
   // the mouse movement is in global (screen) coordinates, but resize should
@@ -168,7 +223,13 @@ export function resizeElement(
   // Apply size constraints
   const constraints = element.type === 'metric' 
     ? SIZE_CONSTRAINTS.metric 
-    : SIZE_CONSTRAINTS.text; // text, clock, and date use same constraints
+    : element.type === 'gauge'
+      ? SIZE_CONSTRAINTS.gauge
+      : element.type === 'clock' && isClockElementData(element.data) && element.data.style === 'analog'
+        ? SIZE_CONSTRAINTS.analogClock
+        : element.type === 'group'
+          ? SIZE_CONSTRAINTS.group
+          : SIZE_CONSTRAINTS.text; // text, digital clock, date, timer, and template use same constraints
   const constrainedSize = Math.round(Math.max(
     constraints.min,
     Math.min(constraints.max, targetSize)
@@ -315,8 +376,10 @@ function getCornerHandleSign(
 
 /**
  * Gets current element size.
- * For metric/text: returns numberSize/textSize.
- * For divider: returns width (for undo/redo consistency).
+ * For metric/text/template: returns numberSize/textSize.
+ * For clock, date, and timer: returns fontSize (analog clock: dialSize).
+ * For gauge: returns diameter (size).
+ * For divider, graph, bar, and image: returns width (for undo/redo consistency).
  */
 function getElementSize(element: OverlayElement): number {
   if (element.type === 'metric' && isMetricElementData(element.data)) {
@@ -325,10 +388,26 @@ function getElementSize(element: OverlayElement): number {
     return element.data.textSize || 45;
   } else if (element.type === 'divider' && isDividerElementData(element.data)) {
     return element.data.width || 2;
+  } else if (element.type === 'clock' && isClockElementData(element.data) && element.data.style === 'analog') {
+    return element.data.dialSize || 240; // Analog clock dial diameter
   } else if (element.type === 'clock' && isClockElementData(element.data)) {
     return element.data.fontSize || 45; // Clock font size (same as text)
   } else if (element.type === 'date' && isDateElementData(element.data)) {
     return element.data.fontSize || 45; // Date font size (same as text)
+  } else if (element.type === 'graph' && isGraphElementData(element.data)) {
+    return element.data.width || 240;
+  } else if (element.type === 'gauge' && isGaugeElementData(element.data)) {
+    return element.data.size || 200;
+  } else if (element.type === 'bar' && isBarElementData(element.data)) {
+    return element.data.width || 240;
+  } else if (element.type === 'image' && isImageElementData(element.data)) {
+    return element.data.width || 160;
+  } else if (element.type === 'timer' && isTimerElementData(element.data)) {
+    return element.data.fontSize || 45; // Timer font size (same as clock)
+  } else if (element.type === 'template' && isTemplateElementData(element.data)) {
+    return element.data.textSize || 45; // Template text size (same as text)
+  } else if (element.type === 'group' && isGroupElementData(element.data)) {
+    return element.data.width; // Group frame width (height follows, aspect locked)
   }
   return 0;
 }
@@ -364,8 +443,62 @@ function resizeDividerRectangle(
     };
   }
   
+  // Current values are already in LCD pixels
+  const { width: constrainedWidth, height: constrainedHeight } = calculateRectangleResize(
+    element.data.width || 2,
+    element.data.height || 384, // Default 60% of 640px LCD
+    handle,
+    lcdDelta,
+    angle,
+    SIZE_CONSTRAINTS.divider,
+    DIVIDER_RESIZE_SPEED_FACTOR
+  );
+  
+  // Update element
+  const updatedElement: OverlayElement = {
+    ...element,
+    data: {
+      ...element.data,
+      width: constrainedWidth,
+      height: constrainedHeight,
+    },
+  };
+  
+  // Return width as newSize for consistency (undo/redo uses it)
+  return {
+    element: updatedElement,
+    newSize: constrainedWidth,
+  };
+}
+
+/**
+ * Calculates new width/height for a rectangle element (no aspect ratio lock).
+ * 
+ * Shared by divider, graph, bar, and image elements:
+ * - Left/Right handles: resize width
+ * - Top/Bottom handles: resize height
+ * - Corner handles: resize both independently
+ * 
+ * @param initialWidth - Current width in LCD pixels
+ * @param initialHeight - Current height in LCD pixels
+ * @param handle - Resize handle being dragged
+ * @param lcdDelta - Mouse movement in LCD coordinates
+ * @param angle - Element rotation angle in degrees
+ * @param constraints - Width/height constraints
+ * @param speedFactor - Multiplier applied to the resize delta
+ * @returns Constrained (rounded) width and height
+ */
+function calculateRectangleResize(
+  initialWidth: number,
+  initialHeight: number,
+  handle: ResizeHandle,
+  lcdDelta: { x: number; y: number },
+  angle: number,
+  constraints: RectangleConstraints,
+  speedFactor: number
+): { width: number; height: number } {
   // CRITICAL FIX: Use the EXACT same delta calculation as metric/text elements
-  // This ensures divider resize speed matches metric/text exactly.
+  // This ensures rectangle resize speed matches metric/text exactly.
   // The calculateResizeDeltaInLocalSpace function handles rotation and handle direction correctly.
   const localDelta = calculateResizeDeltaInLocalSpace(
     handle,
@@ -373,15 +506,14 @@ function resizeDividerRectangle(
     angle
   );
   
-  // Get current values (already in LCD pixels)
-  let currentWidth = element.data.width || 2;
-  let currentHeight = element.data.height || 384; // Default 60% of 640px LCD
+  let currentWidth = initialWidth;
+  let currentHeight = initialHeight;
   
-  // CRITICAL: For divider, width and height are independent (no aspect ratio lock)
+  // CRITICAL: For rectangles, width and height are independent (no aspect ratio lock)
   // But we use the same delta calculation as metric/text for consistency.
   // 
   // For edge handles: calculateResizeDeltaForHandle applies the same delta to both axes
-  // (for aspect ratio lock), but for divider we only use the relevant axis.
+  // (for aspect ratio lock), but for rectangles we only use the relevant axis.
   // For corner handles: both axes get the diagonal delta (same as metric/text).
   const direction = getResizeDirection(handle);
   
@@ -390,49 +522,188 @@ function resizeDividerRectangle(
     // localDelta.x and localDelta.y are both the diagonal delta (from calculateResizeDeltaForHandle)
     // Use either one (they're the same for corner handles)
     const delta = localDelta.x; // or localDelta.y, they're equal for corner handles
-    currentWidth = currentWidth + delta * DIVIDER_RESIZE_SPEED_FACTOR;
-    currentHeight = currentHeight + delta * DIVIDER_RESIZE_SPEED_FACTOR;
+    currentWidth = currentWidth + delta * speedFactor;
+    currentHeight = currentHeight + delta * speedFactor;
     
   } else if (direction.horizontal !== 'none') {
     // Horizontal handle (Left/Right): resize width only
     // localDelta.x has the correct sign and value (from calculateResizeDeltaForHandle)
-    // localDelta.y is the same as localDelta.x (aspect ratio lock), but we ignore it for divider
-    currentWidth = currentWidth + localDelta.x * DIVIDER_RESIZE_SPEED_FACTOR;
+    // localDelta.y is the same as localDelta.x (aspect ratio lock), but we ignore it for rectangles
+    currentWidth = currentWidth + localDelta.x * speedFactor;
     
   } else if (direction.vertical !== 'none') {
     // Vertical handle (Top/Bottom): resize height only
     // localDelta.y has the correct sign and value (from calculateResizeDeltaForHandle)
-    // localDelta.x is the same as localDelta.y (aspect ratio lock), but we ignore it for divider
-    currentHeight = currentHeight + localDelta.y * DIVIDER_RESIZE_SPEED_FACTOR;
+    // localDelta.x is the same as localDelta.y (aspect ratio lock), but we ignore it for rectangles
+    currentHeight = currentHeight + localDelta.y * speedFactor;
   }
   
   // Apply constraints
-  const widthConstraints = SIZE_CONSTRAINTS.divider.width;
+  const widthConstraints = constraints.width;
   const constrainedWidth = Math.round(Math.max(
     widthConstraints.min,
     Math.min(widthConstraints.max, currentWidth)
   ));
   
-  const heightConstraints = SIZE_CONSTRAINTS.divider.height;
+  const heightConstraints = constraints.height;
   const constrainedHeight = Math.round(Math.max(
     heightConstraints.min,
     Math.min(heightConstraints.max, currentHeight)
   ));
   
-  // Update element
+  return { width: constrainedWidth, height: constrainedHeight };
+}
+
+/**
+ * Resizes a graph element as a rectangle.
+ * 
+ * Graph plot area uses the same rectangle resize rules (and speed) as divider.
+ * 
+ * @param element - Graph element to resize
+ * @param handle - Resize handle being dragged
+ * @param lcdDelta - Mouse movement in LCD coordinates
+ * @param angle - Element rotation angle in degrees
+ * @returns Updated graph element
+ */
+function resizeGraphRectangle(
+  element: OverlayElement,
+  handle: ResizeHandle,
+  lcdDelta: { x: number; y: number },
+  angle: number
+): ResizeResult {
+  if (!isGraphElementData(element.data)) {
+    // Invalid state: fallback to original element
+    return {
+      element,
+      newSize: getElementSize(element),
+    };
+  }
+  
+  const { width, height } = calculateRectangleResize(
+    element.data.width || 240,
+    element.data.height || 80,
+    handle,
+    lcdDelta,
+    angle,
+    SIZE_CONSTRAINTS.graph,
+    DIVIDER_RESIZE_SPEED_FACTOR
+  );
+  
   const updatedElement: OverlayElement = {
     ...element,
     data: {
       ...element.data,
-      width: constrainedWidth,
-      height: constrainedHeight,
+      width,
+      height,
     },
   };
   
   // Return width as newSize for consistency (undo/redo uses it)
   return {
     element: updatedElement,
-    newSize: constrainedWidth,
+    newSize: width,
+  };
+}
+
+/**
+ * Resizes a bar element as a rectangle.
+ * 
+ * Bar uses the same rectangle resize rules (and speed) as divider.
+ * 
+ * @param element - Bar element to resize
+ * @param handle - Resize handle being dragged
+ * @param lcdDelta - Mouse movement in LCD coordinates
+ * @param angle - Element rotation angle in degrees
+ * @returns Updated bar element
+ */
+function resizeBarRectangle(
+  element: OverlayElement,
+  handle: ResizeHandle,
+  lcdDelta: { x: number; y: number },
+  angle: number
+): ResizeResult {
+  if (!isBarElementData(element.data)) {
+    // Invalid state: fallback to original element
+    return {
+      element,
+      newSize: getElementSize(element),
+    };
+  }
+  
+  const { width, height } = calculateRectangleResize(
+    element.data.width || 240,
+    element.data.height || 24,
+    handle,
+    lcdDelta,
+    angle,
+    SIZE_CONSTRAINTS.bar,
+    DIVIDER_RESIZE_SPEED_FACTOR
+  );
+  
+  const updatedElement: OverlayElement = {
+    ...element,
+    data: {
+      ...element.data,
+      width,
+      height,
+    },
+  };
+  
+  // Return width as newSize for consistency (undo/redo uses it)
+  return {
+    element: updatedElement,
+    newSize: width,
+  };
+}
+
+/**
+ * Resizes a image element as a rectangle.
+ * 
+ * Image uses the same rectangle resize rules (and speed) as divider.
+ * 
+ * @param element - Image element to resize
+ * @param handle - Resize handle being dragged
+ * @param lcdDelta - Mouse movement in LCD coordinates
+ * @param angle - Element rotation angle in degrees
+ * @returns Updated image element
+ */
+function resizeImageRectangle(
+  element: OverlayElement,
+  handle: ResizeHandle,
+  lcdDelta: { x: number; y: number },
+  angle: number
+): ResizeResult {
+  if (!isImageElementData(element.data)) {
+    // Invalid state: fallback to original element
+    return {
+      element,
+      newSize: getElementSize(element),
+    };
+  }
+  
+  const { width, height } = calculateRectangleResize(
+    element.data.width || 160,
+    element.data.height || 160,
+    handle,
+    lcdDelta,
+    angle,
+    SIZE_CONSTRAINTS.image,
+    DIVIDER_RESIZE_SPEED_FACTOR
+  );
+  
+  const updatedElement: OverlayElement = {
+    ...element,
+    data: {
+      ...element.data,
+      width,
+      height,
+    },
+  };
+  
+  // Return width as newSize for consistency (undo/redo uses it)
+  return {
+    element: updatedElement,
+    newSize: width,
   };
 }
 
@@ -452,11 +723,16 @@ function updateElementSize(
       },
     };
   } else if (element.type === 'text' && isTextElementData(element.data)) {
+    return {
+      ...element,
+      data: scaleTextElementData(element.data, newSize), // Span size overrides scale with the element
+    };
+  } else if (element.type === 'clock' && isClockElementData(element.data) && element.data.style === 'analog') {
     return {
       ...element,
       data: {
         ...element.data,
-        textSize: newSize,
+        dialSize: newSize,
       },
     };
   } else if (element.type === 'clock' && isClockElementData(element.data)) {
@@ -475,8 +751,35 @@ function updateElementSize(
         fontSize: newSize,
       },
     };
+  } else if (element.type === 'gauge' && isGaugeElementData(element.data)) {
+    return {
+      ...element,
+      data: {
+        ...element.data,
+        size: newSize,
+      },
+    };
+  } else if (element.type === 'timer' && isTimerElementData(element.data)) {
+    return {
+      ...element,
+      data: {
+        ...element.data,
+        fontSize: newSize,
+      },
+    };
+  } else if (element.type === 'template' && isTemplateElementData(element.data)) {
+    return {
+      ...element,
+      data: {
+        ...element.data,
+        textSize: newSize,
+      },
+    };
+  } else if (element.type === 'group' && isGroupElementData(element.data) && element.data.width > 0) {
+    // Frame only - children follow when the transform is applied (state/overlay/groups.ts)
+    return scaleElementSize(element, newSize / element.data.width);
   } else if (element.type === 'divider') {
-    // This function is only used for metric/text/clock/date, divider uses resizeDividerRectangle
+    // This function is only used for metric/text/clock/date/gauge/timer/template/group, divider uses resizeDividerRectangle
     return element;
   }
   return element;
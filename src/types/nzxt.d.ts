@@ -4,6 +4,7 @@
 
 export interface NZXTMonitoringData {
   cpus?: Array<{
+    name?: string;
     temperature?: number;
     currentTemperature?: number;
     packageTemperature?: number;
@@ -16,8 +17,11 @@ export interface NZXTMonitoringData {
     frequencyMHz?: number;
     frequencyMhz?: number;
     processorFrequency?: number;
+    power?: number; // Package power (W)
+    packagePower?: number;
   }>;
   gpus?: Array<{
+    name?: string;
     temperature?: number;
     currentTemperature?: number;
     gpuTemperature?: number;
@@ -30,11 +34,31 @@ export interface NZXTMonitoringData {
     frequencyMHz?: number;
     frequencyMhz?: number;
     gpuFrequency?: number;
+    power?: number; // Board power (W)
+    boardPower?: number;
+    fanSpeed?: number; // RPM
+    fanRpm?: number;
+    memoryUsed?: number; // VRAM in use (MB)
+    vramUsed?: number;
+    memoryTotal?: number; // Total VRAM (MB)
+    vramTotal?: number;
+    memoryLoad?: number; // VRAM in use (%)
   }>;
+  ram?: {
+    inUse?: number; // Memory in use (MB)
+    used?: number;
+    totalSize?: number; // Installed memory (MB)
+    total?: number;
+    load?: number; // Memory in use (%)
+  };
   kraken?: {
     liquidTemperature?: number;
     temperature?: number;
     liquidTemp?: number;
+    pumpSpeed?: number; // RPM
+    pumpRpm?: number;
+    fanSpeed?: number; // Radiator fan RPM
+    fanRpm?: number;
   };
 }
 
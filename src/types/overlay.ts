@@ -25,7 +25,16 @@ export type OverlayMetricKey =
   | "liquidTemp"
   | "gpuTemp"
   | "gpuLoad"
-  | "gpuClock";
+  | "gpuClock"
+  | "gpuPower"
+  | "gpuFan"
+  | "cpuPower"
+  | "ramLoad"
+  | "ramUsed"
+  | "vramLoad"
+  | "vramUsed"
+  | "pumpSpeed"
+  | "fanSpeed";
 
 /**
  * @deprecated Use new OverlayElement type instead. Kept for migration compatibility.
@@ -108,18 +117,168 @@ export type OverlayMetrics = {
   gpuTemp: number;
   gpuLoad: number;
   gpuClock: number;
+  gpuPower: number; // Watts
+  gpuFan: number; // RPM
+  cpuPower: number; // Watts
+  ramLoad: number; // Percent of installed memory in use
+  ramUsed: number; // GB
+  vramLoad: number; // Percent of GPU memory in use
+  vramUsed: number; // GB
+  pumpSpeed: number; // Kraken pump RPM
+  fanSpeed: number; // Kraken radiator fan RPM
+  devices?: MonitoringDevices; // Per-device values on multi-CPU/GPU systems (see domain/metricDevices.ts)
+  custom?: Record<string, CustomMetricSample>; // External bridge metrics by id (see utils/metricBridge.ts)
+  freshness?: Partial<Record<OverlayMetricKey, MetricFreshness>>; // NZXT data state per metric (see utils/monitoringFreshness.ts)
 };
 
+/**
+ * Data state of a metric value.
+ * - live: Present in recent monitoring data
+ * - stale: Monitoring updates stopped (last known value)
+ * - missing: Not reported by the sensor/payload at all
+ */
+export type MetricFreshness = "live" | "stale" | "missing";
+
+/**
+ * How a metric element shows stale or missing data (see domain/metricFreshness.ts).
+ * - auto: Dim stale values, show the placeholder for missing ones
+ * - placeholder: Show the placeholder text instead of the value
+ * - dim: Keep the (last) value, dimmed
+ * - hide: Hide the element
+ */
+export type MetricNoDataStyle = "auto" | "placeholder" | "dim" | "hide";
+
+/**
+ * Metric declared by an external metric bridge (see domain/customMetrics.ts).
+ * - id: Stable identifier chosen by the bridge (e.g. "hwinfo.vrmTemp")
+ * - min / max: Value range hint (default: 0-100)
+ * - decimals: Displayed decimals (default: 0)
+ */
+export interface CustomMetricDefinition {
+  id: string;
+  label: string;
+  unit: string;
+  unitType: MetricUnitType;
+  min?: number;
+  max?: number;
+  decimals?: number;
+}
+
+/**
+ * Metric computed from other metrics by an expression (see domain/derivedMetrics.ts).
+ * Stored per preset; the result is available to metric elements like a custom metric.
+ * - expression: e.g. "gpuTemp - liquidTemp" or "max(cpuTemp, gpuTemp)"
+ */
+export interface DerivedMetricDefinition extends CustomMetricDefinition {
+  expression: string;
+}
+
+/**
+ * Latest value of a custom metric.
+ * - stale: No update within the stale timeout, or the bridge is disconnected
+ */
+export interface CustomMetricSample {
+  definition: CustomMetricDefinition;
+  value: number;
+  stale: boolean;
+}
+
+/**
+ * A single CPU or GPU from the monitoring payload.
+ * - values: Device-scoped metrics only (e.g. gpuTemp, vramUsed for a GPU)
+ */
+export interface MonitoringDevice {
+  name?: string;
+  values: Partial<Record<OverlayMetricKey, number>>;
+}
+
+/**
+ * Devices reported by the latest monitoring payload, in payload order.
+ * The top-level OverlayMetrics values always describe the first device.
+ */
+export interface MonitoringDevices {
+  cpu: MonitoringDevice[];
+  gpu: MonitoringDevice[];
+}
+
+/**
+ * Device selection for CPU/GPU metrics.
+ * - number: Device index in the monitoring payload (0 = first device)
+ * - "max" / "average": Aggregate across all devices of the metric's type
+ */
+export type MetricDeviceSelector = number | "max" | "average";
+
+/**
+ * Value processing modes for metric-bound elements (see domain/metricProcessing.ts).
+ */
+export type MetricProcessingMode = "raw" | "ema" | "average" | "min" | "max" | "peakHold";
+
+/**
+ * Value processing applied before display.
+ * - windowSeconds: EMA time constant, averaging window or peak hold time (default: 5)
+ * - decayPerSecond: Peak-hold fall rate in metric units per second (default: 10)
+ */
+export interface MetricProcessing {
+  mode: MetricProcessingMode;
+  windowSeconds?: number;
+  decayPerSecond?: number;
+}
+
+/**
+ * Temperature display unit (monitoring data is always Celsius).
+ */
+export type TemperatureUnit = "celsius" | "fahrenheit";
+
+/**
+ * Clock display unit (monitoring data is always MHz).
+ */
+export type ClockUnit = "mhz" | "ghz";
+
+/**
+ * Number formatting options for metric values (see domain/metrics.ts).
+ * All fields are optional; omitted fields keep the metric's default output.
+ * - decimals: Fixed decimal places (default: metric default, 2 for GHz)
+ * - thousandsSeparator: Group digits, e.g. "2,450" (default: false)
+ */
+export interface MetricFormatOptions {
+  temperatureUnit?: TemperatureUnit;
+  clockUnit?: ClockUnit;
+  decimals?: number;
+  thousandsSeparator?: boolean;
+}
+
+/**
+ * Threshold comparison: value >= threshold ("gte") or value <= threshold ("lte").
+ */
+export type MetricThresholdComparison = "gte" | "lte";
+
+/**
+ * Conditional style rule for metric elements (see domain/metricThresholds.ts).
+ * - value: Threshold in display units (after °F/GHz conversion)
+ * - Style fields are optional; unset fields keep the element's own style
+ * - hidden: Hide the element while the rule matches
+ * - blink: Blink the element while the rule matches
+ */
+export interface MetricThresholdRule {
+  comparison: MetricThresholdComparison;
+  value: number;
+  numberColor?: string;
+  textColor?: string;
+  outlineColor?: string;
+  hidden?: boolean;
+  blink?: boolean;
+}
+
 // ============================================================================
 // NEW ELEMENT-BASED TYPES
 // ============================================================================
 
 /**
  * Overlay element types.
- * Only metric, text, divider, clock, and date are supported.
+ * Only metric, text, divider, clock, date, graph, gauge, bar, image, timer, and template are supported.
  * Icon and weather types reserved for future use.
  */
-export type OverlayElementType = "metric" | "text" | "divider" | "clock" | "date";
+export type OverlayElementType = "metric" | "text" | "divider" | "clock" | "date" | "graph" | "gauge" | "bar" | "image" | "timer" | "template" | "group";
 
 /**
  * Metric element data.
@@ -131,17 +290,74 @@ export interface MetricElementData {
   textColor: string;
   textSize: number;
   showLabel?: boolean; // Default: true
+  font?: OverlayFont; // Number and label font (default: "default")
+  device?: MetricDeviceSelector; // CPU/GPU metrics only (default: first device)
+  processing?: MetricProcessing; // Smoothing / averaging / peak hold (default: raw values)
+  format?: MetricFormatOptions; // Unit conversion and number formatting (default: metric default output)
+  thresholds?: MetricThresholdRule[]; // Ordered conditional styles; later matching rules override earlier ones
+  customMetric?: string; // External bridge metric id; replaces metric while set (see domain/customMetrics.ts)
+  noDataStyle?: MetricNoDataStyle; // Stale/missing data display (default: "auto")
+  noDataText?: string; // Placeholder text for stale/missing data (default: "-")
   outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
   outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
 }
 
 /**
- * Text element data.
+ * Built-in fonts selectable for text-like elements (see domain/fonts.ts).
+ * - default: NZXT ExtraBold (bundled NZXTExtraBold-Regular.otf)
+ * - digital: Digital Clock Font (bundled DigitalClockFont.otf)
+ * - sans-serif / serif / monospace: system font stacks
+ */
+export type BuiltInFont = 'default' | 'digital' | 'sans-serif' | 'serif' | 'monospace';
+
+/**
+ * Reference to a user-uploaded font (stored in IndexedDB, see utils/localFontStore.ts).
+ * Presets only carry the reference, never the font file.
+ * - hash: SHA-256 of the font file (identity)
+ * - name: Display name, used for missing-font warnings on import
+ */
+export interface CustomFontRef {
+  hash: string;
+  name: string;
+}
+
+/**
+ * Font selection for text, metric, clock, date and timer elements.
+ */
+export type OverlayFont = BuiltInFont | CustomFontRef;
+
+/**
+ * Text alignment for multi-line text elements.
+ */
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * A styled run of text inside a text element.
+ * Unset style fields inherit the element defaults.
+ * - text: Plain text (sanitized); "\n" starts a new line
+ */
+export interface TextSpan {
+  text: string;
+  color?: string; // Span color (undefined = element textColor)
+  size?: number; // Span font size, minimum 6 (undefined = element textSize)
+  font?: OverlayFont; // Span font (undefined = element font)
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/**
+ * Text element data (rich text).
+ * Legacy single-string data ({ text, textColor, textSize }) is migrated to one span on load
+ * (see preset/utils/textSpans.ts).
  */
 export interface TextElementData {
-  text: string; // Plain text content (max 120 characters, sanitized)
-  textColor: string;
-  textSize: number; // Minimum 6
+  spans: TextSpan[]; // Styled text runs, rendered in order (at least one; see domain/richText.ts for limits)
+  textColor: string; // Default span color
+  textSize: number; // Default span font size, minimum 6 (resize scales span overrides proportionally)
+  font?: OverlayFont; // Default span font (default: "default")
+  textAlign?: TextAlign; // Alignment of lines within the element (default: "left")
+  letterSpacing?: number; // Letter spacing in LCD pixels (default: 0)
+  lineHeight?: number; // Line height multiplier (default: 1.2)
   outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
   outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
 }
@@ -164,15 +380,34 @@ export interface DividerElementData {
 
 /**
  * Clock element data.
+ * - format: Token format string (e.g. "HH:mm", "h:mm:ss A"); see domain/timeFormat.ts for tokens
+ * - timeZone: IANA time zone (e.g. "Asia/Tokyo"); undefined = local time
+ * - style: "digital" renders the formatted time string, "analog" draws a dial with hands
+ *
+ * Analog faces reuse the shared fields: a format with seconds (s/ss) shows the second hand,
+ * color is the hour/minute hand color, font applies to numerals, and the outline
+ * is drawn around hands, ticks and numerals.
+ *
+ * Legacy presets stored format "HH:mm" | "HH:mm:ss" plus mode "24h" | "12h";
+ * they are converted on import (see preset/utils/clockFormat.ts).
  */
 export interface ClockElementData {
-  format: "HH:mm" | "HH:mm:ss";
-  mode: "24h" | "12h";
+  format: string;
+  timeZone?: string;
   fontSize: number;
   color: string;
-  font?: "default" | "digital"; // Font selection: "default" = NZXT Default, "digital" = Digital Clock Font (default: "default")
+  font?: OverlayFont; // Font selection: built-in font or uploaded custom font (default: "default")
   outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
   outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
+  style?: "digital" | "analog"; // Clock face (default: "digital")
+  dialSize?: number; // Analog dial diameter in LCD pixels (default: 240)
+  handStyle?: "classic" | "slim" | "bold"; // Analog hand shape (default: "classic")
+  secondHandMotion?: "tick" | "smooth"; // Analog second hand movement (default: "tick")
+  showTicks?: boolean; // Analog hour/minute tick marks (default: true)
+  showNumerals?: boolean; // Analog hour numerals 1-12 (default: false)
+  secondHandColor?: string; // Analog second hand color (default: "#ff4d4d")
+  tickColor?: string; // Analog tick and numeral color (default: color)
+  faceColor?: string; // Analog dial background (default: transparent)
 }
 
 /**
@@ -182,15 +417,189 @@ export interface DateElementData {
   format: string; // Free text format string (e.g., "DD.MM.YYYY", "YYYY/MM/DD")
   fontSize: number;
   color: string;
+  font?: OverlayFont; // Same font options as clock (default: "default")
   outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
   outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
 }
 
+/**
+ * Graph element data.
+ * Plots a rolling history of a single metric as a line or filled area.
+ * - width/height: Plot area in LCD pixels (resized like a divider rectangle)
+ * - windowSeconds: How much history is visible (older samples are dropped)
+ * - minValue/maxValue: Fixed Y-axis range, used when autoScale is off
+ */
+export interface GraphElementData {
+  metric: OverlayMetricKey;
+  style: "line" | "area";
+  windowSeconds: number; // Visible history window in seconds (5-600)
+  width: number; // Plot width in pixels
+  height: number; // Plot height in pixels
+  minValue: number; // Y-axis minimum (used when autoScale is false)
+  maxValue: number; // Y-axis maximum (used when autoScale is false)
+  autoScale?: boolean; // Fit Y-axis to visible samples (default: false)
+  strokeColor: string;
+  strokeWidth: number; // Line thickness in pixels
+  fillColor?: string; // Area fill color (only used when style is "area")
+  processing?: MetricProcessing; // Applied to samples before plotting (default: raw values)
+}
+
+/**
+ * Gauge element data.
+ * Renders a circular arc whose filled portion follows a metric value.
+ * - size: Outer diameter in LCD pixels (aspect ratio locked, resized like metric)
+ * - startAngle/endAngle: Arc extent in degrees (0 = 12 o'clock, clockwise)
+ * - minValue/maxValue: Value range; when omitted, the metric's default range
+ *   from METRIC_DEFINITIONS is used
+ */
+export interface GaugeElementData {
+  metric: OverlayMetricKey;
+  size: number; // Outer diameter in pixels
+  startAngle: number; // Arc start in degrees (0 = top, clockwise)
+  endAngle: number; // Arc end in degrees (must be greater than startAngle)
+  thickness: number; // Arc stroke thickness in pixels
+  trackColor: string; // Background (unfilled) arc color
+  valueColor: string; // Filled arc color
+  minValue?: number; // Default: metric defaultMin
+  maxValue?: number; // Default: metric defaultMax
+  roundCaps?: boolean; // Rounded arc ends (default: true)
+  showTicks?: boolean; // Draw tick marks along the arc (default: false)
+  tickCount?: number; // Number of tick intervals (default: 10)
+  tickColor?: string; // Tick mark color (default: trackColor)
+  processing?: MetricProcessing; // Smoothing / averaging / peak hold (default: raw values)
+}
+
+/**
+ * Bar element data.
+ * Data-bound sibling of DividerElementData: a rectangle whose fill follows a metric value.
+ * - width/height: Bar rectangle in LCD pixels (resized like a divider rectangle)
+ * - orientation: "horizontal" fills left → right, "vertical" fills bottom → top
+ * - mode: "solid" single color, "segmented" N discrete blocks, "gradient" fillColor → gradientEndColor
+ * - minValue/maxValue: Value range; when omitted, the metric's default range
+ *   from METRIC_DEFINITIONS is used
+ */
+export interface BarElementData {
+  metric: OverlayMetricKey;
+  orientation: "horizontal" | "vertical";
+  mode: "solid" | "segmented" | "gradient";
+  width: number; // Bar width in pixels
+  height: number; // Bar height in pixels
+  fillColor: string; // Filled portion color (gradient start color in gradient mode)
+  trackColor: string; // Unfilled background color
+  gradientEndColor?: string; // Gradient end color (default: fillColor)
+  segmentCount?: number; // Number of blocks in segmented mode (default: 10)
+  segmentGap?: number; // Gap between blocks in pixels (default: 4)
+  cornerRadius?: number; // Corner radius in pixels (default: 0)
+  minValue?: number; // Default: metric defaultMin
+  maxValue?: number; // Default: metric defaultMax
+  outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
+  outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
+  processing?: MetricProcessing; // Smoothing / averaging / peak hold (default: raw values)
+}
+
+/**
+ * Image element data.
+ * Places a PNG/SVG/GIF/JPG/WebP sticker or logo as an overlay layer.
+ * - source "remote": url is an http(s) image URL (stored in presets as-is)
+ * - source "local": image binary lives in IndexedDB under localImageId;
+ *   presets only carry localImageId/localFileName (metadata-only, never binary)
+ * - width/height: Image box in LCD pixels (resized like a divider rectangle)
+ */
+export interface ImageElementData {
+  source: "remote" | "local";
+  url?: string; // Remote image URL (source === "remote")
+  localImageId?: string; // IndexedDB record ID (source === "local")
+  localFileName?: string; // Original file name, for display only (source === "local")
+  width: number; // Image box width in pixels
+  height: number; // Image box height in pixels
+  fit: "contain" | "cover" | "fill";
+  opacity?: number; // 0-1 (default: 1)
+}
+
+/**
+ * Timer element data.
+ * Text-like element showing an elapsed or remaining duration.
+ * - mode "countdown": time remaining until targetTimestamp
+ * - mode "stopwatch": time since the overlay page was loaded
+ * - mode "uptime": time since the browser session started (survives page reloads)
+ * - format: Duration token string (e.g. "HH:mm:ss", "D:HH:mm"); see domain/timeFormat.ts
+ * - endText/endColor: Applied once a countdown reaches zero
+ */
+export interface TimerElementData {
+  mode: "countdown" | "stopwatch" | "uptime";
+  format: string;
+  targetTimestamp?: number; // Countdown target (epoch milliseconds)
+  fontSize: number;
+  color: string;
+  font?: OverlayFont; // Same font options as clock (default: "default")
+  outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
+  outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
+  endText?: string; // Replaces the duration when a countdown ends (empty = keep showing zero)
+  endColor?: string; // Text color when a countdown ends (default: color)
+}
+
+/**
+ * Per-metric formatting for template placeholders.
+ * - decimals: Fixed number of decimals, 0-3 (undefined = metric's default rounding)
+ * - showUnit: Append the metric unit ("°", "%", "MHz") to the value (default: false)
+ */
+export interface TemplatePlaceholderFormat {
+  decimals?: number;
+  showUnit?: boolean;
+}
+
+/**
+ * Template element data.
+ * Single-line text with live metric placeholders, e.g. "CPU {cpuTemp}° @ {cpuClock} MHz".
+ * See domain/templateString.ts for parsing and formatting rules.
+ */
+export interface TemplateElementData {
+  template: string; // Text with {metricKey} placeholders (max 120 characters)
+  placeholderFormats?: Partial<Record<OverlayMetricKey, TemplatePlaceholderFormat>>; // Keyed by metric, shared by repeated placeholders
+  textColor: string;
+  textSize: number; // Font size, minimum 6
+  font?: OverlayFont; // Same font options as text (default: "default")
+  outlineColor?: string; // Optional outline color (transparent or undefined = no outline)
+  outlineThickness?: number; // Optional outline thickness in pixels (default: 0)
+}
+
+/**
+ * Group element data.
+ * Groups other elements so they are selected and transformed as a unit.
+ * - childIds: Grouped element IDs (each element belongs to at most one group;
+ *   groups can be nested). Children stay in the element store and z-order with
+ *   absolute coordinates; moving/rotating/resizing the group applies the same
+ *   transform to them (see state/overlay/groups.ts)
+ * - width/height: Group frame in LCD pixels (unrotated), centered on the group x/y
+ */
+export interface GroupElementData {
+  childIds: string[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Union of all element data shapes.
+ */
+export type OverlayElementData =
+  | MetricElementData
+  | TextElementData
+  | DividerElementData
+  | ClockElementData
+  | DateElementData
+  | GraphElementData
+  | GaugeElementData
+  | BarElementData
+  | ImageElementData
+  | TimerElementData
+  | TemplateElementData
+  | GroupElementData;
+
 /**
  * Overlay element.
  * Supports rotation via angle property.
  * 
- * Type safety: Use type guards (isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData)
+ * Type safety: Use type guards (isMetricElementData, isTextElementData, isDividerElementData, isClockElementData, isDateElementData, isGraphElementData, isGaugeElementData, isBarElementData, isImageElementData, isTimerElementData, isTemplateElementData, isGroupElementData)
  * to narrow the data type based on the element.type property for type-safe access.
  */
 export interface OverlayElement {
@@ -200,7 +609,10 @@ export interface OverlayElement {
   y: number; // Y position in LCD coordinates
   zIndex?: number; // Render order (default: element index in array)
   angle?: number; // Rotation angle in degrees (0-360, default: 0)
-  data: MetricElementData | TextElementData | DividerElementData | ClockElementData | DateElementData; // Discriminated union based on type
+  hidden?: boolean; // Not drawn on the preview or LCD (default: false)
+  locked?: boolean; // Can be selected, but not dragged, resized or rotated (default: false)
+  name?: string; // Layer name shown in the layers panel (default: type-based label)
+  data: OverlayElementData; // Discriminated union based on type
 }
 
 /**
@@ -303,10 +715,11 @@ export type OverlayValueInfo = MetricDisplayInfo;
  */
 export function getOverlayLabelAndValue(
   key: OverlayMetricKey,
-  rawValue: number
+  rawValue: number,
+  options?: MetricFormatOptions
 ): OverlayValueInfo {
   // Delegate to centralized metrics domain
-  return getMetricDisplayInfo(key, rawValue);
+  return getMetricDisplayInfo(key, rawValue, options);
 }
 
 /**
@@ -333,7 +746,8 @@ export function isTextElementData(data: unknown): data is TextElementData {
   return (
     typeof data === 'object' &&
     data !== null &&
-    'text' in data &&
+    'spans' in data &&
+    Array.isArray((data as { spans: unknown }).spans) &&
     'textColor' in data &&
     'textSize' in data &&
     !('metric' in data) // Ensure it's not a metric element
@@ -366,7 +780,6 @@ export function isClockElementData(data: unknown): data is ClockElementData {
     typeof data === 'object' &&
     data !== null &&
     'format' in data &&
-    'mode' in data &&
     'fontSize' in data &&
     'color' in data &&
     !('metric' in data) &&
@@ -378,6 +791,7 @@ export function isClockElementData(data: unknown): data is ClockElementData {
 /**
  * Type guard for DateElementData.
  * Checks if data object is DateElementData.
+ * Date and clock data share the same required fields; callers check element.type first.
  */
 export function isDateElementData(data: unknown): data is DateElementData {
   return (
@@ -389,6 +803,119 @@ export function isDateElementData(data: unknown): data is DateElementData {
     !('metric' in data) &&
     !('text' in data) &&
     !('width' in data) &&
-    !('mode' in data) // Ensure it's not a clock element (clock has mode, date doesn't)
+    !('mode' in data) // Ensure it's not a legacy clock element (legacy clocks have mode)
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Type guard for GraphElementData.
+ * Checks if data object is GraphElementData.
+ */
+export function isGraphElementData(data: unknown): data is GraphElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'metric' in data &&
+    'windowSeconds' in data &&
+    'width' in data &&
+    'height' in data &&
+    'strokeColor' in data &&
+    !('numberColor' in data) // Ensure it's not a metric element
+  );
+}
+
+/**
+ * Type guard for GaugeElementData.
+ * Checks if data object is GaugeElementData.
+ */
+export function isGaugeElementData(data: unknown): data is GaugeElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'metric' in data &&
+    'size' in data &&
+    'trackColor' in data &&
+    'valueColor' in data &&
+    !('numberColor' in data) // Ensure it's not a metric element
+  );
+}
+
+/**
+ * Type guard for BarElementData.
+ * Checks if data object is BarElementData.
+ */
+export function isBarElementData(data: unknown): data is BarElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'metric' in data &&
+    'orientation' in data &&
+    'width' in data &&
+    'height' in data &&
+    'fillColor' in data &&
+    'trackColor' in data &&
+    !('numberColor' in data) // Ensure it's not a metric element
+  );
+}
+
+/**
+ * Type guard for ImageElementData.
+ * Checks if data object is ImageElementData.
+ */
+export function isImageElementData(data: unknown): data is ImageElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'source' in data &&
+    'fit' in data &&
+    'width' in data &&
+    'height' in data &&
+    !('metric' in data) &&
+    !('color' in data) // Ensure it's not a divider element
+  );
+}
+
+/**
+ * Type guard for TimerElementData.
+ * Checks if data object is TimerElementData.
+ */
+export function isTimerElementData(data: unknown): data is TimerElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'mode' in data &&
+    'format' in data &&
+    'fontSize' in data &&
+    'color' in data &&
+    ['countdown', 'stopwatch', 'uptime'].includes((data as { mode: unknown }).mode as string) // Ensure it's not a legacy clock element
+  );
+}
+
+/**
+ * Type guard for TemplateElementData.
+ * Checks if data object is TemplateElementData.
+ */
+export function isTemplateElementData(data: unknown): data is TemplateElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'template' in data &&
+    typeof (data as { template: unknown }).template === 'string' &&
+    'textSize' in data
+  );
+}
+
+/**
+ * Type guard for GroupElementData.
+ * Checks if data object is GroupElementData.
+ */
+export function isGroupElementData(data: unknown): data is GroupElementData {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'childIds' in data &&
+    Array.isArray((data as { childIds: unknown }).childIds) &&
+    'width' in data &&
+    'height' in data
+  );
+}
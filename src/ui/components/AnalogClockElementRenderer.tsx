@@ -0,0 +1,213 @@
+import { useState, useEffect } from 'react';
+import type { OverlayElement, ClockElementData } from '../../types/overlay';
+import { formatHasSeconds, getTimeParts } from '../../domain/timeFormat';
+import { resolveFontFamily } from '../../domain/fonts';
+
+interface AnalogClockElementRendererProps {
+  element: OverlayElement;
+  data: ClockElementData;
+  scale?: number;
+}
+
+/**
+ * Default dial diameter (LCD pixels) when dialSize is missing.
+ */
+const DEFAULT_ANALOG_DIAL_SIZE = 240;
+
+/**
+ * Default second hand color.
+ */
+const DEFAULT_SECOND_HAND_COLOR = '#ff4d4d';
+
+/**
+ * Update interval for a smooth second hand (~30 fps).
+ * Ticking clocks only need to re-render once per second.
+ */
+const SMOOTH_UPDATE_INTERVAL_MS = 33;
+const TICK_UPDATE_INTERVAL_MS = 1000;
+
+/**
+ * Hand geometry per hand style, as fractions of the dial radius.
+ */
+const HAND_STYLES: Record<NonNullable<ClockElementData['handStyle']>, {
+  hourLength: number;
+  hourWidth: number;
+  minuteLength: number;
+  minuteWidth: number;
+  lineCap: 'butt' | 'round';
+}> = {
+  classic: { hourLength: 0.5, hourWidth: 0.06, minuteLength: 0.75, minuteWidth: 0.04, lineCap: 'butt' },
+  slim: { hourLength: 0.5, hourWidth: 0.025, minuteLength: 0.78, minuteWidth: 0.018, lineCap: 'round' },
+  bold: { hourLength: 0.48, hourWidth: 0.1, minuteLength: 0.72, minuteWidth: 0.07, lineCap: 'round' },
+};
+
+/**
+ * Converts a dial angle (0 = 12 o'clock, clockwise) to a point on a circle.
+ */
+function polarToCartesian(cx: number, cy: number, radius: number, angleDeg: number): { x: number; y: number } {
+  const rad = (angleDeg * Math.PI) / 180;
+  return {
+    x: cx + radius * Math.sin(rad),
+    y: cy - radius * Math.cos(rad),
+  };
+}
+
+/**
+ * Analog clock element renderer.
+ * Draws a dial with tick marks, optional numerals and hour/minute/second hands.
+ *
+ * Used for clock elements with style "analog"; the digital face stays in ClockElementRenderer.
+ */
+export default function AnalogClockElementRenderer({
+  element: _element,
+  data,
+  scale = 1,
+}: AnalogClockElementRendererProps) {
+  const [now, setNow] = useState(Date.now());
+
+  const showSeconds = formatHasSeconds(data.format);
+  const isSmooth = showSeconds && data.secondHandMotion === 'smooth';
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      setNow(Date.now());
+    }, isSmooth ? SMOOTH_UPDATE_INTERVAL_MS : TICK_UPDATE_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [isSmooth]);
+
+  const size = Math.max(1, (data.dialSize ?? DEFAULT_ANALOG_DIAL_SIZE) * scale);
+  const center = size / 2;
+  const radius = center;
+  const hand = HAND_STYLES[data.handStyle ?? 'classic'] ?? HAND_STYLES.classic;
+
+  // Hand angles (ticking clocks use whole seconds so all hands jump together)
+  const time = getTimeParts(now, data.timeZone);
+  const seconds = time.seconds + (isSmooth ? time.milliseconds / 1000 : 0);
+  const minutes = time.minutes + seconds / 60;
+  const hours = (time.hours % 12) + minutes / 60;
+  const hourAngle = hours * 30;
+  const minuteAngle = minutes * 6;
+  const secondAngle = seconds * 6;
+
+  // Check if outline should be applied (same as text element)
+  const hasOutline = !!data.outlineColor &&
+    data.outlineColor !== 'transparent' &&
+    (data.outlineThickness ?? 0) > 0;
+  const outlineThickness = hasOutline ? (data.outlineThickness ?? 0) * scale : 0;
+
+  const tickColor = data.tickColor || data.color;
+  const secondHandColor = data.secondHandColor || DEFAULT_SECOND_HAND_COLOR;
+  const fontFamily = resolveFontFamily(data.font);
+
+  // Draws a line, preceded by a wider outline pass when outline is enabled
+  const renderStroke = (
+    key: string,
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    color: string,
+    width: number,
+    lineCap: 'butt' | 'round'
+  ) => (
+    <g key={key}>
+      {hasOutline && (
+        <line
+          x1={from.x}
+          y1={from.y}
+          x2={to.x}
+          y2={to.y}
+          stroke={data.outlineColor}
+          strokeWidth={width + outlineThickness * 2}
+          strokeLinecap={lineCap}
+        />
+      )}
+      <line
+        x1={from.x}
+        y1={from.y}
+        x2={to.x}
+        y2={to.y}
+        stroke={color}
+        strokeWidth={width}
+        strokeLinecap={lineCap}
+      />
+    </g>
+  );
+
+  const renderHand = (key: string, angle: number, length: number, tail: number, color: string, width: number) =>
+    renderStroke(
+      key,
+      polarToCartesian(center, center, radius * tail, angle + 180),
+      polarToCartesian(center, center, radius * length, angle),
+      color,
+      Math.max(1, radius * width),
+      hand.lineCap
+    );
+
+  const ticks = data.showTicks === false
+    ? []
+    : Array.from({ length: 60 }, (_, index) => {
+        const isHour = index % 5 === 0;
+        const angle = index * 6;
+        return renderStroke(
+          `tick-${index}`,
+          polarToCartesian(center, center, radius * (isHour ? 0.82 : 0.88), angle),
+          polarToCartesian(center, center, radius * 0.94, angle),
+          tickColor,
+          Math.max(1, radius * (isHour ? 0.03 : 0.012)),
+          'butt'
+        );
+      });
+
+  const numeralSize = radius * 0.2;
+  const numerals = data.showNumerals
+    ? Array.from({ length: 12 }, (_, index) => {
+        const value = index + 1;
+        const point = polarToCartesian(center, center, radius * (data.showTicks === false ? 0.8 : 0.66), value * 30);
+        return (
+          <text
+            key={`numeral-${value}`}
+            x={point.x}
+            y={point.y}
+            fill={tickColor}
+            fontSize={numeralSize}
+            fontFamily={fontFamily}
+            textAnchor="middle"
+            dominantBaseline="central"
+            {...(hasOutline && {
+              stroke: data.outlineColor,
+              strokeWidth: outlineThickness * 2,
+              paintOrder: 'stroke fill',
+            })}
+          >
+            {value}
+          </text>
+        );
+      })
+    : [];
+
+  const capRadius = Math.max(2, radius * Math.max(hand.hourWidth, 0.05));
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      style={{ display: 'block', overflow: 'visible', userSelect: 'none' }}
+    >
+      {data.faceColor && data.faceColor !== 'transparent' && (
+        <circle cx={center} cy={center} r={radius} fill={data.faceColor} />
+      )}
+      {ticks}
+      {numerals}
+      {renderHand('hour', hourAngle, hand.hourLength, 0.08, data.color, hand.hourWidth)}
+      {renderHand('minute', minuteAngle, hand.minuteLength, 0.1, data.color, hand.minuteWidth)}
+      {showSeconds && renderHand('second', secondAngle, 0.86, 0.16, secondHandColor, 0.012)}
+      <circle
+        cx={center}
+        cy={center}
+        r={capRadius}
+        fill={showSeconds ? secondHandColor : data.color}
+        {...(hasOutline && { stroke: data.outlineColor, strokeWidth: outlineThickness })}
+      />
+    </svg>
+  );
+}
@@ -6,6 +6,8 @@ interface AnimateNumberProps {
   className?: string;
   style?: React.CSSProperties;
   decimalPlaces?: number;
+  /** Custom formatter for the animated value (replaces decimalPlaces rounding) */
+  format?: (value: number) => string;
   as?: "span" | "div";
 }
 
@@ -20,6 +22,7 @@ export default function AnimateNumber({
   className,
   style,
   decimalPlaces = 0,
+  format,
   as = "span",
 }: AnimateNumberProps) {
   const motionValue = useMotionValue(value);
@@ -30,6 +33,10 @@ export default function AnimateNumber({
   });
 
   const [displayValue, setDisplayValue] = useState<string>(() => {
+    if (format) {
+      return format(value);
+    }
+
     // Handle invalid values
     if (typeof value !== "number" || Number.isNaN(value)) {
       return "-";
@@ -45,6 +52,11 @@ export default function AnimateNumber({
 
   // Update display value when spring value changes
   useMotionValueEvent(springValue, "change", (latest) => {
+    if (format) {
+      setDisplayValue(format(latest));
+      return;
+    }
+
     // Handle invalid values
     if (typeof latest !== "number" || Number.isNaN(latest)) {
       setDisplayValue("-");
@@ -0,0 +1,122 @@
+import type { CSSProperties } from 'react';
+import type { OverlayElement, BarElementData, OverlayMetrics } from '../../types/overlay';
+import { getMetricDefaultRange } from '../../domain/metrics';
+import { getProcessedMetricValue } from '../../utils/metricPipeline';
+
+interface BarElementRendererProps {
+  element: OverlayElement;
+  data: BarElementData;
+  metrics: OverlayMetrics;
+  scale?: number;
+}
+
+/**
+ * Default number of blocks in segmented mode.
+ */
+const DEFAULT_SEGMENT_COUNT = 10;
+
+/**
+ * Default gap between blocks in segmented mode (LCD pixels).
+ */
+const DEFAULT_SEGMENT_GAP = 4;
+
+/**
+ * Bar element renderer.
+ * Rectangle (like divider) whose filled portion follows the bound metric.
+ *
+ * Solid and gradient fills are a full-size layer clipped to the current value,
+ * so the gradient keeps its full range instead of being squeezed into the fill.
+ * Segmented mode lights whole blocks (rounded to the nearest block).
+ */
+export default function BarElementRenderer({
+  element: _element,
+  data,
+  metrics,
+  scale = 1,
+}: BarElementRendererProps) {
+  const previewWidth = Math.max(1, data.width * scale);
+  const previewHeight = Math.max(1, data.height * scale);
+  const isVertical = data.orientation === 'vertical';
+  const cornerRadius = Math.max(0, (data.cornerRadius ?? 0) * scale);
+
+  // Resolve value range (fallback to metric defaults)
+  const defaultRange = getMetricDefaultRange(data.metric);
+  const min = data.minValue ?? defaultRange.min;
+  const max = data.maxValue ?? defaultRange.max;
+  const span = max - min || 1;
+
+  const rawValue = getProcessedMetricValue(metrics, data.metric, undefined, data.processing);
+  const value = typeof rawValue === 'number' && !Number.isNaN(rawValue) ? rawValue : min;
+  const fraction = Math.max(0, Math.min(1, (value - min) / span));
+
+  // Check if outline should be applied
+  const hasOutline = data.outlineColor &&
+    data.outlineColor !== 'transparent' &&
+    (data.outlineThickness ?? 0) > 0;
+  const outlineThickness = hasOutline ? (data.outlineThickness ?? 0) * scale : 0;
+
+  const containerStyle: CSSProperties = {
+    position: 'relative',
+    width: `${previewWidth}px`,
+    height: `${previewHeight}px`,
+    minWidth: '1px',
+    minHeight: '1px',
+    borderRadius: `${cornerRadius}px`,
+    overflow: 'hidden',
+    boxSizing: 'border-box',
+    ...(hasOutline && {
+      border: `${outlineThickness}px solid ${data.outlineColor}`,
+    }),
+  };
+
+  if (data.mode === 'segmented') {
+    const segmentCount = Math.max(1, Math.round(data.segmentCount ?? DEFAULT_SEGMENT_COUNT));
+    const segmentGap = Math.max(0, (data.segmentGap ?? DEFAULT_SEGMENT_GAP) * scale);
+    const litCount = Math.round(fraction * segmentCount);
+
+    return (
+      <div
+        style={{
+          ...containerStyle,
+          display: 'flex',
+          flexDirection: isVertical ? 'column-reverse' : 'row',
+          gap: `${segmentGap}px`,
+          borderRadius: 0,
+        }}
+      >
+        {Array.from({ length: segmentCount }, (_, index) => (
+          <div
+            key={index}
+            style={{
+              flex: 1,
+              minWidth: 0,
+              minHeight: 0,
+              borderRadius: `${cornerRadius}px`,
+              backgroundColor: index < litCount ? data.fillColor : data.trackColor,
+            }}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  const emptyPercent = ((1 - fraction) * 100).toFixed(2);
+  const fillBackground = data.mode === 'gradient'
+    ? `linear-gradient(${isVertical ? 'to top' : 'to right'}, ${data.fillColor}, ${data.gradientEndColor || data.fillColor})`
+    : data.fillColor;
+
+  return (
+    <div style={{ ...containerStyle, backgroundColor: data.trackColor }}>
+      <div
+        style={{
+          position: 'absolute',
+          inset: 0,
+          background: fillBackground,
+          clipPath: isVertical
+            ? `inset(${emptyPercent}% 0 0 0)`
+            : `inset(0 ${emptyPercent}% 0 0)`,
+        }}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import type { OverlayElement, ClockElementData } from '../../types/overlay';
+import { formatTimeParts, getTimeParts, estimateTimeFormatLength, formatHasMilliseconds } from '../../domain/timeFormat';
+import { resolveFontFamily } from '../../domain/fonts';
 import styles from '../styles/UnifiedOverlay.module.css';
 
 interface ClockElementRendererProps {
@@ -8,9 +10,15 @@ interface ClockElementRendererProps {
   scale?: number;
 }
 
+/**
+ * Update interval when the format shows milliseconds (SSS).
+ */
+const MILLISECOND_UPDATE_INTERVAL_MS = 50;
+
 /**
  * Clock element renderer.
- * Updates once per second and formats time according to format and mode settings.
+ * Updates once per second (faster when milliseconds are shown) and formats
+ * time with the token format string in the element's time zone.
  */
 export default function ClockElementRenderer({
   element: _element,
@@ -18,42 +26,16 @@ export default function ClockElementRenderer({
   scale = 1,
 }: ClockElementRendererProps) {
   const [now, setNow] = useState(Date.now());
+  const showMilliseconds = formatHasMilliseconds(data.format);
 
   useEffect(() => {
     const id = setInterval(() => {
       setNow(Date.now());
-    }, 1000);
+    }, showMilliseconds ? MILLISECOND_UPDATE_INTERVAL_MS : 1000);
     return () => clearInterval(id);
-  }, []);
-
-  // Format time according to format and mode
-  const formatTime = (timestamp: number): string => {
-    const date = new Date(timestamp);
-    let hours = date.getHours();
-    const minutes = date.getMinutes();
-    const seconds = date.getSeconds();
-    
-    let ampm = '';
-    if (data.mode === '12h') {
-      ampm = hours >= 12 ? ' PM' : ' AM';
-      hours = hours % 12;
-      if (hours === 0) hours = 12;
-    }
-    
-    // For 12h mode, don't pad hours with leading zero (e.g., "1:30 PM" not "01:30 PM")
-    // For 24h mode, always pad hours with leading zero (e.g., "07:10" not "7:10")
-    const hoursStr = data.mode === '12h' ? hours.toString() : hours.toString().padStart(2, '0');
-    const minutesStr = minutes.toString().padStart(2, '0');
-    const secondsStr = seconds.toString().padStart(2, '0');
-    
-    if (data.format === 'HH:mm:ss') {
-      return `${hoursStr}:${minutesStr}:${secondsStr}${ampm}`;
-    } else {
-      return `${hoursStr}:${minutesStr}${ampm}`;
-    }
-  };
+  }, [showMilliseconds]);
 
-  const formattedTime = formatTime(now);
+  const formattedTime = formatTimeParts(data.format, getTimeParts(now, data.timeZone));
   
   // Check if outline should be applied (same as text element)
   const hasOutline = data.outlineColor && 
@@ -62,18 +44,11 @@ export default function ClockElementRenderer({
   const outlineThickness = hasOutline ? (data.outlineThickness ?? 0) * scale : 0;
   
   // Determine font family based on font selection
-  const fontFamily = data.font === 'digital' ? 'digital-clock-font' : 'nzxt-extrabold';
+  const fontFamily = resolveFontFamily(data.font);
   
   // Calculate fixed container width to prevent text width flicker
   // This matches the calculation in BoundingBox.ts to ensure consistency
-  // Maximum possible length: "12:59:59 PM" (11 chars) or "23:59:59" (8 chars)
-  let clockLength = 5; // Minimum: "HH:mm" = 5 chars
-  if (data.format === 'HH:mm:ss') {
-    clockLength = 8; // "HH:mm:ss" = 8 chars
-  }
-  if (data.mode === '12h') {
-    clockLength += 4; // Add " AM" or " PM" = 4 chars
-  }
+  const clockLength = estimateTimeFormatLength(data.format) || 5;
   // Use exact same formula as BoundingBox.ts
   const fontSize = data.fontSize * scale;
   const containerWidth = Math.max(fontSize * clockLength * 0.6, fontSize * 2);
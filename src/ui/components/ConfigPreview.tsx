@@ -7,6 +7,11 @@ import { DEFAULT_SETTINGS, type AppSettings } from '../../constants/defaults';
 import { useConfig } from '../../hooks/useConfig';
 import { useMediaUrl } from '../../hooks/useMediaUrl';
 import { useMonitoring, useMonitoringMock } from '../../hooks/useMonitoring';
+import { useMonitoringSource } from '../../hooks/useMonitoringSource';
+import { useMonitoringPayloadMetrics } from '../../hooks/useMonitoringPayloadMetrics';
+import { useCustomMetrics } from '../../hooks/useCustomMetrics';
+import { useDerivedMetrics } from '../../hooks/useDerivedMetrics';
+import { useMetricFreshness } from '../../hooks/useMetricFreshness';
 import { usePreviewScaling } from '../../hooks/usePreviewScaling';
 import { useSettingsSync } from '../../hooks/useSettingsSync';
 import { useDragHandlers } from '../../hooks/useDragHandlers';
@@ -18,8 +23,16 @@ import { useUndoRedo } from '../../transform/hooks/useUndoRedo';
 import { useOverlayStateManager } from '@/state/overlay/useOverlayStateManager';
 import { devError } from '../../debug/dev';
 import { getElementsInZOrder } from '@/state/overlay/selectors';
-import { getSingleSelectedId, getSelectedIds } from './ConfigPreview/helpers/selectionHelpers';
+import { createGroupElementsAction, createUngroupElementsAction } from '@/state/overlay/actions';
+import { isGroupElement } from '../../domain/elementGroups';
+import { generateElementId } from '../../overlayPreset/utils';
+import { getSingleSelectedId, getSelectedIds, selectSingle } from './ConfigPreview/helpers/selectionHelpers';
 import { hasRealMonitoring } from '../../environment';
+import { withMonitoringPayloadMetrics } from '../../nzxt/monitoringMetrics';
+import { getMetricDeviceNames, type MetricDeviceNames } from '../../domain/metricDevices';
+import { withCustomMetrics } from '../../domain/customMetrics';
+import { withDerivedMetrics } from '../../domain/derivedMetrics';
+import { withMetricFreshness } from '../../domain/metricFreshness';
 import { lcdToPreview, getBaseAlign } from '../../utils/positioning';
 import { isVideoUrl } from '../../utils/media';
 import BackgroundPreview from './ConfigPreview/BackgroundPreview';
@@ -56,19 +69,53 @@ export default function ConfigPreview({ activePresetId, overlayConfig: _overlayC
   // Use centralized environment detection to determine if real monitoring is available
   const hasRealMonitoringAPI = hasRealMonitoring();
   
-  const realMetrics = useMonitoring();
+  const monitoringMetrics = useMonitoring();
+  // RAM, VRAM, power, fan and pump metrics and per-device values come from the payload mapper
+  const payloadMetrics = useMonitoringPayloadMetrics();
+  const realMetrics = useMemo(
+    () => withMonitoringPayloadMetrics(monitoringMetrics, payloadMetrics),
+    [monitoringMetrics, payloadMetrics]
+  );
   const mockMetrics = useMonitoringMock();
   
+  // Simulator / session replay selected in the overlay preview (null = NZXT CAM)
+  // Its payloads arrive through the same subscription as real data
+  const monitoringSource = useMonitoringSource();
+  
   // Use real data if API is available and metrics have been received (non-zero values)
   // Use mock data otherwise (for browser testing)
-  const isRealDataReceived = !!(hasRealMonitoringAPI && (
+  const isRealDataReceived = !!(!monitoringSource && hasRealMonitoringAPI && (
     realMetrics.cpuTemp > 0 || 
     realMetrics.gpuTemp > 0 || 
     realMetrics.cpuLoad > 0 || 
     realMetrics.gpuLoad > 0
   ));
   
-  const metrics = isRealDataReceived ? realMetrics : mockMetrics;
+  const isMonitoredData = isRealDataReceived || !!monitoringSource;
+  const baseMetrics = isMonitoredData ? realMetrics : mockMetrics;
+
+  // Stale/missing state of monitored data (mock data is always live)
+  const freshness = useMetricFreshness();
+
+  // Custom metrics from the external metric bridge (if configured)
+  const customMetrics = useCustomMetrics();
+  // Derived metrics of the active preset (computed from the metrics above)
+  const { compiled: derivedMetrics } = useDerivedMetrics(activePresetId);
+  const metrics = useMemo(
+    () => withDerivedMetrics(
+      withCustomMetrics(isMonitoredData ? withMetricFreshness(baseMetrics, freshness) : baseMetrics, customMetrics),
+      derivedMetrics
+    ),
+    [isMonitoredData, baseMetrics, freshness, customMetrics, derivedMetrics]
+  );
+
+  // CPUs/GPUs in the latest payload (for metric device dropdowns)
+  // Keyed by content so the reference only changes when the hardware list changes
+  const metricDeviceNamesKey = JSON.stringify(getMetricDeviceNames(metrics));
+  const metricDeviceNames = useMemo(
+    () => JSON.parse(metricDeviceNamesKey) as MetricDeviceNames,
+    [metricDeviceNamesKey]
+  );
 
   // CRITICAL: offsetScale formula - must be preserved
   const { offsetScale, overlayPreviewScale } = usePreviewScaling(200);
@@ -203,6 +250,14 @@ export default function ConfigPreview({ activePresetId, overlayConfig: _overlayC
     return selectedElementId ? [selectedElementId] : [];
   }, [runtimeState, selectedElementId]);
 
+  // Locked elements: select on click without starting a drag
+  const handleElementSelect = (elementId: string) => {
+    setSelectedElementId(elementId);
+    if (stateManager && runtimeState && getSingleSelectedId(runtimeState) !== elementId) {
+      stateManager.dispatch(selectSingle(runtimeState, elementId));
+    }
+  };
+
   // Resize handlers
   const { resizingElementId, handleResizeMouseDown } = useResizeHandlers(
     offsetScale, 
@@ -267,6 +322,36 @@ export default function ConfigPreview({ activePresetId, overlayConfig: _overlayC
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [selectedElementId, activePresetId]);
 
+  // Group shortcuts: Ctrl+G / Cmd+G groups the selection, Ctrl+Shift+G / Cmd+Shift+G ungroups it
+  useEffect(() => {
+    if (!stateManager || !runtimeState) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'g') {
+        return;
+      }
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
+      e.preventDefault();
+
+      const ids = getSelectedIds(runtimeState);
+      try {
+        if (!e.shiftKey) {
+          stateManager.dispatch(createGroupElementsAction(ids, generateElementId(), runtimeState));
+        } else if (ids.length === 1 && isGroupElement(runtimeState.elements.get(ids[0]))) {
+          stateManager.dispatch(createUngroupElementsAction(ids[0], runtimeState));
+        }
+      } catch (err) {
+        devError('ConfigPreview', 'Group shortcut error', { error: err });
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [stateManager, runtimeState]);
+
   // Effective media URL: prefer local blob when in local mode
   const effectiveMediaUrl =
     settings.sourceType === 'local' && localMedia.blobUrl
@@ -383,6 +468,7 @@ export default function ConfigPreview({ activePresetId, overlayConfig: _overlayC
             selectedElementId={selectedElementId}
             selectedIds={selectedIds}
             onElementMouseDown={handleElementMouseDown}
+            onElementSelect={handleElementSelect}
             activeGuides={activeGuides}
             resizingElementId={resizingElementId}
             onResizeMouseDown={handleResizeMouseDown}
@@ -409,6 +495,7 @@ export default function ConfigPreview({ activePresetId, overlayConfig: _overlayC
             selectedElementId={selectedElementId}
             setSelectedElementId={setSelectedElementId}
             activePresetId={activePresetId}
+            metricDeviceNames={metricDeviceNames}
           />
         </div>
       </div>
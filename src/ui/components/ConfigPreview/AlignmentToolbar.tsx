@@ -0,0 +1,135 @@
+import type { LucideIcon } from 'lucide-react';
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+} from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import { useI18n } from '@/i18n/useI18n';
+import { MIN_DISTRIBUTE_ELEMENTS, type AlignEdge, type AlignReference, type DistributeAxis } from '../../../state/overlay/alignment';
+
+interface AlignmentToolbarProps {
+  alignableCount: number; // Selected elements that can be aligned (see getAlignableElements)
+  distributableCount: number; // Of those, unlocked elements
+  reference: AlignReference;
+  onReferenceChange: (reference: AlignReference) => void;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+}
+
+const ALIGN_BUTTONS: { edge: AlignEdge; icon: LucideIcon; labelKey: string }[] = [
+  { edge: 'left', icon: AlignStartVertical, labelKey: 'alignElementsLeft' },
+  { edge: 'center', icon: AlignCenterVertical, labelKey: 'alignElementsCenter' },
+  { edge: 'right', icon: AlignEndVertical, labelKey: 'alignElementsRight' },
+  { edge: 'top', icon: AlignStartHorizontal, labelKey: 'alignElementsTop' },
+  { edge: 'middle', icon: AlignCenterHorizontal, labelKey: 'alignElementsMiddle' },
+  { edge: 'bottom', icon: AlignEndHorizontal, labelKey: 'alignElementsBottom' },
+];
+
+const DISTRIBUTE_BUTTONS: { axis: DistributeAxis; icon: LucideIcon; labelKey: string }[] = [
+  { axis: 'horizontal', icon: AlignHorizontalDistributeCenter, labelKey: 'distributeHorizontally' },
+  { axis: 'vertical', icon: AlignVerticalDistributeCenter, labelKey: 'distributeVertically' },
+];
+
+/**
+ * Align and distribute commands for the current selection.
+ *
+ * - Align: to the selection bounds (2+ elements) or to the LCD (1+ elements)
+ * - Distribute: equal gaps between 3+ unlocked elements (outermost stay in place)
+ * - Each command is a single undo step
+ */
+export default function AlignmentToolbar({
+  alignableCount,
+  distributableCount,
+  reference,
+  onReferenceChange,
+  onAlign,
+  onDistribute,
+}: AlignmentToolbarProps) {
+  const t = useI18n();
+  const canAlign = alignableCount >= (reference === 'lcd' ? 1 : 2);
+  const canDistribute = distributableCount >= MIN_DISTRIBUTE_ELEMENTS;
+
+  const buttonStyle = (enabled: boolean) => ({
+    width: '26px',
+    height: '26px',
+    padding: 0,
+    background: '#2c2c2c',
+    border: '1px solid #3a3a3a',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+    opacity: enabled ? 1 : 0.4,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+  });
+
+  return (
+    <div style={{
+      marginBottom: '12px',
+      padding: '12px',
+      background: '#242424',
+      borderRadius: '6px',
+      border: '1px solid rgba(255, 255, 255, 0.04)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+    }}>
+      <div className="setting-row" style={{ margin: 0 }}>
+        <span
+          data-tooltip-id="alignment-toolbar-tooltip"
+          data-tooltip-content={t('tooltipAlignment')}
+          style={{ fontSize: '12px', color: '#a0a0a0', cursor: 'help', whiteSpace: 'nowrap' }}
+        >
+          {t('alignment')}
+        </span>
+        <select
+          className="url-input"
+          style={{ flex: 1, minWidth: 0 }}
+          value={reference}
+          aria-label={t('alignTo')}
+          onChange={(e) => onReferenceChange(e.target.value as AlignReference)}
+        >
+          <option value="selection">{t('alignToSelection')}</option>
+          <option value="lcd">{t('alignToLcd')}</option>
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '4px', flexWrap: 'wrap' }}>
+        {ALIGN_BUTTONS.map(({ edge, icon: Icon, labelKey }) => (
+          <button
+            key={edge}
+            onClick={() => onAlign(edge)}
+            disabled={!canAlign}
+            aria-label={t(labelKey)}
+            data-tooltip-id="alignment-toolbar-tooltip"
+            data-tooltip-content={t(labelKey)}
+            style={buttonStyle(canAlign)}
+          >
+            <Icon size={14} color="#f2f2f2" />
+          </button>
+        ))}
+        <span style={{ width: '1px', height: '18px', background: '#3a3a3a', margin: '0 4px' }} />
+        {DISTRIBUTE_BUTTONS.map(({ axis, icon: Icon, labelKey }) => (
+          <button
+            key={axis}
+            onClick={() => onDistribute(axis)}
+            disabled={!canDistribute}
+            aria-label={t(labelKey)}
+            data-tooltip-id="alignment-toolbar-tooltip"
+            data-tooltip-content={t(labelKey)}
+            style={buttonStyle(canDistribute)}
+          >
+            <Icon size={14} color="#f2f2f2" />
+          </button>
+        ))}
+      </div>
+      <Tooltip id="alignment-toolbar-tooltip" />
+    </div>
+  );
+}
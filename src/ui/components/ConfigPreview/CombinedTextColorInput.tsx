@@ -16,12 +16,14 @@ interface CombinedTextColorInputProps {
   id?: string;
   sanitizeText?: (text: string) => string;
   colorTooltipContent?: string;
+  multiline?: boolean; // Render a textarea (Enter inserts a line break)
 }
 
 /**
  * Combined text input with inline color picker.
  * Displays text input on the left and color preview box on the right.
  * Used in text elements for a more compact and integrated UI.
+ * With multiline, the input grows with the number of lines.
  */
 export default function CombinedTextColorInput({
   text,
@@ -37,28 +39,67 @@ export default function CombinedTextColorInput({
   id,
   sanitizeText,
   colorTooltipContent,
+  multiline = false,
 }: CombinedTextColorInputProps) {
   const inputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const value = e.target.value;
     const sanitized = sanitizeText ? sanitizeText(value) : value;
     onTextChange(sanitized);
   };
 
+  // Shared between the single-line input and the multiline textarea
+  const fieldProps = {
+    id,
+    value: text,
+    onChange: handleTextChange,
+    maxLength,
+    placeholder,
+    style: {
+      flex: 1,
+      background: 'transparent',
+      border: 'none',
+      outline: 'none',
+      color: '#f2f2f2',
+      fontSize: '12px',
+      fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
+      padding: 0,
+      minWidth: 0,
+    },
+    onFocus: (e: React.FocusEvent<HTMLElement>) => {
+      const container = e.currentTarget.parentElement;
+      if (container) {
+        container.style.borderColor = '#8a2be2';
+        container.style.boxShadow = 'none';
+        container.style.background = '#2c2c2c';
+      }
+    },
+    onBlur: (e: React.FocusEvent<HTMLElement>) => {
+      const container = e.currentTarget.parentElement;
+      if (container) {
+        container.style.borderColor = '#3a3a3a';
+        container.style.boxShadow = 'none';
+        container.style.background = '#2c2c2c';
+      }
+    },
+  };
+
   return (
     <div
       ref={containerRef}
       style={{
         display: 'flex',
-        alignItems: 'center',
+        alignItems: multiline ? 'flex-start' : 'center',
         gap: '8px',
         background: '#2c2c2c',
         border: '1px solid #3a3a3a',
         borderRadius: '6px',
         padding: '6px 0px 6px 10px',
-        height: '20px',
+        height: multiline ? 'auto' : '20px',
+        minHeight: '20px',
         transition: 'all 0.15s ease',
         boxShadow: 'none',
       }}
@@ -73,43 +114,21 @@ export default function CombinedTextColorInput({
         }
       }}
     >
-      {/* Text input */}
-      <input
-        ref={inputRef}
-        id={id}
-        type="text"
-        value={text}
-        onChange={handleTextChange}
-        maxLength={maxLength}
-        placeholder={placeholder}
-        style={{
-          flex: 1,
-          background: 'transparent',
-          border: 'none',
-          outline: 'none',
-          color: '#f2f2f2',
-          fontSize: '12px',
-          fontFamily: 'system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif',
-          padding: 0,
-          minWidth: 0,
-        }}
-        onFocus={(e) => {
-          const container = e.currentTarget.parentElement;
-          if (container) {
-            container.style.borderColor = '#8a2be2';
-            container.style.boxShadow = 'none';
-            container.style.background = '#2c2c2c';
-          }
-        }}
-        onBlur={(e) => {
-          const container = e.currentTarget.parentElement;
-          if (container) {
-            container.style.borderColor = '#3a3a3a';
-            container.style.boxShadow = 'none';
-            container.style.background = '#2c2c2c';
-          }
-        }}
-      />
+      {/* Text input (textarea when multiline) */}
+      {multiline ? (
+        <textarea
+          ref={textareaRef}
+          rows={Math.min(Math.max(text.split('\n').length, 1), 6)}
+          {...fieldProps}
+          style={{ ...fieldProps.style, resize: 'none', lineHeight: '16px' }}
+        />
+      ) : (
+        <input
+          ref={inputRef}
+          type="text"
+          {...fieldProps}
+        />
+      )}
       
       {/* Color picker with custom trigger styling */}
       <div
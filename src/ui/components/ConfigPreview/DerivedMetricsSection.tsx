@@ -0,0 +1,195 @@
+import type { CSSProperties } from 'react';
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import type { DerivedMetricDefinition } from '../../../types/overlay';
+import type { MetricUnitType } from '../../../domain/metrics';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from './OverlayField';
+import { getPresetDerivedMetrics, setPresetDerivedMetrics } from '../../../preset/storage';
+import { MAX_DERIVED_METRICS, sanitizeDerivedMetrics } from '../../../domain/derivedMetrics';
+import { MAX_CUSTOM_METRIC_LABEL_LENGTH, MAX_CUSTOM_METRIC_UNIT_LENGTH } from '../../../domain/customMetrics';
+import { MAX_EXPRESSION_LENGTH } from '../../../domain/metricExpression';
+
+const UNIT_TYPE_OPTIONS: Array<{ value: MetricUnitType; labelKey: string }> = [
+  { value: 'none', labelKey: 'derivedMetricUnitTypeNone' },
+  { value: 'temp', labelKey: 'derivedMetricUnitTypeTemp' },
+  { value: 'percent', labelKey: 'derivedMetricUnitTypePercent' },
+  { value: 'clock', labelKey: 'derivedMetricUnitTypeClock' },
+  { value: 'memory', labelKey: 'derivedMetricUnitTypeMemory' },
+  { value: 'power', labelKey: 'derivedMetricUnitTypePower' },
+  { value: 'rpm', labelKey: 'derivedMetricUnitTypeRpm' },
+];
+
+type TextFieldName = 'id' | 'label' | 'expression' | 'unit';
+
+const TEXT_FIELDS: Record<TextFieldName, { labelKey: string; tooltipKey: string; maxLength: number }> = {
+  id: { labelKey: 'derivedMetricId', tooltipKey: 'tooltipDerivedMetricId', maxLength: 32 },
+  label: { labelKey: 'derivedMetricLabel', tooltipKey: 'tooltipDerivedMetricLabel', maxLength: MAX_CUSTOM_METRIC_LABEL_LENGTH },
+  expression: { labelKey: 'derivedMetricExpression', tooltipKey: 'tooltipDerivedMetricExpression', maxLength: MAX_EXPRESSION_LENGTH },
+  unit: { labelKey: 'derivedMetricUnit', tooltipKey: 'tooltipDerivedMetricUnit', maxLength: MAX_CUSTOM_METRIC_UNIT_LENGTH },
+};
+
+const BUTTON_STYLE: CSSProperties = {
+  height: '28px',
+  padding: '0 10px',
+  borderRadius: '4px',
+  background: '#2c2c2c',
+  border: '1px solid #3a3a3a',
+  color: '#f2f2f2',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  fontSize: '12px',
+};
+
+interface DerivedMetricsSectionProps {
+  activePresetId: string | null;
+}
+
+/**
+ * Derived metrics of the active preset (see domain/derivedMetrics.ts).
+ *
+ * Edits are kept as drafts and saved to the preset on blur (text fields) or
+ * immediately (unit type, add, remove) - but only while every definition is
+ * valid, so an unfinished expression never reaches the LCD. Errors are shown
+ * per definition.
+ */
+export default function DerivedMetricsSection({ activePresetId }: DerivedMetricsSectionProps) {
+  const t = useI18n();
+  const [drafts, setDrafts] = useState<DerivedMetricDefinition[]>(() => getPresetDerivedMetrics(activePresetId));
+
+  useEffect(() => {
+    setDrafts(getPresetDerivedMetrics(activePresetId));
+  }, [activePresetId]);
+
+  const { errors } = sanitizeDerivedMetrics(drafts);
+  const errorByIndex = new Map(errors.map(error => [error.index, error.message]));
+
+  const save = (next: DerivedMetricDefinition[]) => {
+    if (!activePresetId || sanitizeDerivedMetrics(next).errors.length > 0) return;
+    setPresetDerivedMetrics(activePresetId, next);
+  };
+
+  const updateDraft = (index: number, patch: Partial<DerivedMetricDefinition>, saveNow = false) => {
+    const next = drafts.map((draft, i) => (i === index ? { ...draft, ...patch } : draft));
+    setDrafts(next);
+    if (saveNow) save(next);
+  };
+
+  const addDraft = () => {
+    let number = drafts.length + 1;
+    while (drafts.some(draft => draft.id === `metric${number}`)) number++;
+    const next = [...drafts, { id: `metric${number}`, label: `Metric ${number}`, unit: '', unitType: 'none' as const, expression: '0' }];
+    setDrafts(next);
+    save(next);
+  };
+
+  const removeDraft = (index: number) => {
+    const next = drafts.filter((_, i) => i !== index);
+    setDrafts(next);
+    save(next);
+  };
+
+  const textField = (index: number, field: TextFieldName) => (
+    <div className="setting-row" style={{ margin: 0 }}>
+      <label
+        data-tooltip-id={`derived-metric-${field}-tooltip-${index}`}
+        data-tooltip-content={t(TEXT_FIELDS[field].tooltipKey)}
+        style={{ cursor: 'help' }}
+      >
+        {t(TEXT_FIELDS[field].labelKey)}
+      </label>
+      <Tooltip id={`derived-metric-${field}-tooltip-${index}`} />
+      <input
+        type="text"
+        className="url-input"
+        style={{ flex: 1, minWidth: 0 }}
+        value={drafts[index][field]}
+        maxLength={TEXT_FIELDS[field].maxLength}
+        onChange={(e) => updateDraft(index, { [field]: e.target.value })}
+        onBlur={() => save(drafts)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.currentTarget.blur();
+          }
+        }}
+      />
+    </div>
+  );
+
+  return (
+    <div style={{
+      marginTop: '16px',
+      padding: '12px',
+      background: '#242424',
+      borderRadius: '6px',
+      border: '1px solid rgba(255, 255, 255, 0.04)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '8px',
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span
+          data-tooltip-id="derived-metrics-tooltip"
+          data-tooltip-content={t('tooltipDerivedMetrics')}
+          style={{ fontSize: '12px', color: '#a0a0a0', cursor: 'help' }}
+        >
+          {t('derivedMetrics')}
+        </span>
+        <Tooltip id="derived-metrics-tooltip" />
+        <button
+          type="button"
+          disabled={!activePresetId || drafts.length >= MAX_DERIVED_METRICS}
+          onClick={addDraft}
+          style={BUTTON_STYLE}
+        >
+          <Plus size={14} />
+          {t('derivedMetricAdd')}
+        </button>
+      </div>
+
+      {drafts.map((draft, index) => (
+        <div
+          key={index}
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: '6px',
+            paddingTop: '8px',
+            borderTop: '1px solid rgba(255, 255, 255, 0.04)',
+          }}
+        >
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr auto', gap: '8px', alignItems: 'center' }}>
+            {textField(index, 'id')}
+            {textField(index, 'label')}
+            <button
+              type="button"
+              aria-label={t('derivedMetricRemove')}
+              title={t('derivedMetricRemove')}
+              onClick={() => removeDraft(index)}
+              style={{ ...BUTTON_STYLE, color: '#ff6b6b' }}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+          {textField(index, 'expression')}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {textField(index, 'unit')}
+            <OverlayField
+              type="select"
+              label={t('derivedMetricUnitType')}
+              value={draft.unitType}
+              onChange={(value) => updateDraft(index, { unitType: value as MetricUnitType }, true)}
+              options={UNIT_TYPE_OPTIONS.map(option => ({ value: option.value, label: t(option.labelKey) }))}
+            />
+          </div>
+          {errorByIndex.has(index) && (
+            <div style={{ fontSize: '11px', color: '#ff6b6b' }}>{errorByIndex.get(index)}</div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,487 @@
+import type { MouseEvent } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { OverlayElement, OverlayMetricKey, BarElementData } from '../../../../types/overlay';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import MetricProcessingFields from '../MetricProcessingFields';
+import TabbedColorPicker from '../../TabbedColorPicker';
+import { getMetricDefaultRange } from '../../../../domain/metrics';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+interface BarElementInspectorProps {
+  element: OverlayElement & { type: 'bar'; data: BarElementData };
+  barIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  barLabels: string[];
+  metricOptions: Array<{ value: OverlayMetricKey; label: string }>;
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Bar element inspector component.
+ * Min/max show the metric's default range until the user overrides them.
+ */
+export function BarElementInspector({
+  element,
+  barIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  barLabels,
+  metricOptions,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: BarElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as BarElementData;
+  const defaultRange = getMetricDefaultRange(data.metric);
+  const minValue = data.minValue ?? defaultRange.min;
+  const maxValue = data.maxValue ?? defaultRange.max;
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {barLabels[barIndex] || `${barIndex + 1}${barIndex === 0 ? 'st' : barIndex === 1 ? 'nd' : barIndex === 2 ? 'rd' : 'th'} ${t('bar')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Row 1: Sensor | Orientation */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('sensor') || t('metric')}
+              value={data.metric}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                // Drop custom range so the new sensor's default range applies
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), metric: value as OverlayMetricKey, minValue: undefined, maxValue: undefined }
+                }));
+              }}
+              options={metricOptions}
+              className=""
+              labelTooltipId={`bar-sensor-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSensor')}
+            />
+            <OverlayField
+              type="select"
+              label={t('barOrientation')}
+              value={data.orientation}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), orientation: value as BarElementData['orientation'] }
+                }));
+              }}
+              options={[
+                { value: 'horizontal', label: t('barOrientationHorizontal') },
+                { value: 'vertical', label: t('barOrientationVertical') },
+              ]}
+              className=""
+            />
+          </div>
+          
+          {/* Row 2: Mode | Segments | Gap (or gradient end color) */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('barMode')}
+              value={data.mode}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), mode: value as BarElementData['mode'] }
+                }));
+              }}
+              options={[
+                { value: 'solid', label: t('barModeSolid') },
+                { value: 'segmented', label: t('barModeSegmented') },
+                { value: 'gradient', label: t('barModeGradient') },
+              ]}
+              className=""
+              labelTooltipId={`bar-mode-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipBarMode')}
+            />
+            {data.mode === 'segmented' && (
+              <OverlayField
+                type="number"
+                label={t('barSegments')}
+                value={data.segmentCount ?? 10}
+                onChange={(value) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), segmentCount: Math.max(1, Math.min(50, value)) }
+                  }));
+                }}
+                step={1}
+                min={1}
+                max={50}
+              />
+            )}
+            {data.mode === 'segmented' && (
+              <OverlayField
+                type="number"
+                label={t('barSegmentGap')}
+                value={data.segmentGap ?? 4}
+                onChange={(value) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), segmentGap: Math.max(0, Math.min(40, value)) }
+                  }));
+                }}
+                step={1}
+                min={0}
+                max={40}
+              />
+            )}
+            {data.mode === 'gradient' && (
+              <OverlayField
+                type="color"
+                label={t('barGradientEndColor')}
+                value={data.gradientEndColor || data.fillColor}
+                onChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), gradientEndColor: color }
+                  }));
+                }}
+              />
+            )}
+          </div>
+          
+          {/* Row 3: Fill color | Track color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <div className="setting-row">
+              <label>
+                {t('barFillColor')}
+              </label>
+              <TabbedColorPicker
+                textColor={data.fillColor || '#ffffff'}
+                outlineColor={data.outlineColor}
+                outlineThickness={data.outlineThickness ?? 0}
+                onTextColorChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), fillColor: color }
+                  }));
+                }}
+                onOutlineColorChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), outlineColor: color }
+                  }));
+                }}
+                onOutlineThicknessChange={(thickness) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as BarElementData), outlineThickness: thickness }
+                  }));
+                }}
+              />
+            </div>
+            <OverlayField
+              type="color"
+              label={t('barTrackColor')}
+              value={data.trackColor}
+              onChange={(color) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), trackColor: color }
+                }));
+              }}
+            />
+          </div>
+          
+          {/* Row 4: Min | Max */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('barMin')}
+              value={minValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), minValue: Math.min(value, maxValue - 1), maxValue }
+                }));
+              }}
+              step={1}
+              labelTooltipId={`bar-min-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipBarRange')}
+            />
+            <OverlayField
+              type="number"
+              label={t('barMax')}
+              value={maxValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), minValue, maxValue: Math.max(value, minValue + 1) }
+                }));
+              }}
+              step={1}
+              labelTooltipId={`bar-max-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipBarRange')}
+            />
+          </div>
+          
+          {/* Row 5: Width | Height | Corner radius */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('barWidth')}
+              value={data.width}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), width: Math.max(4, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={4}
+              max={640}
+            />
+            <OverlayField
+              type="number"
+              label={t('barHeight')}
+              value={data.height}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), height: Math.max(4, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={4}
+              max={640}
+            />
+            <OverlayField
+              type="number"
+              label={t('barCornerRadius')}
+              value={data.cornerRadius ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as BarElementData), cornerRadius: Math.max(0, Math.min(320, value)) }
+                }));
+              }}
+              step={1}
+              min={0}
+              max={320}
+            />
+          </div>
+          
+          {/* Row 6: Processing | Window | Decay */}
+          <MetricProcessingFields
+            elementId={element.id}
+            processing={data.processing}
+            onChange={(processing) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as BarElementData), processing }
+              }));
+            }}
+          />
+          
+          {/* Row 7: Angle | X Offset | Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`bar-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`bar-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`bar-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,7 +5,33 @@ import type { OverlayElement, ClockElementData } from '../../../../types/overlay
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import OverlayField from '../OverlayField';
+import FontSelectField from '../FontSelectField';
 import TabbedColorPicker from '../../TabbedColorPicker';
+import { formatHasSeconds, isValidTimeZone } from '../../../../domain/timeFormat';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+/**
+ * Time zone suggestions for the time zone input (any IANA zone can be typed).
+ */
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Europe/Istanbul',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Shanghai',
+  'Asia/Seoul',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
 
 interface ClockElementInspectorProps {
   element: OverlayElement & { type: 'clock'; data: ClockElementData };
@@ -22,12 +48,14 @@ interface ClockElementInspectorProps {
   onRemove: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
   onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
 }
 
 /**
  * Clock element inspector component.
  * Follows the exact 3-row structure as specified.
+ * Analog clocks (style "analog") replace the format/font rows with dial and hand settings.
  */
 export function ClockElementInspector({
   element,
@@ -43,10 +71,66 @@ export function ClockElementInspector({
   onRemove,
   onMoveUp,
   onMoveDown,
+  onSetLayerFlag,
   onUpdateElement,
 }: ClockElementInspectorProps) {
   const t = useI18n();
   const data = element.data as ClockElementData;
+  const isTimeZoneInvalid = !!data.timeZone && !isValidTimeZone(data.timeZone);
+
+  const inputStyle = {
+    flex: 1,
+    width: '104px',
+    background: '#2c2c2c',
+    border: '1px solid #3a3a3a',
+    color: '#f2f2f2',
+    padding: '5px 18px 5px 10px',
+    borderRadius: '4px',
+    fontSize: '13px',
+    fontFamily: 'inherit',
+    outline: 'none',
+    transition: 'border-color 0.15s ease',
+  };
+
+  // Shared by digital and analog faces
+  const timeZoneField = (
+    <div className="setting-row">
+      <label 
+        data-tooltip-id={`clock-timezone-tooltip-${element.id}`}
+        data-tooltip-content={t('tooltipClockTimeZone')}
+        style={{ cursor: 'help' }}
+      >
+        {t('clockTimeZone')}
+      </label>
+      <Tooltip id={`clock-timezone-tooltip-${element.id}`} />
+      <input
+        type="text"
+        list={`clock-timezone-list-${element.id}`}
+        style={{ ...inputStyle, borderColor: isTimeZoneInvalid ? '#ff6b6b' : '#3a3a3a' }}
+        value={data.timeZone ?? ''}
+        onChange={(e) => {
+          if (!activePresetId) return;
+          const timeZone = e.target.value.trim();
+          onUpdateElement((el) => ({
+            ...el,
+            data: { ...(el.data as ClockElementData), timeZone: timeZone || undefined }
+          }));
+        }}
+        placeholder={t('clockTimeZoneLocal')}
+        onFocus={(e) => {
+          e.target.style.borderColor = '#8a2be2';
+        }}
+        onBlur={(e) => {
+          e.target.style.borderColor = isTimeZoneInvalid ? '#ff6b6b' : '#3a3a3a';
+        }}
+      />
+      <datalist id={`clock-timezone-list-${element.id}`}>
+        {COMMON_TIME_ZONES.map((zone) => (
+          <option key={zone} value={zone} />
+        ))}
+      </datalist>
+    </div>
+  );
 
   return (
     <div
@@ -87,10 +171,11 @@ export function ClockElementInspector({
             <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
           </button>
           <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
-            {clockLabels[clockIndex] || `${clockIndex + 1}${clockIndex === 0 ? 'st' : clockIndex === 1 ? 'nd' : clockIndex === 2 ? 'rd' : 'th'} ${t('digitalClock')}`}
+            {clockLabels[clockIndex] || `${clockIndex + 1}${clockIndex === 0 ? 'st' : clockIndex === 1 ? 'nd' : clockIndex === 2 ? 'rd' : 'th'} ${t(data.style === 'analog' ? 'analogClock' : 'digitalClock')}`}
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
           <button
             onClick={(e: MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
@@ -166,154 +251,320 @@ export function ClockElementInspector({
       {/* Content */}
       {!isCollapsed && (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-          {/* Row 1: Format | Mode */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
-            <div className="setting-row">
-              <label 
-                data-tooltip-id={`clock-format-tooltip-${element.id}`}
-                data-tooltip-content={t('tooltipClockFormat')}
-                style={{ cursor: 'help' }}
-              >
-                {t('clockFormat')}
-              </label>
-              <Tooltip id={`clock-format-tooltip-${element.id}`} />
-              <select
-                className="url-input"
-                style={{ flex: 1 }}
-                value={data.format}
-                onChange={(e) => {
+          {data.style === 'analog' ? (
+            <>
+            {/* Row 1: Time Zone */}
+            {timeZoneField}
+            
+            {/* Row 2: Hands | Second Hand */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <OverlayField
+                type="select"
+                label={t('clockHandStyle')}
+                value={data.handStyle || 'classic'}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), handStyle: value as NonNullable<ClockElementData['handStyle']> }
+                    }));
+                  }}
+                options={[
+                  { value: 'classic', label: t('clockHandStyleClassic') },
+                  { value: 'slim', label: t('clockHandStyleSlim') },
+                  { value: 'bold', label: t('clockHandStyleBold') },
+                ]}
+              />
+              <OverlayField
+                type="select"
+                label={t('clockSecondHand')}
+                value={formatHasSeconds(data.format) ? (data.secondHandMotion || 'tick') : 'off'}
+                onChange={(value) => {
                   if (!activePresetId) return;
                   onUpdateElement((el) => ({
                     ...el,
-                    data: { ...(el.data as ClockElementData), format: e.target.value as "HH:mm" | "HH:mm:ss" }
+                    data: value === 'off'
+                      ? { ...(el.data as ClockElementData), format: 'HH:mm' }
+                      : { ...(el.data as ClockElementData), format: 'HH:mm:ss', secondHandMotion: value as 'tick' | 'smooth' }
                   }));
                 }}
-              >
-                <option value="HH:mm">{t('HH:mm')}</option>
-                <option value="HH:mm:ss">{t('HH:mm:ss')}</option>
-              </select>
+                options={[
+                  { value: 'off', label: t('clockSecondHandOff') },
+                  { value: 'tick', label: t('clockSecondHandTick') },
+                  { value: 'smooth', label: t('clockSecondHandSmooth') },
+                ]}
+                labelTooltipId={`clock-second-hand-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipClockSecondHand')}
+              />
             </div>
-            <div className="setting-row">
-              <label 
-                data-tooltip-id={`clock-mode-tooltip-${element.id}`}
-                data-tooltip-content={t('tooltipClockMode')}
-                style={{ cursor: 'help' }}
-              >
-                {t('clockMode')}
-              </label>
-              <Tooltip id={`clock-mode-tooltip-${element.id}`} />
-              <select
-                className="url-input"
-                style={{ flex: 1 }}
-                value={data.mode}
-                onChange={(e) => {
-                  if (!activePresetId) return;
-                  onUpdateElement((el) => ({
-                    ...el,
-                    data: { ...(el.data as ClockElementData), mode: e.target.value as "24h" | "12h" }
-                  }));
-                }}
-              >
-                <option value="24h">{t('24h')}</option>
-                <option value="12h">{t('12h')}</option>
-              </select>
+          
+            {/* Row 3: Ticks | Numerals */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <OverlayField
+                type="select"
+                label={t('clockTicks')}
+                value={data.showTicks === false ? 'off' : 'on'}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), showTicks: value === 'on' }
+                    }));
+                  }}
+                options={[
+                  { value: 'on', label: t('clockShow') },
+                  { value: 'off', label: t('clockHide') },
+                ]}
+              />
+              <OverlayField
+                type="select"
+                label={t('clockNumerals')}
+                value={data.showNumerals ? 'on' : 'off'}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), showNumerals: value === 'on' }
+                    }));
+                  }}
+                options={[
+                  { value: 'on', label: t('clockShow') },
+                  { value: 'off', label: t('clockHide') },
+                ]}
+              />
             </div>
-          </div>
           
-          {/* Row 2: Font | Color */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
-            <div className="setting-row">
-              <label 
-                data-tooltip-id={`clock-font-tooltip-${element.id}`}
-                data-tooltip-content={t('tooltipClockFont')}
-                style={{ cursor: 'help' }}
-              >
-                {t('font')}
-              </label>
-              <Tooltip id={`clock-font-tooltip-${element.id}`} />
-              <select
-                className="url-input"
-                style={{ flex: 1 }}
-                value={data.font || 'default'}
-                onChange={(e) => {
+            {/* Row 4: Hand Color | Second Hand Color */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <div className="setting-row">
+                <label>{t('clockHandColor')}</label>
+                <TabbedColorPicker
+                  textColor={data.color || '#ffffff'}
+                  outlineColor={data.outlineColor}
+                  outlineThickness={data.outlineThickness ?? 0}
+                  onTextColorChange={(color) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), color }
+                    }));
+                  }}
+                  onOutlineColorChange={(color) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), outlineColor: color }
+                    }));
+                  }}
+                  onOutlineThicknessChange={(thickness) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), outlineThickness: thickness }
+                    }));
+                  }}
+                />
+              </div>
+              <OverlayField
+                type="color"
+                label={t('clockSecondHandColor')}
+                value={data.secondHandColor || '#ff4d4d'}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), secondHandColor: value }
+                    }));
+                  }}
+              />
+            </div>
+          
+            {/* Row 5: Tick Color | Face Color */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <OverlayField
+                type="color"
+                label={t('clockTickColor')}
+                value={data.tickColor || data.color}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), tickColor: value }
+                    }));
+                  }}
+              />
+              <OverlayField
+                type="color"
+                label={t('clockFaceColor')}
+                value={data.faceColor || 'transparent'}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), faceColor: value }
+                    }));
+                  }}
+              />
+            </div>
+          
+            {/* Row 6: Angle | Dial Size */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <OverlayField
+                type="number"
+                label={t('angle')}
+                value={element.angle ?? 0}
+                onChange={(value) => {
                   if (!activePresetId) return;
                   onUpdateElement((el) => ({
                     ...el,
-                    data: { ...(el.data as ClockElementData), font: e.target.value as "default" | "digital" }
+                    angle: value
                   }));
                 }}
-              >
-                <option value="default">{t('fontDefault')}</option>
-                <option value="digital">{t('fontDigitalClock')}</option>
-              </select>
+                step={1}
+                min={0}
+                max={360}
+                labelTooltipId={`clock-angle-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipAngle')}
+              />
+              <OverlayField
+                type="number"
+                label={t('size')}
+                value={data.dialSize ?? 240}
+                  onChange={(value) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), dialSize: Math.max(40, Math.min(640, value)) }
+                    }));
+                  }}
+                step={1}
+                min={40}
+                max={640}
+                labelTooltipId={`clock-size-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipSize')}
+              />
             </div>
-            <div className="setting-row">
-              <label>{t('color')}</label>
-              <TabbedColorPicker
-                textColor={data.color || '#ffffff'}
-                outlineColor={data.outlineColor}
-                outlineThickness={data.outlineThickness ?? 0}
-                onTextColorChange={(color) => {
+            </>
+          ) : (
+            <>
+            {/* Row 1: Format | Time Zone */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <div className="setting-row">
+                <label 
+                  data-tooltip-id={`clock-format-tooltip-${element.id}`}
+                  data-tooltip-content={t('tooltipClockFormat')}
+                  style={{ cursor: 'help' }}
+                >
+                  {t('clockFormat')}
+                </label>
+                <Tooltip id={`clock-format-tooltip-${element.id}`} />
+                <input
+                  type="text"
+                  style={inputStyle}
+                  value={data.format}
+                  onChange={(e) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), format: e.target.value }
+                    }));
+                  }}
+                  placeholder="HH:mm:ss"
+                  onFocus={(e) => {
+                    e.target.style.borderColor = '#8a2be2';
+                  }}
+                  onBlur={(e) => {
+                    e.target.style.borderColor = '#3a3a3a';
+                  }}
+                />
+              </div>
+              {timeZoneField}
+            </div>
+            
+            {/* Row 2: Font | Color */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <FontSelectField
+                label={t('font')}
+                value={data.font}
+                onChange={(font) => {
                   if (!activePresetId) return;
                   onUpdateElement((el) => ({
                     ...el,
-                    data: { ...(el.data as ClockElementData), color }
+                    data: { ...(el.data as ClockElementData), font }
                   }));
                 }}
-                onOutlineColorChange={(color) => {
+                labelTooltipId={`clock-font-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipClockFont')}
+              />
+              <div className="setting-row">
+                <label>{t('color')}</label>
+                <TabbedColorPicker
+                  textColor={data.color || '#ffffff'}
+                  outlineColor={data.outlineColor}
+                  outlineThickness={data.outlineThickness ?? 0}
+                  onTextColorChange={(color) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), color }
+                    }));
+                  }}
+                  onOutlineColorChange={(color) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), outlineColor: color }
+                    }));
+                  }}
+                  onOutlineThicknessChange={(thickness) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as ClockElementData), outlineThickness: thickness }
+                    }));
+                  }}
+                />
+              </div>
+            </div>
+          
+            {/* Row 3: Angle | Size */}
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+              <OverlayField
+                type="number"
+                label={t('angle')}
+                value={element.angle ?? 0}
+                onChange={(value) => {
                   if (!activePresetId) return;
                   onUpdateElement((el) => ({
                     ...el,
-                    data: { ...(el.data as ClockElementData), outlineColor: color }
+                    angle: value
                   }));
                 }}
-                onOutlineThicknessChange={(thickness) => {
+                step={1}
+                min={0}
+                max={360}
+                labelTooltipId={`clock-angle-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipAngle')}
+              />
+              <OverlayField
+                type="number"
+                label={t('size')}
+                value={data.fontSize}
+                onChange={(value) => {
                   if (!activePresetId) return;
                   onUpdateElement((el) => ({
                     ...el,
-                    data: { ...(el.data as ClockElementData), outlineThickness: thickness }
+                    data: { ...(el.data as ClockElementData), fontSize: Math.max(6, value) }
                   }));
                 }}
+                step={1}
+                min={6}
+                labelTooltipId={`clock-size-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipSize')}
               />
             </div>
-          </div>
-          
-          {/* Row 3: Angle | Size */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
-            <OverlayField
-              type="number"
-              label={t('angle')}
-              value={element.angle ?? 0}
-              onChange={(value) => {
-                if (!activePresetId) return;
-                onUpdateElement((el) => ({
-                  ...el,
-                  angle: value
-                }));
-              }}
-              step={1}
-              min={0}
-              max={360}
-              labelTooltipId={`clock-angle-tooltip-${element.id}`}
-              labelTooltipContent={t('tooltipAngle')}
-            />
-            <OverlayField
-              type="number"
-              label={t('size')}
-              value={data.fontSize}
-              onChange={(value) => {
-                if (!activePresetId) return;
-                onUpdateElement((el) => ({
-                  ...el,
-                  data: { ...(el.data as ClockElementData), fontSize: Math.max(6, value) }
-                }));
-              }}
-              step={1}
-              min={6}
-              labelTooltipId={`clock-size-tooltip-${element.id}`}
-              labelTooltipContent={t('tooltipSize')}
-            />
-          </div>
+            </>
+          )}
           
           {/* Row 4: X Offset | Y Offset */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
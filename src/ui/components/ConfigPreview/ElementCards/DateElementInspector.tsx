@@ -5,7 +5,10 @@ import type { OverlayElement, DateElementData } from '../../../../types/overlay'
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import OverlayField from '../OverlayField';
+import FontSelectField from '../FontSelectField';
 import TabbedColorPicker from '../../TabbedColorPicker';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
 
 interface DateElementInspectorProps {
   element: OverlayElement & { type: 'date'; data: DateElementData };
@@ -22,6 +25,7 @@ interface DateElementInspectorProps {
   onRemove: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
   onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
 }
 
@@ -43,6 +47,7 @@ export function DateElementInspector({
   onRemove,
   onMoveUp,
   onMoveDown,
+  onSetLayerFlag,
   onUpdateElement,
 }: DateElementInspectorProps) {
   const t = useI18n();
@@ -91,6 +96,7 @@ export function DateElementInspector({
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
           <button
             onClick={(e: MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
@@ -239,7 +245,22 @@ export function DateElementInspector({
             </div>
           </div>
           
-          {/* Row 2: Angle | Size */}
+          {/* Row 2: Font */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <FontSelectField
+              label={t('font')}
+              value={data.font}
+              onChange={(font) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as DateElementData), font }
+                }));
+              }}
+            />
+          </div>
+          
+          {/* Row 3: Angle | Size */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
@@ -276,7 +297,7 @@ export function DateElementInspector({
             />
           </div>
           
-          {/* Row 3: X Offset | Y Offset */}
+          {/* Row 4: X Offset | Y Offset */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
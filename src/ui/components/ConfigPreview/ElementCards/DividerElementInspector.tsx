@@ -5,6 +5,8 @@ import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import OverlayField from '../OverlayField';
 import TabbedColorPicker from '../../TabbedColorPicker';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
 
 interface DividerElementInspectorProps {
   element: OverlayElement & { type: 'divider'; data: DividerElementData };
@@ -21,6 +23,7 @@ interface DividerElementInspectorProps {
   onRemove: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
   onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
 }
 
@@ -43,6 +46,7 @@ export function DividerElementInspector({
   onRemove,
   onMoveUp,
   onMoveDown,
+  onSetLayerFlag,
   onUpdateElement,
 }: DividerElementInspectorProps) {
   const t = useI18n();
@@ -91,6 +95,7 @@ export function DividerElementInspector({
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
           <button
             onClick={(e: MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
@@ -0,0 +1,62 @@
+import type { MouseEvent } from 'react';
+import { Eye, EyeOff, Lock, Unlock } from 'lucide-react';
+import type { OverlayElement } from '../../../../types/overlay';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { useI18n } from '@/i18n/useI18n';
+
+interface ElementLayerFlagButtonsProps {
+  element: OverlayElement;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+}
+
+/**
+ * Visibility and lock toggles for an element card header.
+ */
+export function ElementLayerFlagButtons({ element, onSetLayerFlag }: ElementLayerFlagButtonsProps) {
+  const t = useI18n();
+  const hidden = element.hidden === true;
+  const locked = element.locked === true;
+
+  const buttonStyle = (active: boolean) => ({
+    width: '24px',
+    height: '24px',
+    background: active ? '#3a2c4a' : 'transparent',
+    border: active ? '1px solid #8a2be2' : '1px solid #3a3a3a',
+    color: active ? '#f2f2f2' : '#a0a0a0',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: '0',
+  });
+
+  return (
+    <>
+      <button
+        onClick={(e: MouseEvent<HTMLButtonElement>) => {
+          e.stopPropagation();
+          onSetLayerFlag('hidden', !hidden);
+        }}
+        title={hidden ? t('layerShow') : t('layerHide')}
+        aria-label={hidden ? t('layerShow') : t('layerHide')}
+        aria-pressed={hidden}
+        style={buttonStyle(hidden)}
+      >
+        {hidden ? <EyeOff size={12} /> : <Eye size={12} />}
+      </button>
+      <button
+        onClick={(e: MouseEvent<HTMLButtonElement>) => {
+          e.stopPropagation();
+          onSetLayerFlag('locked', !locked);
+        }}
+        title={locked ? t('layerUnlock') : t('layerLock')}
+        aria-label={locked ? t('layerUnlock') : t('layerLock')}
+        aria-pressed={locked}
+        style={buttonStyle(locked)}
+      >
+        {locked ? <Lock size={12} /> : <Unlock size={12} />}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,459 @@
+import type { MouseEvent } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { OverlayElement, OverlayMetricKey, GaugeElementData } from '../../../../types/overlay';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import MetricProcessingFields from '../MetricProcessingFields';
+import { getMetricDefaultRange } from '../../../../domain/metrics';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+interface GaugeElementInspectorProps {
+  element: OverlayElement & { type: 'gauge'; data: GaugeElementData };
+  gaugeIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  gaugeLabels: string[];
+  metricOptions: Array<{ value: OverlayMetricKey; label: string }>;
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Gauge element inspector component.
+ * Min/max show the metric's default range until the user overrides them.
+ */
+export function GaugeElementInspector({
+  element,
+  gaugeIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  gaugeLabels,
+  metricOptions,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: GaugeElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as GaugeElementData;
+  const defaultRange = getMetricDefaultRange(data.metric);
+  const minValue = data.minValue ?? defaultRange.min;
+  const maxValue = data.maxValue ?? defaultRange.max;
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {gaugeLabels[gaugeIndex] || `${gaugeIndex + 1}${gaugeIndex === 0 ? 'st' : gaugeIndex === 1 ? 'nd' : gaugeIndex === 2 ? 'rd' : 'th'} ${t('gauge')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Row 1: Sensor | Size */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('sensor') || t('metric')}
+              value={data.metric}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                // Drop custom range so the new sensor's default range applies
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), metric: value as OverlayMetricKey, minValue: undefined, maxValue: undefined }
+                }));
+              }}
+              options={metricOptions}
+              className=""
+              labelTooltipId={`gauge-sensor-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSensor')}
+            />
+            <OverlayField
+              type="number"
+              label={t('size')}
+              value={data.size}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), size: Math.max(40, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={40}
+              max={640}
+              labelTooltipId={`gauge-size-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSize')}
+            />
+          </div>
+          
+          {/* Row 2: Value color | Track color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="color"
+              label={t('gaugeValueColor')}
+              value={data.valueColor}
+              onChange={(color) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), valueColor: color }
+                }));
+              }}
+            />
+            <OverlayField
+              type="color"
+              label={t('gaugeTrackColor')}
+              value={data.trackColor}
+              onChange={(color) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), trackColor: color }
+                }));
+              }}
+            />
+          </div>
+          
+          {/* Row 3: Start angle | End angle | Thickness */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('gaugeStartAngle')}
+              value={data.startAngle}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => {
+                  const current = el.data as GaugeElementData;
+                  return {
+                    ...el,
+                    data: { ...current, startAngle: Math.max(-360, Math.min(value, current.endAngle - 1)) }
+                  };
+                });
+              }}
+              step={5}
+              min={-360}
+              max={360}
+              labelTooltipId={`gauge-start-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGaugeAngles')}
+            />
+            <OverlayField
+              type="number"
+              label={t('gaugeEndAngle')}
+              value={data.endAngle}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => {
+                  const current = el.data as GaugeElementData;
+                  return {
+                    ...el,
+                    data: { ...current, endAngle: Math.min(360, Math.max(value, current.startAngle + 1)) }
+                  };
+                });
+              }}
+              step={5}
+              min={-360}
+              max={360}
+              labelTooltipId={`gauge-end-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGaugeAngles')}
+            />
+            <OverlayField
+              type="number"
+              label={t('thickness')}
+              value={data.thickness}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), thickness: Math.max(1, Math.min(160, value)) }
+                }));
+              }}
+              step={1}
+              min={1}
+              max={160}
+            />
+          </div>
+          
+          {/* Row 4: Min | Max | Ends */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('gaugeMin')}
+              value={minValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), minValue: Math.min(value, maxValue - 1), maxValue }
+                }));
+              }}
+              step={1}
+              labelTooltipId={`gauge-min-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGaugeRange')}
+            />
+            <OverlayField
+              type="number"
+              label={t('gaugeMax')}
+              value={maxValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), minValue, maxValue: Math.max(value, minValue + 1) }
+                }));
+              }}
+              step={1}
+              labelTooltipId={`gauge-max-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGaugeRange')}
+            />
+            <OverlayField
+              type="select"
+              label={t('gaugeCaps')}
+              value={data.roundCaps === false ? 'flat' : 'round'}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GaugeElementData), roundCaps: value === 'round' }
+                }));
+              }}
+              options={[
+                { value: 'round', label: t('gaugeCapsRound') },
+                { value: 'flat', label: t('gaugeCapsFlat') },
+              ]}
+              className=""
+            />
+          </div>
+          
+          {/* Row 5: Ticks | Tick color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('gaugeTicks')}
+              value={data.showTicks ? String(data.tickCount ?? 10) : 'off'}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: value === 'off'
+                    ? { ...(el.data as GaugeElementData), showTicks: false }
+                    : { ...(el.data as GaugeElementData), showTicks: true, tickCount: Number(value) }
+                }));
+              }}
+              options={[
+                { value: 'off', label: t('gaugeTicksOff') },
+                ...['4', '5', '6', '8', '10', '12', '20'].map((count) => ({ value: count, label: count })),
+              ]}
+              className=""
+            />
+            {data.showTicks && (
+              <OverlayField
+                type="color"
+                label={t('gaugeTickColor')}
+                value={data.tickColor || data.trackColor}
+                onChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as GaugeElementData), tickColor: color }
+                  }));
+                }}
+              />
+            )}
+          </div>
+          
+          {/* Row 6: Processing | Window | Decay */}
+          <MetricProcessingFields
+            elementId={element.id}
+            processing={data.processing}
+            onChange={(processing) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as GaugeElementData), processing }
+              }));
+            }}
+          />
+          
+          {/* Row 7: Angle | X Offset | Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`gauge-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`gauge-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`gauge-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
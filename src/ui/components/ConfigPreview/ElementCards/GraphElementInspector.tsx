@@ -0,0 +1,438 @@
+import type { MouseEvent } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { OverlayElement, OverlayMetricKey, GraphElementData } from '../../../../types/overlay';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import MetricProcessingFields from '../MetricProcessingFields';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+interface GraphElementInspectorProps {
+  element: OverlayElement & { type: 'graph'; data: GraphElementData };
+  graphIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  graphLabels: string[];
+  metricOptions: Array<{ value: OverlayMetricKey; label: string }>;
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Graph element inspector component.
+ * Same card layout as other element inspectors, with extra rows for plot range and colors.
+ */
+export function GraphElementInspector({
+  element,
+  graphIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  graphLabels,
+  metricOptions,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: GraphElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as GraphElementData;
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {graphLabels[graphIndex] || `${graphIndex + 1}${graphIndex === 0 ? 'st' : graphIndex === 1 ? 'nd' : graphIndex === 2 ? 'rd' : 'th'} ${t('graph')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Row 1: Sensor | Style */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('sensor') || t('metric')}
+              value={data.metric}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), metric: value as OverlayMetricKey }
+                }));
+              }}
+              options={metricOptions}
+              className=""
+              labelTooltipId={`graph-sensor-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSensor')}
+            />
+            <OverlayField
+              type="select"
+              label={t('graphStyle')}
+              value={data.style}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), style: value as GraphElementData['style'] }
+                }));
+              }}
+              options={[
+                { value: 'line', label: t('graphStyleLine') },
+                { value: 'area', label: t('graphStyleArea') },
+              ]}
+              className=""
+            />
+          </div>
+          
+          {/* Row 2: Stroke color | Fill color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="color"
+              label={t('color')}
+              value={data.strokeColor}
+              onChange={(color) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), strokeColor: color }
+                }));
+              }}
+            />
+            {data.style === 'area' && (
+              <OverlayField
+                type="color"
+                label={t('graphFillColor')}
+                value={data.fillColor}
+                onChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as GraphElementData), fillColor: color }
+                  }));
+                }}
+              />
+            )}
+          </div>
+          
+          {/* Row 3: Window | Thickness */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('graphWindow')}
+              value={data.windowSeconds}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), windowSeconds: Math.max(5, Math.min(600, value)) }
+                }));
+              }}
+              step={5}
+              min={5}
+              max={600}
+              labelTooltipId={`graph-window-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGraphWindow')}
+            />
+            <OverlayField
+              type="number"
+              label={t('thickness')}
+              value={data.strokeWidth}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), strokeWidth: Math.max(0, Math.min(20, value)) }
+                }));
+              }}
+              step={1}
+              min={0}
+              max={20}
+            />
+          </div>
+          
+          {/* Row 4: Scale | Min | Max */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('graphScale')}
+              value={data.autoScale ? 'auto' : 'fixed'}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), autoScale: value === 'auto' }
+                }));
+              }}
+              options={[
+                { value: 'fixed', label: t('graphScaleFixed') },
+                { value: 'auto', label: t('graphScaleAuto') },
+              ]}
+              className=""
+              labelTooltipId={`graph-scale-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGraphScale')}
+            />
+            <OverlayField
+              type="number"
+              label={t('graphMin')}
+              value={data.minValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => {
+                  const current = el.data as GraphElementData;
+                  return {
+                    ...el,
+                    data: { ...current, minValue: Math.min(value, current.maxValue - 1) }
+                  };
+                });
+              }}
+              step={1}
+              labelTooltipId={`graph-min-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGraphRange')}
+            />
+            <OverlayField
+              type="number"
+              label={t('graphMax')}
+              value={data.maxValue}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => {
+                  const current = el.data as GraphElementData;
+                  return {
+                    ...el,
+                    data: { ...current, maxValue: Math.max(value, current.minValue + 1) }
+                  };
+                });
+              }}
+              step={1}
+              labelTooltipId={`graph-max-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipGraphRange')}
+            />
+          </div>
+          
+          {/* Row 5: Width | Height */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('graphWidth')}
+              value={data.width}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), width: Math.max(20, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={20}
+              max={640}
+            />
+            <OverlayField
+              type="number"
+              label={t('graphHeight')}
+              value={data.height}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as GraphElementData), height: Math.max(10, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={10}
+              max={640}
+            />
+          </div>
+          
+          {/* Row 6: Processing | Window | Decay */}
+          <MetricProcessingFields
+            elementId={element.id}
+            processing={data.processing}
+            onChange={(processing) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as GraphElementData), processing }
+              }));
+            }}
+          />
+          
+          {/* Row 7: Angle | X Offset | Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`graph-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`graph-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`graph-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
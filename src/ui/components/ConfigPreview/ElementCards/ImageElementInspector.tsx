@@ -0,0 +1,431 @@
+import type { MouseEvent, ChangeEvent } from 'react';
+import { useRef } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import type { OverlayElement, ImageElementData } from '../../../../types/overlay';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import { saveLocalImage, isSupportedImageFile, MAX_LOCAL_IMAGE_SIZE_BYTES, SUPPORTED_IMAGE_EXTENSIONS } from '../../../../utils/localImageStore';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+interface ImageElementInspectorProps {
+  element: OverlayElement & { type: 'image'; data: ImageElementData };
+  imageIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  imageLabels: string[];
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Image element inspector component.
+ * Local files are stored in IndexedDB; the element only keeps the record ID and file name.
+ */
+export function ImageElementInspector({
+  element,
+  imageIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  imageLabels,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: ImageElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as ImageElementData;
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !activePresetId) return;
+
+    if (file.size > MAX_LOCAL_IMAGE_SIZE_BYTES) {
+      alert(t('localImageFileTooLarge'));
+      return;
+    }
+    if (!isSupportedImageFile(file)) {
+      alert(t('localImageUnsupportedType'));
+      return;
+    }
+
+    try {
+      const { localImageId, localFileName } = await saveLocalImage(file);
+      onUpdateElement((el) => ({
+        ...el,
+        data: { ...(el.data as ImageElementData), source: 'local', localImageId, localFileName }
+      }));
+    } catch {
+      alert(t('localImageSaveFailed'));
+    }
+  };
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {imageLabels[imageIndex] || `${imageIndex + 1}${imageIndex === 0 ? 'st' : imageIndex === 1 ? 'nd' : imageIndex === 2 ? 'rd' : 'th'} ${t('image')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Row 1: Source | Fit */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('imageSource')}
+              value={data.source}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as ImageElementData), source: value as ImageElementData['source'] }
+                }));
+              }}
+              options={[
+                { value: 'remote', label: t('imageSourceRemote') },
+                { value: 'local', label: t('imageSourceLocal') },
+              ]}
+              className=""
+              labelTooltipId={`image-source-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipImageSource')}
+            />
+            <OverlayField
+              type="select"
+              label={t('imageFit')}
+              value={data.fit}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as ImageElementData), fit: value as ImageElementData['fit'] }
+                }));
+              }}
+              options={[
+                { value: 'contain', label: t('imageFitContain') },
+                { value: 'cover', label: t('imageFitCover') },
+                { value: 'fill', label: t('imageFitFill') },
+              ]}
+              className=""
+            />
+          </div>
+          
+          {/* Row 2: URL (remote) or file picker (local) */}
+          {data.source === 'remote' ? (
+            <div className="setting-row">
+              <label 
+                data-tooltip-id={`image-url-tooltip-${element.id}`}
+                data-tooltip-content={t('tooltipImageUrl')}
+                style={{ cursor: 'help' }}
+              >
+                {t('imageUrl')}
+              </label>
+              <Tooltip id={`image-url-tooltip-${element.id}`} />
+              <input
+                type="text"
+                style={{
+                  flex: 1,
+                  width: '104px',
+                  background: '#2c2c2c',
+                  border: '1px solid #3a3a3a',
+                  color: '#f2f2f2',
+                  padding: '5px 18px 5px 10px',
+                  borderRadius: '4px',
+                  fontSize: '13px',
+                  fontFamily: 'inherit',
+                  outline: 'none',
+                  transition: 'border-color 0.15s ease',
+                }}
+                value={data.url ?? ''}
+                onChange={(e) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as ImageElementData), url: e.target.value }
+                  }));
+                }}
+                placeholder="https://"
+                onFocus={(e) => {
+                  e.target.style.borderColor = '#8a2be2';
+                }}
+                onBlur={(e) => {
+                  e.target.style.borderColor = '#3a3a3a';
+                }}
+              />
+            </div>
+          ) : (
+            <div className="setting-row">
+              <label>
+                {t('imageFile')}
+              </label>
+              <span
+                style={{
+                  flex: 1,
+                  fontSize: '12px',
+                  color: data.localFileName ? '#f2f2f2' : '#a0a0a0',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {data.localFileName || t('localMediaNoFileSelected')}
+              </span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${SUPPORTED_IMAGE_EXTENSIONS.join(',')},image/*`}
+                onChange={handleFileChange}
+                style={{ display: 'none' }}
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!activePresetId}
+                style={{
+                  height: '26px',
+                  padding: '0 10px',
+                  background: '#2c2c2c',
+                  border: '1px solid #3a3a3a',
+                  color: '#f2f2f2',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  cursor: activePresetId ? 'pointer' : 'not-allowed',
+                }}
+              >
+                {t('browse')}
+              </button>
+            </div>
+          )}
+          
+          {/* Row 3: Opacity | Width | Height */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('imageOpacity')}
+              value={Math.round((data.opacity ?? 1) * 100)}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as ImageElementData), opacity: Math.max(0, Math.min(100, value)) / 100 }
+                }));
+              }}
+              step={5}
+              min={0}
+              max={100}
+            />
+            <OverlayField
+              type="number"
+              label={t('imageWidth')}
+              value={data.width}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as ImageElementData), width: Math.max(8, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={8}
+              max={640}
+            />
+            <OverlayField
+              type="number"
+              label={t('imageHeight')}
+              value={data.height}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as ImageElementData), height: Math.max(8, Math.min(640, value)) }
+                }));
+              }}
+              step={1}
+              min={8}
+              max={640}
+            />
+          </div>
+          
+          {/* Row 4: Angle | X Offset | Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`image-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`image-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`image-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
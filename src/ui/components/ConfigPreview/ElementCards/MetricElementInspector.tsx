@@ -1,10 +1,25 @@
 import type { MouseEvent } from 'react';
 import { ChevronDown, ChevronUp, X } from 'lucide-react';
-import type { OverlayElement, MetricElementData, OverlayMetricKey } from '../../../../types/overlay';
+import type { OverlayElement, MetricElementData, OverlayMetricKey, MetricDeviceSelector, MetricFormatOptions } from '../../../../types/overlay';
+import { METRIC_DEFINITIONS, MAX_METRIC_DECIMALS } from '../../../../domain/metrics';
+import { getMetricDeviceType, type MetricDeviceNames } from '../../../../domain/metricDevices';
+import { useCustomMetrics } from '../../../../hooks/useCustomMetrics';
+import { useDerivedMetrics } from '../../../../hooks/useDerivedMetrics';
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import OverlayField from '../OverlayField';
+import MetricProcessingFields from '../MetricProcessingFields';
+import MetricThresholdFields from '../MetricThresholdFields';
+import MetricNoDataFields from '../MetricNoDataFields';
+import FontSelectField from '../FontSelectField';
 import TabbedColorPicker from '../../TabbedColorPicker';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+/**
+ * Sensor select value prefix for custom bridge metrics ("custom:<id>").
+ */
+const CUSTOM_PREFIX = 'custom:';
 
 interface MetricElementInspectorProps {
   element: OverlayElement & { type: 'metric'; data: MetricElementData };
@@ -17,11 +32,13 @@ interface MetricElementInspectorProps {
   lang: Lang;
   metricLabels: string[];
   metricOptions: Array<{ value: OverlayMetricKey; label: string }>;
+  metricDeviceNames: MetricDeviceNames;
   onToggleCollapse: () => void;
   onSelect: () => void;
   onRemove: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
   onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
 }
 
@@ -40,15 +57,98 @@ export function MetricElementInspector({
   activePresetId,
   metricLabels,
   metricOptions,
+  metricDeviceNames,
   onToggleCollapse,
   onSelect,
   onRemove,
   onMoveUp,
   onMoveDown,
+  onSetLayerFlag,
   onUpdateElement,
 }: MetricElementInspectorProps) {
   const t = useI18n();
   const data = element.data as MetricElementData;
+  const customMetrics = useCustomMetrics();
+  const { definitions: derivedDefinitions } = useDerivedMetrics(activePresetId);
+
+  // Sensor select: NZXT metrics, then derived metrics of the preset, then custom
+  // bridge metrics ("custom:<id>"; derived ids take precedence over bridge ids).
+  // A bound custom metric that is neither stays selectable (marked missing).
+  const derivedIds = derivedDefinitions.map(definition => definition.id);
+  const bridgeDefinitions = Object.values(customMetrics)
+    .map(sample => sample.definition)
+    .filter(definition => !derivedIds.includes(definition.id));
+  const customDefinition = data.customMetric
+    ? derivedDefinitions.find(definition => definition.id === data.customMetric) ?? customMetrics[data.customMetric]?.definition
+    : undefined;
+  const sensorOptions: Array<{ value: string; label: string }> = [
+    ...metricOptions,
+    ...[...derivedDefinitions, ...bridgeDefinitions].map(definition => ({
+      value: `${CUSTOM_PREFIX}${definition.id}`,
+      label: `${definition.label} (${definition.id})`,
+    })),
+    ...(data.customMetric && !customDefinition
+      ? [{ value: `${CUSTOM_PREFIX}${data.customMetric}`, label: t('metricCustomMissing').replace('{id}', data.customMetric) }]
+      : []),
+  ];
+
+  // Device select: CPU/GPU metrics only. A stored index beyond the devices
+  // present stays selectable (marked missing) and renders the first device.
+  // Disabled until monitoring data lists devices (unless a device is already stored).
+  const deviceType = data.customMetric ? undefined : getMetricDeviceType(data.metric);
+  const deviceNames = deviceType ? metricDeviceNames[deviceType] : [];
+  const isDeviceSelectDisabled = deviceNames.length === 0 && data.device === undefined;
+  const presentDeviceCount = Math.max(deviceNames.length, 1);
+  const deviceOptionCount = Math.max(presentDeviceCount, typeof data.device === 'number' ? data.device + 1 : 0);
+  const deviceOptions = [
+    ...Array.from({ length: deviceOptionCount }, (_, index) => ({
+      value: String(index),
+      label: index < presentDeviceCount
+        ? `#${index + 1}${deviceNames[index] ? ` ${deviceNames[index]}` : ''}`
+        : t('metricDeviceMissing').replace('{index}', String(index + 1)),
+    })),
+    { value: 'max', label: t('metricDeviceMax') },
+    { value: 'average', label: t('metricDeviceAverage') },
+  ];
+
+  // Unit select: temperatures (°C/°F) and clocks (MHz/GHz) only
+  const unitType = data.customMetric ? customDefinition?.unitType : METRIC_DEFINITIONS[data.metric]?.unitType;
+  const unitOptions = unitType === 'temp'
+    ? [
+        { value: 'celsius', label: t('metricUnitCelsius') },
+        { value: 'fahrenheit', label: t('metricUnitFahrenheit') },
+      ]
+    : unitType === 'clock'
+    ? [
+        { value: 'mhz', label: 'MHz' },
+        { value: 'ghz', label: 'GHz' },
+      ]
+    : null;
+  const unitValue = unitType === 'temp'
+    ? data.format?.temperatureUnit ?? 'celsius'
+    : data.format?.clockUnit ?? 'mhz';
+  const decimalOptions = [
+    { value: '', label: t('metricDecimalsAuto') },
+    ...Array.from({ length: MAX_METRIC_DECIMALS + 1 }, (_, decimals) => ({ value: String(decimals), label: String(decimals) })),
+  ];
+
+  // Merges format changes; an all-default format is removed so the element keeps today's output
+  const updateFormat = (patch: Partial<MetricFormatOptions>) => {
+    if (!activePresetId) return;
+    onUpdateElement((el) => {
+      const current = el.data as MetricElementData;
+      const merged: MetricFormatOptions = { ...current.format, ...patch };
+      (Object.keys(merged) as Array<keyof MetricFormatOptions>).forEach((key) => {
+        if (merged[key] === undefined) {
+          delete merged[key];
+        }
+      });
+      return {
+        ...el,
+        data: { ...current, format: Object.keys(merged).length > 0 ? merged : undefined }
+      };
+    });
+  };
 
   return (
     <div
@@ -93,6 +193,7 @@ export function MetricElementInspector({
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
           <button
             onClick={(e: MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
@@ -174,15 +275,27 @@ export function MetricElementInspector({
               type="select"
               label={t('sensor') || t('metric')}
               hideLabel={false}
-              value={data.metric}
+              value={data.customMetric ? `${CUSTOM_PREFIX}${data.customMetric}` : data.metric}
               onChange={(value) => {
                 if (!activePresetId) return;
-                onUpdateElement((el) => ({
-                  ...el,
-                  data: { ...(el.data as MetricElementData), metric: value as OverlayMetricKey }
-                }));
+                onUpdateElement((el) => {
+                  const current = el.data as MetricElementData;
+                  if (value.startsWith(CUSTOM_PREFIX)) {
+                    return {
+                      ...el,
+                      data: { ...current, customMetric: value.slice(CUSTOM_PREFIX.length), device: undefined }
+                    };
+                  }
+                  const metric = value as OverlayMetricKey;
+                  // Device selection only carries over within the same device type
+                  const device = getMetricDeviceType(metric) === getMetricDeviceType(current.metric) ? current.device : undefined;
+                  return {
+                    ...el,
+                    data: { ...current, metric, device, customMetric: undefined }
+                  };
+                });
               }}
-              options={metricOptions}
+              options={sensorOptions}
               className=""
               labelTooltipId={`sensor-tooltip-${element.id}`}
               labelTooltipContent={t('tooltipSensor')}
@@ -215,7 +328,123 @@ export function MetricElementInspector({
             />
           </div>
           
-          {/* Row 2: numberSize label + input | Angle label + input */}
+          {/* Row 2: Font | Device */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <FontSelectField
+              label={t('font')}
+              value={data.font}
+              onChange={(font) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as MetricElementData), font }
+                }));
+              }}
+            />
+            {deviceType && (
+              <OverlayField
+                type="select"
+                label={t('metricDevice')}
+                value={String(data.device ?? 0)}
+                onChange={(value) => {
+                  if (!activePresetId) return;
+                  const device: MetricDeviceSelector | undefined =
+                    value === 'max' || value === 'average' ? value : Number(value) || undefined;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as MetricElementData), device }
+                  }));
+                }}
+                options={deviceOptions}
+                disabled={isDeviceSelectDisabled}
+                labelTooltipId={`metric-device-tooltip-${element.id}`}
+                labelTooltipContent={t(isDeviceSelectDisabled ? 'tooltipMetricDeviceUnavailable' : 'tooltipMetricDevice')}
+              />
+            )}
+          </div>
+          
+          {/* Row 3: Unit | Decimals | Thousands separator */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            {unitOptions && (
+              <OverlayField
+                type="select"
+                label={t('metricUnit')}
+                value={unitValue}
+                onChange={(value) => {
+                  updateFormat(unitType === 'temp'
+                    ? { temperatureUnit: value === 'fahrenheit' ? 'fahrenheit' : undefined }
+                    : { clockUnit: value === 'ghz' ? 'ghz' : undefined });
+                }}
+                options={unitOptions}
+                labelTooltipId={`metric-unit-tooltip-${element.id}`}
+                labelTooltipContent={t('tooltipMetricUnit')}
+              />
+            )}
+            <OverlayField
+              type="select"
+              label={t('metricDecimals')}
+              value={data.format?.decimals !== undefined ? String(data.format.decimals) : ''}
+              onChange={(value) => updateFormat({ decimals: value === '' ? undefined : Number(value) })}
+              options={decimalOptions}
+              labelTooltipId={`metric-decimals-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipMetricDecimals')}
+            />
+            <OverlayField
+              type="select"
+              label={t('metricThousandsSeparator')}
+              value={data.format?.thousandsSeparator ? 'on' : 'off'}
+              onChange={(value) => updateFormat({ thousandsSeparator: value === 'on' || undefined })}
+              options={[
+                { value: 'off', label: t('metricThousandsSeparatorOff') },
+                { value: 'on', label: t('metricThousandsSeparatorOn') },
+              ]}
+              labelTooltipId={`metric-separator-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipMetricThousandsSeparator')}
+            />
+          </div>
+          
+          {/* Row 4: Processing | Window | Decay */}
+          <MetricProcessingFields
+            elementId={element.id}
+            processing={data.processing}
+            onChange={(processing) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as MetricElementData), processing }
+              }));
+            }}
+          />
+          
+          {/* Row 5: Threshold rules */}
+          <MetricThresholdFields
+            elementId={element.id}
+            data={data}
+            disabled={!activePresetId}
+            onChange={(thresholds) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as MetricElementData), thresholds }
+              }));
+            }}
+          />
+          
+          {/* Row 6: No data | Placeholder */}
+          <MetricNoDataFields
+            elementId={element.id}
+            noDataStyle={data.noDataStyle}
+            noDataText={data.noDataText}
+            onChange={({ noDataStyle, noDataText }) => {
+              if (!activePresetId) return;
+              onUpdateElement((el) => ({
+                ...el,
+                data: { ...(el.data as MetricElementData), noDataStyle, noDataText }
+              }));
+            }}
+          />
+          
+          {/* Row 7: numberSize label + input | Angle label + input */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
@@ -251,7 +480,7 @@ export function MetricElementInspector({
             />
           </div>
           
-          {/* Row 3: X Offset + Y Offset */}
+          {/* Row 8: X Offset + Y Offset */}
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
@@ -0,0 +1,338 @@
+import type { MouseEvent } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import type { OverlayElement, OverlayMetricKey, TemplateElementData, TemplatePlaceholderFormat } from '../../../../types/overlay';
+import { MAX_TEMPLATE_LENGTH, MAX_TEMPLATE_DECIMALS, getTemplateMetricKeys, sanitizeTemplateText } from '../../../../domain/templateString';
+import { MIN_TEXT_SIZE } from '../../../../domain/richText';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import CombinedTextColorInput from '../CombinedTextColorInput';
+import FontSelectField from '../FontSelectField';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+interface TemplateElementInspectorProps {
+  element: OverlayElement & { type: 'template'; data: TemplateElementData };
+  templateIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  templateLabels: string[];
+  metricOptions: Array<{ value: OverlayMetricKey; label: string }>;
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Template element inspector component.
+ * Shows one format row (decimals, unit) per metric referenced in the template.
+ */
+export function TemplateElementInspector({
+  element,
+  templateIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  templateLabels,
+  metricOptions,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: TemplateElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as TemplateElementData;
+  const metricKeys = getTemplateMetricKeys(data.template);
+
+  const updateData = (updater: (current: TemplateElementData) => TemplateElementData) => {
+    if (!activePresetId) return;
+    onUpdateElement((el) => ({
+      ...el,
+      data: updater(el.data as TemplateElementData)
+    }));
+  };
+
+  const updateFormat = (key: OverlayMetricKey, patch: Partial<TemplatePlaceholderFormat>) => {
+    updateData((current) => ({
+      ...current,
+      placeholderFormats: {
+        ...current.placeholderFormats,
+        [key]: { ...current.placeholderFormats?.[key], ...patch },
+      },
+    }));
+  };
+
+  const decimalOptions = [
+    { value: '', label: t('templateDecimalsAuto') },
+    ...Array.from({ length: MAX_TEMPLATE_DECIMALS + 1 }, (_, decimals) => ({ value: String(decimals), label: String(decimals) })),
+  ];
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {templateLabels[templateIndex] || `${templateIndex + 1}${templateIndex === 0 ? 'st' : templateIndex === 1 ? 'nd' : templateIndex === 2 ? 'rd' : 'th'} ${t('template')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Template + color */}
+          <CombinedTextColorInput
+            text={data.template}
+            onTextChange={(template) => updateData((current) => ({ ...current, template }))}
+            color={data.textColor || '#ffffff'}
+            onColorChange={(color) => updateData((current) => ({ ...current, textColor: color }))}
+            outlineColor={data.outlineColor}
+            onOutlineColorChange={(color) => updateData((current) => ({ ...current, outlineColor: color }))}
+            outlineThickness={data.outlineThickness ?? 0}
+            onOutlineThicknessChange={(thickness) => updateData((current) => ({ ...current, outlineThickness: thickness }))}
+            placeholder={t('templateInputPlaceholder')}
+            maxLength={MAX_TEMPLATE_LENGTH}
+            sanitizeText={sanitizeTemplateText}
+            colorTooltipContent={t('tooltipColor')}
+            id={element.id}
+          />
+          
+          {/* Insert Metric | Font | Size */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('templateInsertMetric')}
+              value=""
+              onChange={(value) => {
+                if (!value) return;
+                updateData((current) => ({
+                  ...current,
+                  template: `${current.template}{${value}}`.slice(0, MAX_TEMPLATE_LENGTH),
+                }));
+              }}
+              options={[{ value: '', label: '—' }, ...metricOptions]}
+              labelTooltipId={`template-insert-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipTemplateInsertMetric')}
+            />
+            <FontSelectField
+              label={t('font')}
+              value={data.font}
+              onChange={(font) => updateData((current) => ({ ...current, font }))}
+              disabled={!activePresetId}
+            />
+            <OverlayField
+              type="number"
+              label={t('textSize')}
+              value={data.textSize}
+              onChange={(value) => updateData((current) => ({ ...current, textSize: Math.max(MIN_TEXT_SIZE, value) }))}
+              step={1}
+              min={MIN_TEXT_SIZE}
+              labelTooltipId={`template-size-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSize')}
+            />
+          </div>
+          
+          {/* Placeholder formats: Metric | Decimals | Unit */}
+          {metricKeys.map((key) => {
+            const format = data.placeholderFormats?.[key];
+            return (
+              <div key={key} style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px', alignItems: 'end' }}>
+                <span style={{ color: '#a0a0a0', fontSize: '12px', paddingBottom: '6px' }}>
+                  {metricOptions.find(option => option.value === key)?.label ?? key}
+                </span>
+                <OverlayField
+                  type="select"
+                  label={t('templateDecimals')}
+                  value={format?.decimals !== undefined ? String(format.decimals) : ''}
+                  onChange={(value) => updateFormat(key, { decimals: value === '' ? undefined : Number(value) })}
+                  options={decimalOptions}
+                />
+                <OverlayField
+                  type="select"
+                  label={t('templateUnit')}
+                  value={format?.showUnit ? 'shown' : 'hidden'}
+                  onChange={(value) => updateFormat(key, { showUnit: value === 'shown' || undefined })}
+                  options={[
+                    { value: 'hidden', label: t('templateUnitHidden') },
+                    { value: 'shown', label: t('templateUnitShown') },
+                  ]}
+                />
+              </div>
+            );
+          })}
+          
+          {/* Angle | X/Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`template-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`template-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`template-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
@@ -1,10 +1,15 @@
 import type { MouseEvent } from 'react';
 import { ChevronDown, ChevronUp, X } from 'lucide-react';
-import type { OverlayElement, TextElementData } from '../../../../types/overlay';
+import { Tooltip } from 'react-tooltip';
+import type { OverlayElement, TextElementData, TextSpan, TextAlign } from '../../../../types/overlay';
+import { MAX_RICH_TEXT_LENGTH, MAX_TEXT_SPANS, MIN_TEXT_SIZE, DEFAULT_TEXT_LINE_HEIGHT, getRichTextPlainText, sanitizeSpanText } from '../../../../domain/richText';
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import OverlayField from '../OverlayField';
 import CombinedTextColorInput from '../CombinedTextColorInput';
+import FontSelectField from '../FontSelectField';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
 
 interface TextElementInspectorProps {
   element: OverlayElement & { type: 'text'; data: TextElementData };
@@ -21,6 +26,7 @@ interface TextElementInspectorProps {
   onRemove: () => void;
   onMoveUp: () => void;
   onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
   onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
 }
 
@@ -43,18 +49,29 @@ export function TextElementInspector({
   onRemove,
   onMoveUp,
   onMoveDown,
+  onSetLayerFlag,
   onUpdateElement,
 }: TextElementInspectorProps) {
   const t = useI18n();
   const data = element.data as TextElementData;
 
-  // Sanitize text input - remove HTML tags and dangerous characters
-  const sanitizeText = (input: string): string => {
-    let sanitized = input.replace(/<[^>]*>/g, '');
-    sanitized = sanitized.replace(/javascript:/gi, '');
-    sanitized = sanitized.replace(/on\w+\s*=/gi, '');
-    sanitized = sanitized.substring(0, 120);
-    return sanitized;
+  const spans = data.spans ?? [];
+  const remainingLength = Math.max(0, MAX_RICH_TEXT_LENGTH - getRichTextPlainText(spans).length);
+  const canAddSpan = spans.length < MAX_TEXT_SPANS && remainingLength > 0;
+
+  const updateData = (updater: (current: TextElementData) => TextElementData) => {
+    if (!activePresetId) return;
+    onUpdateElement((el) => ({
+      ...el,
+      data: updater(el.data as TextElementData)
+    }));
+  };
+
+  const updateSpan = (spanIndex: number, patch: Partial<TextSpan>) => {
+    updateData((current) => ({
+      ...current,
+      spans: current.spans.map((span, i) => (i === spanIndex ? { ...span, ...patch } : span)),
+    }));
   };
 
   return (
@@ -100,6 +117,7 @@ export function TextElementInspector({
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
           <button
             onClick={(e: MouseEvent<HTMLButtonElement>) => {
               e.stopPropagation();
@@ -175,66 +193,202 @@ export function TextElementInspector({
       {/* Content */}
       {!isCollapsed && (
         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
-          {/* Row 1: Combo text+color input (no label) */}
-          <CombinedTextColorInput
-            text={data.text}
-            onTextChange={(text) => {
-              if (!activePresetId) return;
-              const sanitized = sanitizeText(text);
-              onUpdateElement((el) => ({
-                ...el,
-                data: { ...(el.data as TextElementData), text: sanitized }
-              }));
-            }}
-            color={data.textColor || '#ffffff'}
-            onColorChange={(color) => {
-              if (!activePresetId) return;
-              onUpdateElement((el) => ({
-                ...el,
-                data: { ...(el.data as TextElementData), textColor: color }
-              }));
-            }}
-            outlineColor={data.outlineColor}
-            onOutlineColorChange={(color) => {
-              if (!activePresetId) return;
-              onUpdateElement((el) => ({
-                ...el,
-                data: { ...(el.data as TextElementData), outlineColor: color }
+          {/* Spans: first span edits the element defaults (color, font, size) */}
+          {spans.map((span, spanIndex) => {
+            const isFirst = spanIndex === 0;
+            return (
+              <div key={spanIndex} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {!isFirst && (
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+                    <span style={{ color: '#a0a0a0', fontSize: '12px' }}>
+                      {t('textSpan')} {spanIndex + 1}
+                    </span>
+                    <button
+                      onClick={(e: MouseEvent<HTMLButtonElement>) => {
+                        e.stopPropagation();
+                        updateData((current) => ({
+                          ...current,
+                          spans: current.spans.filter((_, i) => i !== spanIndex),
+                        }));
+                      }}
+                      style={{
+                        width: '20px',
+                        height: '20px',
+                        background: 'transparent',
+                        border: '1px solid #3a3a3a',
+                        color: '#ff6b6b',
+                        borderRadius: '4px',
+                        cursor: 'pointer',
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        padding: '0',
+                      }}
+                    >
+                      <X size={10} />
+                    </button>
+                  </div>
+                )}
+                
+                {/* Text + color (multiline) */}
+                <CombinedTextColorInput
+                  text={span.text}
+                  onTextChange={(text) => updateSpan(spanIndex, { text })}
+                  color={(isFirst ? data.textColor : span.color ?? data.textColor) || '#ffffff'}
+                  onColorChange={(color) => {
+                    if (isFirst) {
+                      updateData((current) => ({
+                        ...current,
+                        textColor: color,
+                        spans: current.spans.map((s, i) => (i === 0 ? { ...s, color: undefined } : s)),
+                      }));
+                    } else {
+                      updateSpan(spanIndex, { color });
+                    }
+                  }}
+                  outlineColor={data.outlineColor}
+                  onOutlineColorChange={(color) => updateData((current) => ({ ...current, outlineColor: color }))}
+                  outlineThickness={data.outlineThickness ?? 0}
+                  onOutlineThicknessChange={(thickness) => updateData((current) => ({ ...current, outlineThickness: thickness }))}
+                  placeholder={t('textInputPlaceholder')}
+                  maxLength={span.text.length + remainingLength}
+                  sanitizeText={sanitizeSpanText}
+                  colorTooltipContent={t('tooltipColor')}
+                  id={isFirst ? element.id : `${element.id}-span-${spanIndex}`}
+                  multiline
+                />
+                
+                {/* Font | Style | Size */}
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+                  <FontSelectField
+                    label={t('font')}
+                    value={isFirst ? data.font : span.font}
+                    onChange={(font) => {
+                      if (isFirst) {
+                        updateData((current) => ({
+                          ...current,
+                          font,
+                          spans: current.spans.map((s, i) => (i === 0 ? { ...s, font: undefined } : s)),
+                        }));
+                      } else {
+                        updateSpan(spanIndex, { font });
+                      }
+                    }}
+                    disabled={!activePresetId}
+                    inheritLabel={isFirst ? undefined : t('textFontInherit')}
+                  />
+                  <OverlayField
+                    type="select"
+                    label={t('textFontStyle')}
+                    value={span.bold && span.italic ? 'boldItalic' : span.bold ? 'bold' : span.italic ? 'italic' : 'regular'}
+                    onChange={(value) => {
+                      updateSpan(spanIndex, {
+                        bold: value === 'bold' || value === 'boldItalic' || undefined,
+                        italic: value === 'italic' || value === 'boldItalic' || undefined,
+                      });
+                    }}
+                    options={[
+                      { value: 'regular', label: t('textStyleRegular') },
+                      { value: 'bold', label: t('textStyleBold') },
+                      { value: 'italic', label: t('textStyleItalic') },
+                      { value: 'boldItalic', label: t('textStyleBoldItalic') },
+                    ]}
+                  />
+                  <OverlayField
+                    type="number"
+                    label={t('textSize')}
+                    value={isFirst ? data.textSize : span.size ?? data.textSize}
+                    onChange={(value) => {
+                      const size = Math.max(MIN_TEXT_SIZE, value);
+                      if (isFirst) {
+                        updateData((current) => ({
+                          ...current,
+                          textSize: size,
+                          spans: current.spans.map((s, i) => (i === 0 ? { ...s, size: undefined } : s)),
+                        }));
+                      } else {
+                        updateSpan(spanIndex, { size });
+                      }
+                    }}
+                    step={1}
+                    min={MIN_TEXT_SIZE}
+                    labelTooltipId={`text-size-tooltip-${element.id}-${spanIndex}`}
+                    labelTooltipContent={t(isFirst ? 'tooltipSize' : 'tooltipTextSpanSize')}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          
+          {/* Add span */}
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              updateData((current) => ({
+                ...current,
+                spans: [...current.spans, { text: '' }],
               }));
             }}
-            outlineThickness={data.outlineThickness ?? 0}
-            onOutlineThicknessChange={(thickness) => {
-              if (!activePresetId) return;
-              onUpdateElement((el) => ({
-                ...el,
-                data: { ...(el.data as TextElementData), outlineThickness: thickness }
-              }));
+            disabled={!canAddSpan}
+            data-tooltip-id={`text-spans-tooltip-${element.id}`}
+            data-tooltip-content={t('tooltipTextSpans')}
+            style={{
+              height: '26px',
+              padding: '0 10px',
+              background: '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: canAddSpan ? '#f2f2f2' : '#a0a0a0',
+              borderRadius: '4px',
+              fontSize: '12px',
+              cursor: canAddSpan ? 'pointer' : 'not-allowed',
             }}
-            placeholder={t('textInputPlaceholder')}
-            maxLength={120}
-            sanitizeText={sanitizeText}
-            colorTooltipContent={t('tooltipColor')}
-            id={element.id}
-          />
+          >
+            {t('addTextSpan')}
+          </button>
+          <Tooltip id={`text-spans-tooltip-${element.id}`} />
           
-          {/* Row 2: TextSize + Angle on same row */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+          {/* Align | Letter Spacing | Line Height */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('textAlign')}
+              value={data.textAlign ?? 'left'}
+              onChange={(value) => updateData((current) => ({ ...current, textAlign: value as TextAlign }))}
+              options={[
+                { value: 'left', label: t('textAlignLeft') },
+                { value: 'center', label: t('textAlignCenter') },
+                { value: 'right', label: t('textAlignRight') },
+              ]}
+            />
+            <OverlayField
+              type="number"
+              label={t('textLetterSpacing')}
+              value={data.letterSpacing ?? 0}
+              onChange={(value) => updateData((current) => ({ ...current, letterSpacing: value }))}
+              step={1}
+              labelTooltipId={`text-letter-spacing-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipTextLetterSpacing')}
+            />
             <OverlayField
               type="number"
-              label={t('textSize')}
-              value={data.textSize}
+              label={t('textLineHeight')}
+              value={data.lineHeight ?? DEFAULT_TEXT_LINE_HEIGHT}
               onChange={(value) => {
-                if (!activePresetId) return;
-                onUpdateElement((el) => ({
-                  ...el,
-                  data: { ...(el.data as TextElementData), textSize: Math.max(6, value) }
+                updateData((current) => ({
+                  ...current,
+                  lineHeight: Math.max(0.5, Math.round(value * 10) / 10),
                 }));
               }}
-              step={1}
-              min={6}
-              labelTooltipId={`text-size-tooltip-${element.id}`}
-              labelTooltipContent={t('tooltipSize')}
+              step={0.1}
+              min={0.5}
+              max={4}
+              labelTooltipId={`text-line-height-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipTextLineHeight')}
             />
+          </div>
+          
+          {/* Angle | X/Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
               label={t('angle')}
@@ -252,10 +406,6 @@ export function TextElementInspector({
               labelTooltipId={`text-angle-tooltip-${element.id}`}
               labelTooltipContent={t('tooltipAngle')}
             />
-          </div>
-          
-          {/* Row 3: X/Y Offset */}
-          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
             <OverlayField
               type="number"
               label={t('customXOffset')}
@@ -0,0 +1,453 @@
+import type { MouseEvent } from 'react';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import type { OverlayElement, TimerElementData } from '../../../../types/overlay';
+import type { Lang } from '@/i18n';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from '../OverlayField';
+import FontSelectField from '../FontSelectField';
+import TabbedColorPicker from '../../TabbedColorPicker';
+import { getDefaultCountdownTarget } from '../../../../domain/timeFormat';
+import type { ElementLayerFlag } from '../../../../state/overlay/actions';
+import { ElementLayerFlagButtons } from './ElementLayerFlagButtons';
+
+/**
+ * Formats a timestamp for a datetime-local input (local time, minute precision).
+ */
+function toDateTimeLocalValue(timestamp: number | undefined): string {
+  if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) {
+    return '';
+  }
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+interface TimerElementInspectorProps {
+  element: OverlayElement & { type: 'timer'; data: TimerElementData };
+  timerIndex: number;
+  isSelected: boolean;
+  isCollapsed: boolean;
+  unifiedIndex: number;
+  totalElements: number;
+  activePresetId: string | null;
+  lang: Lang;
+  timerLabels: string[];
+  onToggleCollapse: () => void;
+  onSelect: () => void;
+  onRemove: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onSetLayerFlag: (flag: ElementLayerFlag, value: boolean) => void;
+  onUpdateElement: (updater: (element: OverlayElement) => OverlayElement) => void;
+}
+
+/**
+ * Timer element inspector component.
+ * Countdown-only rows (target, end text/color) are hidden for stopwatch and uptime.
+ */
+export function TimerElementInspector({
+  element,
+  timerIndex,
+  isSelected,
+  isCollapsed,
+  unifiedIndex,
+  totalElements,
+  activePresetId,
+  timerLabels,
+  onToggleCollapse,
+  onSelect,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onSetLayerFlag,
+  onUpdateElement,
+}: TimerElementInspectorProps) {
+  const t = useI18n();
+  const data = element.data as TimerElementData;
+  const isCountdown = data.mode === 'countdown';
+
+  const inputStyle = {
+    flex: 1,
+    width: '104px',
+    background: '#2c2c2c',
+    border: '1px solid #3a3a3a',
+    color: '#f2f2f2',
+    padding: '5px 18px 5px 10px',
+    borderRadius: '4px',
+    fontSize: '13px',
+    fontFamily: 'inherit',
+    outline: 'none',
+    transition: 'border-color 0.15s ease',
+  };
+
+  return (
+    <div
+      style={{
+        background: isSelected ? '#2c2c2c' : '#242424',
+        border: isSelected ? '1px solid #8a2be2' : '1px solid rgba(255, 255, 255, 0.04)',
+        borderRadius: '6px',
+        padding: '8px',
+        marginBottom: '8px',
+      }}
+      onClick={onSelect}
+    >
+      {/* Header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          marginBottom: isCollapsed ? '0' : '8px',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1 }}>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse();
+            }}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: '#a0a0a0',
+              cursor: 'pointer',
+              padding: '2px',
+              display: 'flex',
+              alignItems: 'center',
+            }}
+          >
+            <ChevronDown size={14} style={{ transform: isCollapsed ? 'rotate(-90deg)' : 'rotate(0deg)', transition: 'transform 0.15s' }} />
+          </button>
+          <span style={{ color: '#f2f2f2', fontSize: '13px', fontWeight: 500 }}>
+            {timerLabels[timerIndex] || `${timerIndex + 1}${timerIndex === 0 ? 'st' : timerIndex === 1 ? 'nd' : timerIndex === 2 ? 'rd' : 'th'} ${t('timer')}`}
+          </span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <ElementLayerFlagButtons element={element} onSetLayerFlag={onSetLayerFlag} />
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: 'transparent',
+              border: '1px solid #3a3a3a',
+              color: '#ff6b6b',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <X size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex < totalElements - 1) {
+                onMoveDown();
+              }
+            }}
+            disabled={unifiedIndex === totalElements - 1}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === totalElements - 1 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === totalElements - 1 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === totalElements - 1 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronDown size={12} />
+          </button>
+          <button
+            onClick={(e: MouseEvent<HTMLButtonElement>) => {
+              e.stopPropagation();
+              if (unifiedIndex > 0) {
+                onMoveUp();
+              }
+            }}
+            disabled={unifiedIndex === 0}
+            style={{
+              width: '24px',
+              height: '24px',
+              background: unifiedIndex === 0 ? '#252525' : '#2c2c2c',
+              border: '1px solid #3a3a3a',
+              color: unifiedIndex === 0 ? '#a0a0a0' : '#f2f2f2',
+              borderRadius: '4px',
+              cursor: unifiedIndex === 0 ? 'not-allowed' : 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              padding: '0',
+            }}
+          >
+            <ChevronUp size={12} />
+          </button>
+        </div>
+      </div>
+      
+      {/* Content */}
+      {!isCollapsed && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {/* Row 1: Mode | Format */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('timerMode')}
+              value={data.mode}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => {
+                  const current = (el.data as TimerElementData);
+                  const mode = value as TimerElementData['mode'];
+                  return {
+                    ...el,
+                    data: {
+                      ...current,
+                      mode,
+                      // Countdown needs a target; default to one hour from now
+                      targetTimestamp: mode === 'countdown'
+                        ? current.targetTimestamp ?? getDefaultCountdownTarget()
+                        : current.targetTimestamp,
+                    }
+                  };
+                });
+              }}
+              options={[
+                { value: 'countdown', label: t('timerModeCountdown') },
+                { value: 'stopwatch', label: t('timerModeStopwatch') },
+                { value: 'uptime', label: t('timerModeUptime') },
+              ]}
+              labelTooltipId={`timer-mode-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipTimerMode')}
+            />
+            <div className="setting-row">
+              <label 
+                data-tooltip-id={`timer-format-tooltip-${element.id}`}
+                data-tooltip-content={t('tooltipTimerFormat')}
+                style={{ cursor: 'help' }}
+              >
+                {t('timerFormat')}
+              </label>
+              <Tooltip id={`timer-format-tooltip-${element.id}`} />
+              <input
+                type="text"
+                style={inputStyle}
+                value={data.format}
+                onChange={(e) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as TimerElementData), format: e.target.value }
+                  }));
+                }}
+                placeholder="HH:mm:ss"
+                onFocus={(e) => {
+                  e.target.style.borderColor = '#8a2be2';
+                }}
+                onBlur={(e) => {
+                  e.target.style.borderColor = '#3a3a3a';
+                }}
+              />
+            </div>
+          </div>
+          
+          {isCountdown && (
+            <>
+              {/* Row 2: Target */}
+              <div className="setting-row">
+                <label>{t('timerTarget')}</label>
+                <input
+                  type="datetime-local"
+                  style={{ ...inputStyle, colorScheme: 'dark' }}
+                  value={toDateTimeLocalValue(data.targetTimestamp)}
+                  onChange={(e) => {
+                    if (!activePresetId) return;
+                    const targetTimestamp = new Date(e.target.value).getTime();
+                    if (!Number.isFinite(targetTimestamp)) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as TimerElementData), targetTimestamp }
+                    }));
+                  }}
+                />
+              </div>
+              
+              {/* Row 3: End Text | End Color */}
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                <div className="setting-row">
+                  <label 
+                    data-tooltip-id={`timer-end-text-tooltip-${element.id}`}
+                    data-tooltip-content={t('tooltipTimerEndText')}
+                    style={{ cursor: 'help' }}
+                  >
+                    {t('timerEndText')}
+                  </label>
+                  <Tooltip id={`timer-end-text-tooltip-${element.id}`} />
+                  <input
+                    type="text"
+                    style={inputStyle}
+                    value={data.endText ?? ''}
+                    onChange={(e) => {
+                      if (!activePresetId) return;
+                      onUpdateElement((el) => ({
+                        ...el,
+                        data: { ...(el.data as TimerElementData), endText: e.target.value || undefined }
+                      }));
+                    }}
+                    placeholder={t('timerEndTextPlaceholder')}
+                    onFocus={(e) => {
+                      e.target.style.borderColor = '#8a2be2';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.borderColor = '#3a3a3a';
+                    }}
+                  />
+                </div>
+                <OverlayField
+                  type="color"
+                  label={t('timerEndColor')}
+                  value={data.endColor || data.color}
+                  onChange={(color) => {
+                    if (!activePresetId) return;
+                    onUpdateElement((el) => ({
+                      ...el,
+                      data: { ...(el.data as TimerElementData), endColor: color }
+                    }));
+                  }}
+                />
+              </div>
+            </>
+          )}
+          
+          {/* Row 4: Font | Color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <FontSelectField
+              label={t('font')}
+              value={data.font}
+              onChange={(font) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as TimerElementData), font }
+                }));
+              }}
+            />
+            <div className="setting-row">
+              <label>{t('color')}</label>
+              <TabbedColorPicker
+                textColor={data.color || '#ffffff'}
+                outlineColor={data.outlineColor}
+                outlineThickness={data.outlineThickness ?? 0}
+                onTextColorChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as TimerElementData), color }
+                  }));
+                }}
+                onOutlineColorChange={(color) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as TimerElementData), outlineColor: color }
+                  }));
+                }}
+                onOutlineThicknessChange={(thickness) => {
+                  if (!activePresetId) return;
+                  onUpdateElement((el) => ({
+                    ...el,
+                    data: { ...(el.data as TimerElementData), outlineThickness: thickness }
+                  }));
+                }}
+              />
+            </div>
+          </div>
+          
+          {/* Row 5: Angle | Size */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('angle')}
+              value={element.angle ?? 0}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  angle: value
+                }));
+              }}
+              step={1}
+              min={0}
+              max={360}
+              labelTooltipId={`timer-angle-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipAngle')}
+            />
+            <OverlayField
+              type="number"
+              label={t('size')}
+              value={data.fontSize}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  data: { ...(el.data as TimerElementData), fontSize: Math.max(6, value) }
+                }));
+              }}
+              step={1}
+              min={6}
+              labelTooltipId={`timer-size-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipSize')}
+            />
+          </div>
+          
+          {/* Row 6: X Offset | Y Offset */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="number"
+              label={t('customXOffset')}
+              value={element.x}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  x: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`timer-xoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipXOffset')}
+            />
+            <OverlayField
+              type="number"
+              label={t('customYOffset')}
+              value={element.y}
+              onChange={(value) => {
+                if (!activePresetId) return;
+                onUpdateElement((el) => ({
+                  ...el,
+                  y: value
+                }));
+              }}
+              step={1}
+              labelTooltipId={`timer-yoffset-tooltip-${element.id}`}
+              labelTooltipContent={t('tooltipYOffset')}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
@@ -0,0 +1,143 @@
+import { useRef } from 'react';
+import type { ChangeEvent } from 'react';
+import { Tooltip } from 'react-tooltip';
+import type { BuiltInFont, OverlayFont } from '../../../types/overlay';
+import { useI18n } from '@/i18n/useI18n';
+import { fontToSelectValue, isCustomFontRef } from '../../../domain/fonts';
+import { useCustomFonts } from '../../../hooks/useCustomFonts';
+import { addCustomFont } from '../../../utils/fontRegistry';
+import { isSupportedFontFile, MAX_LOCAL_FONT_SIZE_BYTES, SUPPORTED_FONT_EXTENSIONS } from '../../../utils/localFontStore';
+
+/**
+ * Select value that opens the font file picker instead of selecting a font.
+ */
+const UPLOAD_OPTION_VALUE = '__upload__';
+
+interface FontSelectFieldProps {
+  label: string;
+  value: OverlayFont | undefined;
+  onChange: (font: OverlayFont | undefined) => void;
+  disabled?: boolean;
+  inheritLabel?: string; // If set, adds an empty option that maps to undefined (e.g. text spans)
+  labelTooltipId?: string;
+  labelTooltipContent?: string;
+}
+
+/**
+ * Font select shared by text, metric, clock, date and timer inspectors.
+ *
+ * Lists the built-in fonts and uploaded custom fonts, plus an "Upload font…"
+ * entry that stores a TTF/OTF/WOFF2 file and selects it. A referenced custom
+ * font that is not stored on this machine stays selectable and is marked missing.
+ */
+export default function FontSelectField({
+  label,
+  value,
+  onChange,
+  disabled = false,
+  inheritLabel,
+  labelTooltipId,
+  labelTooltipContent,
+}: FontSelectFieldProps) {
+  const t = useI18n();
+  const customFonts = useCustomFonts();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const builtInOptions: Array<{ value: BuiltInFont; label: string }> = [
+    { value: 'default', label: t('fontDefault') },
+    { value: 'digital', label: t('fontDigitalClock') },
+    { value: 'sans-serif', label: t('fontSansSerif') },
+    { value: 'serif', label: t('fontSerif') },
+    { value: 'monospace', label: t('fontMonospace') },
+  ];
+
+  const isMissing = isCustomFontRef(value) && !customFonts.some(font => font.hash === value.hash);
+  const selectValue = value === undefined && inheritLabel !== undefined ? '' : fontToSelectValue(value);
+
+  const handleSelectChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const selected = e.target.value;
+    if (selected === UPLOAD_OPTION_VALUE) {
+      fileInputRef.current?.click();
+      return;
+    }
+    if (selected === '') {
+      onChange(undefined);
+      return;
+    }
+    if (selected.startsWith('custom:')) {
+      const hash = selected.slice('custom:'.length);
+      const font = customFonts.find(f => f.hash === hash) ?? (isCustomFontRef(value) && value.hash === hash ? value : undefined);
+      if (font) {
+        onChange({ hash: font.hash, name: font.name });
+      }
+      return;
+    }
+    onChange(selected as BuiltInFont);
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_LOCAL_FONT_SIZE_BYTES) {
+      alert(t('customFontFileTooLarge'));
+      return;
+    }
+    if (!isSupportedFontFile(file)) {
+      alert(t('customFontUnsupportedType'));
+      return;
+    }
+
+    try {
+      onChange(await addCustomFont(file));
+    } catch {
+      alert(t('customFontSaveFailed'));
+    }
+  };
+
+  return (
+    <div className="setting-row">
+      <label
+        data-tooltip-id={labelTooltipId}
+        data-tooltip-content={labelTooltipContent}
+        style={{ cursor: labelTooltipId ? 'help' : 'default' }}
+      >
+        {label}
+      </label>
+      {labelTooltipId && <Tooltip id={labelTooltipId} />}
+      <select
+        className="url-input"
+        style={{ flex: 1, minWidth: 0 }}
+        value={selectValue}
+        onChange={handleSelectChange}
+        disabled={disabled}
+      >
+        {inheritLabel !== undefined && <option value="">{inheritLabel}</option>}
+        {builtInOptions.map(option => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+        {customFonts.map(font => (
+          <option key={font.hash} value={`custom:${font.hash}`}>
+            {font.name}
+          </option>
+        ))}
+        {isMissing && (
+          <option value={selectValue}>
+            {t('customFontMissing').replace('{name}', value.name)}
+          </option>
+        )}
+        <option value={UPLOAD_OPTION_VALUE}>{t('customFontUpload')}</option>
+      </select>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={SUPPORTED_FONT_EXTENSIONS.join(',')}
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+}
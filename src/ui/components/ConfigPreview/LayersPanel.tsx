@@ -0,0 +1,199 @@
+import type { DragEvent, MouseEvent } from 'react';
+import { useRef, useState } from 'react';
+import { GripVertical } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import type { OverlayElement } from '../../../types/overlay';
+import type { ElementLayerFlag } from '../../../state/overlay/actions';
+import { useI18n } from '@/i18n/useI18n';
+import { isGroupElement } from '../../../domain/elementGroups';
+import { MAX_ELEMENT_NAME_LENGTH } from '../../../domain/elementNames';
+import { ElementLayerFlagButtons } from './ElementCards/ElementLayerFlagButtons';
+
+interface LayersPanelProps {
+  elements: OverlayElement[]; // In z-order (back → front)
+  selectedIds: string[];
+  onSelect: (elementId: string, extendRange: boolean) => void;
+  onReorder: (elementId: string, newIndex: number) => void;
+  onRename: (elementId: string, name: string) => void;
+  onSetLayerFlag: (elementId: string, flag: ElementLayerFlag, value: boolean) => void;
+}
+
+interface DropTarget {
+  elementId: string;
+  inFront: boolean; // Drop above the row (in front of the element)
+}
+
+/**
+ * Layers panel: all elements, front-most first.
+ *
+ * - Click selects, Shift+click selects the z-order range from the last selected layer
+ * - Drag a row to change its z-order (groups move with their children)
+ * - Double-click a name to rename it (empty name = default label)
+ */
+export default function LayersPanel({
+  elements,
+  selectedIds,
+  onSelect,
+  onReorder,
+  onRename,
+  onSetLayerFlag,
+}: LayersPanelProps) {
+  const t = useI18n();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [editing, setEditing] = useState<{ elementId: string; value: string } | null>(null);
+  const cancelRenameRef = useRef(false);
+
+  const parentById = new Map<string, string>();
+  elements.forEach(element => {
+    if (isGroupElement(element)) element.data.childIds.forEach(childId => parentById.set(childId, element.id));
+  });
+  const getDepth = (elementId: string): number => {
+    const parentId = parentById.get(elementId);
+    return parentId ? getDepth(parentId) + 1 : 0;
+  };
+
+  const getDefaultLabel = (element: OverlayElement): string => {
+    const sameType = elements.filter(el => el.type === element.type);
+    return `${t(element.type)} ${sameType.findIndex(el => el.id === element.id) + 1}`;
+  };
+
+  // Enter and Escape blur the input; Escape discards the edit
+  const finishRename = () => {
+    if (editing && !cancelRenameRef.current) {
+      onRename(editing.elementId, editing.value);
+    }
+    cancelRenameRef.current = false;
+    setEditing(null);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, elementId: string) => {
+    if (!draggingId || draggingId === elementId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const inFront = e.clientY < rect.top + rect.height / 2;
+    if (dropTarget?.elementId !== elementId || dropTarget.inFront !== inFront) {
+      setDropTarget({ elementId, inFront });
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (draggingId && dropTarget) {
+      const fromIndex = elements.findIndex(el => el.id === draggingId);
+      const targetIndex = elements.findIndex(el => el.id === dropTarget.elementId);
+      // zOrder.reorder removes the element first, so targets after it shift down by one
+      const newIndex = dropTarget.inFront
+        ? (fromIndex < targetIndex ? targetIndex : targetIndex + 1)
+        : (fromIndex < targetIndex ? targetIndex - 1 : targetIndex);
+      onReorder(draggingId, newIndex);
+    }
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div style={{
+      marginBottom: '12px',
+      padding: '12px',
+      background: '#242424',
+      borderRadius: '6px',
+      border: '1px solid rgba(255, 255, 255, 0.04)',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '2px',
+    }}>
+      <span
+        data-tooltip-id="layers-panel-tooltip"
+        data-tooltip-content={t('tooltipLayers')}
+        style={{ fontSize: '12px', color: '#a0a0a0', cursor: 'help', marginBottom: '6px' }}
+      >
+        {t('layers')}
+      </span>
+      <Tooltip id="layers-panel-tooltip" />
+
+      {[...elements].reverse().map(element => {
+        const isSelected = selectedIds.includes(element.id);
+        const isEditing = editing?.elementId === element.id;
+        const isDropTarget = dropTarget?.elementId === element.id;
+
+        return (
+          <div
+            key={element.id}
+            draggable={!isEditing}
+            onDragStart={(e: DragEvent<HTMLDivElement>) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggingId(element.id);
+            }}
+            onDragOver={(e) => handleDragOver(e, element.id)}
+            onDrop={handleDrop}
+            onDragEnd={() => {
+              setDraggingId(null);
+              setDropTarget(null);
+            }}
+            onClick={(e: MouseEvent<HTMLDivElement>) => onSelect(element.id, e.shiftKey)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              padding: '4px 6px',
+              paddingLeft: `${6 + getDepth(element.id) * 14}px`,
+              borderRadius: '4px',
+              background: isSelected ? '#3a2c4a' : 'transparent',
+              borderTop: isDropTarget && dropTarget.inFront ? '2px solid #8a2be2' : '2px solid transparent',
+              borderBottom: isDropTarget && !dropTarget.inFront ? '2px solid #8a2be2' : '2px solid transparent',
+              opacity: draggingId === element.id ? 0.5 : (element.hidden ? 0.6 : 1),
+              cursor: 'pointer',
+              userSelect: 'none',
+            }}
+          >
+            <GripVertical size={12} color="#a0a0a0" style={{ flexShrink: 0, cursor: 'grab' }} />
+            {isEditing ? (
+              <input
+                type="text"
+                className="url-input"
+                autoFocus
+                aria-label={t('layerRename')}
+                value={editing.value}
+                maxLength={MAX_ELEMENT_NAME_LENGTH}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setEditing({ elementId: element.id, value: e.target.value })}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' || e.key === 'Escape') {
+                    cancelRenameRef.current = e.key === 'Escape';
+                    e.currentTarget.blur();
+                  }
+                }}
+                style={{ flex: 1, minWidth: 0, height: '22px', fontSize: '12px' }}
+              />
+            ) : (
+              <span
+                title={t('layerRename')}
+                onDoubleClick={(e: MouseEvent<HTMLSpanElement>) => {
+                  e.stopPropagation();
+                  setEditing({ elementId: element.id, value: element.name ?? '' });
+                }}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                  fontSize: '12px',
+                  color: element.name ? '#f2f2f2' : '#a0a0a0',
+                }}
+              >
+                {element.name ?? getDefaultLabel(element)}
+              </span>
+            )}
+            <ElementLayerFlagButtons
+              element={element}
+              onSetLayerFlag={(flag, value) => onSetLayerFlag(element.id, flag, value)}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
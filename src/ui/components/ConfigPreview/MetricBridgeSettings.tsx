@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Tooltip } from 'react-tooltip';
+import { useI18n } from '@/i18n/useI18n';
+import {
+  getMetricBridgeConfig,
+  getMetricBridgeStatus,
+  setMetricBridgeConfig,
+  subscribeMetricBridge,
+  type MetricBridgeStatus,
+} from '../../../utils/metricBridge';
+import { useCustomMetrics } from '../../../hooks/useCustomMetrics';
+
+const STATUS_LABEL_KEYS: Record<MetricBridgeStatus, string> = {
+  disabled: 'metricBridgeDisabled',
+  invalidUrl: 'metricBridgeInvalidUrl',
+  connecting: 'metricBridgeConnecting',
+  connected: 'metricBridgeConnected',
+  reconnecting: 'metricBridgeReconnecting',
+};
+
+const STATUS_COLORS: Record<MetricBridgeStatus, string> = {
+  disabled: '#a0a0a0',
+  invalidUrl: '#ff6b6b',
+  connecting: '#ffc107',
+  connected: '#4caf50',
+  reconnecting: '#ffc107',
+};
+
+/**
+ * External metric bridge settings for the overlay preview.
+ *
+ * - URL: ws:// or wss:// endpoint on a loopback host (applied on blur / Enter)
+ * - Switch: Enables the bridge on this page and the Kraken LCD page
+ * - Status: Connection state and number of custom metrics received
+ */
+export default function MetricBridgeSettings() {
+  const t = useI18n();
+  const customMetrics = useCustomMetrics();
+  const [config, setConfig] = useState(() => getMetricBridgeConfig());
+  const [urlDraft, setUrlDraft] = useState(config.url);
+  const [status, setStatus] = useState<MetricBridgeStatus>(() => getMetricBridgeStatus());
+
+  useEffect(() => {
+    const unsubscribe = subscribeMetricBridge(() => setStatus(getMetricBridgeStatus()));
+    // Status may have changed between render and subscribe
+    setStatus(getMetricBridgeStatus());
+    return unsubscribe;
+  }, []);
+
+  const applyConfig = (enabled: boolean, url: string) => {
+    const next = { enabled, url: url.trim() };
+    setConfig(next);
+    setUrlDraft(next.url);
+    setMetricBridgeConfig(next);
+  };
+
+  const metricCount = Object.keys(customMetrics).length;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', width: '100%', marginTop: '8px' }}>
+      <div className="setting-row" style={{ margin: 0, width: '100%' }}>
+        <label
+          data-tooltip-id="metric-bridge-tooltip"
+          data-tooltip-content={t('tooltipMetricBridge')}
+          style={{ fontSize: '12px', color: '#a0a0a0', whiteSpace: 'nowrap', cursor: 'help' }}
+        >
+          {t('metricBridge')}
+        </label>
+        <Tooltip id="metric-bridge-tooltip" />
+        <input
+          type="text"
+          className="url-input"
+          style={{ flex: 1, minWidth: 0 }}
+          value={urlDraft}
+          placeholder="ws://localhost:8765"
+          onChange={(e) => setUrlDraft(e.target.value)}
+          onBlur={() => {
+            if (urlDraft.trim() !== config.url) {
+              applyConfig(config.enabled, urlDraft);
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.currentTarget.blur();
+            }
+          }}
+        />
+        <label className="switch">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={(e) => applyConfig(e.target.checked, urlDraft)}
+          />
+          <span className="slider" />
+        </label>
+      </div>
+      {config.enabled && (
+        <div style={{ fontSize: '11px', color: STATUS_COLORS[status] }}>
+          {t(STATUS_LABEL_KEYS[status])}
+          {status === 'connected' && ` · ${t('metricBridgeMetricCount').replace('{count}', String(metricCount))}`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Tooltip } from 'react-tooltip';
+import type { MetricNoDataStyle } from '../../../types/overlay';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from './OverlayField';
+import { DEFAULT_NO_DATA_TEXT, MAX_NO_DATA_TEXT_LENGTH } from '../../../domain/metricFreshness';
+
+interface MetricNoDataFieldsProps {
+  elementId: string;
+  noDataStyle: MetricNoDataStyle | undefined;
+  noDataText: string | undefined;
+  onChange: (patch: { noDataStyle?: MetricNoDataStyle; noDataText?: string }) => void;
+}
+
+/**
+ * No data | Placeholder row of the metric inspector.
+ * The placeholder input is hidden for styles that never show it (dim, hide).
+ */
+export default function MetricNoDataFields({
+  elementId,
+  noDataStyle,
+  noDataText,
+  onChange,
+}: MetricNoDataFieldsProps) {
+  const t = useI18n();
+  const style = noDataStyle ?? 'auto';
+  const usesPlaceholder = style === 'auto' || style === 'placeholder';
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+      <OverlayField
+        type="select"
+        label={t('metricNoData')}
+        value={style}
+        onChange={(value) => {
+          const next = value as MetricNoDataStyle;
+          onChange({ noDataStyle: next === 'auto' ? undefined : next, noDataText });
+        }}
+        options={[
+          { value: 'auto', label: t('metricNoDataAuto') },
+          { value: 'placeholder', label: t('metricNoDataPlaceholder') },
+          { value: 'dim', label: t('metricNoDataDim') },
+          { value: 'hide', label: t('metricNoDataHide') },
+        ]}
+        labelTooltipId={`metric-no-data-tooltip-${elementId}`}
+        labelTooltipContent={t('tooltipMetricNoData')}
+      />
+      {usesPlaceholder && (
+        <div className="setting-row" style={{ margin: 0 }}>
+          <label
+            data-tooltip-id={`metric-no-data-text-tooltip-${elementId}`}
+            data-tooltip-content={t('tooltipMetricNoDataText')}
+            style={{ cursor: 'help' }}
+          >
+            {t('metricNoDataText')}
+          </label>
+          <Tooltip id={`metric-no-data-text-tooltip-${elementId}`} />
+          <input
+            type="text"
+            className="url-input"
+            style={{ flex: 1, minWidth: 0 }}
+            value={noDataText ?? ''}
+            maxLength={MAX_NO_DATA_TEXT_LENGTH}
+            placeholder={DEFAULT_NO_DATA_TEXT}
+            onChange={(e) => onChange({ noDataStyle, noDataText: e.target.value === '' ? undefined : e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
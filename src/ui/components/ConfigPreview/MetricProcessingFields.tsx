@@ -0,0 +1,79 @@
+import type { MetricProcessing, MetricProcessingMode } from '../../../types/overlay';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from './OverlayField';
+import {
+  DEFAULT_PEAK_DECAY_PER_SECOND,
+  DEFAULT_PROCESSING_WINDOW_SECONDS,
+  MAX_PROCESSING_WINDOW_SECONDS,
+} from '../../../domain/metricProcessing';
+
+interface MetricProcessingFieldsProps {
+  elementId: string;
+  processing: MetricProcessing | undefined;
+  onChange: (processing: MetricProcessing | undefined) => void;
+}
+
+/**
+ * Processing | Window | Decay row shared by metric, graph, gauge and bar inspectors.
+ * Window is shown for EMA, average and peak hold; decay for peak hold only.
+ */
+export default function MetricProcessingFields({
+  elementId,
+  processing,
+  onChange,
+}: MetricProcessingFieldsProps) {
+  const t = useI18n();
+  const mode = processing?.mode ?? 'raw';
+  const usesWindow = mode === 'ema' || mode === 'average' || mode === 'peakHold';
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+      <OverlayField
+        type="select"
+        label={t('metricProcessing')}
+        value={mode}
+        onChange={(value) => {
+          const nextMode = value as MetricProcessingMode;
+          onChange(nextMode === 'raw' ? undefined : { ...processing, mode: nextMode });
+        }}
+        options={[
+          { value: 'raw', label: t('metricProcessingRaw') },
+          { value: 'ema', label: t('metricProcessingEma') },
+          { value: 'average', label: t('metricProcessingAverage') },
+          { value: 'min', label: t('metricProcessingMin') },
+          { value: 'max', label: t('metricProcessingMax') },
+          { value: 'peakHold', label: t('metricProcessingPeakHold') },
+        ]}
+        labelTooltipId={`metric-processing-tooltip-${elementId}`}
+        labelTooltipContent={t('tooltipMetricProcessing')}
+      />
+      {usesWindow && processing && (
+        <OverlayField
+          type="number"
+          label={t(mode === 'peakHold' ? 'metricProcessingHold' : 'metricProcessingWindow')}
+          value={processing.windowSeconds ?? DEFAULT_PROCESSING_WINDOW_SECONDS}
+          onChange={(value) => {
+            onChange({ ...processing, windowSeconds: Math.max(1, Math.min(MAX_PROCESSING_WINDOW_SECONDS, value)) });
+          }}
+          step={1}
+          min={1}
+          max={MAX_PROCESSING_WINDOW_SECONDS}
+          labelTooltipId={`metric-processing-window-tooltip-${elementId}`}
+          labelTooltipContent={t(mode === 'peakHold' ? 'tooltipMetricProcessingHold' : 'tooltipMetricProcessingWindow')}
+        />
+      )}
+      {mode === 'peakHold' && processing && (
+        <OverlayField
+          type="number"
+          label={t('metricProcessingDecay')}
+          value={processing.decayPerSecond ?? DEFAULT_PEAK_DECAY_PER_SECOND}
+          onChange={(value) => onChange({ ...processing, decayPerSecond: Math.max(1, value) })}
+          step={1}
+          min={1}
+          labelTooltipId={`metric-processing-decay-tooltip-${elementId}`}
+          labelTooltipContent={t('tooltipMetricProcessingDecay')}
+        />
+      )}
+    </div>
+  );
+}
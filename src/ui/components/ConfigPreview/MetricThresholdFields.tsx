@@ -0,0 +1,171 @@
+import type { MouseEvent } from 'react';
+import { X } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import type { MetricElementData, MetricThresholdComparison, MetricThresholdRule } from '../../../types/overlay';
+import { MAX_METRIC_THRESHOLDS } from '../../../domain/metricThresholds';
+import { getMetricDefaultRange } from '../../../domain/metrics';
+import { useI18n } from '@/i18n/useI18n';
+import OverlayField from './OverlayField';
+
+interface MetricThresholdFieldsProps {
+  elementId: string;
+  data: MetricElementData;
+  disabled?: boolean;
+  onChange: (thresholds: MetricThresholdRule[] | undefined) => void;
+}
+
+/**
+ * Threshold rule list for the metric inspector.
+ * Each rule: When | Value | remove, then Number | Text | Outline color, then Blink | Visibility.
+ * Unset rule colors show the element's own color until changed.
+ */
+export default function MetricThresholdFields({
+  elementId,
+  data,
+  disabled = false,
+  onChange,
+}: MetricThresholdFieldsProps) {
+  const t = useI18n();
+  const rules = data.thresholds ?? [];
+  const canAddRule = !disabled && rules.length < MAX_METRIC_THRESHOLDS;
+
+  const updateRule = (ruleIndex: number, patch: Partial<MetricThresholdRule>) => {
+    onChange(rules.map((rule, i) => (i === ruleIndex ? { ...rule, ...patch } : rule)));
+  };
+
+  const addRule = () => {
+    // New rules start at 80% of the metric's default range with a red number
+    const { min, max } = getMetricDefaultRange(data.metric);
+    onChange([...rules, { comparison: 'gte', value: Math.round(min + (max - min) * 0.8), numberColor: '#ff3b30' }]);
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      {rules.map((rule, ruleIndex) => (
+        <div key={ruleIndex} style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <span style={{ color: '#a0a0a0', fontSize: '12px' }}>
+              {t('metricThreshold')} {ruleIndex + 1}
+            </span>
+            <button
+              onClick={(e: MouseEvent<HTMLButtonElement>) => {
+                e.stopPropagation();
+                const next = rules.filter((_, i) => i !== ruleIndex);
+                onChange(next.length > 0 ? next : undefined);
+              }}
+              disabled={disabled}
+              style={{
+                width: '20px',
+                height: '20px',
+                background: 'transparent',
+                border: '1px solid #3a3a3a',
+                color: '#ff6b6b',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                padding: '0',
+              }}
+            >
+              <X size={10} />
+            </button>
+          </div>
+
+          {/* When | Value */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('metricThresholdWhen')}
+              value={rule.comparison}
+              onChange={(value) => updateRule(ruleIndex, { comparison: value as MetricThresholdComparison })}
+              options={[
+                { value: 'gte', label: '≥' },
+                { value: 'lte', label: '≤' },
+              ]}
+              labelTooltipId={`metric-threshold-when-tooltip-${elementId}-${ruleIndex}`}
+              labelTooltipContent={t('tooltipMetricThresholdWhen')}
+            />
+            <OverlayField
+              type="number"
+              label={t('metricThresholdValue')}
+              value={rule.value}
+              onChange={(value) => updateRule(ruleIndex, { value })}
+              step={1}
+            />
+          </div>
+
+          {/* Number | Text | Outline color */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="color"
+              label={t('metricThresholdNumberColor')}
+              value={rule.numberColor ?? data.numberColor}
+              onChange={(numberColor) => updateRule(ruleIndex, { numberColor })}
+            />
+            <OverlayField
+              type="color"
+              label={t('metricThresholdTextColor')}
+              value={rule.textColor ?? data.textColor}
+              onChange={(textColor) => updateRule(ruleIndex, { textColor })}
+            />
+            <OverlayField
+              type="color"
+              label={t('metricThresholdOutlineColor')}
+              value={rule.outlineColor ?? data.outlineColor}
+              onChange={(outlineColor) => updateRule(ruleIndex, { outlineColor })}
+            />
+          </div>
+
+          {/* Blink | Visibility */}
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            <OverlayField
+              type="select"
+              label={t('metricThresholdBlink')}
+              value={rule.blink ? 'on' : 'off'}
+              onChange={(value) => updateRule(ruleIndex, { blink: value === 'on' || undefined })}
+              options={[
+                { value: 'off', label: t('metricThresholdBlinkOff') },
+                { value: 'on', label: t('metricThresholdBlinkOn') },
+              ]}
+            />
+            <OverlayField
+              type="select"
+              label={t('metricThresholdVisibility')}
+              value={rule.hidden ? 'hidden' : 'shown'}
+              onChange={(value) => updateRule(ruleIndex, { hidden: value === 'hidden' || undefined })}
+              options={[
+                { value: 'shown', label: t('metricThresholdShown') },
+                { value: 'hidden', label: t('metricThresholdHidden') },
+              ]}
+            />
+          </div>
+        </div>
+      ))}
+
+      {/* Add rule */}
+      <button
+        onClick={(e: MouseEvent<HTMLButtonElement>) => {
+          e.stopPropagation();
+          addRule();
+        }}
+        disabled={!canAddRule}
+        data-tooltip-id={`metric-thresholds-tooltip-${elementId}`}
+        data-tooltip-content={t('tooltipMetricThresholds')}
+        style={{
+          height: '26px',
+          padding: '0 10px',
+          background: '#2c2c2c',
+          border: '1px solid #3a3a3a',
+          color: canAddRule ? '#f2f2f2' : '#a0a0a0',
+          borderRadius: '4px',
+          fontSize: '12px',
+          cursor: canAddRule ? 'pointer' : 'not-allowed',
+        }}
+      >
+        {t('addMetricThreshold')}
+      </button>
+      <Tooltip id={`metric-thresholds-tooltip-${elementId}`} />
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent, MouseEvent } from 'react';
+import { ChevronDown, ChevronRight, Circle, Square } from 'lucide-react';
+import { Tooltip } from 'react-tooltip';
+import { useI18n } from '@/i18n/useI18n';
+import type { OverlayMetricKey } from '../../../types/overlay';
+import { safeNZXT } from '../../../nzxt/safeNZXT';
+import { createSimulatorSource, SIMULATION_PROFILES, type SimulationProfile } from '../../../nzxt/monitoringSimulator';
+import {
+  createReplaySource,
+  getMonitoringSessionFileName,
+  parseMonitoringSession,
+  serializeMonitoringSession,
+  REPLAY_SPEEDS,
+  type MonitoringSession,
+} from '../../../nzxt/monitoringSession';
+import { startMonitoringRecording, MAX_RECORDED_SAMPLES, type MonitoringRecorder } from '../../../nzxt/monitoringRecorder';
+import { useMonitoringSource } from '../../../hooks/useMonitoringSource';
+import { useMonitoringStatus } from '../../../hooks/useMonitoringStatus';
+import { useMetricFreshness } from '../../../hooks/useMetricFreshness';
+import { MONITORING_STALE_TIMEOUT_MS } from '../../../utils/monitoringFreshness';
+
+/**
+ * Select value that opens the session file picker instead of selecting a source.
+ */
+const REPLAY_FILE_OPTION_VALUE = '__replay_file__';
+
+const PROFILE_LABEL_KEYS: Record<SimulationProfile, string> = {
+  sine: 'monitoringSourceSine',
+  randomWalk: 'monitoringSourceRandomWalk',
+  stress: 'monitoringSourceStress',
+};
+
+/**
+ * Short profile labels for the per-metric selects.
+ */
+const METRIC_PROFILE_LABEL_KEYS: Record<SimulationProfile, string> = {
+  sine: 'simulationProfileSine',
+  randomWalk: 'simulationProfileRandomWalk',
+  stress: 'simulationProfileStress',
+};
+
+/**
+ * Simulated metrics (UI order) and their labels.
+ */
+const METRIC_LABEL_KEYS: Record<OverlayMetricKey, string> = {
+  cpuTemp: 'metricCpuTemp',
+  cpuLoad: 'metricCpuLoad',
+  cpuClock: 'metricCpuClock',
+  cpuPower: 'metricCpuPower',
+  gpuTemp: 'metricGpuTemp',
+  gpuLoad: 'metricGpuLoad',
+  gpuClock: 'metricGpuClock',
+  gpuPower: 'metricGpuPower',
+  gpuFan: 'metricGpuFan',
+  vramLoad: 'metricVramLoad',
+  vramUsed: 'metricVramUsed',
+  ramLoad: 'metricRamLoad',
+  ramUsed: 'metricRamUsed',
+  liquidTemp: 'metricLiquidTemp',
+  pumpSpeed: 'metricPumpSpeed',
+  fanSpeed: 'metricFanSpeed',
+};
+
+type MetricProfiles = Partial<Record<OverlayMetricKey, SimulationProfile>>;
+
+/**
+ * Downloads a recorded session as a JSON file.
+ */
+function downloadSession(session: MonitoringSession): void {
+  const blob = new Blob([serializeMonitoringSession(session)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = getMonitoringSessionFileName(session);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Monitoring data controls for the overlay preview.
+ *
+ * - Source: "NZXT CAM" uses real monitoring data (or the built-in mock values
+ *   in a browser); simulator profiles and session replay feed payloads through
+ *   safeNZXT.setMonitoringSource(), the same path as real CAM data
+ * - Per-metric patterns: Simulator profile overrides for single metrics, shown
+ *   while the simulator runs (kept when switching profiles)
+ * - Speed: Replay rate (1x/2x/10x), shown while a session is replayed
+ * - Record: Captures delivered payloads and downloads them as a session file
+ * - Status: NZXT CAM subscription problems (API not injected, updates stalled)
+ */
+export default function MonitoringSourceControls() {
+  const t = useI18n();
+  const source = useMonitoringSource();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MonitoringRecorder | null>(null);
+  const [replay, setReplay] = useState<{ session: MonitoringSession; fileName: string; speed: number } | null>(null);
+  const [recordedSamples, setRecordedSamples] = useState<number | null>(null);
+  const [metricProfiles, setMetricProfiles] = useState<MetricProfiles>({});
+  const [showMetricProfiles, setShowMetricProfiles] = useState(false);
+
+  const monitoringStatus = useMonitoringStatus();
+  const freshness = useMetricFreshness();
+
+  const isReplaying = source?.id === 'replay' && replay !== null;
+  const statusMessage = source !== null
+    ? (monitoringStatus === 'unavailable' ? t('monitoringStatusSourceFailed') : null)
+    : monitoringStatus === 'waiting'
+    ? t('monitoringStatusWaiting')
+    : monitoringStatus === 'unavailable'
+    ? t('monitoringStatusUnavailable')
+    : Object.values(freshness).includes('stale')
+    ? t('monitoringStatusStalled').replace('{seconds}', String(MONITORING_STALE_TIMEOUT_MS / 1000))
+    : null;
+  const selectValue = source === null ? 'live' : source.id;
+  const simulatorProfile = SIMULATION_PROFILES.find(p => `simulator:${p}` === source?.id) ?? null;
+
+  // Unmounting discards a running recording
+  useEffect(() => () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+  }, []);
+
+  const startReplay = (session: MonitoringSession, fileName: string, speed: number) => {
+    safeNZXT.setMonitoringSource(createReplaySource(session, { speed }));
+    setReplay({ session, fileName, speed });
+  };
+
+  const handleSelectChange = (e: ChangeEvent<HTMLSelectElement>) => {
+    const selected = e.target.value;
+    if (selected === REPLAY_FILE_OPTION_VALUE) {
+      fileInputRef.current?.click();
+      return;
+    }
+    if (selected === 'live') {
+      safeNZXT.setMonitoringSource(null);
+      return;
+    }
+    const profile = SIMULATION_PROFILES.find(p => `simulator:${p}` === selected);
+    if (profile) {
+      safeNZXT.setMonitoringSource(createSimulatorSource({ profile, metricProfiles }));
+    }
+  };
+
+  // Restarts the running simulator with the new overrides
+  const handleMetricProfileChange = (key: OverlayMetricKey, value: string) => {
+    const profile = SIMULATION_PROFILES.find(p => p === value);
+    const next: MetricProfiles = { ...metricProfiles };
+    if (profile) {
+      next[key] = profile;
+    } else {
+      delete next[key];
+    }
+    setMetricProfiles(next);
+    if (simulatorProfile) {
+      safeNZXT.setMonitoringSource(createSimulatorSource({ profile: simulatorProfile, metricProfiles: next }));
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      startReplay(parseMonitoringSession(await file.text()), file.name, replay?.speed ?? 1);
+    } catch (error) {
+      alert(`${t('monitoringSessionInvalid')}${error instanceof Error ? ` (${error.message})` : ''}`);
+    }
+  };
+
+  const handleRecordClick = (e: MouseEvent<HTMLButtonElement>) => {
+    e.stopPropagation();
+    if (recorderRef.current) {
+      const session = recorderRef.current.stop();
+      recorderRef.current = null;
+      setRecordedSamples(null);
+      if (session.samples.length > 0) {
+        downloadSession(session);
+      } else {
+        alert(t('monitoringRecordingEmpty'));
+      }
+      return;
+    }
+    recorderRef.current = startMonitoringRecording(setRecordedSamples);
+    setRecordedSamples(0);
+  };
+
+  const isRecording = recordedSamples !== null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', width: '100%' }}>
+      <div className="setting-row" style={{ margin: 0, width: '100%' }}>
+        <label
+          data-tooltip-id="monitoring-source-tooltip"
+          data-tooltip-content={t('tooltipMonitoringSource')}
+          style={{ fontSize: '12px', color: '#a0a0a0', whiteSpace: 'nowrap', cursor: 'help' }}
+        >
+          {t('monitoringSource')}
+        </label>
+        <Tooltip id="monitoring-source-tooltip" />
+        <select
+          className="url-input"
+          style={{ flex: 1, minWidth: 0 }}
+          value={selectValue}
+          onChange={handleSelectChange}
+        >
+          <option value="live">{t('monitoringSourceLive')}</option>
+          {SIMULATION_PROFILES.map(profile => (
+            <option key={profile} value={`simulator:${profile}`}>
+              {t(PROFILE_LABEL_KEYS[profile])}
+            </option>
+          ))}
+          {source?.id === 'replay' && (
+            <option value="replay">
+              {t('monitoringSourceReplay').replace('{name}', replay?.fileName ?? '')}
+            </option>
+          )}
+          <option value={REPLAY_FILE_OPTION_VALUE}>{t('monitoringSourceReplayFile')}</option>
+        </select>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {statusMessage && (
+        <div style={{ fontSize: '11px', color: '#ffc107' }}>{statusMessage}</div>
+      )}
+
+      {simulatorProfile && (
+        <>
+          <button
+            onClick={() => setShowMetricProfiles(show => !show)}
+            data-tooltip-id="monitoring-metric-profiles-tooltip"
+            data-tooltip-content={t('tooltipMonitoringSimulatorMetricProfiles')}
+            style={{
+              alignSelf: 'flex-start',
+              padding: 0,
+              background: 'none',
+              border: 'none',
+              color: '#a0a0a0',
+              fontSize: '12px',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+            }}
+          >
+            {showMetricProfiles ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+            {t('monitoringSimulatorMetricProfiles').replace('{count}', String(Object.keys(metricProfiles).length))}
+          </button>
+          <Tooltip id="monitoring-metric-profiles-tooltip" />
+          {showMetricProfiles && (
+            <div style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', alignItems: 'center', gap: '4px 8px' }}>
+              {(Object.keys(METRIC_LABEL_KEYS) as OverlayMetricKey[]).map(key => (
+                <label key={key} style={{ display: 'contents' }}>
+                  <span style={{ fontSize: '12px', color: '#a0a0a0', whiteSpace: 'nowrap' }}>
+                    {t(METRIC_LABEL_KEYS[key])}
+                  </span>
+                  <select
+                    className="url-input"
+                    style={{ minWidth: 0 }}
+                    value={metricProfiles[key] ?? ''}
+                    onChange={(e) => handleMetricProfileChange(key, e.target.value)}
+                  >
+                    <option value="">
+                      {`${t('simulationProfileDefault')} (${t(METRIC_PROFILE_LABEL_KEYS[simulatorProfile])})`}
+                    </option>
+                    {SIMULATION_PROFILES.map(profile => (
+                      <option key={profile} value={profile}>{t(METRIC_PROFILE_LABEL_KEYS[profile])}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        {isReplaying && (
+          <select
+            className="url-input"
+            style={{ width: '64px' }}
+            value={String(replay.speed)}
+            onChange={(e) => startReplay(replay.session, replay.fileName, Number(e.target.value))}
+            data-tooltip-id="monitoring-replay-speed-tooltip"
+            data-tooltip-content={t('tooltipMonitoringReplaySpeed')}
+          >
+            {REPLAY_SPEEDS.map(speed => (
+              <option key={speed} value={String(speed)}>{speed}x</option>
+            ))}
+          </select>
+        )}
+        {isReplaying && <Tooltip id="monitoring-replay-speed-tooltip" />}
+        <button
+          onClick={handleRecordClick}
+          data-tooltip-id="monitoring-record-tooltip"
+          data-tooltip-content={t(isRecording ? 'tooltipMonitoringRecordStop' : 'tooltipMonitoringRecord')}
+          style={{
+            height: '26px',
+            padding: '0 10px',
+            background: '#2c2c2c',
+            border: '1px solid #3a3a3a',
+            color: '#f2f2f2',
+            borderRadius: '4px',
+            fontSize: '12px',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+          }}
+        >
+          {isRecording ? <Square size={10} fill="#ff6b6b" color="#ff6b6b" /> : <Circle size={10} fill="#ff6b6b" color="#ff6b6b" />}
+          {isRecording
+            ? t('monitoringRecordStop')
+                .replace('{count}', String(recordedSamples))
+                .replace('{max}', String(MAX_RECORDED_SAMPLES))
+            : t('monitoringRecord')}
+        </button>
+        <Tooltip id="monitoring-record-tooltip" />
+      </div>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ interface OverlayFieldProps {
   tooltipContent?: string; // Optional tooltip content
   labelTooltipId?: string; // Optional tooltip ID for label
   labelTooltipContent?: string; // Optional tooltip content for label
+  disabled?: boolean; // Disables the select dropdown
 }
 
 /**
@@ -47,6 +48,7 @@ export default function OverlayField({
   tooltipContent,
   labelTooltipId,
   labelTooltipContent,
+  disabled = false,
 }: OverlayFieldProps) {
   return (
     <div className="setting-row">
@@ -89,6 +91,7 @@ export default function OverlayField({
           className={className ? `url-input ${className}` : 'url-input'}
           value={value ?? ''}
           onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
         >
           {options?.map(opt => (
             <option key={opt.value} value={opt.value}>
@@ -7,8 +7,13 @@ import { lcdToPreview } from '../../../utils/positioning';
 import { screenToLcd } from '../../../transform/engine/CoordinateSystem';
 import type { AlignmentGuide } from '../../../utils/snapping';
 import { canResizeElement } from '../../../utils/resize';
+import { isElementPickable } from './helpers/selectionHelpers';
+import { getGroupedElementIds, getHiddenGroupDescendantIds } from '../../../domain/elementGroups';
 import { RotateCw } from 'lucide-react';
 import BackgroundMediaRenderer from './BackgroundMediaRenderer';
+import MonitoringSourceControls from './MonitoringSourceControls';
+import MetricBridgeSettings from './MetricBridgeSettings';
+import { useMonitoringSource } from '../../../hooks/useMonitoringSource';
 import { 
   calculateAABB,
   isPointInRotatedBoundingBox,
@@ -39,6 +44,7 @@ interface OverlayPreviewProps {
   selectedElementId: string | null;
   selectedIds?: string[];
   onElementMouseDown: (elementId: string, e: React.MouseEvent) => void;
+  onElementSelect: (elementId: string) => void; // Select without starting a drag (locked elements)
   activeGuides: AlignmentGuide[];
   resizingElementId: string | null;
   onResizeMouseDown: (elementId: string, handle: ResizeHandle, e: React.MouseEvent) => void;
@@ -76,6 +82,7 @@ export default function OverlayPreview({
   selectedElementId,
   selectedIds: selectedIdsProp,
   onElementMouseDown,
+  onElementSelect,
   activeGuides,
   resizingElementId,
   onResizeMouseDown,
@@ -92,6 +99,11 @@ export default function OverlayPreview({
   setOverlayBackgroundOpacity,
 }: OverlayPreviewProps) {
   const t = useI18n();
+  const isSimulatedData = useMonitoringSource() !== null;
+  const overlayElements = Array.isArray(overlayConfig.elements) ? overlayConfig.elements : [];
+  // Grouped elements are picked through their group (the group hit area covers them)
+  const groupedIds = getGroupedElementIds(overlayElements);
+  const hiddenByGroup = getHiddenGroupDescendantIds(overlayElements);
   return (
     <div className="preview-column">
       {overlayConfig.mode !== 'none' ? (
@@ -260,6 +272,9 @@ export default function OverlayPreview({
             {overlayConfig.mode === 'custom' && Array.isArray(overlayConfig.elements) && overlayConfig.elements.length > 0 && (
               <>
                 {overlayConfig.elements.map((element) => {
+                  // Hidden layers (and children of hidden groups) are not drawn, so they get no hit area or handles
+                  if (element.hidden || hiddenByGroup.has(element.id)) return null;
+                  
                   const elementX = lcdToPreview(element.x, offsetScale);
                   const elementY = lcdToPreview(element.y, offsetScale);
                   const isDraggingThis = draggingElementId === element.id;
@@ -269,7 +284,9 @@ export default function OverlayPreview({
                   const isSelected = selectedIds.includes(element.id);
                   const isResizingThis = resizingElementId === element.id;
                   const isRotatingThis = rotatingElementId === element.id;
-                  const canResize = canResizeElement(element);
+                  // Locked layers can be selected, but never dragged, resized or rotated
+                  const isLocked = element.locked === true;
+                  const canResize = canResizeElement(element) && !isLocked;
                   
                   // Calculate AABB (Axis-Aligned Bounding Box) for element
                   // WHY: AABB is used for visual bounding box (Figma-style).
@@ -298,7 +315,9 @@ export default function OverlayPreview({
                   
                   // Get element label (same as OverlaySettings)
                   const getElementLabel = (): string => {
-                    if (element.type === 'metric') {
+                    if (element.name) {
+                      return element.name;
+                    } else if (element.type === 'metric') {
                       const metricElements = overlayConfig.elements.filter(el => el.type === 'metric');
                       const metricIndex = metricElements.findIndex(el => el.id === element.id);
                       const metricLabels = [
@@ -344,6 +363,68 @@ export default function OverlayPreview({
                         t('fourthDate'),
                       ];
                       return dateLabels[dateIndex] || `${dateIndex + 1}${dateIndex === 0 ? 'st' : dateIndex === 1 ? 'nd' : dateIndex === 2 ? 'rd' : 'th'} ${t('date')}`;
+                    } else if (element.type === 'graph') {
+                      const graphElements = overlayConfig.elements.filter(el => el.type === 'graph');
+                      const graphIndex = graphElements.findIndex(el => el.id === element.id);
+                      const graphLabels = [
+                        t('firstGraph'),
+                        t('secondGraph'),
+                        t('thirdGraph'),
+                        t('fourthGraph'),
+                      ];
+                      return graphLabels[graphIndex] || `${graphIndex + 1}${graphIndex === 0 ? 'st' : graphIndex === 1 ? 'nd' : graphIndex === 2 ? 'rd' : 'th'} ${t('graph')}`;
+                    } else if (element.type === 'gauge') {
+                      const gaugeElements = overlayConfig.elements.filter(el => el.type === 'gauge');
+                      const gaugeIndex = gaugeElements.findIndex(el => el.id === element.id);
+                      const gaugeLabels = [
+                        t('firstGauge'),
+                        t('secondGauge'),
+                        t('thirdGauge'),
+                        t('fourthGauge'),
+                      ];
+                      return gaugeLabels[gaugeIndex] || `${gaugeIndex + 1}${gaugeIndex === 0 ? 'st' : gaugeIndex === 1 ? 'nd' : gaugeIndex === 2 ? 'rd' : 'th'} ${t('gauge')}`;
+                    } else if (element.type === 'bar') {
+                      const barElements = overlayConfig.elements.filter(el => el.type === 'bar');
+                      const barIndex = barElements.findIndex(el => el.id === element.id);
+                      const barLabels = [
+                        t('firstBar'),
+                        t('secondBar'),
+                        t('thirdBar'),
+                        t('fourthBar'),
+                      ];
+                      return barLabels[barIndex] || `${barIndex + 1}${barIndex === 0 ? 'st' : barIndex === 1 ? 'nd' : barIndex === 2 ? 'rd' : 'th'} ${t('bar')}`;
+                    } else if (element.type === 'image') {
+                      const imageElements = overlayConfig.elements.filter(el => el.type === 'image');
+                      const imageIndex = imageElements.findIndex(el => el.id === element.id);
+                      const imageLabels = [
+                        t('firstImage'),
+                        t('secondImage'),
+                        t('thirdImage'),
+                        t('fourthImage'),
+                      ];
+                      return imageLabels[imageIndex] || `${imageIndex + 1}${imageIndex === 0 ? 'st' : imageIndex === 1 ? 'nd' : imageIndex === 2 ? 'rd' : 'th'} ${t('image')}`;
+                    } else if (element.type === 'timer') {
+                      const timerElements = overlayConfig.elements.filter(el => el.type === 'timer');
+                      const timerIndex = timerElements.findIndex(el => el.id === element.id);
+                      const timerLabels = [
+                        t('firstTimer'),
+                        t('secondTimer'),
+                        t('thirdTimer'),
+                        t('fourthTimer'),
+                      ];
+                      return timerLabels[timerIndex] || `${timerIndex + 1}${timerIndex === 0 ? 'st' : timerIndex === 1 ? 'nd' : timerIndex === 2 ? 'rd' : 'th'} ${t('timer')}`;
+                    } else if (element.type === 'template') {
+                      const templateElements = overlayConfig.elements.filter(el => el.type === 'template');
+                      const templateIndex = templateElements.findIndex(el => el.id === element.id);
+                      const templateLabels = [
+                        t('firstTemplate'),
+                        t('secondTemplate'),
+                        t('thirdTemplate'),
+                        t('fourthTemplate'),
+                      ];
+                      return templateLabels[templateIndex] || `${templateIndex + 1}${templateIndex === 0 ? 'st' : templateIndex === 1 ? 'nd' : templateIndex === 2 ? 'rd' : 'th'} ${t('template')}`;
+                    } else if (element.type === 'group') {
+                      return t('group');
                     }
                     return element.type;
                   };
@@ -352,7 +433,7 @@ export default function OverlayPreview({
                     <div key={element.id}>
                       {/* Element hit area - using AABB (Figma-style) */}
                       {/* Hitbox v2 Phase 1 — consistent padding for all element types */}
-                      {(() => {
+                      {isElementPickable(element) && !groupedIds.has(element.id) && (() => {
                         const hitAreaLeft = aabbAtPosition.left - HITBOX_PADDING_PX;
                         const hitAreaTop = aabbAtPosition.top - HITBOX_PADDING_PX;
                         
@@ -394,6 +475,14 @@ export default function OverlayPreview({
                                 }
                               }
                               
+                              // Locked elements are selected without starting a drag
+                              if (isLocked) {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                onElementSelect(element.id);
+                                return;
+                              }
+                              
                               // Normal selection (non-rotated or inside rotated shape)
                               onElementMouseDown(element.id, e);
                             }}
@@ -405,7 +494,7 @@ export default function OverlayPreview({
                               top: `calc(50% + ${hitAreaTop}px)`,
                               width: `${hitAreaWidth}px`,
                               height: `${hitAreaHeight}px`,
-                              cursor: isDraggingThis ? 'grabbing' : (isSelected ? 'move' : 'grab'),
+                              cursor: isLocked ? 'default' : (isDraggingThis ? 'grabbing' : (isSelected ? 'move' : 'grab')),
                               pointerEvents: 'auto',
                               zIndex: element.zIndex !== undefined ? element.zIndex + 100 : 100,
                               // Bounding box outline is shown separately (see below)
@@ -466,7 +555,7 @@ export default function OverlayPreview({
                           >
                             {/* Bounding Box - centered on element, rotates with element */}
                             <div
-                              className={`bounding-box ${isDraggingThis ? 'dragging' : ''} ${isResizingThis ? 'resizing' : ''}`}
+                              className={`bounding-box ${isDraggingThis ? 'dragging' : ''} ${isResizingThis ? 'resizing' : ''} ${isLocked ? 'locked' : ''}`}
                               style={{
                                 position: 'absolute',
                                 left: '50%',
@@ -514,7 +603,7 @@ export default function OverlayPreview({
                             )}
                             
                             {/* Rotation handle - positioned relative to top-right corner + offset */}
-                            {(() => {
+                            {!isLocked && (() => {
                               const isActive = rotatingElementId === element.id;
                               const topRightCorner = localCorners.ne;
                               
@@ -587,11 +676,22 @@ export default function OverlayPreview({
             )}
             </div>
           </div>
+          {/* Data source (simulator / session replay) + session recording + external metric bridge */}
+          <div
+            style={{
+              marginTop: '45px',
+              width: '100%',
+              maxWidth: '260px',
+            }}
+          >
+            <MonitoringSourceControls />
+            <MetricBridgeSettings />
+          </div>
           {/* Mock data warning */}
           {!isRealDataReceived && (
             <div
               style={{
-                marginTop: '45px',
+                marginTop: '8px',
                 padding: '8px 12px',
                 background: 'rgba(255, 193, 7, 0.15)',
                 border: '1px solid rgba(255, 193, 7, 0.3)',
@@ -603,7 +703,7 @@ export default function OverlayPreview({
                 maxWidth: '200px',
               }}
             >
-              {t('mockDataWarning')}
+              {t(isSimulatedData ? 'simulatedDataWarning' : 'mockDataWarning')}
             </div>
           )}
         </>
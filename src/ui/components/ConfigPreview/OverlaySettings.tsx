@@ -1,9 +1,9 @@
 import type { MouseEvent } from 'react';
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Plus, BarChart3, Type, Minus, Layout, Trash2, Clock, Calendar } from 'lucide-react';
+import { Plus, BarChart3, Type, Minus, Layout, Trash2, Clock, Clock3, Calendar, Activity, Gauge, BarChartHorizontal, ImageIcon, Timer, Braces } from 'lucide-react';
 import { Tooltip } from 'react-tooltip';
 import type { AppSettings } from '../../../constants/defaults';
-import type { Overlay, OverlayMetricKey, OverlayElement, MetricElementData, TextElementData, DividerElementData, ClockElementData, DateElementData } from '../../../types/overlay';
+import type { Overlay, OverlayMetricKey, OverlayElement, OverlayElementType, MetricElementData, TextElementData, DividerElementData, ClockElementData, DateElementData, GraphElementData, GaugeElementData, BarElementData, ImageElementData, TimerElementData, TemplateElementData } from '../../../types/overlay';
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
 import { createOverlayElementForAdd, defaultClockElement, defaultDateElement, MAX_OVERLAY_ELEMENTS, canAddElement, getTotalElementCount, resolveElementIdConflict } from '../../../utils/overlaySettingsHelpers';
@@ -12,20 +12,38 @@ import RemoveConfirmationModal from './RemoveConfirmationModal';
 import ImportOverlayModal from './ImportOverlayModal';
 import OverlayPresetPickerModal from '../modals/OverlayPresetPickerModal';
 import OverlayExportNameModal from './OverlayExportNameModal';
+import DerivedMetricsSection from './DerivedMetricsSection';
+import LayersPanel from './LayersPanel';
+import AlignmentToolbar from './AlignmentToolbar';
 import { MetricElementInspector } from './ElementCards/MetricElementInspector';
 import { TextElementInspector } from './ElementCards/TextElementInspector';
 import { DividerElementInspector } from './ElementCards/DividerElementInspector';
 import { ClockElementInspector } from './ElementCards/ClockElementInspector';
 import { DateElementInspector } from './ElementCards/DateElementInspector';
+import { GraphElementInspector } from './ElementCards/GraphElementInspector';
+import { GaugeElementInspector } from './ElementCards/GaugeElementInspector';
+import { BarElementInspector } from './ElementCards/BarElementInspector';
+import { ImageElementInspector } from './ElementCards/ImageElementInspector';
+import { TimerElementInspector } from './ElementCards/TimerElementInspector';
+import { TemplateElementInspector } from './ElementCards/TemplateElementInspector';
 import { exportOverlayPreset, importOverlayPreset } from '../../../overlayPreset';
 import { getTemplateElements } from '../../../overlayPreset/templates';
 import { normalizeZIndexForAppend } from '../../../overlayPreset/utils';
+import { usesLocalImages } from '../../../preset/utils/imageSource';
+import { findMissingCustomFonts } from '../../../preset/utils/fontReferences';
+import type { MetricDeviceNames } from '../../../domain/metricDevices';
+import { isGroupElement } from '../../../domain/elementGroups';
+import { getDefaultCountdownTarget } from '../../../domain/timeFormat';
 import { useOverlayStateManager } from '@/state/overlay/useOverlayStateManager';
-import { createAddElementAction, createRemoveElementAction, createUpdateElementAction, createUpdateElementDataAction, createBatchAction, createZOrderAction, createSelectAction, createMoveElementZUpAction, createMoveElementZDownAction } from '@/state/overlay/actions';
+import { createAddElementAction, createRemoveElementAction, createUpdateElementAction, createUpdateElementDataAction, createBatchAction, createZOrderAction, createSelectAction, createMoveElementZUpAction, createMoveElementZDownAction, createSetElementLayerFlagAction, createRenameElementAction, createReorderElementAction, createAlignElementsAction, createDistributeElementsAction, type Action, type BatchActionData, type ElementLayerFlag } from '@/state/overlay/actions';
 import { getElement as getElementFromStore } from '@/state/overlay/elementStore';
 import { bringToFront, sendToBack } from '@/state/overlay/zOrder';
+import { selectRange } from '@/state/overlay/selection';
+import { sanitizeElementName } from '../../../domain/elementNames';
 import { getElementsInZOrder } from '@/state/overlay/selectors';
+import { getAlignableElements, type AlignEdge, type AlignReference, type DistributeAxis } from '@/state/overlay/alignment';
 import { IS_DEV } from '@/utils/env';
+import { devWarn } from '../../../debug/dev';
 
 interface OverlaySettingsProps {
   overlayConfig: Overlay;
@@ -35,6 +53,7 @@ interface OverlaySettingsProps {
   selectedElementId: string | null;
   setSelectedElementId: (elementId: string | null) => void;
   activePresetId: string | null; // Active preset ID for per-preset runtime overlay state
+  metricDeviceNames: MetricDeviceNames; // CPUs/GPUs in the latest monitoring payload
 }
 
 /**
@@ -56,6 +75,7 @@ export default function OverlaySettingsComponent({
   selectedElementId,
   setSelectedElementId,
   activePresetId,
+  metricDeviceNames,
 }: OverlaySettingsProps) {
   const t = useI18n();
   const stateManagerHook = activePresetId
@@ -88,11 +108,23 @@ export default function OverlaySettingsComponent({
   const dividerElements = safeElements.filter(el => el?.type === 'divider');
   const clockElements = safeElements.filter(el => el?.type === 'clock');
   const dateElements = safeElements.filter(el => el?.type === 'date');
+  const graphElements = safeElements.filter(el => el?.type === 'graph');
+  const gaugeElements = safeElements.filter(el => el?.type === 'gauge');
+  const barElements = safeElements.filter(el => el?.type === 'bar');
+  const imageElements = safeElements.filter(el => el?.type === 'image');
+  const timerElements = safeElements.filter(el => el?.type === 'timer');
+  const templateElements = safeElements.filter(el => el?.type === 'template');
   const metricCount = metricElements.length;
   const textCount = textElements.length;
   const dividerCount = dividerElements.length;
   const clockCount = clockElements.length;
   const dateCount = dateElements.length;
+  const graphCount = graphElements.length;
+  const gaugeCount = gaugeElements.length;
+  const barCount = barElements.length;
+  const imageCount = imageElements.length;
+  const timerCount = timerElements.length;
+  const templateCount = templateElements.length;
   
   // GLOBAL HARD LIMIT: Get total count from runtime overlay only (ARCHITECT MODE)
   // CRITICAL: Use activePresetId to get runtime count for the specific preset
@@ -183,6 +215,34 @@ export default function OverlaySettingsComponent({
     }
   }, [activePresetId, stateManager, runtimeState]);
   
+  const handleLayerFlagChange = useCallback((elementId: string, flag: ElementLayerFlag, value: boolean) => {
+    if (!activePresetId || !stateManager || !runtimeState) {
+      return;
+    }
+    
+    stateManager.dispatch(createSetElementLayerFlagAction(elementId, flag, value, runtimeState));
+  }, [activePresetId, stateManager, runtimeState]);
+  
+  const handleLayerReorder = useCallback((elementId: string, newIndex: number) => {
+    if (!activePresetId || !stateManager || !runtimeState) {
+      return;
+    }
+    
+    stateManager.dispatch(createReorderElementAction(elementId, newIndex, runtimeState));
+  }, [activePresetId, stateManager, runtimeState]);
+  
+  const handleLayerRename = useCallback((elementId: string, name: string) => {
+    if (!activePresetId || !stateManager || !runtimeState) {
+      return;
+    }
+    
+    // Skip no-op renames (no undo entry)
+    if (sanitizeElementName(name) === getElementFromStore(runtimeState.elements, elementId)?.name) {
+      return;
+    }
+    stateManager.dispatch(createRenameElementAction(elementId, name, runtimeState));
+  }, [activePresetId, stateManager, runtimeState]);
+  
   const handleSelectionChange = useCallback((elementId: string | null) => {
     // Always call parent setter for UI backward compatibility
     setSelectedElementId(elementId);
@@ -234,6 +294,54 @@ export default function OverlaySettingsComponent({
     // Fallback to prop (when runtime not active)
     return selectedElementId;
   }, [runtimeState, selectedElementId]);
+  
+  // Align / distribute the selection (one batch action = one undo step)
+  const [alignReference, setAlignReference] = useState<AlignReference>('selection');
+  const alignableElements = useMemo(
+    () => (runtimeState ? getAlignableElements(runtimeState.elements, Array.from(runtimeState.selection.selectedIds)) : []),
+    [runtimeState]
+  );
+  
+  const dispatchPositionBatch = useCallback((createAction: (selectedIds: string[]) => Action) => {
+    if (!activePresetId || !stateManager || !runtimeState) {
+      return;
+    }
+    try {
+      const action = createAction(Array.from(runtimeState.selection.selectedIds));
+      // Skip empty batches (already aligned) so they don't add an undo step
+      if ((action.data as BatchActionData).actions.length > 0) {
+        stateManager.dispatch(action);
+      }
+    } catch (error) {
+      devWarn('OverlaySettings', 'Align/distribute skipped', { error });
+    }
+  }, [activePresetId, stateManager, runtimeState]);
+  
+  const handleAlign = useCallback((edge: AlignEdge) => {
+    if (!runtimeState) return;
+    dispatchPositionBatch(selectedIds => createAlignElementsAction(selectedIds, edge, alignReference, runtimeState));
+  }, [dispatchPositionBatch, alignReference, runtimeState]);
+  
+  const handleDistribute = useCallback((axis: DistributeAxis) => {
+    if (!runtimeState) return;
+    dispatchPositionBatch(selectedIds => createDistributeElementsAction(selectedIds, axis, runtimeState));
+  }, [dispatchPositionBatch, runtimeState]);
+  
+  // Layers panel: click selects one layer, Shift+click adds the z-order range from the last selected layer
+  const handleLayerSelect = useCallback((elementId: string, extendRange: boolean) => {
+    if (!extendRange || !stateManager || !runtimeState) {
+      handleSelectionChange(elementId);
+      return;
+    }
+    
+    const newSelection = selectRange(runtimeState.selection, null, elementId, runtimeState.zOrder);
+    stateManager.dispatch(createSelectAction(
+      Array.from(runtimeState.selection.selectedIds),
+      Array.from(newSelection.selectedIds),
+      runtimeState.selection.lastSelectedId,
+      newSelection.lastSelectedId
+    ));
+  }, [stateManager, runtimeState, handleSelectionChange]);
 
   // State for Floating Add Menu
   const [isFloatingMenuOpen, setIsFloatingMenuOpen] = useState(false);
@@ -242,7 +350,7 @@ export default function OverlaySettingsComponent({
   const floatingButtonRef = useRef<HTMLButtonElement>(null);
 
   // State for Remove Confirmation Modal
-  const [removeModalState, setRemoveModalState] = useState<{ isOpen: boolean; elementId: string | null; elementType: 'metric' | 'text' | 'divider' | 'clock' | 'date' | null }>({
+  const [removeModalState, setRemoveModalState] = useState<{ isOpen: boolean; elementId: string | null; elementType: OverlayElementType | null }>({
     isOpen: false,
     elementId: null,
     elementType: null,
@@ -279,7 +387,7 @@ export default function OverlaySettingsComponent({
   
   useEffect(() => {
     const handleDeleteElement = (e: Event) => {
-      const customEvent = e as CustomEvent<{ elementId: string; elementType: 'metric' | 'text' | 'divider' | 'clock' | 'date' }>;
+      const customEvent = e as CustomEvent<{ elementId: string; elementType: OverlayElementType }>;
       const { elementId, elementType } = customEvent.detail;
       
       // Open remove confirmation modal
@@ -393,6 +501,15 @@ export default function OverlaySettingsComponent({
     { value: 'gpuTemp' as OverlayMetricKey, label: t('metricGpuTemp') },
     { value: 'gpuLoad' as OverlayMetricKey, label: t('metricGpuLoad') },
     { value: 'gpuClock' as OverlayMetricKey, label: t('metricGpuClock') },
+    { value: 'gpuPower' as OverlayMetricKey, label: t('metricGpuPower') },
+    { value: 'gpuFan' as OverlayMetricKey, label: t('metricGpuFan') },
+    { value: 'cpuPower' as OverlayMetricKey, label: t('metricCpuPower') },
+    { value: 'ramLoad' as OverlayMetricKey, label: t('metricRamLoad') },
+    { value: 'ramUsed' as OverlayMetricKey, label: t('metricRamUsed') },
+    { value: 'vramLoad' as OverlayMetricKey, label: t('metricVramLoad') },
+    { value: 'vramUsed' as OverlayMetricKey, label: t('metricVramUsed') },
+    { value: 'pumpSpeed' as OverlayMetricKey, label: t('metricPumpSpeed') },
+    { value: 'fanSpeed' as OverlayMetricKey, label: t('metricFanSpeed') },
   ];
 
   // Handler: Open overlay export modal
@@ -435,6 +552,11 @@ export default function OverlaySettingsComponent({
         }
         
         await exportOverlayPreset(safeElements, presetName);
+        
+        // Non-blocking warning: local images are exported as metadata only
+        if (usesLocalImages(safeElements)) {
+          alert(t('localImageExportWarning'));
+        }
       } else {
         alert(t('alertNoElementsToExport'));
       }
@@ -470,6 +592,17 @@ export default function OverlaySettingsComponent({
         return;
       }
 
+      // Non-blocking warning: local images must exist in this browser's IndexedDB
+      if (usesLocalImages(result.elements)) {
+        alert(t('localImageImportWarning'));
+      }
+      
+      // Non-blocking warning: custom fonts must exist in this browser's IndexedDB
+      const missingFonts = await findMissingCustomFonts(result.elements);
+      if (missingFonts.length > 0) {
+        alert(t('customFontImportWarning').replace('{fonts}', missingFonts.map(font => font.name).join(', ')));
+      }
+
       // Store imported elements and open modal
       setImportedElements(result.elements);
       setIsImportModalOpen(true);
@@ -549,8 +682,15 @@ export default function OverlaySettingsComponent({
           resolveElementIdConflict(element, existingElementIds)
         );
         
+        // Groups reference their children by ID, so follow any renamed children
+        const resolvedIds = new Map(normalizedElements.map((element, index) => [element.id, resolvedElements[index].id]));
+        const remappedElements = resolvedElements.map(element => isGroupElement(element)
+          ? { ...element, data: { ...element.data, childIds: element.data.childIds.map(id => resolvedIds.get(id) ?? id) } }
+          : element
+        );
+        
         // Dispatch add actions for each resolved element
-        resolvedElements.forEach(element => {
+        remappedElements.forEach(element => {
           const action = createAddElementAction(element);
           stateManager.dispatch(action);
         });
@@ -869,7 +1009,7 @@ export default function OverlaySettingsComponent({
                       y: 0,
                       zIndex: safeElements.length,
                       data: {
-                        text: t('text'),
+                        spans: [{ text: t('text') }],
                         textColor: 'rgba(255, 255, 255, 1)',
                         textSize: 45,
                       } as TextElementData,
@@ -1043,6 +1183,81 @@ export default function OverlaySettingsComponent({
                   <span>{t('addDigitalClock')}</span>
                 </button>
 
+                {/* Add Analog Clock */}
+                <button
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'clock',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        format: 'HH:mm:ss',
+                        fontSize: 45,
+                        color: '#ffffff',
+                        style: 'analog',
+                        dialSize: 240,
+                        handStyle: 'classic',
+                        secondHandMotion: 'tick',
+                        showTicks: true,
+                        showNumerals: false,
+                      } as ClockElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: clockCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: clockCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <Clock3 size={16} />
+                  </div>
+                  <span>{t('addAnalogClock')}</span>
+                </button>
+
                 {/* Add Date */}
                 <button
                   onClick={() => {
@@ -1102,25 +1317,57 @@ export default function OverlaySettingsComponent({
                   <span>{t('addDate')}</span>
                 </button>
 
-                {/* Divider */}
-                <div style={{
-                  height: '1px',
-                  background: 'rgba(255, 255, 255, 0.1)',
-                  margin: '4px 0',
-                }} />
-
-                {/* Add Overlay Presets */}
+                {/* Add Graph */}
                 <button
                   onClick={() => {
-                    setIsOverlayPresetModalOpen(true);
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'graph',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        metric: 'cpuTemp',
+                        style: 'area',
+                        windowSeconds: 60,
+                        width: 240,
+                        height: 80,
+                        minValue: 0,
+                        maxValue: 100,
+                        autoScale: false,
+                        strokeColor: 'rgba(255, 255, 255, 1)',
+                        strokeWidth: 3,
+                        fillColor: 'rgba(255, 255, 255, 0.2)',
+                      } as GraphElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
                     setIsFloatingMenuOpen(false);
                   }}
+                  disabled={!canAddElement(activePresetId, 1)}
                   style={{
                     height: '34px',
                     background: 'transparent',
                     border: 'none',
-                    color: '#f2f2f2',
-                    cursor: 'pointer',
+                    color: graphCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: graphCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
                     fontSize: '13px',
                     fontWeight: 400,
                     display: 'flex',
@@ -1130,73 +1377,506 @@ export default function OverlaySettingsComponent({
                     padding: '0 12px',
                     transition: 'background 0.15s ease',
                   }}
-                  onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
-                    e.currentTarget.style.background = '#3a3a3a';
-                  }}
-                  onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
-                    e.currentTarget.style.background = 'transparent';
-                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
                 >
                   <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                    <Layout size={16} />
+                    <Activity size={16} />
                   </div>
-                  <span>{t('overlayPresetsButton')}</span>
+                  <span>{t('addGraph')}</span>
                 </button>
-              </div>
-            )}
-
 
-            {/* Empty State */}
-            {safeElements.length === 0 && (
-              <div style={{
-                padding: '24px',
-                textAlign: 'center',
-                color: '#a0a0a0',
-                fontSize: '13px',
-                background: '#242424',
-                borderRadius: '6px',
-                border: '1px solid rgba(255, 255, 255, 0.04)',
-                boxShadow: '0 1px 2px rgba(0, 0, 0, 0.6)',
-                display: 'flex',
-                flexDirection: 'column',
-                alignItems: 'center',
-                gap: '16px',
-                position: 'relative',
-              }}>
-                <p style={{ margin: 0 }}>{t('noElements')}</p>
+                {/* Add Gauge */}
                 <button
-                  ref={floatingButtonRef}
-                  onClick={() => setIsFloatingMenuOpen(!isFloatingMenuOpen)}
-                  aria-label={t('addElement')}
-                  title={t('addElement')}
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'gauge',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        metric: 'cpuTemp',
+                        size: 480,
+                        startAngle: -135,
+                        endAngle: 135,
+                        thickness: 24,
+                        trackColor: 'rgba(255, 255, 255, 0.15)',
+                        valueColor: 'rgba(255, 255, 255, 1)',
+                        roundCaps: true,
+                        showTicks: false,
+                      } as GaugeElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
                   style={{
-                    width: '32px',
-                    height: '32px',
-                    borderRadius: '50%',
-                    background: '#2c2c2c',
-                    border: '1px solid #3a3a3a',
-                    color: '#f2f2f2',
-                    cursor: 'pointer',
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: gaugeCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: gaugeCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
                     display: 'flex',
                     alignItems: 'center',
-                    justifyContent: 'center',
-                    fontSize: '18px',
-                    fontWeight: 500,
-                    transition: 'all 0.15s ease',
-                  }}
-                  onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
-                    e.currentTarget.style.background = '#3a3a3a';
-                  }}
-                  onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
-                    e.currentTarget.style.background = '#2c2c2c';
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
                   }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
                 >
-                  <Plus size={18} />
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <Gauge size={16} />
+                  </div>
+                  <span>{t('addGauge')}</span>
                 </button>
-              </div>
-            )}
 
-            {/* Elements List */}
+                {/* Add Bar */}
+                <button
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'bar',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        metric: 'cpuLoad',
+                        orientation: 'horizontal',
+                        mode: 'solid',
+                        width: 240,
+                        height: 24,
+                        fillColor: 'rgba(255, 255, 255, 1)',
+                        trackColor: 'rgba(255, 255, 255, 0.15)',
+                        gradientEndColor: 'rgba(255, 80, 80, 1)',
+                        segmentCount: 10,
+                        segmentGap: 4,
+                        cornerRadius: 4,
+                      } as BarElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: barCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: barCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <BarChartHorizontal size={16} />
+                  </div>
+                  <span>{t('addBar')}</span>
+                </button>
+
+                {/* Add Image */}
+                <button
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'image',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        source: 'remote',
+                        url: '',
+                        width: 160,
+                        height: 160,
+                        fit: 'contain',
+                        opacity: 1,
+                      } as ImageElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: imageCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: imageCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <ImageIcon size={16} />
+                  </div>
+                  <span>{t('addImage')}</span>
+                </button>
+
+                {/* Add Timer */}
+                <button
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'timer',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        mode: 'countdown',
+                        format: 'HH:mm:ss',
+                        targetTimestamp: getDefaultCountdownTarget(),
+                        fontSize: 45,
+                        color: '#ffffff',
+                      } as TimerElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: timerCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: timerCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <Timer size={16} />
+                  </div>
+                  <span>{t('addTimer')}</span>
+                </button>
+
+                {/* Add Template */}
+                <button
+                  onClick={() => {
+                    // ARCHITECT MODE: Manual Add → runtime overlay Map
+                    // CRITICAL: activePresetId must be valid
+                    if (!activePresetId) {
+                      alert(t('alertSelectPresetFirst'));
+                      return;
+                    }
+                    
+                    // GLOBAL HARD LIMIT CHECK: Can we add 1 more element? (ARCHITECT MODE: runtime-only)
+                    if (!canAddElement(activePresetId, 1)) {
+                      alert(t('overlayMaxElementsWarning').replace('{max}', String(MAX_OVERLAY_ELEMENTS)).replace('{count}', '1'));
+                      return;
+                    }
+                    
+                    // 1) Create new element (helper function)
+                    const newElement = createOverlayElementForAdd(settings, overlayConfig, {
+                      type: 'template',
+                      x: 0,
+                      y: 0,
+                      zIndex: safeElements.length,
+                      data: {
+                        template: 'CPU {cpuTemp}° @ {cpuClock} MHz',
+                        textColor: 'rgba(255, 255, 255, 1)',
+                        textSize: 24,
+                      } as TemplateElementData,
+                    });
+                    
+                    if (stateManager) {
+                      const action = createAddElementAction(newElement);
+                      stateManager.dispatch(action);
+                    } else {
+                    }
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  disabled={!canAddElement(activePresetId, 1)}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: templateCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? '#a0a0a0' : '#f2f2f2',
+                    cursor: templateCount >= MAX_OVERLAY_ELEMENTS || totalCount >= MAX_OVERLAY_ELEMENTS ? 'not-allowed' : 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                    onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = '#3a3a3a';
+                      }
+                    }}
+                    onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                      if (canAddElement(activePresetId, 1)) {
+                        e.currentTarget.style.background = 'transparent';
+                      }
+                    }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <Braces size={16} />
+                  </div>
+                  <span>{t('addTemplate')}</span>
+                </button>
+
+                {/* Divider */}
+                <div style={{
+                  height: '1px',
+                  background: 'rgba(255, 255, 255, 0.1)',
+                  margin: '4px 0',
+                }} />
+
+                {/* Add Overlay Presets */}
+                <button
+                  onClick={() => {
+                    setIsOverlayPresetModalOpen(true);
+                    setIsFloatingMenuOpen(false);
+                  }}
+                  style={{
+                    height: '34px',
+                    background: 'transparent',
+                    border: 'none',
+                    color: '#f2f2f2',
+                    cursor: 'pointer',
+                    fontSize: '13px',
+                    fontWeight: 400,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'flex-start',
+                    gap: '10px',
+                    padding: '0 12px',
+                    transition: 'background 0.15s ease',
+                  }}
+                  onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                    e.currentTarget.style.background = '#3a3a3a';
+                  }}
+                  onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                    e.currentTarget.style.background = 'transparent';
+                  }}
+                >
+                  <div style={{ width: '22px', height: '22px', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <Layout size={16} />
+                  </div>
+                  <span>{t('overlayPresetsButton')}</span>
+                </button>
+              </div>
+            )}
+
+
+            {/* Empty State */}
+            {safeElements.length === 0 && (
+              <div style={{
+                padding: '24px',
+                textAlign: 'center',
+                color: '#a0a0a0',
+                fontSize: '13px',
+                background: '#242424',
+                borderRadius: '6px',
+                border: '1px solid rgba(255, 255, 255, 0.04)',
+                boxShadow: '0 1px 2px rgba(0, 0, 0, 0.6)',
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                gap: '16px',
+                position: 'relative',
+              }}>
+                <p style={{ margin: 0 }}>{t('noElements')}</p>
+                <button
+                  ref={floatingButtonRef}
+                  onClick={() => setIsFloatingMenuOpen(!isFloatingMenuOpen)}
+                  aria-label={t('addElement')}
+                  title={t('addElement')}
+                  style={{
+                    width: '32px',
+                    height: '32px',
+                    borderRadius: '50%',
+                    background: '#2c2c2c',
+                    border: '1px solid #3a3a3a',
+                    color: '#f2f2f2',
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '18px',
+                    fontWeight: 500,
+                    transition: 'all 0.15s ease',
+                  }}
+                  onMouseEnter={(e: MouseEvent<HTMLButtonElement>) => {
+                    e.currentTarget.style.background = '#3a3a3a';
+                  }}
+                  onMouseLeave={(e: MouseEvent<HTMLButtonElement>) => {
+                    e.currentTarget.style.background = '#2c2c2c';
+                  }}
+                >
+                  <Plus size={18} />
+                </button>
+              </div>
+            )}
+
+            {/* Layers Panel */}
+            {runtimeState && safeElements.length > 0 && (
+              <LayersPanel
+                elements={safeElements}
+                selectedIds={Array.from(runtimeState.selection.selectedIds)}
+                onSelect={handleLayerSelect}
+                onReorder={handleLayerReorder}
+                onRename={handleLayerRename}
+                onSetLayerFlag={handleLayerFlagChange}
+              />
+            )}
+
+            {/* Align / distribute (selection) */}
+            {runtimeState && alignableElements.length > 0 && (
+              <AlignmentToolbar
+                alignableCount={alignableElements.length}
+                distributableCount={alignableElements.filter(element => !element.locked).length}
+                reference={alignReference}
+                onReferenceChange={setAlignReference}
+                onAlign={handleAlign}
+                onDistribute={handleDistribute}
+              />
+            )}
+
+            {/* Elements List */}
             {safeElements.length > 0 && (
               <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                 {safeElements
@@ -1238,11 +1918,13 @@ export default function OverlaySettingsComponent({
                           lang={lang}
                           metricLabels={metricLabels}
                           metricOptions={getMetricOptions()}
+                          metricDeviceNames={metricDeviceNames}
                           onToggleCollapse={() => toggleCollapse(element.id)}
                           onSelect={() => handleSelectionChange(element.id)}
                           onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'metric' })}
                           onMoveUp={() => handleZOrderChange(element.id, 'forward')}
                           onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
                           onUpdateElement={(updater) => updateElement(element.id, updater)}
                         />
                       );
@@ -1276,6 +1958,7 @@ export default function OverlaySettingsComponent({
                           onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'text' })}
                           onMoveUp={() => handleZOrderChange(element.id, 'forward')}
                           onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
                           onUpdateElement={(updater) => updateElement(element.id, updater)}
                         />
                       );
@@ -1309,6 +1992,7 @@ export default function OverlaySettingsComponent({
                           onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'divider' })}
                           onMoveUp={() => handleZOrderChange(element.id, 'forward')}
                           onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
                           onUpdateElement={(updater) => updateElement(element.id, updater)}
                         />
                       );
@@ -1342,6 +2026,7 @@ export default function OverlaySettingsComponent({
                           onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'clock' })}
                           onMoveUp={() => handleZOrderChange(element.id, 'forward')}
                           onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
                           onUpdateElement={(updater) => updateElement(element.id, updater)}
                         />
                       );
@@ -1375,6 +2060,215 @@ export default function OverlaySettingsComponent({
                           onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'date' })}
                           onMoveUp={() => handleZOrderChange(element.id, 'forward')}
                           onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'graph') {
+                      const graphIndex = graphElements.findIndex(el => el.id === element.id);
+                      
+                      const graphLabels = [
+                        t('firstGraph'),
+                        t('secondGraph'),
+                        t('thirdGraph'),
+                        t('fourthGraph'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <GraphElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'graph'; data: GraphElementData }}
+                          graphIndex={graphIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          graphLabels={graphLabels}
+                          metricOptions={getMetricOptions()}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'graph' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'gauge') {
+                      const gaugeIndex = gaugeElements.findIndex(el => el.id === element.id);
+                      
+                      const gaugeLabels = [
+                        t('firstGauge'),
+                        t('secondGauge'),
+                        t('thirdGauge'),
+                        t('fourthGauge'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <GaugeElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'gauge'; data: GaugeElementData }}
+                          gaugeIndex={gaugeIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          gaugeLabels={gaugeLabels}
+                          metricOptions={getMetricOptions()}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'gauge' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'bar') {
+                      const barIndex = barElements.findIndex(el => el.id === element.id);
+                      
+                      const barLabels = [
+                        t('firstBar'),
+                        t('secondBar'),
+                        t('thirdBar'),
+                        t('fourthBar'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <BarElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'bar'; data: BarElementData }}
+                          barIndex={barIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          barLabels={barLabels}
+                          metricOptions={getMetricOptions()}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'bar' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'image') {
+                      const imageIndex = imageElements.findIndex(el => el.id === element.id);
+                      
+                      const imageLabels = [
+                        t('firstImage'),
+                        t('secondImage'),
+                        t('thirdImage'),
+                        t('fourthImage'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <ImageElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'image'; data: ImageElementData }}
+                          imageIndex={imageIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          imageLabels={imageLabels}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'image' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'timer') {
+                      const timerIndex = timerElements.findIndex(el => el.id === element.id);
+                      
+                      const timerLabels = [
+                        t('firstTimer'),
+                        t('secondTimer'),
+                        t('thirdTimer'),
+                        t('fourthTimer'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <TimerElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'timer'; data: TimerElementData }}
+                          timerIndex={timerIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          timerLabels={timerLabels}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'timer' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
+                          onUpdateElement={(updater) => updateElement(element.id, updater)}
+                        />
+                      );
+                    } else if (element.type === 'template') {
+                      const templateIndex = templateElements.findIndex(el => el.id === element.id);
+                      
+                      const templateLabels = [
+                        t('firstTemplate'),
+                        t('secondTemplate'),
+                        t('thirdTemplate'),
+                        t('fourthTemplate'),
+                      ];
+
+                      const isCollapsed = collapsedElements.has(element.id);
+                      const isSelected = effectiveSelectedElementId === element.id;
+                      
+                      return (
+                        <TemplateElementInspector
+                          key={element.id}
+                          element={element as OverlayElement & { type: 'template'; data: TemplateElementData }}
+                          templateIndex={templateIndex}
+                          isSelected={isSelected}
+                          isCollapsed={isCollapsed}
+                          unifiedIndex={unifiedIndex}
+                          totalElements={sortedElements.length}
+                          activePresetId={activePresetId}
+                          lang={lang}
+                          templateLabels={templateLabels}
+                          metricOptions={getMetricOptions()}
+                          onToggleCollapse={() => toggleCollapse(element.id)}
+                          onSelect={() => handleSelectionChange(element.id)}
+                          onRemove={() => setRemoveModalState({ isOpen: true, elementId: element.id, elementType: 'template' })}
+                          onMoveUp={() => handleZOrderChange(element.id, 'forward')}
+                          onMoveDown={() => handleZOrderChange(element.id, 'backward')}
+                          onSetLayerFlag={(flag, value) => handleLayerFlagChange(element.id, flag, value)}
                           onUpdateElement={(updater) => updateElement(element.id, updater)}
                         />
                       );
@@ -1384,6 +2278,11 @@ export default function OverlaySettingsComponent({
               </div>
             )}
 
+            {/* Derived Metrics */}
+            {effectiveMode === 'custom' && (
+              <DerivedMetricsSection activePresetId={activePresetId} />
+            )}
+
             {/* Overlay Preset Footer */}
             {effectiveMode === 'custom' && (
               <div style={{
@@ -10,6 +10,7 @@
  * - Single-select support (multi-select ready)
  */
 
+import type { OverlayElement } from '../../../../types/overlay';
 import type { OverlayRuntimeState } from '../../../../state/overlay/types';
 import { getSelectedElement } from '../../../../state/overlay/selectors';
 import { createSelectAction } from '../../../../state/overlay/actions';
@@ -153,3 +154,14 @@ export function clearSelection(currentState: OverlayRuntimeState): Action {
   );
 }
 
+/**
+ * Check if element can be picked on the canvas.
+ * Hidden elements can only be selected from the element list.
+ * Locked elements can be picked, but not dragged.
+ * 
+ * @param element - Element to check
+ * @returns True if element is pickable
+ */
+export function isElementPickable(element: OverlayElement): boolean {
+  return !element.hidden;
+}
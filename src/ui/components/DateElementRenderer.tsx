@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import type { OverlayElement, DateElementData } from '../../types/overlay';
 import { getInitialLang } from '../../i18n';
+import { resolveFontFamily } from '../../domain/fonts';
 import styles from '../styles/UnifiedOverlay.module.css';
 
 interface DateElementRendererProps {
@@ -179,7 +180,7 @@ export default function DateElementRenderer({
       style={{
         fontSize: `${data.fontSize * scale}px`,
         color: data.color,
-        fontFamily: 'nzxt-extrabold',
+        fontFamily: resolveFontFamily(data.font),
         whiteSpace: 'nowrap',
         userSelect: 'none',
         ...(hasOutline && {
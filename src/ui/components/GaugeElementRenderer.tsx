@@ -0,0 +1,131 @@
+import type { OverlayElement, GaugeElementData, OverlayMetrics } from '../../types/overlay';
+import { getMetricDefaultRange } from '../../domain/metrics';
+import { getProcessedMetricValue } from '../../utils/metricPipeline';
+
+interface GaugeElementRendererProps {
+  element: OverlayElement;
+  data: GaugeElementData;
+  metrics: OverlayMetrics;
+  scale?: number;
+}
+
+/**
+ * Maximum arc sweep in degrees.
+ * A full 360° SVG arc has identical start/end points and renders nothing,
+ * so the sweep is clamped just below a full circle.
+ */
+const MAX_SWEEP_DEGREES = 359.99;
+
+/**
+ * Default number of tick intervals when showTicks is enabled.
+ */
+const DEFAULT_TICK_COUNT = 10;
+
+/**
+ * Converts a gauge angle (0 = 12 o'clock, clockwise) to a point on a circle.
+ */
+function polarToCartesian(cx: number, cy: number, radius: number, angleDeg: number): { x: number; y: number } {
+  const rad = (angleDeg * Math.PI) / 180;
+  return {
+    x: cx + radius * Math.sin(rad),
+    y: cy - radius * Math.cos(rad),
+  };
+}
+
+/**
+ * Builds an SVG arc path from startAngle to endAngle (clockwise).
+ */
+function describeArc(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): string {
+  const sweep = Math.min(MAX_SWEEP_DEGREES, Math.max(0, endAngle - startAngle));
+  const start = polarToCartesian(cx, cy, radius, startAngle);
+  const end = polarToCartesian(cx, cy, radius, startAngle + sweep);
+  const largeArcFlag = sweep > 180 ? 1 : 0;
+  return `M ${start.x.toFixed(2)} ${start.y.toFixed(2)} A ${radius} ${radius} 0 ${largeArcFlag} 1 ${end.x.toFixed(2)} ${end.y.toFixed(2)}`;
+}
+
+/**
+ * Gauge element renderer.
+ * Draws a track arc and a value arc filled proportionally to the bound metric.
+ *
+ * Stateless: re-renders only when metrics or element data change.
+ */
+export default function GaugeElementRenderer({
+  element: _element,
+  data,
+  metrics,
+  scale = 1,
+}: GaugeElementRendererProps) {
+  const size = Math.max(1, data.size * scale);
+  const thickness = Math.max(1, Math.min(data.thickness * scale, size / 2));
+  const center = size / 2;
+  const radius = Math.max(0, center - thickness / 2);
+
+  // Resolve value range (fallback to metric defaults)
+  const defaultRange = getMetricDefaultRange(data.metric);
+  const min = data.minValue ?? defaultRange.min;
+  const max = data.maxValue ?? defaultRange.max;
+  const span = max - min || 1;
+
+  const rawValue = getProcessedMetricValue(metrics, data.metric, undefined, data.processing);
+  const value = typeof rawValue === 'number' && !Number.isNaN(rawValue) ? rawValue : min;
+  const fraction = Math.max(0, Math.min(1, (value - min) / span));
+
+  const startAngle = data.startAngle;
+  const endAngle = data.endAngle > data.startAngle ? data.endAngle : data.startAngle + 360;
+  const valueEndAngle = startAngle + (endAngle - startAngle) * fraction;
+  const lineCap = data.roundCaps === false ? 'butt' : 'round';
+
+  // Tick marks sit on the inner edge of the track
+  const ticks: Array<{ x1: number; y1: number; x2: number; y2: number }> = [];
+  if (data.showTicks) {
+    const tickCount = Math.max(1, Math.round(data.tickCount ?? DEFAULT_TICK_COUNT));
+    const tickOuter = Math.max(0, center - thickness - 2 * scale);
+    const tickInner = Math.max(0, tickOuter - Math.max(2, thickness * 0.6));
+    const isFullCircle = endAngle - startAngle >= 360;
+    const lastTick = isFullCircle ? tickCount - 1 : tickCount;
+    for (let i = 0; i <= lastTick; i++) {
+      const angle = startAngle + ((endAngle - startAngle) * i) / tickCount;
+      const outer = polarToCartesian(center, center, tickOuter, angle);
+      const inner = polarToCartesian(center, center, tickInner, angle);
+      ticks.push({ x1: outer.x, y1: outer.y, x2: inner.x, y2: inner.y });
+    }
+  }
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      style={{ display: 'block', overflow: 'visible', userSelect: 'none' }}
+    >
+      <path
+        d={describeArc(center, center, radius, startAngle, endAngle)}
+        fill="none"
+        stroke={data.trackColor}
+        strokeWidth={thickness}
+        strokeLinecap={lineCap}
+      />
+      {fraction > 0 && (
+        <path
+          d={describeArc(center, center, radius, startAngle, valueEndAngle)}
+          fill="none"
+          stroke={data.valueColor}
+          strokeWidth={thickness}
+          strokeLinecap={lineCap}
+        />
+      )}
+      {ticks.map((tick, index) => (
+        <line
+          key={index}
+          x1={tick.x1}
+          y1={tick.y1}
+          x2={tick.x2}
+          y2={tick.y2}
+          stroke={data.tickColor || data.trackColor}
+          strokeWidth={Math.max(1, 2 * scale)}
+          strokeLinecap="round"
+        />
+      ))}
+    </svg>
+  );
+}
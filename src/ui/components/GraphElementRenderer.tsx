@@ -0,0 +1,159 @@
+import { useState, useEffect, useRef } from 'react';
+import type { OverlayElement, GraphElementData, OverlayMetrics } from '../../types/overlay';
+import { getProcessedMetricValue } from '../../utils/metricPipeline';
+import { safeNZXT } from '../../nzxt/safeNZXT';
+
+interface GraphElementRendererProps {
+  element: OverlayElement;
+  data: GraphElementData;
+  metrics: OverlayMetrics;
+  scale?: number;
+}
+
+/**
+ * A single history sample.
+ */
+interface GraphSample {
+  t: number; // Timestamp in milliseconds
+  v: number; // Metric value (after processing, if configured)
+}
+
+/**
+ * Minimum Y-axis span for auto scaling.
+ * Prevents a flat line from being stretched into noise when the value is stable.
+ */
+const MIN_AUTO_SCALE_SPAN = 1;
+
+/**
+ * Index of the first sample to keep for a window: one sample before the window
+ * is kept so the line enters from the left edge.
+ */
+function getFirstKeptIndex(samples: GraphSample[], windowStart: number): number {
+  const firstVisible = samples.findIndex(s => s.t >= windowStart);
+  return Math.max(0, (firstVisible === -1 ? samples.length : firstVisible) - 1);
+}
+
+/**
+ * Drops samples outside the window from the history (in place).
+ */
+function pruneSamples(samples: GraphSample[], windowStart: number): void {
+  const firstKept = getFirstKeptIndex(samples, windowStart);
+  if (firstKept > 0) {
+    samples.splice(0, firstKept);
+  }
+}
+
+/**
+ * Graph element renderer.
+ * Keeps a rolling history of the bound metric and plots it as an SVG line or area.
+ *
+ * History is sampled once per monitoring payload (NZXT CAM pushes ~1/s; mock data
+ * without payloads is sampled per metrics object) and pruned to the configured
+ * window on a 1s tick. The tick also keeps the plot scrolling when no monitoring
+ * updates arrive.
+ */
+export default function GraphElementRenderer({
+  element: _element,
+  data,
+  metrics,
+  scale = 1,
+}: GraphElementRendererProps) {
+  const samplesRef = useRef<GraphSample[]>([]);
+  const lastSampleKeyRef = useRef<unknown>(null);
+  const [now, setNow] = useState(Date.now());
+  const windowMs = Math.max(1, data.windowSeconds) * 1000;
+
+  // Drop history when the bound metric or its processing changes (old samples no longer match)
+  const processingKey = JSON.stringify(data.processing ?? null);
+  useEffect(() => {
+    samplesRef.current = [];
+    lastSampleKeyRef.current = null;
+  }, [data.metric, processingKey]);
+
+  // Record a sample per monitoring payload (metrics are also rebuilt for bridge, derived and freshness updates)
+  useEffect(() => {
+    const sequence = safeNZXT.getMonitoringPayloadSequence();
+    const sampleKey = sequence > 0 ? sequence : metrics;
+    if (sampleKey === lastSampleKeyRef.current) return;
+    lastSampleKeyRef.current = sampleKey;
+    const value = getProcessedMetricValue(metrics, data.metric, undefined, data.processing);
+    if (typeof value !== 'number' || Number.isNaN(value)) return;
+    const timestamp = Date.now();
+    samplesRef.current.push({ t: timestamp, v: value });
+    setNow(timestamp);
+  }, [metrics, data.metric, processingKey]);
+
+  // Prune samples outside the window and advance the plot
+  useEffect(() => {
+    const id = setInterval(() => {
+      const timestamp = Date.now();
+      pruneSamples(samplesRef.current, timestamp - windowMs);
+      setNow(timestamp);
+    }, 1000);
+    return () => clearInterval(id);
+  }, [windowMs]);
+
+  // Samples in the window (pruning happens on the tick, render only reads the history)
+  const windowStart = now - windowMs;
+  const samples = samplesRef.current.slice(getFirstKeptIndex(samplesRef.current, windowStart));
+
+  const width = Math.max(1, data.width * scale);
+  const height = Math.max(1, data.height * scale);
+  const strokeWidth = Math.max(0, data.strokeWidth * scale);
+
+  // Resolve Y-axis range
+  let min = data.minValue;
+  let max = data.maxValue;
+  if (data.autoScale && samples.length > 0) {
+    min = Math.min(...samples.map(s => s.v));
+    max = Math.max(...samples.map(s => s.v));
+    if (max - min < MIN_AUTO_SCALE_SPAN) {
+      const mid = (max + min) / 2;
+      min = mid - MIN_AUTO_SCALE_SPAN / 2;
+      max = mid + MIN_AUTO_SCALE_SPAN / 2;
+    }
+  }
+  const span = max - min || 1;
+
+  // Inset by half the stroke so the line is not clipped at the edges
+  const inset = strokeWidth / 2;
+  const plotHeight = Math.max(0, height - strokeWidth);
+  const points = samples.map(s => {
+    const px = ((s.t - windowStart) / windowMs) * width;
+    const normalized = Math.max(0, Math.min(1, (s.v - min) / span));
+    const py = inset + (1 - normalized) * plotHeight;
+    return `${Math.max(0, Math.min(width, px)).toFixed(1)},${py.toFixed(1)}`;
+  });
+
+  const linePoints = points.join(' ');
+  const firstX = points.length > 0 ? points[0].split(',')[0] : '0';
+  const lastX = points.length > 0 ? points[points.length - 1].split(',')[0] : '0';
+  const areaPoints = `${firstX},${height} ${linePoints} ${lastX},${height}`;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ display: 'block', overflow: 'visible', userSelect: 'none' }}
+    >
+      {data.style === 'area' && points.length > 1 && (
+        <polygon
+          points={areaPoints}
+          fill={data.fillColor || 'transparent'}
+          stroke="none"
+        />
+      )}
+      {points.length > 1 && strokeWidth > 0 && (
+        <polyline
+          points={linePoints}
+          fill="none"
+          stroke={data.strokeColor}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,63 @@
+import type { OverlayElement, ImageElementData } from '../../types/overlay';
+import { useLocalImage } from '../../hooks/useLocalImage';
+import { isValidRemoteImageUrl } from '../../preset/utils/imageSource';
+
+interface ImageElementRendererProps {
+  element: OverlayElement;
+  data: ImageElementData;
+  scale?: number;
+}
+
+/**
+ * Image element renderer.
+ * Renders a remote URL or an IndexedDB-backed local image inside the element box.
+ *
+ * When no image can be resolved (invalid URL, local file missing on this
+ * machine), a dashed placeholder keeps the element visible and selectable.
+ */
+export default function ImageElementRenderer({
+  element: _element,
+  data,
+  scale = 1,
+}: ImageElementRendererProps) {
+  const localImage = useLocalImage(data.source === 'local' ? data.localImageId : undefined);
+
+  const previewWidth = Math.max(1, data.width * scale);
+  const previewHeight = Math.max(1, data.height * scale);
+  const opacity = Math.max(0, Math.min(1, data.opacity ?? 1));
+
+  const src = data.source === 'local'
+    ? localImage.blobUrl
+    : isValidRemoteImageUrl(data.url) ? (data.url as string).trim() : null;
+
+  if (!src) {
+    return (
+      <div
+        style={{
+          width: `${previewWidth}px`,
+          height: `${previewHeight}px`,
+          border: `${Math.max(1, 2 * scale)}px dashed rgba(255, 255, 255, 0.4)`,
+          boxSizing: 'border-box',
+          opacity: localImage.isLoading ? 0.5 : 1,
+        }}
+      />
+    );
+  }
+
+  return (
+    <img
+      src={src}
+      alt=""
+      draggable={false}
+      style={{
+        display: 'block',
+        width: `${previewWidth}px`,
+        height: `${previewHeight}px`,
+        objectFit: data.fit,
+        opacity,
+        userSelect: 'none',
+        pointerEvents: 'none',
+      }}
+    />
+  );
+}
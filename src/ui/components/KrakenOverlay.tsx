@@ -1,6 +1,10 @@
 import { useConfig } from '../../hooks/useConfig';
 import { useMediaUrl } from '../../hooks/useMediaUrl';
 import { useMonitoring } from '../../hooks/useMonitoring';
+import { useMonitoringPayloadMetrics } from '../../hooks/useMonitoringPayloadMetrics';
+import { useCustomMetrics } from '../../hooks/useCustomMetrics';
+import { useDerivedMetrics } from '../../hooks/useDerivedMetrics';
+import { useMetricFreshness } from '../../hooks/useMetricFreshness';
 import { getActivePresetId, getPresetById } from '../../preset/storage';
 import { getLCDDimensions } from '../../environment';
 import { useLocalMedia } from '../../hooks/useLocalMedia';
@@ -14,7 +18,11 @@ import type { OverlayRuntimeState } from '../../state/overlay/types';
 import { IS_DEV } from '../../utils/env';
 import { devDebug, devWarn, devError } from '../../debug/dev';
 import { importPresetToRuntimeState } from '../../preset/vNext/presetImportVNext';
-import { useState, useEffect, useRef } from 'react';
+import { withCustomMetrics } from '../../domain/customMetrics';
+import { withDerivedMetrics } from '../../domain/derivedMetrics';
+import { withMetricFreshness } from '../../domain/metricFreshness';
+import { withMonitoringPayloadMetrics } from '../../nzxt/monitoringMetrics';
+import { useState, useEffect, useRef, useMemo } from 'react';
 
 /**
  * Check if current route is Kraken view (?kraken=1).
@@ -53,8 +61,21 @@ function isKrakenView(): boolean {
 export default function KrakenOverlay() {
   const { settings } = useConfig();
   const { mediaUrl } = useMediaUrl();
-  const metrics = useMonitoring();
+  const monitoringMetrics = useMonitoring();
+  // RAM, VRAM, power, fan and pump metrics and per-device values come from the payload mapper
+  const payloadMetrics = useMonitoringPayloadMetrics();
+  const nzxtMetrics = useMemo(
+    () => withMonitoringPayloadMetrics(monitoringMetrics, payloadMetrics),
+    [monitoringMetrics, payloadMetrics]
+  );
+  const freshness = useMetricFreshness();
+  const customMetrics = useCustomMetrics();
   const activePresetId = getActivePresetId();
+  const { compiled: derivedMetrics } = useDerivedMetrics(activePresetId);
+  const metrics = useMemo(
+    () => withDerivedMetrics(withCustomMetrics(withMetricFreshness(nzxtMetrics, freshness), customMetrics), derivedMetrics),
+    [nzxtMetrics, freshness, customMetrics, derivedMetrics]
+  );
   const localMedia = useLocalMedia({ settings, activePresetId });
   
   // Always subscribe to runtime state with stable subscription
@@ -9,11 +9,25 @@
  */
 
 import { memo } from 'react';
-import type { OverlayElement, OverlayMetrics, MetricElementData, TextElementData, DividerElementData, ClockElementData, DateElementData } from '../../types/overlay';
+import type { OverlayElement, OverlayMetrics, MetricElementData, TextElementData, DividerElementData, ClockElementData, DateElementData, GraphElementData, GaugeElementData, BarElementData, ImageElementData, TimerElementData, TemplateElementData } from '../../types/overlay';
 import { getOverlayLabelAndValue } from '../../types/overlay';
+import { DEFAULT_TEXT_LINE_HEIGHT } from '../../domain/richText';
+import { resolveFontFamily } from '../../domain/fonts';
+import { formatMetricNumber } from '../../domain/metrics';
+import { resolveMetricThresholdStyle } from '../../domain/metricThresholds';
+import { getCustomMetricDisplayInfo, getMissingCustomMetricDefinition } from '../../domain/customMetrics';
+import { DEFAULT_NO_DATA_TEXT, getElementMetricFreshness, resolveNoDataDisplay } from '../../domain/metricFreshness';
+import { getProcessedCustomMetricValue, getProcessedMetricValue } from '../../utils/metricPipeline';
 import AnimateNumber from './AnimateNumber';
 import ClockElementRenderer from './ClockElementRenderer';
+import AnalogClockElementRenderer from './AnalogClockElementRenderer';
 import DateElementRenderer from './DateElementRenderer';
+import GraphElementRenderer from './GraphElementRenderer';
+import GaugeElementRenderer from './GaugeElementRenderer';
+import BarElementRenderer from './BarElementRenderer';
+import ImageElementRenderer from './ImageElementRenderer';
+import TimerElementRenderer from './TimerElementRenderer';
+import TemplateElementRenderer from './TemplateElementRenderer';
 import styles from '../styles/UnifiedOverlay.module.css';
 
 interface OverlayElementRendererProps {
@@ -31,8 +45,34 @@ function renderMetricElement(
   metrics: OverlayMetrics,
   scale: number
 ) {
-  const value = metrics[data.metric];
-  const info = getOverlayLabelAndValue(data.metric, value);
+  // Custom bridge metrics replace the NZXT metric while bound
+  const customSample = data.customMetric ? metrics.custom?.[data.customMetric] : undefined;
+  const info = data.customMetric
+    ? getCustomMetricDisplayInfo(
+        customSample?.definition ?? getMissingCustomMetricDefinition(data.customMetric),
+        getProcessedCustomMetricValue(metrics, data.customMetric, data.processing),
+        data.format
+      )
+    : getOverlayLabelAndValue(
+        data.metric,
+        getProcessedMetricValue(metrics, data.metric, data.device, data.processing),
+        data.format
+      );
+  // Stale/missing data: placeholder, dimmed value or hidden element
+  const noData = resolveNoDataDisplay(data.noDataStyle, getElementMetricFreshness(metrics, data.metric, data.customMetric));
+  const showPlaceholder = noData === 'placeholder';
+  const value = info.value;
+  // Thresholds only apply to values that are actually shown
+  const threshold = resolveMetricThresholdStyle(showPlaceholder ? undefined : data.thresholds, value);
+  const numberColor = threshold.numberColor ?? data.numberColor;
+  const textColor = threshold.textColor ?? data.textColor;
+  const outlineColor = threshold.outlineColor ?? data.outlineColor;
+  // Explicit format options use fixed decimals (and grouping) while animating
+  const formatNumber = data.format
+    ? (animated: number) => formatMetricNumber(animated, info.decimals, data.format?.thousandsSeparator)
+    : undefined;
+  // "GPU 2" for a specific non-first device; aggregates keep the plain label
+  const label = !data.customMetric && typeof data.device === 'number' && data.device > 0 ? `${info.label} ${data.device + 1}` : info.label;
   
   const numberSize = data.numberSize * scale;
   const unitSize = info.valueUnitType === "temp"
@@ -41,44 +81,64 @@ function renderMetricElement(
     ? numberSize * 0.35
     : numberSize * 0.2;
   
-  const isClock = info.valueUnitType === "clock";
+  // Clock, memory, power and RPM values show their unit as a label below the number
+  const isClock = info.valueUnitType !== "temp" && info.valueUnitType !== "percent" && info.valueUnit !== "";
   
   // Check if outline should be applied to number
-  const hasNumberOutline = data.outlineColor && 
-    data.outlineColor !== 'transparent' && 
+  const hasNumberOutline = outlineColor && 
+    outlineColor !== 'transparent' && 
     (data.outlineThickness ?? 0) > 0;
   const numberOutlineThickness = hasNumberOutline ? (data.outlineThickness ?? 0) * scale : 0;
+  const numberStyle = {
+    fontSize: `${numberSize}px`,
+    color: numberColor,
+    ...(hasNumberOutline && {
+      WebkitTextStroke: `${numberOutlineThickness}px ${outlineColor}`,
+      textStroke: `${numberOutlineThickness}px ${outlineColor}`,
+      paintOrder: 'stroke fill',
+    }),
+  };
+  const placeholderText = data.noDataText ?? DEFAULT_NO_DATA_TEXT;
   
   return (
-    <div className={styles.elementContainer}>
+    <div
+      className={[
+        styles.elementContainer,
+        threshold.blink && styles.blink,
+        noData === 'dim' && styles.stale,
+      ].filter(Boolean).join(' ')}
+      style={{
+        ...(data.font && { fontFamily: resolveFontFamily(data.font) }),
+        // Hidden keeps the layout box so selection and transforms still work
+        ...((threshold.hidden || noData === 'hide') && { visibility: 'hidden' }),
+      }}
+    >
       {/* Number + unit */}
       {!isClock ? (
         <div className={styles.numberContainer}>
-          <AnimateNumber
-            value={value}
-            className={styles.number}
-            style={{
-              fontSize: `${numberSize}px`,
-              color: data.numberColor,
-              ...(hasNumberOutline && {
-                WebkitTextStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                textStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                paintOrder: 'stroke fill',
-              }),
-            }}
-          />
+          {showPlaceholder ? (
+            <span className={styles.number} style={numberStyle}>{placeholderText}</span>
+          ) : (
+            <AnimateNumber
+              value={value}
+              decimalPlaces={info.decimals}
+              format={formatNumber}
+              className={styles.number}
+              style={numberStyle}
+            />
+          )}
           
           {/* Temperature unit */}
-          {info.valueUnit && info.valueUnitType === "temp" && (
+          {!showPlaceholder && info.valueUnit && info.valueUnitType === "temp" && (
             <span className={styles.unitContainer}>
               <span
                 className={styles.unit}
                 style={{
                   fontSize: `${unitSize}px`,
-                  color: data.numberColor,
+                  color: numberColor,
                   ...(hasNumberOutline && {
-                    WebkitTextStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                    textStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
+                    WebkitTextStroke: `${numberOutlineThickness}px ${outlineColor}`,
+                    textStroke: `${numberOutlineThickness}px ${outlineColor}`,
                     paintOrder: 'stroke fill',
                   }),
                 }}
@@ -89,15 +149,15 @@ function renderMetricElement(
           )}
           
           {/* Percentage unit */}
-          {info.valueUnit && info.valueUnitType === "percent" && (
+          {!showPlaceholder && info.valueUnit && info.valueUnitType === "percent" && (
             <span
               className={styles.unitPercent}
               style={{
                 fontSize: `${unitSize}px`,
-                color: data.numberColor,
+                color: numberColor,
                 ...(hasNumberOutline && {
-                  WebkitTextStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                  textStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
+                  WebkitTextStroke: `${numberOutlineThickness}px ${outlineColor}`,
+                  textStroke: `${numberOutlineThickness}px ${outlineColor}`,
                   paintOrder: 'stroke fill',
                 }),
               }}
@@ -109,58 +169,56 @@ function renderMetricElement(
       ) : (
         <>
           {/* Clock number */}
-          <AnimateNumber
-            value={value}
-            className={styles.clockNumber}
-            style={{
-              fontSize: `${numberSize}px`,
-              color: data.numberColor,
-              ...(hasNumberOutline && {
-                WebkitTextStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                textStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                paintOrder: 'stroke fill',
-              }),
-            }}
-            as="div"
-          />
+          {showPlaceholder ? (
+            <div className={styles.clockNumber} style={numberStyle}>{placeholderText}</div>
+          ) : (
+            <AnimateNumber
+              value={value}
+              decimalPlaces={info.decimals}
+              format={formatNumber}
+              className={styles.clockNumber}
+              style={numberStyle}
+              as="div"
+            />
+          )}
           
-          {/* MHz label */}
+          {/* Unit label (MHz/GHz, GB, W, RPM) */}
           <div
             className={styles.clockLabel}
             style={{
               fontSize: `${unitSize}px`,
               marginTop: -numberSize * 0.15,
               marginBottom: 6,
-              color: data.numberColor,
+              color: numberColor,
               ...(hasNumberOutline && {
-                WebkitTextStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
-                textStroke: `${numberOutlineThickness}px ${data.outlineColor}`,
+                WebkitTextStroke: `${numberOutlineThickness}px ${outlineColor}`,
+                textStroke: `${numberOutlineThickness}px ${outlineColor}`,
                 paintOrder: 'stroke fill',
               }),
             }}
           >
-            MHz
+            {showPlaceholder ? '' : info.valueUnit}
           </div>
         </>
       )}
       
       {/* Label */}
-      {data.showLabel !== false && data.textSize > 0 && data.textColor !== 'transparent' && (
+      {data.showLabel !== false && data.textSize > 0 && textColor !== 'transparent' && (
         <div
           className={styles.label}
           style={{
             fontSize: `${data.textSize * scale}px`,
-            color: data.textColor,
-            ...(data.outlineColor && 
-              data.outlineColor !== 'transparent' && 
+            color: textColor,
+            ...(outlineColor && 
+              outlineColor !== 'transparent' && 
               (data.outlineThickness ?? 0) > 0 && {
-              WebkitTextStroke: `${(data.outlineThickness ?? 0) * scale}px ${data.outlineColor}`,
-              textStroke: `${(data.outlineThickness ?? 0) * scale}px ${data.outlineColor}`,
+              WebkitTextStroke: `${(data.outlineThickness ?? 0) * scale}px ${outlineColor}`,
+              textStroke: `${(data.outlineThickness ?? 0) * scale}px ${outlineColor}`,
               paintOrder: 'stroke fill',
             }),
           }}
         >
-          {info.label}
+          {label}
         </div>
       )}
     </div>
@@ -169,6 +227,9 @@ function renderMetricElement(
 
 /**
  * Render a text element.
+ * 
+ * Rich text: each span inherits the element color/size/font unless overridden.
+ * Line breaks in span text start a new line (white-space: pre, no wrapping).
  */
 function renderTextElement(
   _element: OverlayElement,
@@ -186,8 +247,11 @@ function renderTextElement(
       style={{
         fontSize: `${data.textSize * scale}px`,
         color: data.textColor,
-        fontFamily: 'nzxt-extrabold',
-        whiteSpace: 'nowrap',
+        fontFamily: resolveFontFamily(data.font),
+        textAlign: data.textAlign ?? 'left',
+        letterSpacing: `${(data.letterSpacing ?? 0) * scale}px`,
+        lineHeight: data.lineHeight ?? DEFAULT_TEXT_LINE_HEIGHT,
+        whiteSpace: 'pre',
         userSelect: 'none',
         ...(hasOutline && {
           WebkitTextStroke: `${outlineThickness}px ${data.outlineColor}`,
@@ -196,7 +260,20 @@ function renderTextElement(
         }),
       }}
     >
-      {data.text}
+      {(data.spans ?? []).map((span, index) => (
+        <span
+          key={index}
+          style={{
+            ...(span.color && { color: span.color }),
+            ...(span.size !== undefined && { fontSize: `${span.size * scale}px` }),
+            ...(span.font && { fontFamily: resolveFontFamily(span.font) }),
+            ...(span.bold && { fontWeight: 700 }),
+            ...(span.italic && { fontStyle: 'italic' }),
+          }}
+        >
+          {span.text}
+        </span>
+      ))}
     </div>
   );
 }
@@ -266,11 +343,32 @@ function OverlayElementRenderer({
       return renderDividerElement(element, element.data as DividerElementData, scale);
     
     case 'clock':
+      if ((element.data as ClockElementData).style === 'analog') {
+        return <AnalogClockElementRenderer element={element} data={element.data as ClockElementData} scale={scale} />;
+      }
       return <ClockElementRenderer element={element} data={element.data as ClockElementData} scale={scale} />;
     
     case 'date':
       return <DateElementRenderer element={element} data={element.data as DateElementData} scale={scale} />;
     
+    case 'graph':
+      return <GraphElementRenderer element={element} data={element.data as GraphElementData} metrics={metrics} scale={scale} />;
+    
+    case 'gauge':
+      return <GaugeElementRenderer element={element} data={element.data as GaugeElementData} metrics={metrics} scale={scale} />;
+    
+    case 'bar':
+      return <BarElementRenderer element={element} data={element.data as BarElementData} metrics={metrics} scale={scale} />;
+    
+    case 'image':
+      return <ImageElementRenderer element={element} data={element.data as ImageElementData} scale={scale} />;
+    
+    case 'timer':
+      return <TimerElementRenderer element={element} data={element.data as TimerElementData} scale={scale} />;
+    
+    case 'template':
+      return <TemplateElementRenderer element={element} data={element.data as TemplateElementData} metrics={metrics} scale={scale} />;
+    
     default:
       return null;
   }
@@ -21,6 +21,8 @@ import {
   type StoredPreset
 } from '../../../preset/storage';
 import { exportPreset, importPreset, type ImportResult } from '../../../preset';
+import { usesLocalImages } from '../../../preset/utils/imageSource';
+import { findMissingCustomFonts } from '../../../preset/utils/fontReferences';
 import type { AppSettings } from '../../../constants/defaults';
 import type { Lang } from '@/i18n';
 import { useI18n } from '@/i18n/useI18n';
@@ -127,6 +129,11 @@ export default function PresetManager({
       }
       const presetFile = createPresetFromState(settings, mediaUrl, presetName, overlayElements);
       
+      // Non-blocking warning for overlay images that only exist on this machine
+      if (presetFile.misc?.localImageWarning) {
+        alert(t('localImageExportWarning'));
+      }
+      
       const newPreset: StoredPreset = {
         id: `preset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
         name: presetName,
@@ -200,6 +207,17 @@ export default function PresetManager({
       if (usesLocalMedia) {
         alert(t('localMediaImportWarning'));
       }
+      
+      // Non-blocking warning for overlay images stored on another machine
+      if (usesLocalImages(result.preset.overlay?.elements ?? [])) {
+        alert(t('localImageImportWarning'));
+      }
+      
+      // Non-blocking warning for custom fonts that are not stored in this browser
+      const missingFonts = await findMissingCustomFonts(result.preset.overlay?.elements ?? []);
+      if (missingFonts.length > 0) {
+        alert(t('customFontImportWarning').replace('{fonts}', missingFonts.map(font => font.name).join(', ')));
+      }
 
       const presetName = result.preset.presetName || `Preset ${new Date().toISOString().slice(0, 10)}`;
       
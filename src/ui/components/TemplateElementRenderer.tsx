@@ -0,0 +1,62 @@
+import { memo } from 'react';
+import type { OverlayElement, OverlayMetrics, TemplateElementData } from '../../types/overlay';
+import { renderTemplateString, getTemplateMetricKeys } from '../../domain/templateString';
+import { resolveFontFamily } from '../../domain/fonts';
+import styles from '../styles/UnifiedOverlay.module.css';
+
+interface TemplateElementRendererProps {
+  element: OverlayElement;
+  data: TemplateElementData;
+  metrics: OverlayMetrics;
+  scale?: number;
+}
+
+/**
+ * Template element renderer.
+ * Single-line text with metric placeholders interpolated (see domain/templateString.ts).
+ */
+function TemplateElementRenderer({
+  element: _element,
+  data,
+  metrics,
+  scale = 1,
+}: TemplateElementRendererProps) {
+  const hasOutline = data.outlineColor &&
+    data.outlineColor !== 'transparent' &&
+    (data.outlineThickness ?? 0) > 0;
+  const outlineThickness = hasOutline ? (data.outlineThickness ?? 0) * scale : 0;
+
+  return (
+    <div
+      className={styles.textElement}
+      style={{
+        fontSize: `${data.textSize * scale}px`,
+        color: data.textColor,
+        fontFamily: resolveFontFamily(data.font),
+        whiteSpace: 'pre',
+        userSelect: 'none',
+        ...(hasOutline && {
+          WebkitTextStroke: `${outlineThickness}px ${data.outlineColor}`,
+          textStroke: `${outlineThickness}px ${data.outlineColor}`,
+          paintOrder: 'stroke fill',
+        }),
+      }}
+    >
+      {renderTemplateString(data, metrics)}
+    </div>
+  );
+}
+
+/**
+ * Re-render only when the element changes or one of its referenced metrics changes.
+ * Metrics arrive as a new object on every monitoring update, so default
+ * shallow comparison would re-render on every tick.
+ */
+function areTemplatePropsEqual(prev: TemplateElementRendererProps, next: TemplateElementRendererProps): boolean {
+  if (prev.data !== next.data || prev.scale !== next.scale) {
+    return false;
+  }
+  return getTemplateMetricKeys(next.data.template).every(key => prev.metrics[key] === next.metrics[key]);
+}
+
+export default memo(TemplateElementRenderer, areTemplatePropsEqual);
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import type { OverlayElement, TimerElementData } from '../../types/overlay';
+import { formatDuration, estimateDurationFormatLength, durationFormatHasMilliseconds } from '../../domain/timeFormat';
+import { resolveFontFamily } from '../../domain/fonts';
+import styles from '../styles/UnifiedOverlay.module.css';
+
+interface TimerElementRendererProps {
+  element: OverlayElement;
+  data: TimerElementData;
+  scale?: number;
+}
+
+/**
+ * Update interval when the format shows milliseconds (SSS).
+ */
+const MILLISECOND_UPDATE_INTERVAL_MS = 50;
+
+/**
+ * sessionStorage key holding the session start timestamp (uptime mode).
+ */
+const SESSION_START_STORAGE_KEY = 'nzxtEscSessionStart';
+
+/**
+ * Stopwatch origin: when this module was loaded (i.e. page load).
+ */
+const PAGE_LOAD_TIME = Date.now();
+
+/**
+ * Returns the browser session start time, recording it on first use.
+ * Falls back to page load time if sessionStorage is unavailable.
+ */
+function getSessionStartTime(): number {
+  try {
+    const stored = Number(sessionStorage.getItem(SESSION_START_STORAGE_KEY));
+    if (Number.isFinite(stored) && stored > 0) {
+      return stored;
+    }
+    sessionStorage.setItem(SESSION_START_STORAGE_KEY, String(PAGE_LOAD_TIME));
+  } catch {
+    // sessionStorage blocked - uptime behaves like stopwatch
+  }
+  return PAGE_LOAD_TIME;
+}
+
+/**
+ * Timer element renderer.
+ * Shows a countdown, stopwatch or session uptime using a duration format string.
+ * Updates once per second (faster when milliseconds are shown).
+ */
+export default function TimerElementRenderer({
+  element: _element,
+  data,
+  scale = 1,
+}: TimerElementRendererProps) {
+  const [now, setNow] = useState(Date.now());
+  const showMilliseconds = durationFormatHasMilliseconds(data.format);
+
+  useEffect(() => {
+    const id = setInterval(() => {
+      setNow(Date.now());
+    }, showMilliseconds ? MILLISECOND_UPDATE_INTERVAL_MS : 1000);
+    return () => clearInterval(id);
+  }, [showMilliseconds]);
+
+  // Resolve duration for the current mode
+  let duration = 0;
+  let hasEnded = false;
+  if (data.mode === 'countdown') {
+    duration = (data.targetTimestamp ?? now) - now;
+    hasEnded = duration <= 0;
+  } else if (data.mode === 'uptime') {
+    duration = now - getSessionStartTime();
+  } else {
+    duration = now - PAGE_LOAD_TIME;
+  }
+
+  const displayText = hasEnded && data.endText ? data.endText : formatDuration(data.format, duration);
+  const color = hasEnded && data.endColor ? data.endColor : data.color;
+
+  // Check if outline should be applied (same as text element)
+  const hasOutline = data.outlineColor &&
+    data.outlineColor !== 'transparent' &&
+    (data.outlineThickness ?? 0) > 0;
+  const outlineThickness = hasOutline ? (data.outlineThickness ?? 0) * scale : 0;
+
+  // Determine font family based on font selection (same options as clock)
+  const fontFamily = resolveFontFamily(data.font);
+
+  // Fixed container width (matches BoundingBox.ts) so the box does not change while ticking
+  const timerLength = Math.max(estimateDurationFormatLength(data.format), data.endText?.length ?? 0) || 5;
+  const fontSize = data.fontSize * scale;
+  const containerWidth = Math.max(fontSize * timerLength * 0.6, fontSize * 2);
+
+  return (
+    <div
+      style={{
+        width: `${containerWidth}px`,
+        textAlign: 'left',
+      }}
+    >
+      <div
+        className={styles.textElement}
+        style={{
+          fontSize: `${fontSize}px`,
+          color,
+          fontFamily,
+          whiteSpace: 'nowrap',
+          userSelect: 'none',
+          ...(hasOutline && {
+            WebkitTextStroke: `${outlineThickness}px ${data.outlineColor}`,
+            textStroke: `${outlineThickness}px ${data.outlineColor}`,
+            paintOrder: 'stroke fill',
+          }),
+        }}
+      >
+        {displayText}
+      </div>
+    </div>
+  );
+}
@@ -15,11 +15,16 @@
  * - Caches render results based on element structure (not metric values)
  * - Skips re-render when only metric values change (for static text/divider elements)
  * - Always re-renders when element structure changes or during transforms
+ * 
+ * Group elements render nothing themselves; their children are regular
+ * elements (absolute coordinates), hidden together with a hidden group.
  */
 
 import { memo, useMemo } from 'react';
 import type { Overlay, OverlayMetrics } from '../../types/overlay';
 import OverlayElementRenderer from './OverlayElementRenderer';
+import { useCustomFonts } from '../../hooks/useCustomFonts';
+import { getHiddenGroupDescendantIds } from '../../domain/elementGroups';
 
 
 interface UnifiedOverlayRendererProps {
@@ -37,7 +42,7 @@ interface UnifiedOverlayRendererProps {
  * Creates a cache key from element structure (excluding metric values).
  * This allows caching static overlays while still updating metric displays.
  */
-function createElementCacheKey(elements: Array<{ id: string; type: string; x: number; y: number; angle?: number; zIndex?: number; data?: any }>): string {
+function createElementCacheKey(elements: Array<{ id: string; type: string; x: number; y: number; angle?: number; zIndex?: number; hidden?: boolean; data?: any }>): string {
   if (!Array.isArray(elements) || elements.length === 0) {
     return 'empty';
   }
@@ -51,6 +56,7 @@ function createElementCacheKey(elements: Array<{ id: string; type: string; x: nu
       y: el.y,
       angle: el.angle ?? 0,
       zIndex: el.zIndex ?? 0,
+      hidden: el.hidden === true,
     };
     
     // Include element-specific structure (size, color, etc.) but not metric values
@@ -58,16 +64,28 @@ function createElementCacheKey(elements: Array<{ id: string; type: string; x: nu
       return JSON.stringify({
         ...base,
         metricKey: el.data?.metricKey,
+        device: el.data?.device,
+        processing: el.data?.processing,
+        format: el.data?.format,
+        thresholds: el.data?.thresholds,
+        customMetric: el.data?.customMetric,
+        noDataStyle: el.data?.noDataStyle,
+        noDataText: el.data?.noDataText,
         numberSize: el.data?.numberSize,
         color: el.data?.color,
+        font: el.data?.font,
         // Explicitly exclude metric VALUE - that's in metrics prop
       });
     } else if (el.type === 'text') {
       return JSON.stringify({
         ...base,
-        text: el.data?.text,
+        spans: el.data?.spans,
         textSize: el.data?.textSize,
         color: el.data?.color,
+        font: el.data?.font,
+        textAlign: el.data?.textAlign,
+        letterSpacing: el.data?.letterSpacing,
+        lineHeight: el.data?.lineHeight,
       });
     } else if (el.type === 'divider') {
       return JSON.stringify({
@@ -80,10 +98,115 @@ function createElementCacheKey(elements: Array<{ id: string; type: string; x: nu
       return JSON.stringify({
         ...base,
         format: el.data?.format,
-        mode: el.data?.mode,
+        timeZone: el.data?.timeZone,
         fontSize: el.data?.fontSize,
         color: el.data?.color,
         font: el.data?.font || 'default', // Include font in cache key
+        style: el.data?.style || 'digital',
+        dialSize: el.data?.dialSize,
+        handStyle: el.data?.handStyle,
+        secondHandMotion: el.data?.secondHandMotion,
+        showTicks: el.data?.showTicks,
+        showNumerals: el.data?.showNumerals,
+        secondHandColor: el.data?.secondHandColor,
+        tickColor: el.data?.tickColor,
+        faceColor: el.data?.faceColor,
+        outlineColor: el.data?.outlineColor,
+        outlineThickness: el.data?.outlineThickness,
+      });
+    } else if (el.type === 'graph') {
+      return JSON.stringify({
+        ...base,
+        metric: el.data?.metric,
+        style: el.data?.style,
+        windowSeconds: el.data?.windowSeconds,
+        width: el.data?.width,
+        height: el.data?.height,
+        minValue: el.data?.minValue,
+        maxValue: el.data?.maxValue,
+        autoScale: el.data?.autoScale,
+        strokeColor: el.data?.strokeColor,
+        strokeWidth: el.data?.strokeWidth,
+        fillColor: el.data?.fillColor,
+        processing: el.data?.processing,
+      });
+    } else if (el.type === 'gauge') {
+      return JSON.stringify({
+        ...base,
+        metric: el.data?.metric,
+        size: el.data?.size,
+        startAngle: el.data?.startAngle,
+        endAngle: el.data?.endAngle,
+        thickness: el.data?.thickness,
+        trackColor: el.data?.trackColor,
+        valueColor: el.data?.valueColor,
+        minValue: el.data?.minValue,
+        maxValue: el.data?.maxValue,
+        roundCaps: el.data?.roundCaps,
+        showTicks: el.data?.showTicks,
+        tickCount: el.data?.tickCount,
+        tickColor: el.data?.tickColor,
+        processing: el.data?.processing,
+      });
+    } else if (el.type === 'bar') {
+      return JSON.stringify({
+        ...base,
+        metric: el.data?.metric,
+        orientation: el.data?.orientation,
+        mode: el.data?.mode,
+        width: el.data?.width,
+        height: el.data?.height,
+        fillColor: el.data?.fillColor,
+        trackColor: el.data?.trackColor,
+        gradientEndColor: el.data?.gradientEndColor,
+        segmentCount: el.data?.segmentCount,
+        segmentGap: el.data?.segmentGap,
+        cornerRadius: el.data?.cornerRadius,
+        minValue: el.data?.minValue,
+        maxValue: el.data?.maxValue,
+        outlineColor: el.data?.outlineColor,
+        outlineThickness: el.data?.outlineThickness,
+        processing: el.data?.processing,
+      });
+    } else if (el.type === 'image') {
+      return JSON.stringify({
+        ...base,
+        source: el.data?.source,
+        url: el.data?.url,
+        localImageId: el.data?.localImageId,
+        width: el.data?.width,
+        height: el.data?.height,
+        fit: el.data?.fit,
+        opacity: el.data?.opacity,
+      });
+    } else if (el.type === 'timer') {
+      return JSON.stringify({
+        ...base,
+        mode: el.data?.mode,
+        format: el.data?.format,
+        targetTimestamp: el.data?.targetTimestamp,
+        fontSize: el.data?.fontSize,
+        color: el.data?.color,
+        font: el.data?.font || 'default',
+        endText: el.data?.endText,
+        endColor: el.data?.endColor,
+      });
+    } else if (el.type === 'group') {
+      return JSON.stringify({
+        ...base,
+        childIds: el.data?.childIds,
+        width: el.data?.width,
+        height: el.data?.height,
+      });
+    } else if (el.type === 'template') {
+      return JSON.stringify({
+        ...base,
+        template: el.data?.template,
+        placeholderFormats: el.data?.placeholderFormats,
+        textSize: el.data?.textSize,
+        textColor: el.data?.textColor,
+        font: el.data?.font,
+        // Metric values excluded - TemplateElementRenderer compares its referenced metrics itself
       });
     }
     return JSON.stringify(base);
@@ -110,15 +233,20 @@ function UnifiedOverlayRenderer({
   // CRITICAL: All hooks must be called unconditionally before any early returns
   // This ensures React hooks order is stable across all renders
   
-  // Sort elements by zIndex (default to array index if not set)
+  // Sort elements by zIndex (default to array index if not set), skipping hidden layers
+  // (children of hidden groups included)
   // Must be called unconditionally - even if we return early
   const sortedElements = useMemo(() => {
+    const hiddenByGroup = getHiddenGroupDescendantIds(safeElements);
     return [...safeElements].sort((a, b) => {
       const aZ = a.zIndex !== undefined ? a.zIndex : safeElements.indexOf(a);
       const bZ = b.zIndex !== undefined ? b.zIndex : safeElements.indexOf(b);
       return aZ - bZ;
-    });
+    }).filter(element => !element.hidden && !hiddenByGroup.has(element.id));
   }, [safeElements]);
+  
+  // Register uploaded fonts with the browser (elements reference them via resolveFontFamily)
+  useCustomFonts();
 
   // NOW we can do early returns after all hooks are called
   if (overlay.mode === 'none' || safeElements.length === 0) {
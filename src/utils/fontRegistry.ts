@@ -0,0 +1,128 @@
+/**
+ * Custom font registry.
+ *
+ * Keeps the list of uploaded fonts and registers each one with the browser
+ * (FontFace API) under its hash-based family name, so renderers only need
+ * resolveFontFamily() from domain/fonts.ts.
+ *
+ * Shared by the configuration page and the Kraken LCD page; both read the
+ * same IndexedDB store (same origin).
+ */
+
+import type { CustomFontRef } from '../types/overlay';
+import { getCustomFontFamilyName } from '../domain/fonts';
+import { listLocalFonts, saveLocalFont, hashFontData, isSupportedFontFile, MAX_LOCAL_FONT_SIZE_BYTES } from './localFontStore';
+
+let customFonts: CustomFontRef[] = [];
+let loadPromise: Promise<void> | null = null;
+const registeredHashes = new Set<string>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Creates and loads a FontFace. Rejects if the data is not a usable font.
+ */
+async function loadFontFace(hash: string, data: ArrayBuffer): Promise<FontFace> {
+  const face = new FontFace(getCustomFontFamilyName(hash), data);
+  await face.load();
+  return face;
+}
+
+/**
+ * Adds a loaded FontFace to the document (once per hash).
+ */
+function registerFontFace(hash: string, face: FontFace): void {
+  if (registeredHashes.has(hash)) {
+    return;
+  }
+  document.fonts.add(face);
+  registeredHashes.add(hash);
+}
+
+/**
+ * Returns the currently known custom fonts.
+ */
+export function getCustomFonts(): CustomFontRef[] {
+  return customFonts;
+}
+
+/**
+ * Subscribes to custom font list changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeCustomFonts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Loads all stored fonts from IndexedDB and registers them (runs once).
+ * Fonts that fail to load are skipped.
+ */
+export function loadCustomFonts(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      if (typeof document === 'undefined' || typeof FontFace === 'undefined') {
+        return;
+      }
+      const records = await listLocalFonts();
+      for (const record of records) {
+        try {
+          registerFontFace(record.hash, await loadFontFace(record.hash, await record.blob.arrayBuffer()));
+          if (!customFonts.some(font => font.hash === record.hash)) {
+            customFonts = [...customFonts, { hash: record.hash, name: record.name }];
+          }
+        } catch {
+          // Corrupt or unsupported font data - skip
+        }
+      }
+      notify();
+    })().catch(() => {
+      // IndexedDB unavailable - no custom fonts
+    });
+  }
+  return loadPromise;
+}
+
+/**
+ * Uploads a font file: validates it, stores it in IndexedDB and registers it.
+ *
+ * @param file - TTF/OTF/WOFF2 file selected by the user
+ * @returns Reference to store on overlay elements
+ * @throws Error if the file is too large, unsupported, not a valid font, or storage fails
+ */
+export async function addCustomFont(file: File): Promise<CustomFontRef> {
+  // Checked before reading the file into memory
+  if (file.size > MAX_LOCAL_FONT_SIZE_BYTES) {
+    throw new Error('Font file is too large');
+  }
+  if (!isSupportedFontFile(file)) {
+    throw new Error('Unsupported font file type');
+  }
+
+  const data = await file.arrayBuffer();
+  const hash = await hashFontData(data);
+
+  // FontFace rejects data the browser cannot use - never store such files
+  let face: FontFace;
+  try {
+    face = await loadFontFace(hash, data.slice(0));
+  } catch {
+    throw new Error('Invalid font file');
+  }
+
+  const ref = await saveLocalFont(file, data);
+  registerFontFace(ref.hash, face);
+
+  if (!customFonts.some(font => font.hash === ref.hash)) {
+    customFonts = [...customFonts, ref];
+    notify();
+  }
+  return ref;
+}
@@ -0,0 +1,165 @@
+/**
+ * Local font storage (IndexedDB).
+ *
+ * Stores user-uploaded font files for overlay elements, the same way overlay
+ * images are kept out of localStorage and preset files:
+ * - Font binaries live ONLY in IndexedDB
+ * - Elements reference fonts by { hash, name } (see CustomFontRef)
+ * - Exported presets never contain font data
+ *
+ * Records are keyed by the SHA-256 hash of the file, so uploading the same
+ * font twice (or on two machines) resolves to the same reference.
+ */
+
+import type { CustomFontRef } from '../types/overlay';
+
+const DB_NAME = 'nzxt-esc-overlay-fonts';
+const DB_VERSION = 1;
+const STORE_NAME = 'fonts';
+
+/**
+ * Maximum font file size accepted.
+ */
+export const MAX_LOCAL_FONT_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Supported font file extensions (lowercase, with dot).
+ */
+export const SUPPORTED_FONT_EXTENSIONS = ['.ttf', '.otf', '.woff2'] as const;
+
+/**
+ * Stored font record.
+ */
+export interface LocalFontRecord {
+  hash: string;
+  name: string;
+  blob: Blob;
+  fileName: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Opens (and upgrades if needed) the font database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open font database'));
+  });
+}
+
+/**
+ * Runs a single request against the font store and closes the connection afterwards.
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('Font database request failed'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Computes the SHA-256 hash (lowercase hex) of font file contents.
+ */
+export async function hashFontData(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Checks whether a file has a supported font extension.
+ * (Font MIME types are not reported consistently, so only the extension is checked.)
+ */
+export function isSupportedFontFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return SUPPORTED_FONT_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+/**
+ * Derives a display name from a font file name ("My Font.otf" → "My Font").
+ */
+export function getFontDisplayName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').trim() || fileName;
+}
+
+/**
+ * Saves a font file to IndexedDB.
+ *
+ * @param file - Font file selected by the user
+ * @param data - File contents (already read by the caller for validation)
+ * @returns Reference to store on overlay elements
+ * @throws Error if the file is too large, unsupported, or storage fails
+ */
+export async function saveLocalFont(file: File, data: ArrayBuffer): Promise<CustomFontRef> {
+  if (file.size > MAX_LOCAL_FONT_SIZE_BYTES) {
+    throw new Error('Font file is too large');
+  }
+  if (!isSupportedFontFile(file)) {
+    throw new Error('Unsupported font file type');
+  }
+
+  const hash = await hashFontData(data);
+  const existing = await getLocalFont(hash);
+  if (existing) {
+    return { hash: existing.hash, name: existing.name };
+  }
+
+  const record: LocalFontRecord = {
+    hash,
+    name: getFontDisplayName(file.name),
+    blob: file,
+    fileName: file.name,
+    size: file.size,
+    createdAt: new Date().toISOString(),
+  };
+
+  await runRequest<IDBValidKey>('readwrite', store => store.put(record));
+
+  return { hash: record.hash, name: record.name };
+}
+
+/**
+ * Loads a font record from IndexedDB.
+ *
+ * @param hash - Font hash (from CustomFontRef.hash)
+ * @returns Stored record, or null if it does not exist on this machine
+ */
+export async function getLocalFont(hash: string): Promise<LocalFontRecord | null> {
+  const record = await runRequest<LocalFontRecord | undefined>('readonly', store => store.get(hash));
+  return record ?? null;
+}
+
+/**
+ * Lists all stored font records (oldest first).
+ */
+export async function listLocalFonts(): Promise<LocalFontRecord[]> {
+  const records = await runRequest<LocalFontRecord[]>('readonly', store => store.getAll());
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
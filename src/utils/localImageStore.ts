@@ -0,0 +1,133 @@
+/**
+ * Local image storage (IndexedDB).
+ *
+ * Stores image binaries for overlay image elements, the same way background
+ * local media is kept out of localStorage and preset files:
+ * - Binary data lives ONLY in IndexedDB
+ * - Overlay elements keep metadata only (localImageId + localFileName)
+ * - Exported presets never contain image data
+ */
+
+const DB_NAME = 'nzxt-esc-overlay-images';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+
+/**
+ * Maximum image size accepted for overlay images.
+ */
+export const MAX_LOCAL_IMAGE_SIZE_BYTES = 10 * 1024 * 1024; // 10 MB
+
+/**
+ * Supported image file extensions (lowercase, with dot).
+ */
+export const SUPPORTED_IMAGE_EXTENSIONS = ['.png', '.svg', '.gif', '.jpg', '.jpeg', '.webp'] as const;
+
+/**
+ * Stored image record.
+ */
+export interface LocalImageRecord {
+  id: string;
+  blob: Blob;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Opens (and upgrades if needed) the overlay image database.
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Failed to open image database'));
+  });
+}
+
+/**
+ * Runs a single request against the image store and closes the connection afterwards.
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = createRequest(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error ?? new Error('Image database request failed'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Checks whether a file is a supported image (extension or MIME type).
+ */
+export function isSupportedImageFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  const mime = file.type || '';
+  const isSupportedExtension = SUPPORTED_IMAGE_EXTENSIONS.some(ext => name.endsWith(ext));
+  return isSupportedExtension || mime.startsWith('image/');
+}
+
+/**
+ * Saves an image file to IndexedDB.
+ *
+ * @param file - Image file selected by the user
+ * @returns Metadata to store on the overlay element
+ * @throws Error if the file is too large, unsupported, or storage fails
+ */
+export async function saveLocalImage(file: File): Promise<{ localImageId: string; localFileName: string }> {
+  if (file.size > MAX_LOCAL_IMAGE_SIZE_BYTES) {
+    throw new Error('Image file is too large');
+  }
+  if (!isSupportedImageFile(file)) {
+    throw new Error('Unsupported image file type');
+  }
+
+  const record: LocalImageRecord = {
+    id: `image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    blob: file,
+    fileName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    createdAt: new Date().toISOString(),
+  };
+
+  await runRequest<IDBValidKey>('readwrite', store => store.put(record));
+
+  return {
+    localImageId: record.id,
+    localFileName: record.fileName,
+  };
+}
+
+/**
+ * Loads an image record from IndexedDB.
+ *
+ * @param id - Local image ID (from ImageElementData.localImageId)
+ * @returns Stored record, or null if it does not exist on this machine
+ */
+export async function getLocalImage(id: string): Promise<LocalImageRecord | null> {
+  const record = await runRequest<LocalImageRecord | undefined>('readonly', store => store.get(id));
+  return record ?? null;
+}
+
@@ -0,0 +1,323 @@
+/**
+ * External metric bridge.
+ *
+ * Optional WebSocket client for a user-configured local endpoint
+ * (e.g. ws://localhost:8765) that provides custom metrics NZXT CAM does not
+ * expose. Custom samples are merged into OverlayMetrics.custom by
+ * useCustomMetrics (see domain/customMetrics.ts).
+ *
+ * Protocol (JSON text messages, both keys optional):
+ *   { "metrics": [{ "id": "vrmTemp", "label": "VRM", "unit": "°", "unitType": "temp" }],
+ *     "values": { "vrmTemp": 61.5 } }
+ * - Definitions are kept until replaced; values for undeclared ids are ignored
+ * - A value is stale when it was not updated for METRIC_STALE_TIMEOUT_MS,
+ *   or while the bridge is disconnected
+ * - Lost connections are retried with exponential backoff
+ *
+ * Only loopback hosts are accepted, so an overlay cannot be pointed at a
+ * remote server. Configuration is stored in localStorage and shared by the
+ * configuration page and the Kraken LCD page (same origin).
+ */
+
+import type { CustomMetricDefinition, CustomMetricSample } from '../types/overlay';
+import { isValidCustomMetricDefinition, isValidCustomMetricId, MAX_CUSTOM_METRICS } from '../domain/customMetrics';
+import { devError, devWarn } from '../debug/dev';
+
+export type MetricBridgeStatus = 'disabled' | 'invalidUrl' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface MetricBridgeConfig {
+  enabled: boolean;
+  url: string;
+}
+
+const STORAGE_KEY = 'nzxtMetricBridge';
+
+export const DEFAULT_METRIC_BRIDGE_URL = 'ws://localhost:8765';
+
+/**
+ * Values older than this are marked stale.
+ */
+export const METRIC_STALE_TIMEOUT_MS = 10 * 1000;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+const STALE_CHECK_INTERVAL_MS = 1000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+let status: MetricBridgeStatus = 'disabled';
+let definitions = new Map<string, CustomMetricDefinition>();
+const values = new Map<string, { value: number; receivedAt: number }>();
+let samples: Record<string, CustomMetricSample> = {};
+
+let socket: WebSocket | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let staleTimer: ReturnType<typeof setInterval> | null = null;
+let retryDelay = INITIAL_RETRY_DELAY_MS;
+let activeUsers = 0;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Checks whether a URL is a ws:// or wss:// URL on a loopback host.
+ * URLs with a fragment are rejected (the WebSocket constructor throws for them).
+ */
+export function isLoopbackBridgeUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'ws:' || parsed.protocol === 'wss:') &&
+      LOOPBACK_HOSTS.includes(parsed.hostname) &&
+      !url.includes('#');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the stored bridge configuration (disabled by default).
+ */
+export function getMetricBridgeConfig(): MetricBridgeConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<MetricBridgeConfig>;
+      return {
+        enabled: parsed.enabled === true,
+        url: typeof parsed.url === 'string' ? parsed.url : DEFAULT_METRIC_BRIDGE_URL,
+      };
+    }
+  } catch {
+    // Fall through to defaults
+  }
+  return { enabled: false, url: DEFAULT_METRIC_BRIDGE_URL };
+}
+
+/**
+ * Stores the bridge configuration and reconnects with it.
+ * Other pages pick the change up through the storage event.
+ */
+export function setMetricBridgeConfig(config: MetricBridgeConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    devError('MetricBridge', 'Failed to save configuration', { error });
+  }
+  if (activeUsers > 0) {
+    connect();
+  }
+}
+
+/**
+ * Returns the current connection status.
+ */
+export function getMetricBridgeStatus(): MetricBridgeStatus {
+  return status;
+}
+
+/**
+ * Returns the latest custom metric samples by id.
+ * A new object is returned after every change.
+ */
+export function getCustomMetricSamples(): Record<string, CustomMetricSample> {
+  return samples;
+}
+
+/**
+ * Subscribes to status and sample changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeMetricBridge(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function setStatus(next: MetricBridgeStatus): void {
+  if (status !== next) {
+    status = next;
+    notify();
+  }
+}
+
+/**
+ * Rebuilds the samples snapshot. Unchanged samples keep their identity
+ * (utils/metricPipeline.ts uses it to detect new values).
+ */
+function rebuildSamples(): void {
+  const now = Date.now();
+  const next: Record<string, CustomMetricSample> = {};
+  values.forEach((entry, id) => {
+    const definition = definitions.get(id);
+    if (!definition) return;
+    const stale = status !== 'connected' || now - entry.receivedAt > METRIC_STALE_TIMEOUT_MS;
+    const previous = samples[id];
+    next[id] = previous && previous.definition === definition && previous.value === entry.value && previous.stale === stale
+      ? previous
+      : { definition, value: entry.value, stale };
+  });
+
+  const changed = Object.keys(next).length !== Object.keys(samples).length ||
+    Object.keys(next).some(id => next[id] !== samples[id]);
+  if (changed) {
+    samples = next;
+    notify();
+  }
+}
+
+/**
+ * Applies one bridge message. Invalid entries are skipped.
+ */
+function handleMessage(data: unknown): void {
+  if (typeof data !== 'string') return;
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return;
+  }
+  if (typeof message !== 'object' || message === null) return;
+  const { metrics, values: incoming } = message as { metrics?: unknown; values?: unknown };
+
+  if (Array.isArray(metrics)) {
+    const next = new Map(definitions);
+    metrics.forEach(definition => {
+      if (isValidCustomMetricDefinition(definition) && (next.has(definition.id) || next.size < MAX_CUSTOM_METRICS)) {
+        next.set(definition.id, definition);
+      }
+    });
+    definitions = next;
+  }
+
+  if (typeof incoming === 'object' && incoming !== null) {
+    const now = Date.now();
+    Object.entries(incoming as Record<string, unknown>).forEach(([id, value]) => {
+      if (isValidCustomMetricId(id) && definitions.has(id) && typeof value === 'number' && Number.isFinite(value)) {
+        values.set(id, { value, receivedAt: now });
+      }
+    });
+  }
+
+  rebuildSamples();
+}
+
+function clearRetryTimer(): void {
+  if (retryTimer !== null) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+}
+
+function closeSocket(): void {
+  if (socket) {
+    const closing = socket;
+    socket = null;
+    closing.onopen = null;
+    closing.onmessage = null;
+    closing.onclose = null;
+    closing.onerror = null;
+    closing.close();
+  }
+}
+
+function scheduleReconnect(): void {
+  clearRetryTimer();
+  setStatus('reconnecting');
+  rebuildSamples();
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    openSocket(getMetricBridgeConfig().url);
+  }, retryDelay);
+  retryDelay = Math.min(MAX_RETRY_DELAY_MS, retryDelay * 2);
+}
+
+/**
+ * Opens the socket. The URL was checked by connect(); if the WebSocket
+ * constructor still rejects it, retrying cannot help, so the bridge stops
+ * with status "invalidUrl".
+ */
+function openSocket(url: string): void {
+  try {
+    socket = new WebSocket(url);
+  } catch (error) {
+    devWarn('MetricBridge', 'Invalid bridge URL', { url, error });
+    socket = null;
+    definitions = new Map();
+    values.clear();
+    setStatus('invalidUrl');
+    rebuildSamples();
+    return;
+  }
+  socket.onopen = () => {
+    retryDelay = INITIAL_RETRY_DELAY_MS;
+    setStatus('connected');
+  };
+  socket.onmessage = (event: MessageEvent) => handleMessage(event.data);
+  socket.onclose = () => {
+    socket = null;
+    scheduleReconnect();
+  };
+}
+
+/**
+ * (Re)connects using the stored configuration.
+ */
+function connect(): void {
+  clearRetryTimer();
+  closeSocket();
+  retryDelay = INITIAL_RETRY_DELAY_MS;
+
+  const config = getMetricBridgeConfig();
+  if (!config.enabled || typeof WebSocket === 'undefined' || !isLoopbackBridgeUrl(config.url)) {
+    // Drop data of the previous endpoint
+    definitions = new Map();
+    values.clear();
+    setStatus(config.enabled && typeof WebSocket !== 'undefined' ? 'invalidUrl' : 'disabled');
+  } else {
+    setStatus('connecting');
+    openSocket(config.url);
+  }
+  rebuildSamples();
+}
+
+function handleStorage(event: StorageEvent): void {
+  if (event.key === STORAGE_KEY) {
+    connect();
+  }
+}
+
+/**
+ * Starts the bridge for one user (reference counted).
+ *
+ * @returns Stop function; the connection closes when the last user stops
+ */
+export function startMetricBridge(): () => void {
+  activeUsers++;
+  if (activeUsers === 1) {
+    window.addEventListener('storage', handleStorage);
+    staleTimer = setInterval(rebuildSamples, STALE_CHECK_INTERVAL_MS);
+    connect();
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    activeUsers--;
+    if (activeUsers === 0) {
+      window.removeEventListener('storage', handleStorage);
+      if (staleTimer !== null) {
+        clearInterval(staleTimer);
+        staleTimer = null;
+      }
+      clearRetryTimer();
+      closeSocket();
+      setStatus('disabled');
+      rebuildSamples();
+    }
+  };
+}
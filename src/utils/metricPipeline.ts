@@ -0,0 +1,121 @@
+/**
+ * Metric processing pipeline.
+ *
+ * Sits between monitoring updates and the renderers: every metric-bound
+ * renderer asks for its value here instead of reading metrics[key] directly.
+ *
+ * - One processor per (metric, device, processing config), shared by all
+ *   elements with the same configuration
+ * - A sample is pushed once per monitoring payload (safeNZXT payload
+ *   sequence); re-renders and rebuilt metrics objects (freshness, custom
+ *   metrics) return the cached value
+ * - Mock data (no payloads) falls back to the metrics object identity
+ * - Custom bridge metrics push once per bridge sample instead
+ * - Processors unused for a while are dropped (e.g. after editing the window)
+ */
+
+import type { MetricDeviceSelector, MetricProcessing, OverlayMetricKey, OverlayMetrics } from '../types/overlay';
+import { createMetricProcessor, hasMetricProcessing, type MetricProcessor } from '../domain/metricProcessing';
+import { resolveMetricValue } from '../domain/metricDevices';
+import { safeNZXT } from '../nzxt/safeNZXT';
+
+/**
+ * Processors idle for longer than this are removed.
+ */
+const PROCESSOR_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PipelineEntry {
+  processor: MetricProcessor;
+  lastSample: unknown;
+  lastValue: number;
+  lastUsed: number;
+}
+
+const entries = new Map<string, PipelineEntry>();
+
+function getEntryKey(source: string, device: MetricDeviceSelector | undefined, processing: MetricProcessing): string {
+  return [source, device ?? '', processing.mode, processing.windowSeconds ?? '', processing.decayPerSecond ?? ''].join('|');
+}
+
+function pruneIdleEntries(now: number): void {
+  entries.forEach((entry, entryKey) => {
+    if (now - entry.lastUsed > PROCESSOR_IDLE_TIMEOUT_MS) {
+      entries.delete(entryKey);
+    }
+  });
+}
+
+/**
+ * Returns the processed value of a metric for the current monitoring update.
+ * Without processing (or mode "raw") this is the plain device-resolved value.
+ *
+ * @param metrics - Current metrics
+ * @param key - Metric key
+ * @param device - Device selector (undefined = first device)
+ * @param processing - Processing configuration of the element
+ */
+export function getProcessedMetricValue(
+  metrics: OverlayMetrics,
+  key: OverlayMetricKey,
+  device: MetricDeviceSelector | undefined,
+  processing: MetricProcessing | undefined
+): number {
+  const rawValue = resolveMetricValue(metrics, key, device);
+  if (!hasMetricProcessing(processing)) {
+    return rawValue;
+  }
+
+  const sequence = safeNZXT.getMonitoringPayloadSequence();
+  return processValue(getEntryKey(key, device, processing), sequence > 0 ? sequence : metrics, rawValue, processing);
+}
+
+/**
+ * Returns the processed value of a custom bridge metric (NaN while missing).
+ * A new sample is pushed whenever the bridge delivers a new value.
+ *
+ * @param metrics - Current metrics object
+ * @param id - Custom metric id (see domain/customMetrics.ts)
+ * @param processing - Processing configuration of the element
+ */
+export function getProcessedCustomMetricValue(
+  metrics: OverlayMetrics,
+  id: string,
+  processing: MetricProcessing | undefined
+): number {
+  const sample = metrics.custom?.[id];
+  if (!sample) {
+    return NaN;
+  }
+  if (!hasMetricProcessing(processing)) {
+    return sample.value;
+  }
+  // Bridge sample objects keep their identity until the value changes
+  return processValue(getEntryKey(`custom:${id}`, undefined, processing), sample, sample.value, processing);
+}
+
+/**
+ * Pushes a value once per sample (payload sequence or sample object) and returns the processed value.
+ */
+function processValue(entryKey: string, sample: unknown, rawValue: number, processing: MetricProcessing): number {
+  const now = Date.now();
+  let entry = entries.get(entryKey);
+  if (!entry) {
+    pruneIdleEntries(now);
+    entry = { processor: createMetricProcessor(processing), lastSample: null, lastValue: rawValue, lastUsed: now };
+    entries.set(entryKey, entry);
+  }
+
+  if (entry.lastSample !== sample) {
+    entry.lastValue = entry.processor.push(rawValue, now);
+    entry.lastSample = sample;
+  }
+  entry.lastUsed = now;
+  return entry.lastValue;
+}
+
+/**
+ * Drops all processor state (min/max and averages start over).
+ */
+export function resetMetricPipeline(): void {
+  entries.clear();
+}
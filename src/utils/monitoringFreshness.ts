@@ -0,0 +1,123 @@
+/**
+ * Monitoring freshness tracker.
+ *
+ * Watches delivered NZXT payloads (safeNZXT.onMonitoringPayload) and keeps a
+ * per-metric freshness map (see domain/metricFreshness.ts):
+ * - Metrics absent from the latest payload are missing (instead of showing 0)
+ * - All reported metrics turn stale when no payload arrives for
+ *   MONITORING_STALE_TIMEOUT_MS
+ *
+ * Changing the monitoring source (simulator, replay) starts over, so a
+ * previous source never marks the next one stale.
+ */
+
+import type { NZXTMonitoringData } from '../types/nzxt';
+import { safeNZXT } from '../nzxt/safeNZXT';
+import { mapMonitoringData } from '../nzxt/monitoringMetrics';
+import { computeMetricFreshness, type MetricFreshnessMap } from '../domain/metricFreshness';
+
+/**
+ * Payload age after which monitoring is considered stalled.
+ */
+export const MONITORING_STALE_TIMEOUT_MS = 5 * 1000;
+
+const CHECK_INTERVAL_MS = 1000;
+
+let lastPayloadAt: number | null = null;
+let presentKeys = new Set<string>();
+let freshness: MetricFreshnessMap = {};
+let freshnessKey = '{}';
+
+let activeUsers = 0;
+let stopTracking: (() => void) | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Recomputes the freshness map; listeners are only notified on changes.
+ */
+function update(): void {
+  const next = computeMetricFreshness(presentKeys, lastPayloadAt, Date.now(), MONITORING_STALE_TIMEOUT_MS);
+  const nextKey = JSON.stringify(next);
+  if (nextKey !== freshnessKey) {
+    freshness = next;
+    freshnessKey = nextKey;
+    listeners.forEach(listener => listener());
+  }
+}
+
+function handlePayload(data: NZXTMonitoringData): void {
+  const keys = new Set<string>();
+  try {
+    Object.keys(mapMonitoringData(data)).forEach(key => {
+      if (key !== 'devices') keys.add(key);
+    });
+  } catch {
+    // Malformed payload - treat every metric as missing
+  }
+  presentKeys = keys;
+  lastPayloadAt = Date.now();
+  update();
+}
+
+function reset(): void {
+  presentKeys = new Set();
+  lastPayloadAt = null;
+  update();
+}
+
+/**
+ * Returns the current freshness map (empty until the first payload).
+ */
+export function getMetricFreshnessMap(): MetricFreshnessMap {
+  return freshness;
+}
+
+/**
+ * Returns the time of the latest payload (null = none since the source changed).
+ */
+export function getLastMonitoringPayloadAt(): number | null {
+  return lastPayloadAt;
+}
+
+/**
+ * Subscribes to freshness changes.
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeMetricFreshness(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Starts tracking for one user (reference counted).
+ *
+ * @returns Stop function; tracking ends when the last user stops
+ */
+export function startMetricFreshnessTracking(): () => void {
+  activeUsers++;
+  if (activeUsers === 1) {
+    const offPayload = safeNZXT.onMonitoringPayload(handlePayload);
+    const offSource = safeNZXT.onMonitoringSourceChange(reset);
+    const timer = setInterval(update, CHECK_INTERVAL_MS);
+    stopTracking = () => {
+      offPayload();
+      offSource();
+      clearInterval(timer);
+    };
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    activeUsers--;
+    if (activeUsers === 0) {
+      stopTracking?.();
+      stopTracking = null;
+      reset();
+    }
+  };
+}